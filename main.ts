@@ -6,6 +6,12 @@ import { TaskStore } from './src/TaskStore';
 import { registerAllCommands } from './src/commands/commandsIndex';
 import { TooltipManager } from './src/utils/tooltipManager';
 import { Logger } from './src/utils/logger';
+import type { MarkdownMirrorConfig, SyncBackendConfig } from './src/data-layer/types';
+import { SYNC_BACKEND_LABELS } from './src/services/syncBackends';
+import { PluginApi } from './src/api/PluginApi';
+import { TaskEmbedBlock } from './src/components/TaskEmbedBlock';
+import { TASK_EMBED_LANGUAGE } from './src/tasks/taskEmbed';
+import type { CalendarViewType } from './src/types';
 
 // 管理器
 import { SettingsManager } from './src/managers/SettingsManager';
@@ -16,6 +22,8 @@ export default class GanttCalendarPlugin extends Plugin {
 	// 公共属性
 	settings: GanttCalendarSettings;
 	taskCache: TaskStore;
+	/** 公共 API（供其他插件与脚本使用，见 src/api/gantt-calendar-api.d.ts） */
+	api: PluginApi;
 
 	// 管理器实例
 	private settingsManager: SettingsManager;
@@ -34,8 +42,27 @@ export default class GanttCalendarPlugin extends Plugin {
 		this.taskCache = new TaskStore(this.app);
 		this.scheduleTaskCacheInit();
 
-		// 3.5 初始化 GitHub 同步（如果已配置）
+		// 3.5 初始化 GitHub 及其他同步后端（如果已配置）
 		this.initGitHubSync();
+		this.initRemoteSync();
+
+		// 3.6 初始化本地提醒通知
+		this.taskCache.configureReminderNotifications(this.settings.localNotifications);
+
+		// 3.7 回收站保留期
+		this.taskCache.configureTrash(this.settings.trashRetentionDays);
+
+		// 3.8 Markdown 镜像
+		this.initMarkdownMirror();
+
+		// 3.9 iCalendar 导出
+		this.taskCache.configureIcsExport(this.settings.icsExport);
+
+		// 3.10 订阅日历
+		this.taskCache.configureIcsCalendars(this.settings.icsCalendars);
+
+		// 3.11 本地备份
+		this.taskCache.configureBackups(this.settings.backups);
 
 		// 4. 初始化视图管理器
 		this.viewManager = new ViewManager(this.app);
@@ -55,11 +82,20 @@ export default class GanttCalendarPlugin extends Plugin {
 
 		// 9. 添加设置标签
 		this.addSettingTab(new GanttCalendarSettingTab(this.app, this));
+
+		// 10. 公共 API
+		this.api = new PluginApi(this);
+
+		// 11. 笔记内嵌任务块
+		this.registerMarkdownCodeBlockProcessor(TASK_EMBED_LANGUAGE, (source, el, ctx) => {
+			ctx.addChild(new TaskEmbedBlock(el, this, source));
+		});
 	}
 
 	async onunload() {
 		// 按相反顺序清理
 		this.themeManager?.destroy();
+		this.api?.destroy();
 		// 保存任务数据后清理
 		await this.taskCache?.flushSave();
 		this.taskCache?.clear();
@@ -84,40 +120,36 @@ export default class GanttCalendarPlugin extends Plugin {
 	}
 
 	/**
-	 * 刷新所有日历视图
+	 * 激活日历视图并定位到指定日期
 	 */
-	refreshCalendarViews(): void {
-		this.viewManager.refreshAllViews();
+	async openViewAt(date: Date, type?: CalendarViewType): Promise<void> {
+		return this.viewManager.openViewAt(date, type);
 	}
 
-	// ===== 私有辅助方法 =====
+	/**
+	 * 激活日历视图并在任务视图中定位任务
+	 */
+	async revealTask(taskId: string): Promise<void> {
+		return this.viewManager.revealTask(taskId);
+	}
 
 	/**
-	 * 安排任务缓存初始化
+	 * 刷新所有日历视图
 	 */
-	private scheduleTaskCacheInit(): void {
-		this.app.workspace.onLayoutReady(() => {
-			setTimeout(() => {
-				this.taskCache.initialize().then(() => {
-					Logger.stats('Main', 'Task cache initialized');
-					this.refreshCalendarViews();
-				}).catch(error => {
-					Logger.error('Main', 'Failed to initialize task cache:', error);
-					new Notice('任务缓存初始化失败');
-				});
-			}, 800);
-		});
+	refreshCalendarViews(): void {
+		this.viewManager.refreshAllViews();
 	}
 
 	/**
-	 * 初始化 GitHub 同步
+	 * 初始化（或按最新设置重新配置）GitHub 同步
 	 */
-	private initGitHubSync(): void {
+	initGitHubSync(): void {
 		const cfg = this.settings.githubSync;
 		if (!cfg?.enabled || !cfg.token || !cfg.owner || !cfg.repo) return;
 
-		this.taskCache.configureGitHubSync(
-			{ token: cfg.token, owner: cfg.owner, repo: cfg.repo },
+		this.taskCache.configureSync(
+			{ type: 'github', token: cfg.token, owner: cfg.owner, repo: cfg.repo },
+			{ syncDirection: cfg.syncDirection, conflictResolution: cfg.conflictResolution },
 			(time) => {
 				if (this.settings.githubSync) {
 					this.settings.githubSync.lastSyncTime = time;
@@ -125,7 +157,7 @@ export default class GanttCalendarPlugin extends Plugin {
 					this.settings.githubSync.lastSyncError = undefined;
 					this.saveSettings();
 				}
-				new Notice('📤 任务数据已同步到 GitHub');
+				new Notice('🔄 任务数据已与 GitHub 同步');
 			},
 			(error) => {
 				if (this.settings.githubSync) {
@@ -140,6 +172,125 @@ export default class GanttCalendarPlugin extends Plugin {
 		Logger.info('Main', 'GitHub sync initialized', { owner: cfg.owner, repo: cfg.repo });
 	}
 
+	/**
+	 * 当前选择的其他同步后端配置（未填写时返回 null）
+	 */
+	getRemoteSyncBackendConfig(): SyncBackendConfig | null {
+		const cfg = this.settings.remoteSync;
+		if (!cfg) return null;
+		switch (cfg.backend) {
+			case 'webdav':
+				return cfg.webdav ? { type: 'webdav', ...cfg.webdav } : null;
+			case 'vault-folder':
+				return cfg.vaultFolder ? { type: 'vault-folder', ...cfg.vaultFolder } : null;
+			case 'gitea':
+				return cfg.gitea ? { type: 'gitea', ...cfg.gitea } : null;
+			case 'gitlab':
+				return cfg.gitlab ? { type: 'gitlab', ...cfg.gitlab } : null;
+		}
+	}
+
+	/**
+	 * 初始化（或按最新设置重新配置）其他同步后端；切换后端时停用旧后端
+	 */
+	initRemoteSync(): void {
+		const cfg = this.settings.remoteSync;
+		const backendConfig = cfg?.enabled ? this.getRemoteSyncBackendConfig() : null;
+
+		// 停用未选择的后端（切换后端或关闭同步时）
+		for (const type of this.taskCache.getSyncBackendRegistry().getTypes()) {
+			if (type !== 'github' && type !== backendConfig?.type) {
+				this.taskCache.disableSync(type);
+			}
+		}
+		if (!cfg || !backendConfig) return;
+
+		const label = SYNC_BACKEND_LABELS[cfg.backend];
+		this.taskCache.configureSync(
+			backendConfig,
+			{ syncDirection: cfg.syncDirection, conflictResolution: cfg.conflictResolution },
+			(time) => {
+				if (this.settings.remoteSync) {
+					this.settings.remoteSync.lastSyncTime = time;
+					this.settings.remoteSync.lastSyncStatus = 'success';
+					this.settings.remoteSync.lastSyncError = undefined;
+					this.saveSettings();
+				}
+				new Notice(`🔄 任务数据已与 ${label} 同步`);
+			},
+			(error) => {
+				if (this.settings.remoteSync) {
+					this.settings.remoteSync.lastSyncStatus = 'error';
+					this.settings.remoteSync.lastSyncError = error;
+					this.saveSettings();
+				}
+				new Notice(`⚠️ ${label} 同步失败: ${error}`);
+			}
+		);
+
+		Logger.info('Main', 'Remote sync initialized', { backend: cfg.backend });
+	}
+
+	/**
+	 * 当前 Markdown 镜像配置（未启用或配置不完整时返回 null）
+	 */
+	getMarkdownMirrorConfig(): MarkdownMirrorConfig | null {
+		const cfg = this.settings.markdownMirror;
+		if (!cfg.enabled || !cfg.filePath.trim()) return null;
+		switch (cfg.filter) {
+			case 'all':
+				return { filePath: cfg.filePath, filter: { type: 'all' } };
+			case 'tag':
+				return cfg.tag ? { filePath: cfg.filePath, filter: { type: 'tag', tag: cfg.tag } } : null;
+			case 'parent':
+				return cfg.parentId ? { filePath: cfg.filePath, filter: { type: 'parent', parentId: cfg.parentId } } : null;
+		}
+	}
+
+	/**
+	 * 初始化（或按最新设置重新配置）Markdown 镜像
+	 */
+	initMarkdownMirror(): void {
+		this.taskCache.configureMarkdownMirror(this.getMarkdownMirrorConfig());
+	}
+
+	// ===== 私有辅助方法 =====
+
+	/**
+	 * 安排任务缓存初始化
+	 */
+	private scheduleTaskCacheInit(): void {
+		this.app.workspace.onLayoutReady(() => {
+			setTimeout(() => {
+				this.taskCache.initialize().then(() => {
+					Logger.stats('Main', 'Task cache initialized');
+					this.notifyLoadRecovery();
+					this.refreshCalendarViews();
+				}).catch(error => {
+					Logger.error('Main', 'Failed to initialize task cache:', error);
+					new Notice('任务缓存初始化失败');
+				});
+			}, 800);
+		});
+	}
+
+	/**
+	 * tasks.json 损坏并已恢复时提示用户（不自动关闭）
+	 */
+	private notifyLoadRecovery(): void {
+		const recovery = this.taskCache.getLoadRecovery();
+		if (!recovery) return;
+
+		const lines = [`⚠️ 任务数据文件已损坏（${recovery.reason}）`];
+		lines.push(recovery.recoveredFrom
+			? `已从 ${recovery.recoveredFrom.split('/').pop()} 恢复，该快照之后的修改可能丢失`
+			: '没有可用的快照，已以空数据启动');
+		if (recovery.corruptPath) {
+			lines.push(`损坏的文件已另存为 ${recovery.corruptPath.split('/').pop()}`);
+		}
+		new Notice(lines.join('\n'), 0);
+	}
+
 	/**
 	 * 注册 UI 元素（ribbon 图标和状态栏）
 	 */
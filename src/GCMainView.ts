@@ -1,10 +1,13 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ItemView, Scope, WorkspaceLeaf } from 'obsidian';
 import { CalendarViewType } from './types';
 import { getWeekOfDate, getRolling7Days, getTodayDate } from './dateUtils/dateUtilsIndex';
 import { MonthViewRenderer } from './views/MonthView';
 import { WeekViewRenderer } from './views/WeekView';
+import { DayViewRenderer } from './views/DayView';
 import { TaskViewRenderer } from './views/TaskView';
 import { Toolbar } from './toolbar/toolbar';
+import { ViewCursor, VIEW_CURSOR_ACTIONS } from './views/ViewCursor';
+import { TaskSelection } from './views/TaskSelection';
 import { Logger } from './utils/logger';
 
 export const GC_VIEW_ID = 'gantt-calendar-view';
@@ -19,15 +22,23 @@ export class GCMainView extends ItemView {
 	private resizeObserver: ResizeObserver | null = null;
 	private plugin: any;
 	private cacheUpdateListener: (() => void) | null = null;
+	private cursorObserver: MutationObserver | null = null;
 
 	// 子视图渲染器
 	private monthRenderer: MonthViewRenderer;
 	private weekRenderer: WeekViewRenderer;
+	private dayRenderer: DayViewRenderer;
 	private taskRenderer: TaskViewRenderer;
 
 	// 工具栏控制器
 	private toolbar: Toolbar;
 
+	// 键盘光标
+	private cursor: ViewCursor;
+
+	// 任务多选（在 onOpen 中创建）
+	private selection: TaskSelection | null = null;
+
 	constructor(leaf: WorkspaceLeaf, plugin: any) {
 		super(leaf);
 		this.plugin = plugin;
@@ -42,10 +53,38 @@ export class GCMainView extends ItemView {
 		// 初始化子视图渲染器
 		this.monthRenderer = new MonthViewRenderer(this.app, plugin);
 		this.weekRenderer = new WeekViewRenderer(this.app, plugin);
+		this.dayRenderer = new DayViewRenderer(this.app, plugin);
 		this.taskRenderer = new TaskViewRenderer(this.app, plugin);
 
 		// 初始化工具栏控制器
 		this.toolbar = new Toolbar();
+
+		// 键盘光标：视图获得焦点时的默认按键，命令见 commands/keyboard
+		this.cursor = new ViewCursor(this.app, plugin, {
+			getViewType: () => this.viewType,
+			getCurrentDate: () => this.currentDate,
+			getContentEl: () => this.containerEl.querySelector<HTMLElement>('.calendar-content'),
+			showDate: (date) => this.showDate(date),
+		});
+		this.scope = new Scope(this.app.scope);
+		for (const { action, keys } of VIEW_CURSOR_ACTIONS) {
+			for (const { modifiers, key } of keys) {
+				this.scope.register(modifiers, key, (evt) => {
+					// 输入框和按钮中保留默认行为
+					if ((evt.target as HTMLElement | null)?.closest('input, textarea, select, button, [contenteditable="true"]')) {
+						return true;
+					}
+					// Esc 优先取消多选
+					if (action === 'clear' && this.selection && this.selection.size > 0) {
+						this.selection.clear();
+						return false;
+					}
+					this.cursor.run(action).catch(error =>
+						Logger.error('GCMainView', `Cursor action ${action} failed`, error));
+					return false;
+				});
+			}
+		}
 	}
 
 	getViewType(): string {
@@ -65,9 +104,11 @@ export class GCMainView extends ItemView {
 		this.toolbar.setCalendarRenderers(
 			this.weekRenderer,
 			this.monthRenderer,
+			this.dayRenderer,
 		);
 		this.render();
 		this.setupResizeObserver();
+		this.setupCursor();
 
 		// 订阅缓存更新事件
 		this.cacheUpdateListener = (filePath?: string) => {
@@ -89,12 +130,29 @@ export class GCMainView extends ItemView {
 			case 'week':
 				this.weekRenderer.refreshTasks();
 				break;
+			case 'day':
+				this.dayRenderer.refreshTasks();
+				break;
 			case 'task':
 				this.taskRenderer.refreshTasks();
 				break;
 		}
 	}
 
+	/**
+	 * 键盘光标（供 commands/keyboard 中的命令调用）
+	 */
+	public getCursor(): ViewCursor {
+		return this.cursor;
+	}
+
+	/**
+	 * 任务视图渲染器（供导出命令读取当前筛选和排序状态）
+	 */
+	public getTaskRenderer(): TaskViewRenderer {
+		return this.taskRenderer;
+	}
+
 	public refreshSettings(): void {
 		// 重新渲染内容
 		this.render();
@@ -110,12 +168,41 @@ export class GCMainView extends ItemView {
 		// Cleanup renderers
 		this.monthRenderer.runDomCleanups();
 		this.weekRenderer.runDomCleanups();
+		this.dayRenderer.runDomCleanups();
 		this.taskRenderer.runDomCleanups();
 
 		// Cleanup resize observer
 		if (this.resizeObserver) {
 			this.resizeObserver.disconnect();
 		}
+
+		this.cursorObserver?.disconnect();
+		this.cursorObserver = null;
+	}
+
+	/**
+	 * 键盘光标与多选：点击时同步光标位置，视图重新渲染（含增量刷新）后恢复高亮
+	 */
+	private setupCursor(): void {
+		const content = this.containerEl.children[1] as HTMLElement | undefined;
+		if (!content) return;
+
+		this.selection = this.addChild(new TaskSelection(this.app, this.plugin, content));
+
+		this.registerDomEvent(content, 'click', (evt) => {
+			this.cursor.syncFromClick(evt.target as HTMLElement);
+		});
+
+		let frame: number | null = null;
+		this.cursorObserver = new MutationObserver(() => {
+			if (frame !== null) return;
+			frame = requestAnimationFrame(() => {
+				frame = null;
+				this.cursor.apply();
+				this.selection?.apply();
+			});
+		});
+		this.cursorObserver.observe(content, { childList: true, subtree: true });
 	}
 
 	private setupResizeObserver(): void {
@@ -140,6 +227,7 @@ export class GCMainView extends ItemView {
 		// 清理上一次渲染的资源
 		this.monthRenderer.runDomCleanups();
 		this.weekRenderer.runDomCleanups();
+		this.dayRenderer.runDomCleanups();
 		this.taskRenderer.runDomCleanups();
 
 		const container = this.containerEl.children[1];
@@ -191,6 +279,9 @@ export class GCMainView extends ItemView {
 				this.weekRenderer.render(content, dateForWeek, this.weekMode);
 				break;
 			}
+			case 'day':
+				this.dayRenderer.render(content, this.currentDate);
+				break;
 			case 'task':
 				this.taskRenderer.render(content, this.currentDate);
 				break;
@@ -208,6 +299,24 @@ export class GCMainView extends ItemView {
 		this.render();
 	}
 
+	/**
+	 * 定位到指定日期（可同时切换视图；周视图使用标准周）
+	 */
+	public showDate(date: Date, type: CalendarViewType = this.viewType): void {
+		this.currentDate = new Date(date);
+		this.weekMode = 'standard';
+		this.viewType = type;
+		this.render();
+	}
+
+	/**
+	 * 切换到任务视图并定位到指定任务
+	 */
+	public revealTask(taskId: string): void {
+		this.taskRenderer.revealTask(taskId);
+		this.switchView('task');
+	}
+
 	public switchView(type: CalendarViewType): void {
 		if (type !== 'week') {
 			this.weekMode = 'standard';
@@ -227,6 +336,9 @@ export class GCMainView extends ItemView {
 			case 'week':
 				date.setDate(date.getDate() - 7);
 				break;
+			case 'day':
+				date.setDate(date.getDate() - 1);
+				break;
 			case 'task':
 				return;
 		}
@@ -243,6 +355,9 @@ export class GCMainView extends ItemView {
 			case 'week':
 				date.setDate(date.getDate() + 7);
 				break;
+			case 'day':
+				date.setDate(date.getDate() + 1);
+				break;
 			case 'task':
 				return;
 		}
@@ -307,6 +422,11 @@ export class GCMainView extends ItemView {
 				const endStr = `${e.getMonth() + 1}.${e.getDate()}`;
 				return `第${weekNum}周 (${startStr}-${endStr})`;
 			}
+			case 'day': {
+				const d = this.currentDate;
+				const dayNames = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+				return `${d.getMonth() + 1}月${d.getDate()}日 ${dayNames[d.getDay()]}`;
+			}
 			case 'task': {
 				return '任务';
 			}
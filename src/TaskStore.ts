@@ -6,8 +6,16 @@ import { Logger } from './utils/logger';
 import { EventBus } from './data-layer/EventBus';
 import { TaskRepository } from './data-layer/TaskRepository';
 import { JsonDataSource } from './data-layer/JsonDataSource';
-import { DataSourceConfig, TaskChanges } from './data-layer/types';
-import { GitHubSyncService } from './services/GitHubSyncService';
+import { MarkdownMirrorDataSource } from './data-layer/MarkdownMirrorDataSource';
+import { IcsDataSource, ICS_SOURCE_PREFIX } from './data-layer/IcsDataSource';
+import { BackupConfig, DataFileRecovery, DataSourceConfig, DataSourceChanges, IcsCalendarConfig, MarkdownMirrorConfig, QueryOptions, SyncBackendConfig, TaskChanges, TaskDiff } from './data-layer/types';
+import type { BackupInfo } from './data-layer/BackupService';
+import type { SyncBackendRegistry } from './data-layer/SyncBackendRegistry';
+import { SyncService, type SyncDataProvider, type SyncOptions, type SyncResult } from './services/SyncService';
+import { createSyncBackendRegistry } from './services/syncBackends';
+import { ReminderScheduler, type ReminderNotificationConfig } from './services/ReminderScheduler';
+import { IcsExporter, type IcsExportConfig } from './services/IcsExporter';
+import { openSyncConflictModal } from './modals/SyncConflictModal';
 
 export type TaskStoreUpdateListener = (taskId?: string) => void;
 
@@ -22,6 +30,11 @@ export type TaskStoreUpdateListener = (taskId?: string) => void;
  * - 管理缓存和失效
  * - 防抖变更通知，避免频繁重渲染
  * - 自动归档过期提醒
+ * - 本地提醒通知调度
+ * - 与同步后端双向同步（启动时拉取合并，变更后防抖同步）
+ * - 将选定任务镜像到 Markdown 笔记，并写回笔记中的编辑
+ * - 导出 iCalendar 文件（可随任务变更自动导出）
+ * - 加载订阅日历（.ics 文件）为只读任务
  */
 export class TaskStore {
 	private app: App;
@@ -40,13 +53,30 @@ export class TaskStore {
 	private updateDebounceTimer: number | null = null;
 	private readonly DEBOUNCE_MS = 75;
 
-	// GitHub 同步服务
-	private githubSync: GitHubSyncService | null = null;
+	// 同步后端注册表与各后端的同步服务（按后端类型索引）
+	private syncBackends: SyncBackendRegistry;
+	private syncServices: Map<string, SyncService> = new Map();
+	// 正在应用同步结果（此期间的变更事件不再触发同步）
+	private applyingSyncedData = false;
+
+	// 本地提醒通知
+	private reminderScheduler: ReminderScheduler | null = null;
+
+	// Markdown 镜像
+	private markdownMirror: MarkdownMirrorDataSource | null = null;
+
+	// iCalendar 导出
+	private icsExporter: IcsExporter;
+
+	// 订阅日历（按数据源 ID 索引）
+	private icsCalendars: Map<string, IcsDataSource> = new Map();
 
 	constructor(app: App) {
 		this.app = app;
 		this.eventBus = new EventBus();
 		this.repository = new TaskRepository(this.eventBus);
+		this.syncBackends = createSyncBackendRegistry(app);
+		this.icsExporter = new IcsExporter(app, () => this.getAllTasks());
 
 		// 创建 JSON 数据源配置
 		const config: DataSourceConfig = {
@@ -70,28 +100,35 @@ export class TaskStore {
 	 */
 	private setupEventForwarding(): void {
 		this.eventBus.on('task:created', (data) => {
-			const taskId = (data as any)?.task?.id;
-			Logger.debug('TaskStore', `Event: task:created ${taskId || 'unknown'}`);
-			this.invalidateCache();
-			this.notifyListenersDebounced(taskId);
-			this.scheduleGitHubSync();
+			const task = (data as any)?.task as GCTask | undefined;
+			Logger.debug('TaskStore', `Event: task:created ${task?.id || 'unknown'}`);
+			this.handleTaskChanged(task?.id, !!task?.source);
 		});
 		this.eventBus.on('task:updated', (data) => {
-			const taskId = (data as any)?.task?.id;
-			Logger.debug('TaskStore', `Event: task:updated ${taskId || 'unknown'}`);
-			this.invalidateCache();
-			this.notifyListenersDebounced(taskId);
-			this.scheduleGitHubSync();
+			const task = (data as any)?.task as GCTask | undefined;
+			Logger.debug('TaskStore', `Event: task:updated ${task?.id || 'unknown'}`);
+			this.handleTaskChanged(task?.id, !!task?.source);
 		});
 		this.eventBus.on('task:deleted', (data) => {
-			const taskId = (data as any)?.taskId;
+			const taskId = (data as any)?.taskId as string | undefined;
 			Logger.debug('TaskStore', `Event: task:deleted ${taskId || 'unknown'}`);
-			this.invalidateCache();
-			this.notifyListenersDebounced(taskId);
-			this.scheduleGitHubSync();
+			this.handleTaskChanged(taskId, !!taskId?.startsWith(ICS_SOURCE_PREFIX));
 		});
 	}
 
+	/**
+	 * 任务变更后：刷新缓存、通知视图，并触发同步、镜像和导出
+	 * @param external 变更来自只读外部数据源（仅刷新视图）
+	 */
+	private handleTaskChanged(taskId?: string, external = false): void {
+		this.invalidateCache();
+		this.notifyListenersDebounced(taskId);
+		if (external) return;
+		this.scheduleSync();
+		this.markdownMirror?.scheduleRender();
+		this.icsExporter.scheduleExport();
+	}
+
 	/**
 	 * 初始化存储 - 加载 JSON 数据
 	 */
@@ -127,6 +164,22 @@ export class TaskStore {
 
 		this.notifyListeners();
 
+		// 数据就绪后启动本地提醒
+		this.startReminderScheduler();
+
+		// 渲染 Markdown 镜像
+		this.startMarkdownMirror();
+
+		// 加载订阅日历（仓库缓存已在上方清空）
+		for (const calendar of this.icsCalendars.values()) {
+			this.startIcsCalendar(calendar);
+		}
+
+		// 启动时拉取并合并远端数据
+		for (const id of this.syncServices.keys()) {
+			this.startSync(id);
+		}
+
 		const stats = this.repository.getStats();
 		const scanElapsed = performance.now() - scanStartTime;
 		Logger.stats('TaskStore', `Initial load completed in ${scanElapsed.toFixed(2)}ms`, {
@@ -138,7 +191,7 @@ export class TaskStore {
 	}
 
 	/**
-	 * 获取所有活跃任务（带缓存）
+	 * 获取所有活跃的本地任务（带缓存，不含订阅日历的只读任务）
 	 */
 	getAllTasks(): GCTask[] {
 		if (this.cacheValid && this.cachedTasks) {
@@ -148,7 +201,7 @@ export class TaskStore {
 		const startTime = performance.now();
 		Logger.debug('TaskStore', 'Cache miss, rebuilding...');
 
-		const allTasks = this.repository.getAllTasks();
+		const allTasks = this.repository.getAllTasks({ sources: [this.jsonSource.sourceId] });
 
 		this.cachedTasks = allTasks;
 		this.cacheValid = true;
@@ -159,6 +212,13 @@ export class TaskStore {
 		return allTasks;
 	}
 
+	/**
+	 * 按查询选项获取任务（可通过 sources 包含订阅日历）
+	 */
+	queryTasks(options?: QueryOptions): GCTask[] {
+		return this.repository.getAllTasks(options);
+	}
+
 	/**
 	 * 根据ID获取任务
 	 */
@@ -173,6 +233,20 @@ export class TaskStore {
 		return await this.jsonSource.createTask(task);
 	}
 
+	/**
+	 * 批量导入任务（一次撤销即可全部撤回）
+	 * @param tasks 父任务在前；子任务的 parentId 可引用同批任务的临时 ID
+	 * @returns 成功创建的任务 ID
+	 */
+	async importTasks(tasks: GCTask[]): Promise<string[]> {
+		try {
+			await this.jsonSource.createBackup('import');
+		} catch (error) {
+			Logger.error('TaskStore', 'Backup before import failed:', error);
+		}
+		return await this.jsonSource.createTasks(tasks, '导入任务');
+	}
+
 	/**
 	 * 更新任务
 	 */
@@ -180,6 +254,13 @@ export class TaskStore {
 		await this.jsonSource.updateTask(taskId, changes, options);
 	}
 
+	/**
+	 * 批量更新任务（一次撤销即可全部撤回，只保存和刷新一次）
+	 */
+	async updateTasks(updates: Array<{ taskId: string; changes: TaskChanges }>, label?: string): Promise<void> {
+		await this.jsonSource.updateTasks(updates, label);
+	}
+
 	/**
 	 * 删除任务
 	 */
@@ -187,6 +268,72 @@ export class TaskStore {
 		await this.jsonSource.deleteTask(taskId);
 	}
 
+	/**
+	 * 批量删除任务（一次撤销即可全部恢复）
+	 */
+	async deleteTasks(taskIds: string[], label?: string): Promise<void> {
+		await this.jsonSource.deleteTasks(taskIds, label);
+	}
+
+	/**
+	 * 获取回收站中的任务
+	 */
+	getTrashedTasks(): GCTask[] {
+		return this.jsonSource.getTrashedTasks();
+	}
+
+	/**
+	 * 从回收站恢复任务
+	 */
+	async restoreTask(taskId: string): Promise<void> {
+		await this.jsonSource.restoreTask(taskId);
+	}
+
+	/**
+	 * 彻底删除回收站中的任务
+	 */
+	async purgeTask(taskId: string): Promise<void> {
+		await this.jsonSource.purgeTask(taskId);
+	}
+
+	/**
+	 * 清空回收站
+	 */
+	async emptyTrash(): Promise<void> {
+		await this.jsonSource.emptyTrash();
+	}
+
+	/**
+	 * 配置回收站保留天数（0 = 永久保留）
+	 */
+	configureTrash(retentionDays: number): void {
+		this.jsonSource.setTrashRetentionDays(retentionDays);
+	}
+
+	/**
+	 * 撤销最近一次任务操作
+	 * @returns 被撤销操作的描述，无可撤销操作时返回 null
+	 */
+	async undo(): Promise<string | null> {
+		return await this.jsonSource.undo();
+	}
+
+	/**
+	 * 重做最近一次撤销的任务操作
+	 * @returns 被重做操作的描述，无可重做操作时返回 null
+	 */
+	async redo(): Promise<string | null> {
+		return await this.jsonSource.redo();
+	}
+
+	canUndo(): boolean {
+		return this.jsonSource.canUndo();
+	}
+
+	canRedo(): boolean {
+		return this.jsonSource.canRedo();
+	}
+
 	/**
 	 * 创建子任务（自动设置 parentId/depth，应用继承规则）
 	 */
@@ -206,6 +353,8 @@ export class TaskStore {
 			createdDate: new Date(),
 			startDate: taskData.startDate ?? new Date(),
 			dueDate: taskData.dueDate ?? parent.dueDate,
+			hasStartTime: taskData.hasStartTime,
+			hasDueTime: taskData.dueDate ? taskData.hasDueTime : parent.hasDueTime,
 			repeat: taskData.repeat,
 			archived: false,
 			parentId: parentId,
@@ -226,7 +375,7 @@ export class TaskStore {
 	 * 获取所有顶层任务
 	 */
 	getRootTasks(): GCTask[] {
-		return this.repository.getRootTasks();
+		return this.repository.getRootTasks({ sources: [this.jsonSource.sourceId] });
 	}
 
 	/**
@@ -260,6 +409,14 @@ export class TaskStore {
 	 * 清空存储
 	 */
 	clear(): void {
+		this.reminderScheduler?.destroy();
+		this.markdownMirror?.destroy();
+		this.markdownMirror = null;
+		this.icsExporter.destroy();
+		for (const calendar of this.icsCalendars.values()) {
+			calendar.destroy();
+		}
+		this.icsCalendars.clear();
 		this.jsonSource.destroy();
 		this.repository.clear();
 		this.isInitialized = false;
@@ -322,71 +479,325 @@ export class TaskStore {
 		return this.jsonSource;
 	}
 
+	/**
+	 * 获取事件总线（用于公共 API 订阅任务事件）
+	 */
+	getEventBus(): EventBus {
+		return this.eventBus;
+	}
+
 	/**
 	 * 立即保存所有数据（用于插件卸载时）
 	 */
 	async flushSave(): Promise<void> {
 		await this.jsonSource.flushSave();
-		// 刷新 GitHub 同步队列
-		await this.githubSync?.flush();
+		// 刷新同步队列
+		for (const service of this.syncServices.values()) {
+			await service.flush();
+		}
 	}
 
-	// ==================== GitHub 同步 ====================
+	// ==================== 数据同步 ====================
 
 	/**
-	 * 配置 GitHub 同步
+	 * 同步后端注册表（可注册自定义后端）
 	 */
-	configureGitHubSync(config: { token: string; owner: string; repo: string },
+	getSyncBackendRegistry(): SyncBackendRegistry {
+		return this.syncBackends;
+	}
+
+	/**
+	 * 配置同步后端（已初始化时立即同步一次）
+	 *
+	 * 每种后端类型最多一个同步服务，重复配置时替换后端与选项。
+	 */
+	configureSync(config: SyncBackendConfig,
+		options: SyncOptions,
 		onSuccess?: (time: string) => void,
 		onError?: (error: string) => void
 	): void {
-		if (!this.githubSync) {
-			this.githubSync = new GitHubSyncService();
+		const id = config.type;
+		let service = this.syncServices.get(id);
+		if (!service) {
+			service = new SyncService();
+			service.setDataProvider(this.createSyncDataProvider(id));
+			service.setConflictResolver(conflicts => openSyncConflictModal(this.app, conflicts));
+			this.syncServices.set(id, service);
+		}
+		const backend = this.syncBackends.create(config);
+		service.configure(backend, options);
+		service.setCallbacks(onSuccess, onError);
+		Logger.info('TaskStore', 'Sync configured', {
+			backend: id,
+			target: backend.describeTarget(),
+			direction: options.syncDirection,
+			conflictResolution: options.conflictResolution,
+		});
+
+		if (this.isInitialized) {
+			this.startSync(id);
 		}
-		this.githubSync.configure(config);
-		this.githubSync.setCallbacks(onSuccess, onError);
-		Logger.info('TaskStore', 'GitHub sync configured', { owner: config.owner, repo: config.repo });
 	}
 
 	/**
-	 * 禁用 GitHub 同步
+	 * 禁用同步后端
 	 */
-	disableGitHubSync(): void {
-		this.githubSync?.destroy();
-		this.githubSync = null;
-		Logger.info('TaskStore', 'GitHub sync disabled');
+	disableSync(id: string): void {
+		this.syncServices.get(id)?.destroy();
+		this.syncServices.delete(id);
+		Logger.info('TaskStore', 'Sync disabled', { backend: id });
 	}
 
 	/**
-	 * 计划 GitHub 同步（防抖）
+	 * 同步数据提供者：连接同步服务与 JSON 数据源
 	 */
-	private async scheduleGitHubSync(): Promise<void> {
-		if (!this.githubSync?.isConfigured()) return;
+	private createSyncDataProvider(id: string): SyncDataProvider {
+		return {
+			getLocalData: () => this.jsonSource.getDataForSync(),
+			getLocalRevision: () => this.jsonSource.getRevision(),
+			applyMergedData: async (data) => {
+				this.applyingSyncedData = true;
+				try {
+					await this.jsonSource.applySyncedData(data);
+				} finally {
+					this.applyingSyncedData = false;
+				}
+				// 从该后端拉取的修改需要同步到其他后端
+				this.scheduleSync(id);
+			},
+			loadBase: () => this.jsonSource.loadSyncBase(id),
+			saveBase: (data) => this.jsonSource.saveSyncBase(id, data),
+		};
+	}
 
-		try {
-			const content = await this.jsonSource.getJsonContent();
-			this.githubSync.schedulePush(content);
-		} catch (error) {
-			Logger.error('TaskStore', 'Failed to schedule GitHub sync', error);
+	/**
+	 * 后台执行一次完整同步（启动/重新配置时）
+	 */
+	private startSync(id: string): void {
+		const service = this.syncServices.get(id);
+		if (!service?.isConfigured()) return;
+		service.syncNow().catch(error => {
+			Logger.error('TaskStore', 'Sync failed', { backend: id, error });
+		});
+	}
+
+	/**
+	 * 计划同步（防抖）
+	 * @param exceptId 跳过的后端（刚从该后端拉取了数据）
+	 */
+	private scheduleSync(exceptId?: string): void {
+		if (this.applyingSyncedData) return;
+		for (const [id, service] of this.syncServices) {
+			if (id !== exceptId && service.isConfigured()) {
+				service.scheduleSync();
+			}
 		}
 	}
 
 	/**
-	 * 立即推送到 GitHub（手动触发）
+	 * 立即与指定后端同步（手动触发）
 	 */
-	async pushToGitHubNow(): Promise<void> {
-		if (!this.githubSync?.isConfigured()) {
-			throw new Error('GitHub 同步未配置');
+	async syncNow(id: string): Promise<SyncResult> {
+		const service = this.syncServices.get(id);
+		if (!service?.isConfigured()) {
+			throw new Error('同步后端未配置');
 		}
+		return await service.syncNow();
+	}
+
+	/**
+	 * 指定后端的同步是否已配置
+	 */
+	isSyncConfigured(id: string): boolean {
+		return this.syncServices.get(id)?.isConfigured() ?? false;
+	}
+
+	// ==================== 本地提醒通知 ====================
+
+	/**
+	 * 配置本地提醒通知（禁用时停止调度）
+	 */
+	configureReminderNotifications(config: ReminderNotificationConfig): void {
+		if (!config.enabled) {
+			this.reminderScheduler?.destroy();
+			this.reminderScheduler = null;
+			Logger.info('TaskStore', 'Reminder notifications disabled');
+			return;
+		}
+
+		if (!this.reminderScheduler) {
+			this.reminderScheduler = new ReminderScheduler(this.app, () => this.getAllTasks());
+		}
+		this.reminderScheduler.configure(config);
+		if (this.isInitialized) {
+			this.startReminderScheduler();
+		}
+	}
+
+	/**
+	 * 启动本地提醒调度
+	 */
+	private startReminderScheduler(): void {
+		this.reminderScheduler?.start().catch(error => {
+			Logger.error('TaskStore', 'Failed to start reminder scheduler', error);
+		});
+	}
+
+	/**
+	 * 配置 Markdown 镜像（null 表示停用）
+	 */
+	configureMarkdownMirror(config: MarkdownMirrorConfig | null): void {
+		if (this.markdownMirror) {
+			this.markdownMirror.destroy();
+			this.repository.unregisterDataSource(this.markdownMirror.sourceId);
+			this.markdownMirror = null;
+		}
+		if (!config) return;
+
+		this.markdownMirror = new MarkdownMirrorDataSource(this.app, config, () => this.getAllTasks());
+		this.repository.registerDataSource(this.markdownMirror);
+		this.markdownMirror.onChange((changes) => {
+			this.applyMirrorChanges(changes).catch(error => {
+				Logger.error('TaskStore', 'Failed to apply markdown mirror changes', error);
+			});
+		});
+		if (this.isInitialized) {
+			this.startMarkdownMirror();
+		}
+	}
+
+	/**
+	 * 启动 Markdown 镜像（监听笔记并渲染）
+	 */
+	private startMarkdownMirror(): void {
+		this.markdownMirror?.initialize({
+			syncDirection: 'bidirectional',
+			conflictResolution: 'local-win',
+		}).catch(error => {
+			Logger.error('TaskStore', 'Failed to start markdown mirror', error);
+		});
+	}
+
+	/**
+	 * 将镜像笔记中的编辑写回 JSON 数据源
+	 */
+	private async applyMirrorChanges(changes: DataSourceChanges): Promise<void> {
+		for (const { id, changes: taskChanges } of changes.updated) {
+			// 单个任务失败（如已在别处删除）不影响其余修改
+			try {
+				await this.jsonSource.updateTask(id, taskChanges);
+			} catch (error) {
+				Logger.error('TaskStore', `Failed to apply markdown mirror change for ${id}`, error);
+			}
+		}
+	}
 
-		const content = await this.jsonSource.getJsonContent();
-		await this.githubSync.pushNow(content);
+	/**
+	 * 配置 iCalendar 导出
+	 */
+	configureIcsExport(config: IcsExportConfig): void {
+		this.icsExporter.configure(config);
+	}
+
+	/**
+	 * 立即导出 iCalendar 文件
+	 * @returns 导出文件路径
+	 */
+	async exportIcs(): Promise<string> {
+		return await this.icsExporter.exportNow();
+	}
+
+	// ==================== 订阅日历 ====================
+
+	/**
+	 * 配置订阅日历（替换全部已加载的日历）
+	 */
+	configureIcsCalendars(configs: IcsCalendarConfig[]): void {
+		for (const calendar of this.icsCalendars.values()) {
+			calendar.destroy();
+			this.repository.unregisterDataSource(calendar.sourceId);
+		}
+		this.icsCalendars.clear();
+
+		for (const config of configs) {
+			if (!config.filePath.trim()) continue;
+			const calendar = new IcsDataSource(this.app, config);
+			if (this.icsCalendars.has(calendar.sourceId)) continue;
+			this.icsCalendars.set(calendar.sourceId, calendar);
+			this.repository.registerDataSource(calendar);
+			if (this.isInitialized) {
+				this.startIcsCalendar(calendar);
+			}
+		}
+	}
+
+	/**
+	 * 获取任务来源（本地任务与各订阅日历），供视图筛选
+	 */
+	getTaskSources(): Array<{ id: string; name: string; readOnly: boolean }> {
+		return [
+			{ id: this.jsonSource.sourceId, name: '本地任务', readOnly: false },
+			...Array.from(this.icsCalendars.values()).map(calendar => ({
+				id: calendar.sourceId,
+				name: calendar.sourceName,
+				readOnly: true,
+			})),
+		];
+	}
+
+	/**
+	 * 启动订阅日历（监听文件并解析）
+	 */
+	private startIcsCalendar(calendar: IcsDataSource): void {
+		calendar.initialize({
+			syncDirection: 'import-only',
+			conflictResolution: 'remote-win',
+		}).catch(error => {
+			Logger.error('TaskStore', `Failed to load calendar ${calendar.sourceId}`, error);
+		});
+	}
+
+	// ==================== 本地备份 ====================
+
+	/**
+	 * 配置本地备份
+	 */
+	configureBackups(config: BackupConfig): void {
+		this.jsonSource.configureBackups(config);
+	}
+
+	/**
+	 * 立即备份当前数据
+	 */
+	async backupNow(): Promise<BackupInfo> {
+		return await this.jsonSource.createBackup('manual');
+	}
+
+	/**
+	 * 列出备份（按时间倒序）
+	 */
+	async listBackups(): Promise<BackupInfo[]> {
+		return await this.jsonSource.listBackups();
+	}
+
+	/**
+	 * 比较当前数据与备份（恢复该备份会带来的变化）
+	 */
+	async diffBackup(path: string): Promise<TaskDiff[]> {
+		return await this.jsonSource.diffBackup(path);
+	}
+
+	/**
+	 * 恢复备份（恢复前自动备份当前数据）
+	 */
+	async restoreBackup(path: string): Promise<void> {
+		await this.jsonSource.restoreBackup(path);
 	}
 
 	/**
-	 * GitHub 同步是否已配置
+	 * 上次加载时 tasks.json 的损坏恢复情况（文件完好时为 null）
 	 */
-	isGitHubSyncConfigured(): boolean {
-		return this.githubSync?.isConfigured() ?? false;
+	getLoadRecovery(): DataFileRecovery | null {
+		return this.jsonSource.getLoadRecovery();
 	}
 }
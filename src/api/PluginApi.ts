@@ -0,0 +1,229 @@
+/**
+ * PluginApi - 公共 API 实现
+ *
+ * 以 `plugin.api` 暴露给其他插件与脚本，类型见 gantt-calendar-api.d.ts。
+ * 返回的任务均为副本，外部修改不会影响插件数据；通过 on() 注册的
+ * 事件处理器在插件卸载时统一移除。
+ */
+
+import type GanttCalendarPlugin from '../../main';
+import type { GCTask } from '../types';
+import type { EventHandler, TaskChanges } from '../data-layer/types';
+import { parseDateTime, getTodayDate } from '../dateUtils/dateUtilsIndex';
+import { Logger } from '../utils/logger';
+import type {
+	ApiDateInput,
+	ApiEventMap,
+	ApiEventName,
+	ApiOpenViewOptions,
+	ApiQueryOptions,
+	ApiTask,
+	ApiTaskInput,
+	ApiTaskStatus,
+	ApiTaskUpdate,
+	GanttCalendarApi,
+} from './gantt-calendar-api';
+
+/** API 版本（不兼容改动时递增） */
+export const API_VERSION = 1;
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * 解析日期参数
+ * @returns 日期及是否带具体时间
+ */
+export function parseApiDate(value: ApiDateInput): { date: Date; hasTime: boolean } {
+	if (value instanceof Date) {
+		if (isNaN(value.getTime())) throw new Error('Invalid date');
+		return { date: new Date(value), hasTime: false };
+	}
+
+	const text = value.trim();
+	const match = text.match(DATE_REGEX);
+	if (match) {
+		const date = new Date(+match[1], +match[2] - 1, +match[3]);
+		if (date.getMonth() === +match[2] - 1) return { date, hasTime: false };
+	}
+	const dateTime = parseDateTime(text);
+	if (dateTime) return { date: dateTime, hasTime: true };
+
+	throw new Error(`Invalid date: ${value}（应为 YYYY-MM-DD 或 YYYY-MM-DD HH:mm）`);
+}
+
+/**
+ * 状态对应的完成/取消字段（与 cycleTaskStatus 一致）
+ */
+function statusChanges(status: ApiTaskStatus): TaskChanges {
+	const now = new Date();
+	return {
+		status,
+		completed: status === 'done',
+		completionDate: status === 'done' ? now : undefined,
+		cancelled: status === 'canceled',
+		cancelledDate: status === 'canceled' ? now : undefined,
+	};
+}
+
+/**
+ * 生成任务副本
+ */
+function toApiTask(task: GCTask): ApiTask {
+	const copy = (date?: Date) => date ? new Date(date) : undefined;
+	return {
+		id: task.id,
+		type: task.type,
+		description: task.description,
+		detail: task.detail,
+		completed: task.completed,
+		cancelled: task.cancelled,
+		status: task.status,
+		priority: task.priority,
+		tags: task.tags ? [...task.tags] : undefined,
+		createdDate: copy(task.createdDate),
+		startDate: copy(task.startDate),
+		dueDate: copy(task.dueDate),
+		hasStartTime: task.hasStartTime,
+		hasDueTime: task.hasDueTime,
+		completionDate: copy(task.completionDate),
+		cancelledDate: copy(task.cancelledDate),
+		repeat: task.repeat,
+		archived: task.archived,
+		parentId: task.parentId,
+		childIds: task.childIds ? [...task.childIds] : undefined,
+		depth: task.depth,
+		source: task.source,
+		lastModified: copy(task.lastModified),
+	};
+}
+
+export class PluginApi implements GanttCalendarApi {
+	readonly version = API_VERSION;
+
+	private plugin: GanttCalendarPlugin;
+	private subscriptions: Array<{ event: ApiEventName; handler: EventHandler }> = [];
+
+	constructor(plugin: GanttCalendarPlugin) {
+		this.plugin = plugin;
+	}
+
+	isReady(): boolean {
+		return this.plugin.taskCache.getStatus().initialized;
+	}
+
+	queryTasks(options?: ApiQueryOptions): ApiTask[] {
+		return this.plugin.taskCache.queryTasks(options).map(toApiTask);
+	}
+
+	getTask(taskId: string): ApiTask | null {
+		const task = this.plugin.taskCache.getTaskById(taskId);
+		return task ? toApiTask(task) : null;
+	}
+
+	async createTask(input: ApiTaskInput): Promise<string> {
+		const description = input.description?.trim();
+		if (!description) throw new Error('Task description is required');
+
+		const start = input.startDate !== undefined ? parseApiDate(input.startDate) : null;
+		const due = input.dueDate !== undefined ? parseApiDate(input.dueDate) : null;
+		const fields: Partial<GCTask> = {
+			type: input.type,
+			description,
+			detail: input.detail,
+			priority: input.priority,
+			tags: input.tags ? [...input.tags] : undefined,
+			startDate: start?.date,
+			hasStartTime: start?.hasTime || undefined,
+			dueDate: due?.date,
+			hasDueTime: due?.hasTime || undefined,
+			repeat: input.repeat,
+		};
+
+		const taskCache = this.plugin.taskCache;
+		if (input.parentId) {
+			this.getWritableTask(input.parentId);
+			return await taskCache.createSubTask(input.parentId, fields);
+		}
+		return await taskCache.createTask({
+			...fields,
+			id: '',
+			type: input.type ?? 'todo',
+			description,
+			completed: false,
+			priority: input.priority ?? 'normal',
+			createdDate: new Date(),
+			startDate: start?.date ?? new Date(),
+			archived: false,
+		});
+	}
+
+	async updateTask(taskId: string, update: ApiTaskUpdate): Promise<void> {
+		this.getWritableTask(taskId);
+
+		const changes: TaskChanges = update.status ? statusChanges(update.status) : {};
+		if (update.description !== undefined) changes.description = update.description;
+		if (update.detail !== undefined) changes.detail = update.detail;
+		if (update.priority !== undefined) changes.priority = update.priority;
+		if (update.tags !== undefined) changes.tags = [...update.tags];
+		if (update.repeat !== undefined) changes.repeat = update.repeat ?? undefined;
+		if (update.startDate !== undefined) {
+			const start = update.startDate === null ? null : parseApiDate(update.startDate);
+			changes.startDate = start?.date;
+			changes.hasStartTime = start?.hasTime ?? false;
+		}
+		if (update.dueDate !== undefined) {
+			const due = update.dueDate === null ? null : parseApiDate(update.dueDate);
+			changes.dueDate = due?.date;
+			changes.hasDueTime = due?.hasTime ?? false;
+		}
+
+		await this.plugin.taskCache.updateTask(taskId, changes);
+	}
+
+	async completeTask(taskId: string, completed = true): Promise<void> {
+		this.getWritableTask(taskId);
+		await this.plugin.taskCache.updateTask(taskId, statusChanges(completed ? 'done' : 'todo'));
+	}
+
+	on<E extends ApiEventName>(event: E, handler: (data: ApiEventMap[E]) => void): () => void {
+		const wrapped: EventHandler = (data) => {
+			const payload = data?.task ? { ...data, task: toApiTask(data.task) } : data;
+			handler(payload as ApiEventMap[E]);
+		};
+		const eventBus = this.plugin.taskCache.getEventBus();
+		eventBus.on(event, wrapped);
+		this.subscriptions.push({ event, handler: wrapped });
+
+		return () => {
+			eventBus.off(event, wrapped);
+			this.subscriptions = this.subscriptions.filter(sub => sub.handler !== wrapped);
+		};
+	}
+
+	async openView(options: ApiOpenViewOptions = {}): Promise<void> {
+		const date = options.date !== undefined ? parseApiDate(options.date).date : getTodayDate();
+		await this.plugin.openViewAt(date, options.view);
+	}
+
+	/**
+	 * 移除所有事件订阅（插件卸载时调用）
+	 */
+	destroy(): void {
+		const eventBus = this.plugin.taskCache.getEventBus();
+		for (const { event, handler } of this.subscriptions) {
+			eventBus.off(event, handler);
+		}
+		this.subscriptions = [];
+		Logger.debug('PluginApi', 'Destroyed');
+	}
+
+	/**
+	 * 获取可修改的任务（不存在或只读时抛出错误）
+	 */
+	private getWritableTask(taskId: string): GCTask {
+		const task = this.plugin.taskCache.getTaskById(taskId);
+		if (!task) throw new Error(`Task not found: ${taskId}`);
+		if (task.source) throw new Error(`Task is read-only: ${taskId}`);
+		return task;
+	}
+}
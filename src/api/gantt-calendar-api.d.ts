@@ -0,0 +1,183 @@
+/**
+ * Gantt Calendar 公共 API 类型声明
+ *
+ * 供其他插件及 Templater / QuickAdd 脚本使用。本文件不依赖插件内部模块，
+ * 可直接复制到脚本或插件项目中：
+ *
+ * ```ts
+ * const api = app.plugins.plugins['gantt-calendar']?.api as GanttCalendarApi | undefined;
+ * if (api && api.version >= 1) {
+ *     await api.createTask({ description: '写周报', dueDate: '2026-03-06' });
+ * }
+ * ```
+ *
+ * 版本号在不兼容的改动时递增；新增方法或可选字段不改变版本号。
+ */
+
+/** 任务类型：待办 | 提醒 */
+export type ApiTaskType = 'todo' | 'reminder';
+
+/** 优先级 */
+export type ApiTaskPriority = 'high' | 'normal' | 'low';
+
+/** 任务状态 */
+export type ApiTaskStatus = 'todo' | 'in_progress' | 'done' | 'canceled';
+
+/** 视图类型 */
+export type ApiViewType = 'month' | 'week' | 'day' | 'task';
+
+/**
+ * 日期参数：Date，或本地时间字符串 `YYYY-MM-DD` / `YYYY-MM-DD HH:mm`
+ * （带时间的字符串会同时设置 hasStartTime / hasDueTime）
+ */
+export type ApiDateInput = Date | string;
+
+/**
+ * 任务（只读副本，修改请使用 updateTask）
+ */
+export interface ApiTask {
+	id: string;
+	type: ApiTaskType;
+	description: string;
+	detail?: string;
+	completed: boolean;
+	cancelled?: boolean;
+	status?: ApiTaskStatus;
+	priority: ApiTaskPriority;
+	tags?: string[];
+	createdDate?: Date;
+	startDate?: Date;
+	dueDate?: Date;
+	hasStartTime?: boolean;
+	hasDueTime?: boolean;
+	completionDate?: Date;
+	cancelledDate?: Date;
+	/** 周期规则，如 "every week on Monday" */
+	repeat?: string;
+	archived: boolean;
+	parentId?: string;
+	childIds?: string[];
+	/** 嵌套深度：0=顶层，最多 2 */
+	depth?: number;
+	/** 只读外部数据源 ID（订阅日历中的任务），此类任务不可修改 */
+	source?: string;
+	lastModified?: Date;
+}
+
+/**
+ * 查询条件（各条件同时满足）
+ */
+export interface ApiQueryOptions {
+	status?: ApiTaskStatus[];
+	priority?: ApiTaskPriority[];
+	/** 包含任一标签 */
+	tags?: string[];
+	type?: ApiTaskType[];
+	/** 按归档标记筛选 */
+	archived?: boolean;
+	dateRange?: {
+		start: Date;
+		end: Date;
+		field: 'created' | 'start' | 'due' | 'completed' | 'cancelled';
+	};
+	/** 数据源 ID（本地任务为 'json-local'，订阅日历见 ApiTask.source） */
+	sources?: string[];
+	parentId?: string;
+	/** 仅顶层任务 */
+	rootOnly?: boolean;
+}
+
+/**
+ * 新建任务
+ */
+export interface ApiTaskInput {
+	description: string;
+	/** 默认 'todo' */
+	type?: ApiTaskType;
+	detail?: string;
+	/** 默认 'normal' */
+	priority?: ApiTaskPriority;
+	tags?: string[];
+	/** 默认今天 */
+	startDate?: ApiDateInput;
+	dueDate?: ApiDateInput;
+	repeat?: string;
+	/** 父任务 ID（创建为子任务，未指定的属性继承父任务） */
+	parentId?: string;
+}
+
+/**
+ * 更新任务（仅修改给出的字段；日期传 null 表示清除）
+ */
+export interface ApiTaskUpdate {
+	description?: string;
+	detail?: string;
+	priority?: ApiTaskPriority;
+	status?: ApiTaskStatus;
+	tags?: string[];
+	startDate?: ApiDateInput | null;
+	dueDate?: ApiDateInput | null;
+	repeat?: string | null;
+}
+
+/**
+ * 事件及其数据
+ */
+export interface ApiEventMap {
+	'task:created': { task: ApiTask };
+	'task:updated': { task: ApiTask };
+	'task:deleted': { taskId: string };
+}
+
+export type ApiEventName = keyof ApiEventMap;
+
+/**
+ * 打开视图的选项
+ */
+export interface ApiOpenViewOptions {
+	/** 默认保持当前视图 */
+	view?: ApiViewType;
+	/** 默认今天 */
+	date?: ApiDateInput;
+}
+
+/**
+ * Gantt Calendar 公共 API
+ */
+export interface GanttCalendarApi {
+	/** API 版本 */
+	readonly version: number;
+
+	/** 任务数据是否已加载（加载前查询结果为空） */
+	isReady(): boolean;
+
+	/** 查询任务（省略条件时返回全部任务，含订阅日历中的只读任务） */
+	queryTasks(options?: ApiQueryOptions): ApiTask[];
+
+	/** 按 ID 获取任务 */
+	getTask(taskId: string): ApiTask | null;
+
+	/**
+	 * 创建任务（parentId 指向不存在或只读的任务，或父任务已达最大嵌套深度时抛出错误）
+	 * @returns 新任务 ID
+	 */
+	createTask(input: ApiTaskInput): Promise<string>;
+
+	/** 更新任务（只读任务或不存在时抛出错误） */
+	updateTask(taskId: string, update: ApiTaskUpdate): Promise<void>;
+
+	/**
+	 * 标记任务完成或恢复为待办（周期任务完成后生成下一次实例）
+	 * @param completed 默认 true
+	 */
+	completeTask(taskId: string, completed?: boolean): Promise<void>;
+
+	/**
+	 * 订阅任务事件
+	 * @returns 取消订阅的函数（插件卸载时自动取消）
+	 */
+	on<E extends ApiEventName>(event: E, handler: (data: ApiEventMap[E]) => void): () => void;
+
+	/** 打开日历视图并定位到指定日期 */
+	openView(options?: ApiOpenViewOptions): Promise<void>;
+}
@@ -5,6 +5,8 @@
 
 import type GanttCalendarPlugin from '../../main';
 import { registerCommonCommands } from './common';
+import { registerHistoryCommands } from './history';
+import { registerKeyboardCommands } from './keyboard';
 
 /**
  * 注册所有命令
@@ -12,4 +14,6 @@ import { registerCommonCommands } from './common';
  */
 export function registerAllCommands(plugin: GanttCalendarPlugin): void {
 	registerCommonCommands(plugin);
+	registerHistoryCommands(plugin);
+	registerKeyboardCommands(plugin);
 }
@@ -1,7 +1,14 @@
 import { Notice } from 'obsidian';
-import { GC_VIEW_ID } from '../GCMainView';
+import { GC_VIEW_ID, GCMainView } from '../GCMainView';
 import { CreateTaskModal } from '../modals/CreateTaskModal';
 import { GitHubSetupWizard } from '../modals/GitHubSetupWizard';
+import { MarkdownImportModal } from '../modals/MarkdownImportModal';
+import { TaskImportModal } from '../modals/TaskImportModal';
+import { TaskSearchModal } from '../modals/TaskSearchModal';
+import { describeSyncResult } from '../services/SyncService';
+import { exportTaskList, type TaskListExportFormat } from '../services/TaskListExporter';
+import { sortTasks } from '../tasks/taskSorter';
+import { TaskViewRenderer } from '../views/TaskView';
 import type GanttCalendarPlugin from '../../main';
 
 /**
@@ -37,6 +44,15 @@ export function registerCommonCommands(plugin: GanttCalendarPlugin): void {
 		}
 	});
 
+	// 搜索任务
+	plugin.addCommand({
+		id: 'search-tasks',
+		name: '搜索任务',
+		callback: () => {
+			new TaskSearchModal(plugin.app, plugin).open();
+		}
+	});
+
 	// 创建新待办
 	plugin.addCommand({
 		id: 'create-todo',
@@ -78,6 +94,68 @@ export function registerCommonCommands(plugin: GanttCalendarPlugin): void {
 		}
 	});
 
+	// 从笔记导入 Tasks / Dataview 格式任务
+	plugin.addCommand({
+		id: 'import-markdown-tasks',
+		name: '从笔记导入任务',
+		callback: () => {
+			new MarkdownImportModal(plugin.app, plugin).open();
+		}
+	});
+
+	// 从 CSV / JSON 文件导入任务
+	plugin.addCommand({
+		id: 'import-tasks-file',
+		name: '从 CSV / JSON 文件导入任务',
+		callback: () => {
+			new TaskImportModal(plugin.app, plugin).open();
+		}
+	});
+
+	// 导出任务视图当前筛选的任务
+	const exportFormats: Array<{ format: TaskListExportFormat; label: string }> = [
+		{ format: 'csv', label: 'CSV' },
+		{ format: 'json', label: 'JSON' },
+	];
+	for (const { format, label } of exportFormats) {
+		plugin.addCommand({
+			id: `export-task-list-${format}`,
+			name: `导出任务列表为 ${label} 文件`,
+			callback: async () => {
+				// 已打开的视图使用其当前筛选状态，否则使用设置中保存的筛选状态
+				const view = plugin.app.workspace.getLeavesOfType(GC_VIEW_ID)[0]?.view;
+				const renderer = view instanceof GCMainView
+					? view.getTaskRenderer()
+					: new TaskViewRenderer(plugin.app, plugin);
+				const tasks = sortTasks(renderer.getFilteredTasks(), renderer.getSortState());
+				if (tasks.length === 0) {
+					new Notice('当前筛选条件下没有任务');
+					return;
+				}
+				try {
+					const filePath = await exportTaskList(plugin.app, tasks, format);
+					new Notice(`已导出 ${tasks.length} 个任务到 ${filePath}`);
+				} catch (error) {
+					new Notice('导出失败: ' + (error as Error).message);
+				}
+			}
+		});
+	}
+
+	// 导出 iCalendar 文件
+	plugin.addCommand({
+		id: 'export-ics',
+		name: '导出任务为 iCalendar 文件',
+		callback: async () => {
+			try {
+				const filePath = await plugin.taskCache.exportIcs();
+				new Notice(`已导出到 ${filePath}`);
+			} catch (error) {
+				new Notice('导出失败: ' + (error as Error).message);
+			}
+		}
+	});
+
 	// GitHub 同步设置
 	plugin.addCommand({
 		id: 'github-sync-setup',
@@ -87,16 +165,35 @@ export function registerCommonCommands(plugin: GanttCalendarPlugin): void {
 		}
 	});
 
-	// 手动推送到 GitHub
+	// 手动与 GitHub 同步（拉取合并后推送）
 	plugin.addCommand({
 		id: 'github-sync-push',
-		name: '立即推送任务到 GitHub',
+		name: '立即与 GitHub 同步任务',
 		callback: async () => {
 			try {
-				await plugin.taskCache.pushToGitHubNow();
-				new Notice('推送成功！');
+				const result = await plugin.taskCache.syncNow('github');
+				new Notice(describeSyncResult(result));
+			} catch (error) {
+				new Notice('同步失败: ' + (error as Error).message);
+			}
+		}
+	});
+
+	// 手动与其他同步后端同步（WebDAV、库内文件夹、Gitea、GitLab）
+	plugin.addCommand({
+		id: 'remote-sync-now',
+		name: '立即与其他同步后端同步任务',
+		callback: async () => {
+			const backend = plugin.settings.remoteSync?.backend;
+			if (!backend || !plugin.taskCache.isSyncConfigured(backend)) {
+				new Notice('未启用其他同步后端');
+				return;
+			}
+			try {
+				const result = await plugin.taskCache.syncNow(backend);
+				new Notice(describeSyncResult(result));
 			} catch (error) {
-				new Notice('推送失败: ' + (error as Error).message);
+				new Notice('同步失败: ' + (error as Error).message);
 			}
 		}
 	});
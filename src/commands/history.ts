@@ -0,0 +1,70 @@
+import { Notice } from 'obsidian';
+import type GanttCalendarPlugin from '../../main';
+import type { TaskStore } from '../TaskStore';
+import { UndoNoticeClasses } from '../utils/bem';
+import { Logger } from '../utils/logger';
+
+/** 撤销提示显示时长（毫秒） */
+const UNDO_NOTICE_DURATION = 8000;
+
+/**
+ * 注册撤销/重做命令
+ * @param plugin 插件实例
+ */
+export function registerHistoryCommands(plugin: GanttCalendarPlugin): void {
+	// 撤销任务操作
+	plugin.addCommand({
+		id: 'undo-task-change',
+		name: '撤销任务操作',
+		callback: async () => {
+			await undoLastChange(plugin.taskCache);
+		}
+	});
+
+	// 重做任务操作
+	plugin.addCommand({
+		id: 'redo-task-change',
+		name: '重做任务操作',
+		callback: async () => {
+			try {
+				const label = await plugin.taskCache.redo();
+				new Notice(label ? `已重做：${label}` : '没有可重做的操作');
+			} catch (error) {
+				Logger.error('history', 'Redo failed:', error);
+				new Notice('重做失败');
+			}
+		}
+	});
+}
+
+/**
+ * 撤销最近一次任务操作并提示结果
+ */
+async function undoLastChange(taskStore: TaskStore): Promise<void> {
+	try {
+		const label = await taskStore.undo();
+		new Notice(label ? `已撤销：${label}` : '没有可撤销的操作');
+	} catch (error) {
+		Logger.error('history', 'Undo failed:', error);
+		new Notice('撤销失败');
+	}
+}
+
+/**
+ * 显示带「撤销」按钮的提示（用于删除等破坏性操作之后）
+ * @param taskStore 任务存储
+ * @param message 提示文本
+ */
+export function showUndoNotice(taskStore: TaskStore, message: string): void {
+	const fragment = document.createDocumentFragment();
+	const container = fragment.createDiv(UndoNoticeClasses.block);
+	container.createSpan({ text: message, cls: UndoNoticeClasses.elements.message });
+	const button = container.createEl('button', { text: '撤销', cls: UndoNoticeClasses.elements.action });
+
+	const notice = new Notice(fragment, UNDO_NOTICE_DURATION);
+	button.addEventListener('click', (e) => {
+		e.stopPropagation();
+		notice.hide();
+		void undoLastChange(taskStore);
+	});
+}
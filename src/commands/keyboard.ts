@@ -0,0 +1,34 @@
+/**
+ * @fileoverview 键盘光标命令
+ * @module commands/keyboard
+ *
+ * 将视图内的光标操作（移动、切换状态、设置优先级、推迟、编辑、创建）注册为命令，
+ * 以便在「设置 → 快捷键」中重新绑定。仅在日历视图处于活动状态时可用。
+ */
+
+import { GCMainView } from '../GCMainView';
+import { VIEW_CURSOR_ACTIONS } from '../views/ViewCursor';
+import { Logger } from '../utils/logger';
+import type GanttCalendarPlugin from '../../main';
+
+/**
+ * 注册键盘光标命令
+ * @param plugin 插件实例
+ */
+export function registerKeyboardCommands(plugin: GanttCalendarPlugin): void {
+	for (const { action, name } of VIEW_CURSOR_ACTIONS) {
+		plugin.addCommand({
+			id: `cursor-${action}`,
+			name,
+			checkCallback: (checking: boolean) => {
+				const view = plugin.app.workspace.getActiveViewOfType(GCMainView);
+				if (!view) return false;
+				if (!checking) {
+					view.getCursor().run(action).catch(error =>
+						Logger.error('KeyboardCommands', `Cursor action ${action} failed`, error));
+				}
+				return true;
+			}
+		});
+	}
+}
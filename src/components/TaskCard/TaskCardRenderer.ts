@@ -5,7 +5,7 @@ import { TaskCardClasses, TimeBadgeClasses } from '../../utils/bem';
 import { registerTaskContextMenu } from '../../contextMenu/contextMenuIndex';
 import { updateTaskCompletion } from '../../tasks/taskUpdater';
 import { RegularExpressions } from '../../utils/RegularExpressions';
-import { formatDate } from '../../dateUtils/dateUtilsIndex';
+import { formatDate, formatTaskDate } from '../../dateUtils/dateUtilsIndex';
 import { TooltipManager } from '../../utils/tooltipManager';
 import { Logger } from '../../utils/logger';
 import { TagPill } from '../tagPill';
@@ -27,9 +27,10 @@ export class TaskCardRenderer {
 
 	/**
 	 * 格式化日期显示
+	 * @param hasTime 为 true 时附带 HH:mm
 	 */
-	formatDateForDisplay(date: Date): string {
-		return formatDate(date, 'yyyy-MM-dd');
+	formatDateForDisplay(date: Date, hasTime = false): string {
+		return hasTime ? formatTaskDate(date, true) : formatDate(date, 'yyyy-MM-dd');
 	}
 
 	/**
@@ -174,11 +175,11 @@ export class TaskCardRenderer {
 			this.renderTimeBadge(container, '创建', task.createdDate, TimeBadgeClasses.created);
 		}
 		if (config.showStart && task.startDate) {
-			this.renderTimeBadge(container, '开始', task.startDate, TimeBadgeClasses.start);
+			this.renderTimeBadge(container, '开始', task.startDate, TimeBadgeClasses.start, false, task.hasStartTime);
 		}
 		if (config.showDue && task.dueDate) {
 			const isOverdue = config.showOverdueIndicator && task.dueDate < new Date() && !task.completed;
-			this.renderTimeBadge(container, '截止', task.dueDate, TimeBadgeClasses.due, isOverdue);
+			this.renderTimeBadge(container, '截止', task.dueDate, TimeBadgeClasses.due, isOverdue, task.hasDueTime);
 		}
 		if (config.showCancelled && task.cancelledDate) {
 			this.renderTimeBadge(container, '取消', task.cancelledDate, TimeBadgeClasses.cancelled);
@@ -193,10 +194,11 @@ export class TaskCardRenderer {
 		label: string,
 		date: Date,
 		className: string,
-		isOverdue = false
+		isOverdue = false,
+		hasTime = false
 	): void {
 		const badge = container.createEl('span', {
-			text: `${label}:${this.formatDateForDisplay(date)}`,
+			text: `${label}:${this.formatDateForDisplay(date, hasTime)}`,
 			cls: `${TaskCardClasses.elements.timeBadge} ${className}`
 		});
 		if (isOverdue) {
@@ -0,0 +1,245 @@
+/**
+ * 笔记内嵌任务块
+ *
+ * 渲染 ```gantt-tasks``` 代码块（配置语法见 tasks/taskEmbed），支持：
+ * - 列表：复用 TaskCardComponent + 任务视图预设
+ * - 月历：指定月份的迷你月视图
+ * - 甘特条：指定日期范围内的任务条
+ *
+ * 通过 TaskStore.onUpdate 订阅数据变化并自动重新渲染；
+ * 点击状态图标按 cycleTaskStatus 切换状态，订阅日历中的只读任务不可切换。
+ */
+
+import { MarkdownRenderChild } from 'obsidian';
+import type { GCTask } from '../types';
+import { TaskCardComponent, getTaskViewConfig } from './TaskCard';
+import { StatusIcon } from './StatusIcon';
+import { TaskEmbedClasses } from '../utils/bem';
+import { Logger } from '../utils/logger';
+import { getPriorityClass } from '../utils/priorityUtils';
+import { cycleTaskStatus } from '../tasks/taskUpdater';
+import { generateMonthCalendar } from '../calendar/calendarGenerator';
+import { getTodayDate } from '../dateUtils/dateUtilsIndex';
+import { getTaskSpan, parseTaskEmbedSpec, selectEmbedTasks, TaskEmbedSpecError, type TaskEmbedSpec } from '../tasks/taskEmbed';
+import type { TaskStoreUpdateListener } from '../TaskStore';
+
+/** 月历每格最多显示的任务数 */
+const MAX_DAY_TASKS = 3;
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+export class TaskEmbedBlock extends MarkdownRenderChild {
+	private plugin: any;
+	private source: string;
+	private renderTimer: number | null = null;
+	private readonly updateListener: TaskStoreUpdateListener = () => this.scheduleRender();
+
+	constructor(containerEl: HTMLElement, plugin: any, source: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	onload(): void {
+		this.plugin.taskCache.onUpdate(this.updateListener);
+		this.render();
+	}
+
+	onunload(): void {
+		this.plugin.taskCache.offUpdate(this.updateListener);
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+			this.renderTimer = null;
+		}
+	}
+
+	/**
+	 * 合并短时间内的多次更新
+	 */
+	private scheduleRender(): void {
+		if (this.renderTimer !== null) return;
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, 100);
+	}
+
+	private render(): void {
+		const el = this.containerEl;
+		el.empty();
+		el.addClass(TaskEmbedClasses.block);
+
+		const startOnMonday = !!(this.plugin.settings?.startOnMonday);
+		let spec: TaskEmbedSpec;
+		try {
+			spec = parseTaskEmbedSpec(this.source, { startOnMonday });
+		} catch (error) {
+			const message = error instanceof TaskEmbedSpecError && error.line > 0
+				? `第 ${error.line} 行：${error.message}`
+				: (error as Error).message;
+			el.createDiv({ text: `gantt-tasks 配置错误 · ${message}`, cls: TaskEmbedClasses.elements.error });
+			return;
+		}
+
+		if (!this.plugin.taskCache.getStatus().initialized) {
+			el.createDiv({ text: '任务加载中…', cls: TaskEmbedClasses.elements.message });
+			return;
+		}
+
+		const tasks = selectEmbedTasks(this.plugin.taskCache.queryTasks(), spec, { startOnMonday });
+
+		const header = el.createDiv(TaskEmbedClasses.elements.header);
+		header.createSpan({ text: spec.title || this.getDefaultTitle(spec), cls: TaskEmbedClasses.elements.title });
+		header.createSpan({ text: `${tasks.length} 个任务`, cls: TaskEmbedClasses.elements.count });
+
+		if (!spec.range) {
+			this.renderList(el, tasks);
+		} else if (spec.view === 'month') {
+			this.renderMonth(el, tasks, spec.range.start, startOnMonday);
+		} else {
+			this.renderGantt(el, tasks, spec.range);
+		}
+	}
+
+	private getDefaultTitle(spec: TaskEmbedSpec): string {
+		if (!spec.range) return '任务';
+		const { start, end } = spec.range;
+		if (spec.view === 'month') return `${start.getFullYear()}年${start.getMonth() + 1}月`;
+		return `${start.getMonth() + 1}月${start.getDate()}日 – ${end.getMonth() + 1}月${end.getDate()}日`;
+	}
+
+	// ==================== 列表 ====================
+
+	private renderList(el: HTMLElement, tasks: GCTask[]): void {
+		if (tasks.length === 0) {
+			el.createDiv({ text: '没有匹配的任务', cls: TaskEmbedClasses.elements.message });
+			return;
+		}
+
+		const list = el.createDiv(TaskEmbedClasses.elements.list);
+		const config = getTaskViewConfig();
+		tasks.forEach(task => {
+			const item = list.createDiv(TaskEmbedClasses.elements.item);
+			this.renderStatusIcon(item, task, 'normal');
+			new TaskCardComponent({
+				task,
+				config,
+				container: item,
+				app: this.plugin.app,
+				plugin: this.plugin,
+				onClick: (clicked) => this.openTask(clicked),
+				onRefresh: () => this.render(),
+			}).render();
+		});
+	}
+
+	// ==================== 月历 ====================
+
+	private renderMonth(el: HTMLElement, tasks: GCTask[], anchor: Date, startOnMonday: boolean): void {
+		const monthData = generateMonthCalendar(anchor.getFullYear(), anchor.getMonth() + 1, startOnMonday);
+		const grid = el.createDiv(TaskEmbedClasses.elements.month);
+
+		const labels = startOnMonday ? [...WEEKDAY_LABELS.slice(1), WEEKDAY_LABELS[0]] : WEEKDAY_LABELS;
+		labels.forEach(label => grid.createDiv({ text: label, cls: TaskEmbedClasses.elements.weekday }));
+
+		const spans = tasks.map(task => ({ task, span: getTaskSpan(task) }));
+		monthData.days.forEach(day => {
+			const cell = grid.createDiv(TaskEmbedClasses.elements.day);
+			if (!day.isCurrentMonth) cell.addClass(TaskEmbedClasses.modifiers.dayOutside);
+			if (day.isToday) cell.addClass(TaskEmbedClasses.modifiers.dayToday);
+			cell.createDiv({ text: String(day.day), cls: TaskEmbedClasses.elements.dayNumber });
+
+			const dayTasks = spans.filter(({ span }) => span && span.start <= day.date && span.end >= day.date);
+			dayTasks.slice(0, MAX_DAY_TASKS).forEach(({ task }) => {
+				const item = cell.createDiv(TaskEmbedClasses.elements.dayTask);
+				if (task.completed) item.addClass(TaskEmbedClasses.modifiers.taskDone);
+				this.renderStatusIcon(item, task, 'compact');
+				const title = item.createSpan({ text: task.description });
+				title.setAttribute('title', task.description);
+				title.addEventListener('click', () => this.openTask(task, day.date));
+			});
+			if (dayTasks.length > MAX_DAY_TASKS) {
+				cell.createDiv({ text: `+${dayTasks.length - MAX_DAY_TASKS}`, cls: TaskEmbedClasses.elements.more });
+			}
+		});
+	}
+
+	// ==================== 甘特条 ====================
+
+	private renderGantt(el: HTMLElement, tasks: GCTask[], range: { start: Date; end: Date }): void {
+		const { start, end } = range;
+		const days: Date[] = [];
+		for (const d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
+			days.push(new Date(d));
+		}
+		const dayIndex = (date: Date) => Math.round((date.getTime() - start.getTime()) / 86400000);
+
+		const grid = el.createDiv(TaskEmbedClasses.elements.gantt);
+		grid.style.gridTemplateColumns = `minmax(120px, 30%) repeat(${days.length}, minmax(18px, 1fr))`;
+
+		// 日期表头
+		grid.createDiv();
+		const today = getTodayDate().getTime();
+		days.forEach(day => {
+			const dateEl = grid.createDiv({ text: String(day.getDate()), cls: TaskEmbedClasses.elements.ganttDate });
+			dateEl.setAttribute('title', `${day.getMonth() + 1}月${day.getDate()}日 周${WEEKDAY_LABELS[day.getDay()]}`);
+			if (day.getTime() === today) dateEl.addClass(TaskEmbedClasses.modifiers.ganttDateToday);
+		});
+
+		if (tasks.length === 0) {
+			el.createDiv({ text: '该范围内没有任务', cls: TaskEmbedClasses.elements.message });
+			return;
+		}
+
+		tasks.forEach((task, index) => {
+			const row = index + 2;
+			const label = grid.createDiv(TaskEmbedClasses.elements.ganttLabel);
+			label.style.gridRow = String(row);
+			this.renderStatusIcon(label, task, 'compact');
+			label.createSpan({ text: task.description }).setAttribute('title', task.description);
+
+			const span = getTaskSpan(task);
+			if (!span) return;
+			const from = Math.max(0, dayIndex(span.start));
+			const to = Math.min(days.length - 1, dayIndex(span.end));
+			const bar = grid.createDiv(TaskEmbedClasses.elements.ganttBar);
+			bar.addClass(getPriorityClass(task.priority));
+			if (task.completed) bar.addClass(TaskEmbedClasses.modifiers.barDone);
+			bar.style.gridRow = String(row);
+			bar.style.gridColumn = `${from + 2} / ${to + 3}`;
+			bar.setAttribute('title', task.description);
+			bar.addEventListener('click', () => this.openTask(task));
+		});
+	}
+
+	// ==================== 交互 ====================
+
+	/**
+	 * 渲染状态图标，点击循环切换状态（列表刷新由 onUpdate 触发）
+	 */
+	private renderStatusIcon(container: HTMLElement, task: GCTask, size: 'compact' | 'normal'): void {
+		const statusIcon = new StatusIcon({
+			status: task.status || (task.completed ? 'done' : task.cancelled ? 'canceled' : 'todo'),
+			priority: task.priority || 'normal',
+			size,
+			disabled: !!task.source,
+		});
+		statusIcon.render(container);
+		statusIcon.onClick(async () => {
+			try {
+				await cycleTaskStatus(this.plugin.app, task);
+			} catch (error) {
+				Logger.error('TaskEmbedBlock', 'Failed to toggle task status', error);
+			}
+		});
+	}
+
+	/**
+	 * 在日历视图中打开任务所在日期
+	 */
+	private openTask(task: GCTask, date?: Date): void {
+		const target = date ?? task.dueDate ?? task.startDate ?? getTodayDate();
+		this.plugin.openViewAt(new Date(target)).catch((error: unknown) =>
+			Logger.error('TaskEmbedBlock', 'Failed to open view', error));
+	}
+}
@@ -2,6 +2,7 @@ import { App, Notice } from 'obsidian';
 import type { GCTask } from '../../types';
 import { updateTaskProperties } from '../../tasks/taskUpdater';
 import { Logger } from '../../utils/logger';
+import { showUndoNotice } from '../../commands/history';
 
 /**
  * 取消任务
@@ -37,7 +38,13 @@ export async function cancelTask(
 			cancelledDate: new Date()
 		});
 
-		new Notice('任务已取消');
+		// 取消会联动子任务，提供撤销入口
+		const plugin = (app as any).plugins?.plugins?.['gantt-calendar'];
+		if (plugin?.taskCache) {
+			showUndoNotice(plugin.taskCache, '任务已取消');
+		} else {
+			new Notice('任务已取消');
+		}
 		onRefresh();
 	} catch (error) {
 		Logger.error('cancelTask', 'Failed to cancel task:', error);
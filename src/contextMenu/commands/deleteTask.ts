@@ -1,10 +1,11 @@
 import { App, Notice } from 'obsidian';
 import type { GCTask } from '../../types';
 import { Logger } from '../../utils/logger';
+import { showUndoNotice } from '../../commands/history';
 
 /**
  * 删除任务
- * 从任务缓存中删除任务
+ * 将任务（连同子任务）移入回收站
  * @param app Obsidian App 实例
  * @param task 要删除的任务
  * @param onRefresh 刷新回调
@@ -24,7 +25,7 @@ export async function deleteTask(
 		}
 
 		await plugin.taskCache.deleteTask(task.id);
-		new Notice('任务已删除');
+		showUndoNotice(plugin.taskCache, '任务已移至回收站');
 		onRefresh();
 	} catch (error) {
 		Logger.error('deleteTask', 'Failed to delete task:', error);
@@ -180,13 +180,15 @@ export function registerTaskContextMenu(
  * @param plugin 插件实例
  * @param targetDate 目标日期（新任务的到期日期）
  * @param onRefresh 创建成功后的刷新回调
+ * @param targetHasTime 目标日期是否带具体时间（作为截止时间）
  */
 export function showCreateTaskMenu(
 	e: MouseEvent,
 	app: App,
 	plugin: GanttCalendarPlugin,
 	targetDate: Date,
-	onRefresh: () => void
+	onRefresh: () => void,
+	targetHasTime = false
 ): void {
 	e.preventDefault();
 	e.stopPropagation();
@@ -195,6 +197,7 @@ export function showCreateTaskMenu(
 		app,
 		plugin,
 		targetDate,
+		targetHasTime,
 		defaultType: 'todo',
 		onSuccess: onRefresh,
 	});
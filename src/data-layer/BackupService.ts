@@ -0,0 +1,190 @@
+/**
+ * BackupService - tasks.json 本地备份
+ *
+ * 在 data/backups/ 中保存带时间戳的快照，文件名为 `tasks-<日期>-<时间>-<类型>.json`：
+ * - daily：开启每日备份时，每天首次写入 tasks.json 前备份磁盘上的文件
+ * - migration / import / restore：结构迁移、批量导入、恢复备份之前
+ * - manual：手动备份
+ *
+ * 每日备份与其他备份分别保留最近的若干份，超出的在创建新备份后删除。
+ */
+
+import { App } from 'obsidian';
+import type { TasksJsonFile } from './JsonDataSource';
+import type { BackupConfig } from './types';
+import { parseTasksFile } from './ISyncBackend';
+import { Logger } from '../utils/logger';
+
+/**
+ * 备份类型
+ */
+export type BackupReason = 'daily' | 'migration' | 'import' | 'restore' | 'manual';
+
+/** 备份类型显示名称 */
+export const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+	daily: '每日备份',
+	migration: '迁移前',
+	import: '导入前',
+	restore: '恢复前',
+	manual: '手动备份',
+};
+
+/**
+ * 备份快照
+ */
+export interface BackupInfo {
+	/** 文件路径（相对库根目录） */
+	path: string;
+	reason: BackupReason;
+	createdAt: Date;
+}
+
+/** 默认配置 */
+export const DEFAULT_BACKUP_CONFIG: BackupConfig = {
+	daily: true,
+	keepDaily: 7,
+	keepOther: 10,
+};
+
+const BACKUP_NAME_REGEX = /^tasks-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})-(daily|migration|import|restore|manual)(?:-\d+)?\.json$/;
+
+/**
+ * 生成备份文件名（不含序号）
+ */
+export function formatBackupName(reason: BackupReason, date: Date): string {
+	return `tasks-${formatDateKey(date)}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}-${reason}.json`;
+}
+
+/**
+ * 解析备份文件名（不是备份文件时返回 null）
+ */
+export function parseBackupName(name: string): { reason: BackupReason; createdAt: Date } | null {
+	const match = name.match(BACKUP_NAME_REGEX);
+	if (!match) return null;
+	const [, year, month, day, hours, minutes, seconds, reason] = match;
+	return {
+		reason: reason as BackupReason,
+		createdAt: new Date(+year, +month - 1, +day, +hours, +minutes, +seconds),
+	};
+}
+
+/**
+ * 超出保留份数的备份（输入按时间倒序，保留份数小于 1 时按 1 处理）
+ */
+export function selectExpiredBackups(backups: BackupInfo[], config: BackupConfig): BackupInfo[] {
+	const daily = backups.filter(backup => backup.reason === 'daily');
+	const other = backups.filter(backup => backup.reason !== 'daily');
+	return [
+		...daily.slice(Math.max(1, config.keepDaily)),
+		...other.slice(Math.max(1, config.keepOther)),
+	];
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, '0');
+}
+
+function formatDateKey(date: Date): string {
+	return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+export class BackupService {
+	private app: App;
+	private backupDir: string;
+	private config: BackupConfig = { ...DEFAULT_BACKUP_CONFIG };
+
+	/** 已有每日备份的日期（YYYYMMDD），避免每次写入都列目录 */
+	private lastDailyKey: string | null = null;
+
+	constructor(app: App, backupDir: string) {
+		this.app = app;
+		this.backupDir = backupDir;
+	}
+
+	configure(config: BackupConfig): void {
+		this.config = { ...config };
+	}
+
+	/**
+	 * 创建备份
+	 * @param content tasks.json 内容
+	 */
+	async createBackup(reason: BackupReason, content: string): Promise<BackupInfo> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.backupDir))) {
+			await adapter.mkdir(this.backupDir);
+		}
+
+		const createdAt = new Date();
+		const baseName = formatBackupName(reason, createdAt);
+		let path = `${this.backupDir}/${baseName}`;
+		for (let n = 2; await adapter.exists(path); n++) {
+			path = `${this.backupDir}/${baseName.replace(/\.json$/, `-${n}.json`)}`;
+		}
+		await adapter.write(path, content);
+		Logger.debug('BackupService', `Created ${reason} backup: ${path}`);
+
+		await this.prune();
+		return { path, reason, createdAt };
+	}
+
+	/**
+	 * 开启每日备份且今天尚未备份时创建每日备份
+	 * @param readContent 读取要备份的内容（文件不存在时返回 null）
+	 */
+	async ensureDailyBackup(readContent: () => Promise<string | null>): Promise<void> {
+		if (!this.config.daily) return;
+
+		const todayKey = formatDateKey(new Date());
+		if (this.lastDailyKey === todayKey) return;
+
+		const backups = await this.listBackups();
+		const hasToday = backups.some(backup =>
+			backup.reason === 'daily' && formatDateKey(backup.createdAt) === todayKey
+		);
+		if (!hasToday) {
+			const content = await readContent();
+			if (content === null) return;
+			await this.createBackup('daily', content);
+		}
+		this.lastDailyKey = todayKey;
+	}
+
+	/**
+	 * 列出备份（按时间倒序）
+	 */
+	async listBackups(): Promise<BackupInfo[]> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.backupDir))) return [];
+
+		const { files } = await adapter.list(this.backupDir);
+		const backups: BackupInfo[] = [];
+		for (const path of files) {
+			const parsed = parseBackupName(path.split('/').pop() ?? '');
+			if (parsed) backups.push({ path, ...parsed });
+		}
+		return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.path.localeCompare(a.path));
+	}
+
+	/**
+	 * 读取备份（迁移到当前结构版本）
+	 */
+	async readBackup(path: string): Promise<TasksJsonFile> {
+		return parseTasksFile(await this.app.vault.adapter.read(path));
+	}
+
+	/**
+	 * 删除超出保留份数的备份
+	 */
+	private async prune(): Promise<void> {
+		const expired = selectExpiredBackups(await this.listBackups(), this.config);
+		for (const backup of expired) {
+			try {
+				await this.app.vault.adapter.remove(backup.path);
+				Logger.debug('BackupService', `Removed expired backup: ${backup.path}`);
+			} catch (error) {
+				Logger.error('BackupService', `Failed to remove backup ${backup.path}:`, error);
+			}
+		}
+	}
+}
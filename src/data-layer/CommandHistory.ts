@@ -0,0 +1,111 @@
+/**
+ * CommandHistory - 撤销/重做命令栈
+ *
+ * 保存任务变更的前后快照，撤销时恢复 before，重做时恢复 after。
+ * 快照的记录与应用由数据源负责，本类只维护两个栈。
+ *
+ * 特性：
+ * - 新操作入栈时清空重做栈
+ * - 栈深度有上限，超出时丢弃最早的记录
+ * - 任务被彻底删除后，丢弃可能恢复该任务的记录
+ */
+
+import type { HistoryEntry } from './types';
+
+export class CommandHistory {
+	private undoStack: HistoryEntry[] = [];
+	private redoStack: HistoryEntry[] = [];
+	private readonly maxSize: number;
+
+	constructor(maxSize = 100) {
+		this.maxSize = maxSize;
+	}
+
+	/**
+	 * 记录新操作（清空重做栈）
+	 */
+	push(entry: HistoryEntry): void {
+		this.undoStack.push(entry);
+		if (this.undoStack.length > this.maxSize) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	/**
+	 * 取出最近一次可撤销的操作，并移入重做栈
+	 */
+	undo(): HistoryEntry | undefined {
+		const entry = this.undoStack.pop();
+		if (entry) {
+			this.redoStack.push(entry);
+		}
+		return entry;
+	}
+
+	/**
+	 * 取出最近一次可重做的操作，并移回撤销栈
+	 */
+	redo(): HistoryEntry | undefined {
+		const entry = this.redoStack.pop();
+		if (entry) {
+			this.undoStack.push(entry);
+		}
+		return entry;
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	/**
+	 * 下一次撤销的操作描述
+	 */
+	peekUndoLabel(): string | undefined {
+		return this.undoStack[this.undoStack.length - 1]?.label;
+	}
+
+	/**
+	 * 下一次重做的操作描述
+	 */
+	peekRedoLabel(): string | undefined {
+		return this.redoStack[this.redoStack.length - 1]?.label;
+	}
+
+	/**
+	 * 丢弃涉及指定任务的记录（任务已被彻底删除，撤销/重做不得再恢复它）
+	 *
+	 * 快照按顺序叠加，一条记录的 before 依赖更早的记录已被撤销或仍生效，
+	 * 因此同时丢弃依赖被丢弃记录的部分：撤销栈中更早的记录、重做栈中更晚的记录。
+	 */
+	forgetTasks(taskIds: ReadonlySet<string>): void {
+		if (taskIds.size === 0) return;
+		const touches = (entry: HistoryEntry) =>
+			[...entry.before.keys(), ...entry.after.keys()].some(id => taskIds.has(id));
+
+		// 撤销栈末尾最新；重做栈末尾为最早撤销、最先重做的记录
+		const lastUndo = findLastIndex(this.undoStack, touches);
+		if (lastUndo >= 0) this.undoStack = this.undoStack.slice(lastUndo + 1);
+		const lastRedo = findLastIndex(this.redoStack, touches);
+		if (lastRedo >= 0) this.redoStack = this.redoStack.slice(lastRedo + 1);
+	}
+
+	/**
+	 * 清空历史
+	 */
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+	for (let i = items.length - 1; i >= 0; i--) {
+		if (predicate(items[i])) return i;
+	}
+	return -1;
+}
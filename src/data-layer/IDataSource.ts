@@ -94,15 +94,15 @@ export interface IDataSource {
 /**
  * 数据源工厂接口
  *
- * 用于动态创建数据源实例
+ * 用于动态创建数据源实例；同步后端（ISyncBackend）也通过此接口注册。
  */
-export interface IDataSourceFactory {
+export interface IDataSourceFactory<T = IDataSource, C = DataSourceConfig> {
 	/**
 	 * 创建数据源实例
 	 * @param config - 数据源配置
 	 * @returns 数据源实例
 	 */
-	create(config: DataSourceConfig): IDataSource;
+	create(config: C): T;
 
 	/**
 	 * 获取数据源类型
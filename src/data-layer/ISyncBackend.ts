@@ -0,0 +1,112 @@
+/**
+ * ISyncBackend - 同步后端抽象接口
+ *
+ * 同步后端只负责远端 tasks.json 的读写（拉取/推送/状态），
+ * 三方合并、防抖与冲突处理由 SyncService 统一完成。
+ * 推送时携带拉取时的版本标识（SHA、ETag 等），远端已变化则抛出 RemoteChangedError。
+ */
+
+import type { IDataSourceFactory } from './IDataSource';
+import type { TasksJsonFile } from './JsonDataSource';
+import type { SyncBackendConfig, SyncBackendType } from './types';
+import { migrateTasksFile } from './TaskMigrations';
+import { serializeTasksFile } from './TasksFileIntegrity';
+
+/**
+ * 远端数据快照
+ */
+export interface RemoteSnapshot {
+	data: TasksJsonFile;
+	/** 版本标识（推送时用于检测并发写入；后端不支持时为 null） */
+	version: string | null;
+}
+
+/**
+ * 同步后端状态
+ */
+export interface SyncBackendStatus {
+	/** 远端可访问（认证通过） */
+	reachable: boolean;
+	/** 远端已有 tasks.json */
+	hasRemoteData: boolean;
+	/** 附加说明（如错误原因、当前用户） */
+	message?: string;
+}
+
+/**
+ * 同步后端接口
+ */
+export interface ISyncBackend {
+	/**
+	 * 后端类型
+	 */
+	readonly type: SyncBackendType;
+
+	/**
+	 * 是否已填写必需的配置
+	 */
+	isConfigured(): boolean;
+
+	/**
+	 * 同步目标的简短描述（用于设置页与日志，如 owner/repo）
+	 */
+	describeTarget(): string;
+
+	/**
+	 * 拉取远端数据
+	 * @returns 远端快照，远端尚无 tasks.json 时返回 null
+	 */
+	pull(): Promise<RemoteSnapshot | null>;
+
+	/**
+	 * 推送数据
+	 * @param data - 要写入的完整数据
+	 * @param expectedVersion - 拉取时的版本标识（null 表示远端尚无文件）
+	 * @throws RemoteChangedError 远端在拉取后已被其他设备修改
+	 */
+	push(data: TasksJsonFile, expectedVersion: string | null): Promise<void>;
+
+	/**
+	 * 检查连接状态（不抛出异常）
+	 */
+	getStatus(): Promise<SyncBackendStatus>;
+}
+
+/**
+ * 同步后端工厂
+ */
+export type ISyncBackendFactory = IDataSourceFactory<ISyncBackend, SyncBackendConfig>;
+
+/**
+ * 远端已变化（推送期间有其他设备写入），需要重新拉取合并
+ */
+export class RemoteChangedError extends Error {
+	constructor(detail?: string) {
+		super(`Remote tasks.json changed${detail ? `: ${detail}` : ''}`);
+		this.name = 'RemoteChangedError';
+	}
+}
+
+/** 远端数据文件名 */
+export const REMOTE_TASKS_FILE = 'tasks.json';
+
+/**
+ * 解析远端 tasks.json 文本（补全旧版本缺失的分区，并迁移到当前结构版本）
+ */
+export function parseTasksFile(text: string): TasksJsonFile {
+	const data = JSON.parse(text) as Partial<TasksJsonFile>;
+	return migrateTasksFile({
+		version: data.version || 1,
+		tasks: data.tasks ?? [],
+		archive: data.archive ?? [],
+		trash: data.trash ?? [],
+		lastSync: data.lastSync,
+	}).data;
+}
+
+/**
+ * 序列化推送内容（更新 lastSync 并写入校验和）
+ */
+export function serializeForRemote(data: TasksJsonFile): string {
+	return serializeTasksFile({ ...data, lastSync: new Date().toISOString() });
+}
@@ -0,0 +1,250 @@
+/**
+ * IcsDataSource - 订阅日历数据源（只读）
+ *
+ * 解析库内的 .ics 文件（如从工作日历导出后放入库中的文件），将其中的
+ * 事件和待办作为只读任务提供给仓库；文件被修改、替换或删除时重新解析。
+ *
+ * - VEVENT → 提醒（日期取 DTSTART），VTODO → 待办（DTSTART / DUE）
+ * - 任务 ID 为 `ics:<文件路径>#<UID>`，带 source 字段以便视图区分和禁止编辑
+ * - 重复事件以今天及以后的第一次实例为当前实例，后续实例由视图投影
+ */
+
+import { App, TFile, normalizePath, type EventRef } from 'obsidian';
+import type { GCTask, TaskPriority } from '../types';
+import type { ChangeEventHandler, IDataSource } from './IDataSource';
+import type {
+	DataSourceChanges,
+	DataSourceConfig,
+	IcsCalendarConfig,
+	SyncStatus,
+	TaskChanges,
+} from './types';
+import { parseICalendar, type ICalendarItem } from '../tasks/icalendar';
+import { computeNextOccurrence } from '../tasks/taskRecurrence';
+import type { TaskStatusType } from '../tasks/taskStatus';
+import { Logger } from '../utils/logger';
+
+/** 订阅日历数据源 ID 前缀 */
+export const ICS_SOURCE_PREFIX = 'ics:';
+
+/** VTODO / VEVENT 状态映射 */
+const STATUS_MAP: Record<string, TaskStatusType> = {
+	'NEEDS-ACTION': 'todo',
+	'IN-PROCESS': 'in_progress',
+	'COMPLETED': 'done',
+	'CANCELLED': 'canceled',
+};
+
+export class IcsDataSource implements IDataSource {
+	readonly sourceId: string;
+	readonly isReadOnly = true;
+
+	private app: App;
+	private filePath: string;
+	private calendarName: string | null = null;
+	private tasks: Map<string, GCTask> = new Map();
+	private changeHandlers: ChangeEventHandler[] = [];
+	private eventRefs: EventRef[] = [];
+
+	private reloadTimer: number | null = null;
+	private readonly RELOAD_DEBOUNCE_MS = 500;
+
+	constructor(app: App, config: IcsCalendarConfig) {
+		this.app = app;
+		this.filePath = normalizePath(config.filePath.trim());
+		this.sourceId = ICS_SOURCE_PREFIX + this.filePath;
+	}
+
+	/**
+	 * 显示名称：日历名称（X-WR-CALNAME），没有时为文件名
+	 */
+	get sourceName(): string {
+		return this.calendarName || this.filePath.split('/').pop()!.replace(/\.ics$/i, '');
+	}
+
+	/**
+	 * 初始化：开始监听文件变化并解析一次
+	 */
+	async initialize(_config: DataSourceConfig): Promise<void> {
+		if (this.eventRefs.length === 0) {
+			const vault = this.app.vault;
+			const onFileChanged = (file: { path: string }) => {
+				if (file.path === this.filePath) this.scheduleReload();
+			};
+			this.eventRefs.push(
+				vault.on('modify', onFileChanged),
+				vault.on('create', onFileChanged),
+				vault.on('delete', onFileChanged),
+				vault.on('rename', (file, oldPath) => {
+					if (file.path === this.filePath || oldPath === this.filePath) this.scheduleReload();
+				}),
+			);
+		}
+		await this.reload();
+		Logger.debug('IcsDataSource', `Initialized: ${this.filePath}`);
+	}
+
+	async getTasks(): Promise<GCTask[]> {
+		return Array.from(this.tasks.values());
+	}
+
+	onChange(handler: ChangeEventHandler): void {
+		this.changeHandlers.push(handler);
+	}
+
+	async createTask(_task: GCTask): Promise<string> {
+		throw new Error('订阅日历为只读，不支持创建任务');
+	}
+
+	async updateTask(_taskId: string, _changes: TaskChanges): Promise<void> {
+		throw new Error('订阅日历为只读，不支持修改任务');
+	}
+
+	async deleteTask(_taskId: string): Promise<void> {
+		throw new Error('订阅日历为只读，不支持删除任务');
+	}
+
+	async getSyncStatus(): Promise<SyncStatus> {
+		return {
+			syncDirection: 'import-only',
+			conflictResolution: 'remote-win',
+		};
+	}
+
+	destroy(): void {
+		for (const ref of this.eventRefs) {
+			this.app.vault.offref(ref);
+		}
+		this.eventRefs = [];
+		if (this.reloadTimer !== null) {
+			clearTimeout(this.reloadTimer);
+			this.reloadTimer = null;
+		}
+		this.changeHandlers = [];
+		Logger.debug('IcsDataSource', `Destroyed: ${this.filePath}`);
+	}
+
+	// ==================== 解析 ====================
+
+	private scheduleReload(): void {
+		if (this.reloadTimer !== null) {
+			clearTimeout(this.reloadTimer);
+		}
+		this.reloadTimer = window.setTimeout(() => {
+			this.reloadTimer = null;
+			this.reload().catch(error => {
+				Logger.error('IcsDataSource', `Failed to reload ${this.filePath}:`, error);
+			});
+		}, this.RELOAD_DEBOUNCE_MS);
+	}
+
+	/**
+	 * 重新解析文件，整体替换已提供的任务（文件不存在时清空）
+	 */
+	private async reload(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.filePath);
+		const content = file instanceof TFile ? await this.app.vault.cachedRead(file) : '';
+
+		const calendar = parseICalendar(content);
+		this.calendarName = calendar.name ?? null;
+
+		const previousIds = Array.from(this.tasks.keys());
+		this.tasks.clear();
+		for (const item of calendar.items) {
+			const task = this.toGCTask(item);
+			if (!task) continue;
+			// UID 重复时追加序号，保证 ID 唯一
+			let id = task.id;
+			for (let n = 2; this.tasks.has(id); n++) id = `${task.id}#${n}`;
+			this.tasks.set(id, { ...task, id });
+		}
+
+		if (!file) {
+			Logger.warn('IcsDataSource', `Calendar file not found: ${this.filePath}`);
+		}
+		Logger.debug('IcsDataSource', `Loaded ${this.tasks.size} item(s) from ${this.filePath}`);
+
+		this.notifyChanges({
+			sourceId: this.sourceId,
+			created: Array.from(this.tasks.values()),
+			updated: [],
+			deleted: [],
+			// 仓库先处理 created 再处理 deletedIds，仍存在的任务不能出现在删除列表中
+			deletedIds: previousIds.filter(id => !this.tasks.has(id)),
+		});
+	}
+
+	/**
+	 * 日历项 → 只读任务（没有日期的项返回 null）
+	 */
+	private toGCTask(item: ICalendarItem): GCTask | null {
+		const status: TaskStatusType = STATUS_MAP[item.status ?? ''] ?? 'todo';
+		const task: GCTask = {
+			id: `${this.sourceId}#${item.uid}`,
+			type: item.kind === 'event' ? 'reminder' : 'todo',
+			description: item.summary || '无标题',
+			detail: item.description,
+			completed: status === 'done',
+			cancelled: status === 'canceled',
+			status,
+			priority: toPriority(item.priority),
+			tags: item.categories.length ? item.categories : undefined,
+			createdDate: item.created,
+			lastModified: item.lastModified,
+			completionDate: status === 'done' ? item.completed : undefined,
+			repeat: item.repeat,
+			archived: false,
+			sourceId: item.uid,
+			source: this.sourceId,
+		};
+
+		if (item.kind === 'event') {
+			// 提醒以 dueDate 为显示日期
+			if (!item.start) return null;
+			task.startDate = item.start;
+			task.hasStartTime = item.hasStartTime;
+			task.dueDate = item.start;
+			task.hasDueTime = item.hasStartTime;
+		} else {
+			if (!item.start && !item.due) return null;
+			task.startDate = item.start;
+			task.hasStartTime = item.hasStartTime;
+			task.dueDate = item.due;
+			task.hasDueTime = item.hasDueTime;
+		}
+
+		return task.repeat ? rollForward(task) : task;
+	}
+
+	private notifyChanges(changes: DataSourceChanges): void {
+		for (const handler of this.changeHandlers) {
+			try {
+				handler(changes);
+			} catch (error) {
+				Logger.error('IcsDataSource', 'Error in change handler:', error);
+			}
+		}
+	}
+}
+
+/**
+ * PRIORITY → 优先级（RFC 5545：1-4 高，5 中，6-9 低，0 未定义）
+ */
+function toPriority(value: number): TaskPriority {
+	if (value >= 1 && value <= 4) return 'high';
+	if (value >= 6 && value <= 9) return 'low';
+	return 'normal';
+}
+
+/**
+ * 将已过去的重复项推进到今天及以后的第一次实例
+ */
+function rollForward(task: GCTask): GCTask {
+	const today = new Date();
+	today.setHours(0, 0, 0, 0);
+	const anchor = task.dueDate ?? task.startDate;
+	if (!anchor || anchor.getTime() >= today.getTime()) return task;
+
+	const next = computeNextOccurrence(task, undefined, today);
+	return next ? { ...task, ...next } : task;
+}
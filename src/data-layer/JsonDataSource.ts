@@ -8,26 +8,40 @@
  * - 读取/写入 JSON 任务文件
  * - CRUD 操作（创建、读取、更新、删除）
  * - 自动归档过期提醒
+ * - 回收站（删除的任务连同子树移入回收站，可恢复，超期自动清除）
+ * - 周期任务完成/归档后生成下一次实例
+ * - 撤销/重做（记录每次操作涉及任务的前后快照）
  * - 防抖写入，避免频繁磁盘 IO
+ * - 原子写入与校验和，加载时从临时文件或备份恢复损坏的文件
+ * - 检测并合并数据文件的外部修改
  */
 
 import { App } from 'obsidian';
 import type { GCTask } from '../types';
-import { migratePriority } from '../utils/priorityUtils';
+import { computeNextOccurrence, shiftDate, getSeriesId, getOccurrenceKey, needsNextOccurrence } from '../tasks/taskRecurrence';
 import { IDataSource, ChangeEventHandler } from './IDataSource';
 import { EventBus } from './EventBus';
+import { CommandHistory } from './CommandHistory';
+import { TASKS_SCHEMA_VERSION, getPendingMigrations, migrateTasksFile } from './TaskMigrations';
+import { BackupService, type BackupInfo, type BackupReason } from './BackupService';
+import { diffTaskFiles, mergeExternalFile } from './TaskMerger';
+import { computeChecksum, serializeTasksFile, validateTasksFile } from './TasksFileIntegrity';
 import {
 	DataSourceConfig,
+	BackupConfig,
 	DataSourceChanges,
+	DataFileRecovery,
+	HistoryEntry,
 	SyncStatus,
-	TaskChanges
+	TaskChanges,
+	TaskDiff
 } from './types';
 import { Logger } from '../utils/logger';
 
 /**
  * JSON 文件中的任务数据格式（日期为 ISO 字符串）
  */
-interface JsonTaskData {
+export interface JsonTaskData {
 	id: string;
 	type: 'todo' | 'reminder';
 	description: string;
@@ -40,10 +54,15 @@ interface JsonTaskData {
 	createdDate?: string;
 	startDate?: string;
 	dueDate?: string;
+	hasStartTime?: boolean;
+	hasDueTime?: boolean;
 	cancelledDate?: string;
 	completionDate?: string;
 	repeat?: string;
+	seriesId?: string;
+	nextOccurrenceId?: string;
 	archived: boolean;
+	deletedAt?: string;
 	sourceId?: string;
 	lastModified?: string;
 	// 子任务关系
@@ -55,11 +74,15 @@ interface JsonTaskData {
 /**
  * JSON 存储文件结构
  */
-interface TasksJsonFile {
+export interface TasksJsonFile {
 	version: number;
 	tasks: JsonTaskData[];
 	archive: JsonTaskData[];
+	/** 回收站（旧版本文件无此字段） */
+	trash?: JsonTaskData[];
 	lastSync?: string;
+	/** 校验和（见 TasksFileIntegrity；旧版本文件无此字段） */
+	checksum?: string;
 }
 
 /**
@@ -90,10 +113,15 @@ function taskToJson(task: GCTask): JsonTaskData {
 		createdDate: task.createdDate?.toISOString(),
 		startDate: task.startDate?.toISOString(),
 		dueDate: task.dueDate?.toISOString(),
+		hasStartTime: task.hasStartTime || undefined,
+		hasDueTime: task.hasDueTime || undefined,
 		cancelledDate: task.cancelledDate?.toISOString(),
 		completionDate: task.completionDate?.toISOString(),
 		repeat: task.repeat,
+		seriesId: task.seriesId,
+		nextOccurrenceId: task.nextOccurrenceId,
 		archived: task.archived,
+		deletedAt: task.deletedAt?.toISOString(),
 		sourceId: task.sourceId,
 		lastModified: task.lastModified?.toISOString(),
 		parentId: task.parentId,
@@ -119,10 +147,15 @@ function jsonToTask(json: JsonTaskData): GCTask {
 		createdDate: json.createdDate ? new Date(json.createdDate) : undefined,
 		startDate: json.startDate ? new Date(json.startDate) : undefined,
 		dueDate: json.dueDate ? new Date(json.dueDate) : undefined,
+		hasStartTime: json.hasStartTime,
+		hasDueTime: json.hasDueTime,
 		cancelledDate: json.cancelledDate ? new Date(json.cancelledDate) : undefined,
 		completionDate: json.completionDate ? new Date(json.completionDate) : undefined,
 		repeat: json.repeat,
+		seriesId: json.seriesId,
+		nextOccurrenceId: json.nextOccurrenceId,
 		archived: json.archived,
+		deletedAt: json.deletedAt ? new Date(json.deletedAt) : undefined,
 		sourceId: json.sourceId,
 		lastModified: json.lastModified ? new Date(json.lastModified) : undefined,
 		parentId: json.parentId,
@@ -131,14 +164,48 @@ function jsonToTask(json: JsonTaskData): GCTask {
 	};
 }
 
+/**
+ * 根据变更内容生成撤销记录描述
+ */
+function getUpdateLabel(changes: TaskChanges): string {
+	if (changes.archived === true) return '归档任务';
+	if (changes.archived === false) return '取消归档';
+	switch (changes.status) {
+		case 'done': return '完成任务';
+		case 'canceled': return '取消任务';
+		case undefined: return '修改任务';
+		default: return '更改任务状态';
+	}
+}
+
+/**
+ * 复制任务快照（数组字段独立复制，避免后续修改影响快照）
+ */
+function cloneTask(task: GCTask): GCTask {
+	return {
+		...task,
+		tags: task.tags ? [...task.tags] : undefined,
+		childIds: task.childIds ? [...task.childIds] : undefined,
+	};
+}
+
+/**
+ * 进行中的撤销事务：记录操作涉及任务的首次快照
+ */
+interface HistoryTransaction {
+	label: string;
+	before: Map<string, GCTask | null>;
+}
+
 /**
  * 默认空数据文件
  */
 function createEmptyTasksFile(): TasksJsonFile {
 	return {
-		version: 1,
+		version: TASKS_SCHEMA_VERSION,
 		tasks: [],
 		archive: [],
+		trash: [],
 		lastSync: new Date().toISOString(),
 	};
 }
@@ -156,6 +223,19 @@ export class JsonDataSource implements IDataSource {
 	// 内存中的任务数据
 	private tasks: Map<string, GCTask> = new Map();
 	private archivedTasks: Map<string, GCTask> = new Map();
+	private trashedTasks: Map<string, GCTask> = new Map();
+
+	// 回收站保留天数（0 = 永久保留）
+	private trashRetentionDays = 30;
+
+	// 撤销/重做
+	private history = new CommandHistory();
+	private transaction: HistoryTransaction | null = null;
+	// 修改操作依次执行，避免跨 await 重叠的操作混入同一事务
+	private mutationQueue: Promise<unknown> = Promise.resolve();
+
+	// 批量操作期间暂存的变更（结束时合并为一次通知）
+	private batchedChanges: DataSourceChanges | null = null;
 
 	// 防抖写入
 	private saveDebounceTimer: number | null = null;
@@ -164,19 +244,50 @@ export class JsonDataSource implements IDataSource {
 	// 文件路径
 	private readonly DATA_DIR = 'data';
 	private readonly DATA_FILE = 'tasks.json';
+	private readonly SYNC_BASE_FILE = 'sync-base.json';
+	private readonly BACKUP_DIR = 'backups';
+
+	// 本地备份
+	private backups: BackupService;
+
+	// 加载时的损坏恢复情况
+	private loadRecovery: DataFileRecovery | null = null;
+
+	// 外部修改检测：上次读取/写入时磁盘上的数据、校验和与修改时间
+	private diskSnapshot: TasksJsonFile | null = null;
+	private diskChecksum: string | null = null;
+	private diskMtime: number | null = null;
+	private isWriting = false;
+	private externalCheck: Promise<boolean> | null = null;
+	private externalWatchTimer: number | null = null;
+	private readonly EXTERNAL_CHECK_INTERVAL_MS = 2000;
+
+	// 数据文件结构版本（迁移失败或文件来自更新版本时保持原版本号）
+	private schemaVersion = TASKS_SCHEMA_VERSION;
+
+	// 本地修订号（每次变更递增，供同步检测并发修改）
+	private revision = 0;
 
 	constructor(app: App, eventBus: EventBus, config: DataSourceConfig) {
 		this.app = app;
 		this.eventBus = eventBus;
 		this.config = config;
+		this.backups = new BackupService(app, `${this.getDataDirPath()}/${this.BACKUP_DIR}`);
 	}
 
 	/**
 	 * 获取数据文件的完整路径
 	 */
 	private getDataFilePath(): string {
+		return `${this.getDataDirPath()}/${this.DATA_FILE}`;
+	}
+
+	/**
+	 * 获取数据目录路径
+	 */
+	private getDataDirPath(): string {
 		const pluginDir = this.app.vault.configDir + '/plugins/obsidian-gantt-calendar';
-		return `${pluginDir}/${this.DATA_DIR}/${this.DATA_FILE}`;
+		return `${pluginDir}/${this.DATA_DIR}`;
 	}
 
 	/**
@@ -191,16 +302,10 @@ export class JsonDataSource implements IDataSource {
 		// 确保数据目录存在
 		await this.ensureDataDir();
 
-		// 读取或创建数据文件
-		const data = await this.readDataFile();
-
-		// 迁移旧的六级优先级到三级（直接修改存储数据）
-		const needsPriorityMigration = this.migratePriorityData(data);
-
-		// 迁移旧的 7 状态到 4 状态 + 填充缺失的 dueDate
-		const needsStatusMigration = this.migrateStatusData(data);
-
-		const needsMigration = needsPriorityMigration || needsStatusMigration;
+		// 读取或创建数据文件，按版本执行结构迁移
+		const data = await this.migrateDataFile(await this.readDataFile());
+		this.schemaVersion = data.version;
+		await this.rememberDiskState(data);
 
 		// 加载活跃任务
 		this.tasks.clear();
@@ -216,21 +321,31 @@ export class JsonDataSource implements IDataSource {
 			this.archivedTasks.set(task.id, task);
 		}
 
-		// 如果有旧优先级数据，立即回写迁移后的数据
-		if (needsMigration) {
-			Logger.info('JsonDataSource', 'Migrated legacy 6-level priorities to 3-level, saving...');
-			await this.saveToFile();
+		// 加载回收站
+		this.trashedTasks.clear();
+		for (const jsonTask of data.trash ?? []) {
+			const task = jsonToTask(jsonTask);
+			this.trashedTasks.set(task.id, task);
 		}
 
 		// 自动归档过期提醒
 		await this.autoArchiveReminders();
 
+		// 清除超过保留期的回收站任务
+		this.purgeExpiredTrash();
+
+		// 加载阶段产生的变更不可撤销
+		this.history.clear();
+
 		const elapsed = performance.now() - startTime;
 		Logger.stats('JsonDataSource', `Initialized in ${elapsed.toFixed(2)}ms`, {
 			activeTasks: this.tasks.size,
 			archivedTasks: this.archivedTasks.size,
+			trashedTasks: this.trashedTasks.size,
 		});
 
+		this.startExternalWatch();
+
 		// 通知初始加载的任务
 		const allActiveTasks = Array.from(this.tasks.values());
 		if (allActiveTasks.length > 0) {
@@ -247,8 +362,7 @@ export class JsonDataSource implements IDataSource {
 	 * 确保数据目录存在
 	 */
 	private async ensureDataDir(): Promise<void> {
-		const pluginDir = this.app.vault.configDir + '/plugins/obsidian-gantt-calendar';
-		const dataDir = `${pluginDir}/${this.DATA_DIR}`;
+		const dataDir = this.getDataDirPath();
 
 		try {
 			const adapter = this.app.vault.adapter;
@@ -263,133 +377,251 @@ export class JsonDataSource implements IDataSource {
 
 	/**
 	 * 读取数据文件
+	 *
+	 * 文件损坏（截断、JSON 或结构无效）时不会以空数据覆盖：
+	 * 先将损坏的文件另存，再从未完成写入的临时文件和备份中选取最新的有效快照，
+	 * 恢复结果记录在 loadRecovery 中由上层提示用户。
+	 * 结构有效但校验和不匹配的文件视为外部编辑，照常加载并重新写入校验和。
 	 */
 	private async readDataFile(): Promise<TasksJsonFile> {
-		const filePath = this.getDataFilePath();
-		const adapter = this.app.vault.adapter;
+		this.loadRecovery = null;
 
+		let content: string | null;
 		try {
-			if (await adapter.exists(filePath)) {
-				const content = await adapter.read(filePath);
-				const data = JSON.parse(content) as TasksJsonFile;
-
-				// 版本检查（未来可在此处添加迁移逻辑）
-				if (!data.version) {
-					data.version = 1;
-				}
-
-				return data;
-			}
+			content = await this.readRawDataFile();
 		} catch (error) {
 			Logger.error('JsonDataSource', 'Failed to read data file:', error);
+			return await this.recoverDataFile(null, `读取失败：${(error as Error).message}`);
+		}
 
-			// 文件存在但读取/解析失败（如 JSON 损坏）：不覆盖原文件
-			// 尝试创建备份，然后返回空数据（内存中），避免覆盖损坏的原始文件
-			try {
-				const backupPath = filePath + '.backup';
-				if (await adapter.exists(filePath)) {
-					const rawContent = await adapter.read(filePath);
-					await adapter.write(backupPath, rawContent);
-					Logger.warn('JsonDataSource', `Corrupted data file backed up to: ${backupPath}`);
+		if (content !== null) {
+			const result = validateTasksFile(content);
+			if (result.ok) {
+				if (result.checksumMismatch) {
+					Logger.warn('JsonDataSource', 'Data file was edited externally, updating checksum');
+					try {
+						await this.writeDataFile(result.data);
+					} catch (error) {
+						Logger.error('JsonDataSource', 'Failed to update data file checksum:', error);
+					}
 				}
-			} catch (backupError) {
-				Logger.error('JsonDataSource', 'Failed to backup corrupted file:', backupError);
+				return result.data;
 			}
+			Logger.error('JsonDataSource', `Data file is corrupted: ${result.reason}`);
+			return await this.recoverDataFile(content, result.reason);
+		}
 
-			return createEmptyTasksFile();
+		// 主文件不存在但留有完整的临时文件（重命名前中断）
+		const pending = await this.readPendingWrite();
+		if (pending) {
+			Logger.warn('JsonDataSource', 'Data file missing, recovered from pending write');
+			await this.writeDataFile(pending);
+			return pending;
 		}
 
 		// 文件不存在，创建空文件
 		const emptyData = createEmptyTasksFile();
-		await this.writeDataFile(emptyData);
+		try {
+			await this.writeDataFile(emptyData);
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Failed to create data file:', error);
+		}
 		return emptyData;
 	}
 
 	/**
-	 * 迁移旧的六级优先级到三级（直接修改 JSON 数据）
-	 * highest/high → high, medium/normal → normal, low/lowest → low
-	 * @returns 是否有数据被修改
+	 * 从临时文件或备份中最新的有效快照恢复损坏的数据文件
+	 * @param corrupted 损坏文件的原文（另存后保留，不会被覆盖）
 	 */
-	private migratePriorityData(data: TasksJsonFile): boolean {
-		const OLD_PRIORITIES = new Set(['highest', 'medium', 'lowest']);
-		let migrated = false;
+	private async recoverDataFile(corrupted: string | null, reason: string): Promise<TasksJsonFile> {
+		const adapter = this.app.vault.adapter;
+		const corruptPath = `${this.getDataFilePath()}.corrupt-${Date.now()}`;
+		try {
+			if (corrupted !== null) {
+				await adapter.write(corruptPath, corrupted);
+				Logger.warn('JsonDataSource', `Corrupted data file saved to: ${corruptPath}`);
+			}
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Failed to save corrupted data file:', error);
+		}
 
-		const migrateList = (tasks: JsonTaskData[]) => {
-			for (const task of tasks) {
-				if (OLD_PRIORITIES.has(task.priority)) {
-					task.priority = migratePriority(task.priority);
-					migrated = true;
+		let recovered: TasksJsonFile | null = null;
+		let recoveredFrom: string | null = null;
+		let recoveredAt = -Infinity;
+
+		// 备份按时间倒序，第一份有效的即为最新
+		for (const backup of await this.backups.listBackups().catch(() => [])) {
+			try {
+				const result = validateTasksFile(await adapter.read(backup.path));
+				if (result.ok) {
+					recovered = result.data;
+					recoveredFrom = backup.path;
+					recoveredAt = backup.createdAt.getTime();
+					break;
 				}
+				Logger.warn('JsonDataSource', `Skipped invalid backup ${backup.path}: ${result.reason}`);
+			} catch (error) {
+				Logger.warn('JsonDataSource', `Failed to read backup ${backup.path}:`, error);
+			}
+		}
+
+		// 临时文件只有比最新备份更新时才采用（可能是很久以前中断遗留的）
+		const pending = await this.readPendingWrite();
+		if (pending) {
+			const pendingAt = (await adapter.stat(this.getTempFilePath()).catch(() => null))?.mtime ?? -Infinity;
+			if (!recovered || pendingAt > recoveredAt) {
+				recovered = pending;
+				recoveredFrom = this.getTempFilePath();
 			}
+		}
+
+		this.loadRecovery = {
+			reason,
+			corruptPath: corrupted !== null ? corruptPath : null,
+			recoveredFrom,
 		};
 
-		migrateList(data.tasks);
-		migrateList(data.archive);
-		return migrated;
+		if (!recovered) {
+			Logger.error('JsonDataSource', 'No valid snapshot to recover from, starting empty');
+			return createEmptyTasksFile();
+		}
+
+		Logger.warn('JsonDataSource', `Recovered data file from: ${recoveredFrom}`);
+		try {
+			await this.writeDataFile(recovered);
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Failed to write recovered data file:', error);
+		}
+		return recovered;
+	}
+
+	/**
+	 * 读取未完成写入的临时文件（不存在或无效时返回 null）
+	 */
+	private async readPendingWrite(): Promise<TasksJsonFile | null> {
+		const tempPath = this.getTempFilePath();
+		const adapter = this.app.vault.adapter;
+		try {
+			if (!(await adapter.exists(tempPath))) return null;
+			const result = validateTasksFile(await adapter.read(tempPath));
+			return result.ok ? result.data : null;
+		} catch (error) {
+			Logger.warn('JsonDataSource', 'Failed to read pending write:', error);
+			return null;
+		}
 	}
 
 	/**
-	 * 迁移旧的 7 状态到 4 状态 + 填充缺失的 dueDate
-	 * - important → todo + priority: high
-	 * - start → in_progress
-	 * - question → todo
-	 * - dueDate 为空 → 设为一个月后
-	 * @returns 是否有数据被修改
+	 * 上次加载时的损坏恢复情况（文件完好时为 null）
 	 */
-	private migrateStatusData(data: TasksJsonFile): boolean {
-		let migrated = false;
+	getLoadRecovery(): DataFileRecovery | null {
+		return this.loadRecovery;
+	}
 
-		const migrateList = (tasks: JsonTaskData[]) => {
-			for (const task of tasks) {
-				// 状态迁移
-				if (task.status === 'important') {
-					task.status = 'todo';
-					task.priority = 'high';
-					migrated = true;
-				} else if (task.status === 'start') {
-					task.status = 'in_progress';
-					migrated = true;
-				} else if (task.status === 'question') {
-					task.status = 'todo';
-					migrated = true;
-				}
+	/**
+	 * 按版本执行结构迁移
+	 *
+	 * 迁移前备份原文件；全部步骤成功后写回。任一步骤失败时
+	 * 恢复原文件并按原数据加载（保存时沿用原版本号，下次启动重试迁移）。
+	 */
+	private async migrateDataFile(data: TasksJsonFile): Promise<TasksJsonFile> {
+		const fromVersion = data.version || 1;
+		if (fromVersion > TASKS_SCHEMA_VERSION) {
+			Logger.warn('JsonDataSource', `Data file version ${fromVersion} is newer than supported version ${TASKS_SCHEMA_VERSION}`);
+			return data;
+		}
+		if (getPendingMigrations(fromVersion).length === 0) {
+			return data;
+		}
 
-				// 填充缺失的 dueDate（设为一个月后）
-				if (!task.dueDate) {
-					const oneMonthLater = new Date();
-					oneMonthLater.setMonth(oneMonthLater.getMonth() + 1);
-					task.dueDate = oneMonthLater.toISOString();
-					migrated = true;
-				}
+		const filePath = this.getDataFilePath();
+		const adapter = this.app.vault.adapter;
+		let original: string;
+		try {
+			original = await adapter.read(filePath);
+			const backup = await this.backups.createBackup('migration', original);
+			Logger.info('JsonDataSource', `Backed up data file before migration: ${backup.path}`);
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Failed to back up data file, migration skipped:', error);
+			return data;
+		}
+
+		try {
+			const { data: migrated, applied } = migrateTasksFile(data);
+			await this.writeDataFile(migrated);
+			Logger.info('JsonDataSource', `Migrated data file v${fromVersion} → v${migrated.version}`, { steps: applied });
+			return migrated;
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Migration failed, restoring data file:', error);
+			try {
+				await this.writeFileAtomic(filePath, original);
+			} catch (restoreError) {
+				Logger.error('JsonDataSource', 'Failed to restore data file:', restoreError);
 			}
-		};
+			return data;
+		}
+	}
+
+	/**
+	 * 写入数据文件（带校验和）
+	 */
+	private async writeDataFile(data: TasksJsonFile): Promise<void> {
+		this.isWriting = true;
+		try {
+			await this.writeFileAtomic(this.getDataFilePath(), serializeTasksFile(data));
+			await this.rememberDiskState(data);
+		} finally {
+			this.isWriting = false;
+		}
+		Logger.debug('JsonDataSource', 'Data file saved');
+	}
 
-		migrateList(data.tasks);
-		migrateList(data.archive);
+	/**
+	 * 原子写入：先写临时文件并读回校验，再重命名覆盖目标文件，
+	 * 写入中断时目标文件保持原样
+	 */
+	private async writeFileAtomic(filePath: string, content: string): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const tempPath = this.getTempFilePath();
 
-		if (migrated) {
-			Logger.info('JsonDataSource', 'Migrated legacy 7-status data to 4-status system');
+		await adapter.write(tempPath, content);
+		if ((await adapter.read(tempPath)) !== content) {
+			throw new Error(`Incomplete write to ${tempPath}`);
 		}
 
-		return migrated;
+		try {
+			await adapter.rename(tempPath, filePath);
+		} catch {
+			// 部分平台不允许重命名覆盖已存在的文件：删除后重试
+			// （此时中断由临时文件兜底，见 readPendingWrite）
+			if (await adapter.exists(filePath)) {
+				await adapter.remove(filePath);
+			}
+			await adapter.rename(tempPath, filePath);
+		}
 	}
 
 	/**
-	 * 写入数据文件
+	 * 数据文件写入时使用的临时文件路径
 	 */
-	private async writeDataFile(data: TasksJsonFile): Promise<void> {
+	private getTempFilePath(): string {
+		return `${this.getDataFilePath()}.tmp`;
+	}
+
+	/**
+	 * 读取磁盘上的数据文件原文（不存在时返回 null）
+	 */
+	private async readRawDataFile(): Promise<string | null> {
 		const filePath = this.getDataFilePath();
 		const adapter = this.app.vault.adapter;
-
-		const content = JSON.stringify(data, null, 2);
-		await adapter.write(filePath, content);
-		Logger.debug('JsonDataSource', 'Data file saved');
+		return (await adapter.exists(filePath)) ? await adapter.read(filePath) : null;
 	}
 
 	/**
 	 * 防抖保存到文件
 	 */
 	private scheduleSave(): void {
+		this.revision++;
 		if (this.saveDebounceTimer !== null) {
 			clearTimeout(this.saveDebounceTimer);
 		}
@@ -404,10 +636,25 @@ export class JsonDataSource implements IDataSource {
 	 * 将内存数据保存到 JSON 文件
 	 */
 	private async saveToFile(): Promise<void> {
+		// 每天首次写入前备份磁盘上的文件（备份失败不影响保存）
+		try {
+			await this.backups.ensureDailyBackup(() => this.readRawDataFile());
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Daily backup failed:', error);
+		}
+
+		// 写入前合并磁盘上的外部修改，避免覆盖
+		try {
+			await this.checkExternalChanges();
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Failed to check external changes:', error);
+		}
+
 		const data: TasksJsonFile = {
-			version: 1,
+			version: this.schemaVersion,
 			tasks: Array.from(this.tasks.values()).map(taskToJson),
 			archive: Array.from(this.archivedTasks.values()).map(taskToJson),
+			trash: Array.from(this.trashedTasks.values()).map(taskToJson),
 			lastSync: new Date().toISOString(),
 		};
 
@@ -446,6 +693,15 @@ export class JsonDataSource implements IDataSource {
 				this.archivedTasks.set(task.id, task);
 			}
 
+			// 周期提醒：生成今天及以后的下一次实例
+			// 父任务同时归档时由父任务复制子树，子任务不单独生成
+			const archivedIds = new Set(toArchive.map(t => t.id));
+			for (const task of toArchive) {
+				if (task.repeat && !(task.parentId && archivedIds.has(task.parentId))) {
+					await this.spawnNextOccurrence(task, today);
+				}
+			}
+
 			await this.saveToFile();
 		}
 	}
@@ -485,6 +741,13 @@ export class JsonDataSource implements IDataSource {
 	 * 创建任务
 	 */
 	async createTask(task: GCTask): Promise<string> {
+		return this.withTransaction('创建任务', () => this.applyCreate(task));
+	}
+
+	/**
+	 * 在当前事务中创建任务
+	 */
+	private async applyCreate(task: GCTask): Promise<string> {
 		// 确保有 ID
 		if (!task.id) {
 			task.id = generateUUID();
@@ -518,6 +781,7 @@ export class JsonDataSource implements IDataSource {
 			// 设置子任务深度
 			task.depth = (parent.depth ?? 0) + 1;
 			// 将子任务 ID 追加到父任务的 childIds
+			this.captureBefore(task.parentId);
 			const updatedParent = { ...parent, childIds: [...(parent.childIds || []), task.id], lastModified: new Date() };
 			if (this.tasks.has(task.parentId)) {
 				this.tasks.set(task.parentId, updatedParent);
@@ -530,6 +794,7 @@ export class JsonDataSource implements IDataSource {
 			}
 		}
 
+		this.captureBefore(task.id);
 		this.tasks.set(task.id, task);
 		this.scheduleSave();
 
@@ -545,6 +810,29 @@ export class JsonDataSource implements IDataSource {
 		return task.id;
 	}
 
+	/**
+	 * 批量创建任务（作为一次可撤销操作）
+	 *
+	 * 父任务需排在子任务之前；批次内可用临时 ID 作为 parentId 引用，
+	 * 创建时替换为新生成的 ID。父任务创建失败时子任务作为顶层任务创建。
+	 * @returns 成功创建的任务 ID
+	 */
+	async createTasks(tasks: GCTask[], label = '批量创建任务'): Promise<string[]> {
+		return this.withTransaction(label, async () => {
+			const idMap = new Map<string, string>();
+			const created: string[] = [];
+			for (const task of tasks) {
+				const parentId = task.parentId && idMap.has(task.parentId)
+					? idMap.get(task.parentId)
+					: task.parentId;
+				const id = await this.applyCreate({ ...task, id: '', parentId: parentId || undefined });
+				if (task.id) idMap.set(task.id, id);
+				if (id) created.push(id);
+			}
+			return created;
+		});
+	}
+
 	/**
 	 * 更新任务
 	 *
@@ -554,6 +842,16 @@ export class JsonDataSource implements IDataSource {
 	async updateTask(taskId: string, changes: TaskChanges, options?: {
 		skipCascade?: boolean;
 		propagationDirection?: 'down' | 'up' | 'none';
+	}): Promise<void> {
+		return this.withTransaction(getUpdateLabel(changes), () => this.applyUpdate(taskId, changes, options));
+	}
+
+	/**
+	 * 在当前事务中更新任务（参数见 updateTask）
+	 */
+	private async applyUpdate(taskId: string, changes: TaskChanges, options?: {
+		skipCascade?: boolean;
+		propagationDirection?: 'down' | 'up' | 'none';
 	}): Promise<void> {
 		const task = this.tasks.get(taskId) || this.archivedTasks.get(taskId);
 		if (!task) {
@@ -571,6 +869,7 @@ export class JsonDataSource implements IDataSource {
 		}
 
 		// 应用变更
+		this.captureBefore(taskId);
 		const updatedTask: GCTask = { ...task, ...changes, lastModified: new Date() };
 
 		// 判断是否需要在活跃和归档之间移动
@@ -586,8 +885,14 @@ export class JsonDataSource implements IDataSource {
 			this.archivedTasks.set(taskId, updatedTask);
 		}
 
-		// 4 状态联动传播
+		// 周期任务完成 → 生成下一次实例
+		// 由父任务向下传播的完成不生成（父任务的下一次实例会复制整棵子树）
 		const propagation = options?.propagationDirection;
+		if (changes.status === 'done' && task.status !== 'done' && updatedTask.repeat && propagation !== 'down') {
+			await this.spawnNextOccurrence(updatedTask);
+		}
+
+		// 4 状态联动传播
 		if (!options?.skipCascade && changes.status !== undefined && propagation !== 'none') {
 			const newStatus = changes.status;
 			await this.cascadeStatusChange(taskId, updatedTask, newStatus as string, propagation);
@@ -606,6 +911,17 @@ export class JsonDataSource implements IDataSource {
 		Logger.debug('JsonDataSource', `Task updated: ${taskId}`);
 	}
 
+	/**
+	 * 批量更新任务（作为一次可撤销操作，结束时只通知一次变更）
+	 */
+	async updateTasks(updates: Array<{ taskId: string; changes: TaskChanges }>, label = '批量修改任务'): Promise<void> {
+		return this.withTransaction(label, () => this.withBatchedChanges(async () => {
+			for (const { taskId, changes } of updates) {
+				await this.applyUpdate(taskId, changes);
+			}
+		}));
+	}
+
 	/**
 	 * 4 状态联动传播
 	 *
@@ -632,7 +948,7 @@ export class JsonDataSource implements IDataSource {
 				for (const childId of updatedTask.childIds) {
 					const child = this.tasks.get(childId) || this.archivedTasks.get(childId);
 					if (child && child.status !== 'done') {
-						await this.updateTask(childId, {
+						await this.applyUpdate(childId, {
 							status: 'done' as any,
 							completed: true,
 							completionDate: new Date(),
@@ -646,7 +962,7 @@ export class JsonDataSource implements IDataSource {
 				for (const childId of updatedTask.childIds) {
 					const child = this.tasks.get(childId) || this.archivedTasks.get(childId);
 					if (child && child.status !== 'canceled') {
-						await this.updateTask(childId, {
+						await this.applyUpdate(childId, {
 							status: 'canceled' as any,
 							cancelled: true,
 							cancelledDate: new Date(),
@@ -660,7 +976,7 @@ export class JsonDataSource implements IDataSource {
 				for (const childId of updatedTask.childIds) {
 					const child = this.tasks.get(childId) || this.archivedTasks.get(childId);
 					if (child && (child.status === 'done' || child.status === 'canceled')) {
-						await this.updateTask(childId, {
+						await this.applyUpdate(childId, {
 							status: 'todo' as any,
 							completed: false,
 							completionDate: undefined,
@@ -685,7 +1001,7 @@ export class JsonDataSource implements IDataSource {
 					return sibling?.status === 'done';
 				});
 				if (allSiblingsDone) {
-					await this.updateTask(parent.id, {
+					await this.applyUpdate(parent.id, {
 						status: 'done' as any,
 						completed: true,
 						completionDate: new Date(),
@@ -694,13 +1010,13 @@ export class JsonDataSource implements IDataSource {
 			} else if (newStatus === 'in_progress' || newStatus === 'done') {
 				// 子变非 todo → 父从 todo 升为 in_progress
 				if (parent.status === 'todo') {
-					await this.updateTask(parent.id, {
+					await this.applyUpdate(parent.id, {
 						status: 'in_progress' as any,
 					}, { skipCascade: false, propagationDirection: 'up' });
 				}
 			} else if (newStatus === 'todo' && (parent.status === 'done')) {
 				// 某子退回 → 父退回 in_progress
-				await this.updateTask(parent.id, {
+				await this.applyUpdate(parent.id, {
 					status: 'in_progress' as any,
 					completed: false,
 					completionDate: undefined,
@@ -710,26 +1026,120 @@ export class JsonDataSource implements IDataSource {
 	}
 
 	/**
-	 * 删除任务
+	 * 生成周期任务的下一次实例
+	 *
+	 * 新实例复制描述、详情、标签、优先级、周期规则及整棵子任务树，
+	 * 开始/截止日期按规则平移，状态重置为 todo。
+	 *
+	 * 生成后在当前实例上记录 nextOccurrenceId；该实例仍存在时不会重复生成。
+	 *
+	 * @param task 已完成或已归档的当前实例（须为存储中的对象）
+	 * @param notBefore 下一次实例不得早于该日期（用于跳过已过期的实例）
+	 * @returns 新实例 ID，规则无效、缺少日期或已生成过时返回 null
+	 */
+	private async spawnNextOccurrence(task: GCTask, notBefore?: Date): Promise<string | null> {
+		if (!needsNextOccurrence(task, id => this.tasks.has(id) || this.archivedTasks.has(id))) {
+			return null;
+		}
+
+		// 已物化的实例（视图中的虚拟实例被编辑/完成）占用的日期直接跳过
+		const seriesId = getSeriesId(task);
+		const takenKeys = new Set<string>();
+		for (const t of this.getAllTasksIncludingArchived()) {
+			const tAnchor = t.dueDate ?? t.startDate;
+			if (t.id !== task.id && t.seriesId === seriesId && tAnchor) {
+				takenKeys.add(getOccurrenceKey(seriesId, tAnchor));
+			}
+		}
+
+		const next = computeNextOccurrence(
+			task,
+			task.completionDate ?? new Date(),
+			notBefore,
+			(date) => takenKeys.has(getOccurrenceKey(seriesId, date))
+		);
+		if (!next) return null;
+
+		const anchor = task.dueDate ?? task.startDate;
+		const nextAnchor = next.dueDate ?? next.startDate;
+		if (!anchor || !nextAnchor) return null;
+
+		// 父任务已不存在时作为顶层任务生成
+		const parentId = task.parentId && (this.tasks.has(task.parentId) || this.archivedTasks.has(task.parentId))
+			? task.parentId
+			: undefined;
+
+		const newId = await this.cloneTaskTree(task, nextAnchor.getTime() - anchor.getTime(), parentId, seriesId);
+		if (newId) {
+			task.nextOccurrenceId = newId;
+			Logger.info('JsonDataSource', `Spawned next occurrence of ${task.id}: ${newId}`, {
+				repeat: task.repeat,
+				dueDate: next.dueDate?.toISOString(),
+			});
+		}
+		return newId || null;
+	}
+
+	/**
+	 * 复制任务及其子任务（日期按偏移平移，状态重置）
+	 */
+	private async cloneTaskTree(source: GCTask, deltaMs: number, parentId?: string, seriesId?: string): Promise<string> {
+		const clone: GCTask = {
+			id: '',
+			type: source.type,
+			description: source.description,
+			detail: source.detail,
+			completed: false,
+			cancelled: false,
+			status: 'todo',
+			priority: source.priority,
+			tags: source.tags ? [...source.tags] : undefined,
+			createdDate: new Date(),
+			startDate: source.startDate ? shiftDate(source.startDate, deltaMs) : undefined,
+			dueDate: source.dueDate ? shiftDate(source.dueDate, deltaMs) : undefined,
+			hasStartTime: source.hasStartTime,
+			hasDueTime: source.hasDueTime,
+			repeat: source.repeat,
+			seriesId,
+			archived: false,
+			parentId,
+		};
+
+		const newId = await this.applyCreate(clone);
+		if (!newId) return '';
+
+		for (const childId of source.childIds || []) {
+			const child = this.tasks.get(childId) || this.archivedTasks.get(childId);
+			if (child) {
+				await this.cloneTaskTree(child, deltaMs, newId);
+			}
+		}
+
+		return newId;
+	}
+
+	/**
+	 * 删除任务（连同子任务移入回收站）
 	 */
 	async deleteTask(taskId: string): Promise<void> {
+		return this.withTransaction('删除任务', () => this.applyDelete(taskId));
+	}
+
+	/**
+	 * 在当前事务中删除任务
+	 */
+	private async applyDelete(taskId: string): Promise<void> {
 		const task = this.tasks.get(taskId) || this.archivedTasks.get(taskId);
 		if (!task) {
 			Logger.warn('JsonDataSource', `Task not found for delete: ${taskId}`);
 			return;
 		}
 
-		// 递归删除子任务
-		if (task.childIds?.length) {
-			for (const childId of [...task.childIds]) {
-				await this.deleteTask(childId);
-			}
-		}
-
 		// 从父任务的 childIds 中移除自己
 		if (task.parentId) {
 			const parent = this.tasks.get(task.parentId) || this.archivedTasks.get(task.parentId);
 			if (parent && parent.childIds) {
+				this.captureBefore(task.parentId);
 				const updatedParent = { ...parent, childIds: parent.childIds.filter(id => id !== taskId), lastModified: new Date() };
 				if (this.tasks.has(task.parentId)) {
 					this.tasks.set(task.parentId, updatedParent);
@@ -739,8 +1149,9 @@ export class JsonDataSource implements IDataSource {
 			}
 		}
 
-		this.tasks.delete(taskId);
-		this.archivedTasks.delete(taskId);
+		// 整棵子树移入回收站（保留父子结构，便于整体恢复）
+		const removed: GCTask[] = [];
+		this.moveSubtreeToTrash(task, new Date(), removed);
 		this.scheduleSave();
 
 		// 通知变更
@@ -748,10 +1159,234 @@ export class JsonDataSource implements IDataSource {
 			sourceId: this.sourceId,
 			created: [],
 			updated: [],
-			deleted: [task],
+			deleted: removed,
 		});
 
-		Logger.debug('JsonDataSource', `Task deleted: ${taskId}`);
+		Logger.debug('JsonDataSource', `Task deleted: ${taskId} (${removed.length} moved to trash)`);
+	}
+
+	/**
+	 * 批量删除任务（作为一次可撤销操作，结束时只通知一次变更）
+	 *
+	 * 已随祖先任务移入回收站的任务会被跳过。
+	 */
+	async deleteTasks(taskIds: string[], label = '批量删除任务'): Promise<void> {
+		return this.withTransaction(label, () => this.withBatchedChanges(async () => {
+			for (const taskId of taskIds) {
+				if (this.tasks.has(taskId) || this.archivedTasks.has(taskId)) {
+					await this.applyDelete(taskId);
+				}
+			}
+		}));
+	}
+
+	/**
+	 * 将任务及其后代移入回收站
+	 */
+	private moveSubtreeToTrash(task: GCTask, deletedAt: Date, removed: GCTask[]): void {
+		for (const childId of task.childIds || []) {
+			const child = this.tasks.get(childId) || this.archivedTasks.get(childId);
+			if (child) {
+				this.moveSubtreeToTrash(child, deletedAt, removed);
+			}
+		}
+
+		this.captureBefore(task.id);
+		this.tasks.delete(task.id);
+		this.archivedTasks.delete(task.id);
+		this.trashedTasks.set(task.id, { ...task, deletedAt });
+		removed.push(task);
+	}
+
+	// ==================== 回收站 ====================
+
+	/**
+	 * 获取回收站中的任务
+	 */
+	getTrashedTasks(): GCTask[] {
+		return Array.from(this.trashedTasks.values());
+	}
+
+	/**
+	 * 从回收站恢复任务（连同其仍在回收站中的子任务）
+	 *
+	 * 原父任务仍存在时挂回原处，否则作为顶层任务恢复。
+	 */
+	async restoreTask(taskId: string): Promise<void> {
+		return this.withTransaction('恢复任务', () => this.applyRestore(taskId));
+	}
+
+	/**
+	 * 在当前事务中恢复任务
+	 */
+	private async applyRestore(taskId: string): Promise<void> {
+		const task = this.trashedTasks.get(taskId);
+		if (!task) {
+			Logger.warn('JsonDataSource', `Task not found in trash: ${taskId}`);
+			return;
+		}
+
+		const updated: DataSourceChanges['updated'] = [];
+		let parentId: string | undefined;
+		let depth = 0;
+
+		if (task.parentId) {
+			// 父任务也在回收站中：从其 childIds 中摘除
+			this.detachFromTrashedParent(task);
+
+			const parent = this.tasks.get(task.parentId) || this.archivedTasks.get(task.parentId);
+			if (parent && (parent.depth ?? 0) < 2) {
+				this.captureBefore(parent.id);
+				const childIds = parent.childIds?.includes(taskId) ? parent.childIds : [...(parent.childIds || []), taskId];
+				const updatedParent: GCTask = { ...parent, childIds, lastModified: new Date() };
+				if (this.tasks.has(parent.id)) {
+					this.tasks.set(parent.id, updatedParent);
+				} else {
+					this.archivedTasks.set(parent.id, updatedParent);
+				}
+				updated.push({ id: parent.id, changes: { childIds }, task: updatedParent });
+				parentId = parent.id;
+				depth = (parent.depth ?? 0) + 1;
+			}
+		}
+
+		const restored: GCTask[] = [];
+		this.restoreSubtree(task, parentId, depth, restored);
+		this.scheduleSave();
+
+		this.notifyChanges({
+			sourceId: this.sourceId,
+			created: restored,
+			updated,
+			deleted: [],
+		});
+
+		Logger.debug('JsonDataSource', `Task restored: ${taskId} (${restored.length} tasks)`);
+	}
+
+	/**
+	 * 将任务及其在回收站中的后代移回活跃/归档列表
+	 */
+	private restoreSubtree(task: GCTask, parentId: string | undefined, depth: number, restored: GCTask[]): void {
+		const childIds = task.childIds?.filter(id => this.trashedTasks.has(id));
+
+		this.captureBefore(task.id);
+		this.trashedTasks.delete(task.id);
+		const restoredTask: GCTask = {
+			...task,
+			parentId,
+			depth,
+			childIds: childIds?.length ? childIds : undefined,
+			deletedAt: undefined,
+			lastModified: new Date(),
+		};
+		if (restoredTask.archived) {
+			this.archivedTasks.set(task.id, restoredTask);
+		} else {
+			this.tasks.set(task.id, restoredTask);
+		}
+		restored.push(restoredTask);
+
+		for (const childId of childIds || []) {
+			const child = this.trashedTasks.get(childId);
+			if (child) {
+				this.restoreSubtree(child, task.id, depth + 1, restored);
+			}
+		}
+	}
+
+	/**
+	 * 彻底删除回收站中的任务（连同其后代，不可撤销；
+	 * 撤销历史中可能恢复这些任务的记录一并丢弃）
+	 */
+	async purgeTask(taskId: string): Promise<void> {
+		const task = this.trashedTasks.get(taskId);
+		if (!task) return;
+
+		this.detachFromTrashedParent(task);
+		const purged = new Set<string>();
+		this.purgeSubtree(task, purged);
+		this.history.forgetTasks(purged);
+		this.scheduleSave();
+
+		Logger.debug('JsonDataSource', `Task purged: ${taskId} (${purged.size} tasks)`);
+	}
+
+	/**
+	 * 清空回收站（不可撤销，同样丢弃涉及这些任务的撤销记录）
+	 */
+	async emptyTrash(): Promise<void> {
+		if (this.trashedTasks.size === 0) return;
+		const purged = new Set(this.trashedTasks.keys());
+		this.trashedTasks.clear();
+		this.history.forgetTasks(purged);
+		this.scheduleSave();
+		Logger.debug('JsonDataSource', `Trash emptied (${purged.size} tasks)`);
+	}
+
+	/**
+	 * 设置回收站保留天数并清除超期任务
+	 * @param days 保留天数（0 = 永久保留）
+	 */
+	setTrashRetentionDays(days: number): void {
+		this.trashRetentionDays = days;
+		if (this.purgeExpiredTrash() > 0) {
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * 清除超过保留期的回收站任务
+	 * @returns 清除的任务数
+	 */
+	private purgeExpiredTrash(): number {
+		if (this.trashRetentionDays <= 0 || this.trashedTasks.size === 0) return 0;
+
+		const cutoff = Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000;
+		const purged = new Set<string>();
+		for (const task of Array.from(this.trashedTasks.values())) {
+			if (!this.trashedTasks.has(task.id)) continue;
+			if (task.deletedAt && task.deletedAt.getTime() < cutoff) {
+				this.detachFromTrashedParent(task);
+				this.purgeSubtree(task, purged);
+			}
+		}
+
+		if (purged.size > 0) {
+			this.history.forgetTasks(purged);
+			Logger.info('JsonDataSource', `Purged ${purged.size} expired tasks from trash`);
+		}
+		return purged.size;
+	}
+
+	/**
+	 * 若父任务也在回收站中，从其 childIds 中移除该任务
+	 */
+	private detachFromTrashedParent(task: GCTask): void {
+		if (!task.parentId) return;
+		const trashedParent = this.trashedTasks.get(task.parentId);
+		if (trashedParent?.childIds) {
+			this.captureBefore(trashedParent.id);
+			this.trashedTasks.set(trashedParent.id, {
+				...trashedParent,
+				childIds: trashedParent.childIds.filter(id => id !== task.id),
+			});
+		}
+	}
+
+	/**
+	 * 从回收站移除任务及其后代
+	 * @param purged 收集移除的任务 ID
+	 */
+	private purgeSubtree(task: GCTask, purged: Set<string>): void {
+		for (const childId of task.childIds || []) {
+			const child = this.trashedTasks.get(childId);
+			if (child) {
+				this.purgeSubtree(child, purged);
+			}
+		}
+		this.trashedTasks.delete(task.id);
+		purged.add(task.id);
 	}
 
 	/**
@@ -768,6 +1403,172 @@ export class JsonDataSource implements IDataSource {
 		await this.updateTask(taskId, { archived: false });
 	}
 
+	// ==================== 撤销/重做 ====================
+
+	/**
+	 * 在撤销事务中执行操作
+	 *
+	 * 每个公开的修改方法开启一个事务，事务经队列依次执行，
+	 * 跨 await 重叠的独立操作不会混入同一事务。联动传播、递归删除、
+	 * 周期实例生成等内部调用使用 apply* 方法并入当前事务，撤销时作为一个整体恢复
+	 * （事务内不得调用公开的修改方法，否则会等待自身而无法结束）。
+	 */
+	private async withTransaction<T>(label: string, fn: () => Promise<T>): Promise<T> {
+		return this.enqueueMutation(async () => {
+			const transaction: HistoryTransaction = { label, before: new Map() };
+			this.transaction = transaction;
+			try {
+				return await fn();
+			} finally {
+				this.transaction = null;
+				this.commitTransaction(transaction);
+			}
+		});
+	}
+
+	/**
+	 * 排队执行修改操作：前一个操作结束（无论成败）后才开始
+	 */
+	private enqueueMutation<T>(fn: () => Promise<T>): Promise<T> {
+		const run = this.mutationQueue.then(fn);
+		this.mutationQueue = run.catch(() => undefined);
+		return run;
+	}
+
+	/**
+	 * 在批量模式中执行操作：期间的变更暂存，结束后合并为一次通知
+	 */
+	private async withBatchedChanges(fn: () => Promise<void>): Promise<void> {
+		if (this.batchedChanges) {
+			await fn();
+			return;
+		}
+
+		const batch: DataSourceChanges = { sourceId: this.sourceId, created: [], updated: [], deleted: [] };
+		this.batchedChanges = batch;
+		try {
+			await fn();
+		} finally {
+			this.batchedChanges = null;
+			if (batch.created.length + batch.updated.length + batch.deleted.length > 0) {
+				this.notifyChanges(batch);
+			}
+		}
+	}
+
+	/**
+	 * 记录任务在本次事务中的首次快照（修改前调用）
+	 */
+	private captureBefore(taskId: string): void {
+		if (!this.transaction || this.transaction.before.has(taskId)) return;
+		const task = this.findTaskAnywhere(taskId);
+		this.transaction.before.set(taskId, task ? cloneTask(task) : null);
+	}
+
+	/**
+	 * 结束事务：记录操作后快照并入栈
+	 */
+	private commitTransaction(transaction: HistoryTransaction): void {
+		if (transaction.before.size === 0) return;
+
+		const after = new Map<string, GCTask | null>();
+		for (const taskId of transaction.before.keys()) {
+			const task = this.findTaskAnywhere(taskId);
+			after.set(taskId, task ? cloneTask(task) : null);
+		}
+
+		this.history.push({
+			label: transaction.label,
+			before: transaction.before,
+			after,
+			timestamp: Date.now(),
+		});
+	}
+
+	/**
+	 * 撤销最近一次操作
+	 * @returns 被撤销操作的描述，无可撤销操作时返回 null
+	 */
+	async undo(): Promise<string | null> {
+		return this.enqueueMutation(async () => {
+			const entry = this.history.undo();
+			if (!entry) return null;
+			this.applySnapshots(entry.before);
+			Logger.debug('JsonDataSource', `Undo: ${entry.label}`);
+			return entry.label;
+		});
+	}
+
+	/**
+	 * 重做最近一次撤销的操作
+	 * @returns 被重做操作的描述，无可重做操作时返回 null
+	 */
+	async redo(): Promise<string | null> {
+		return this.enqueueMutation(async () => {
+			const entry = this.history.redo();
+			if (!entry) return null;
+			this.applySnapshots(entry.after);
+			Logger.debug('JsonDataSource', `Redo: ${entry.label}`);
+			return entry.label;
+		});
+	}
+
+	canUndo(): boolean {
+		return this.history.canUndo();
+	}
+
+	canRedo(): boolean {
+		return this.history.canRedo();
+	}
+
+	/**
+	 * 查找任务（含回收站）
+	 */
+	private findTaskAnywhere(taskId: string): GCTask | undefined {
+		return this.tasks.get(taskId) || this.archivedTasks.get(taskId) || this.trashedTasks.get(taskId);
+	}
+
+	/**
+	 * 将任务恢复为快照状态（null 表示不存在，带 deletedAt 表示在回收站中）
+	 */
+	private applySnapshots(snapshots: HistoryEntry['before']): void {
+		const changes: DataSourceChanges = {
+			sourceId: this.sourceId,
+			created: [],
+			updated: [],
+			deleted: [],
+		};
+
+		for (const [taskId, snapshot] of snapshots) {
+			const current = this.tasks.get(taskId) || this.archivedTasks.get(taskId);
+			this.tasks.delete(taskId);
+			this.archivedTasks.delete(taskId);
+			this.trashedTasks.delete(taskId);
+
+			if (!snapshot || snapshot.deletedAt) {
+				if (snapshot) this.trashedTasks.set(taskId, cloneTask(snapshot));
+				if (current) changes.deleted.push(current);
+				continue;
+			}
+
+			const restored = cloneTask(snapshot);
+			if (restored.archived) {
+				this.archivedTasks.set(taskId, restored);
+			} else {
+				this.tasks.set(taskId, restored);
+			}
+
+			if (current) {
+				changes.updated.push({ id: taskId, changes: {}, task: restored });
+			} else {
+				changes.created.push(restored);
+			}
+		}
+
+		this.scheduleSave();
+		this.notifyChanges(changes);
+	}
+
 	/**
 	 * 获取同步状态
 	 */
@@ -784,6 +1585,11 @@ export class JsonDataSource implements IDataSource {
 	 * 注意：调用 destroy() 前应先调用 flushSave() 确保数据已保存
 	 */
 	destroy(): void {
+		if (this.externalWatchTimer !== null) {
+			window.clearInterval(this.externalWatchTimer);
+			this.externalWatchTimer = null;
+		}
+		this.diskSnapshot = null;
 		if (this.saveDebounceTimer !== null) {
 			clearTimeout(this.saveDebounceTimer);
 			this.saveDebounceTimer = null;
@@ -792,6 +1598,8 @@ export class JsonDataSource implements IDataSource {
 		this.changeHandlers = [];
 		this.tasks.clear();
 		this.archivedTasks.clear();
+		this.trashedTasks.clear();
+		this.history.clear();
 		Logger.debug('JsonDataSource', 'Destroyed');
 	}
 
@@ -799,6 +1607,13 @@ export class JsonDataSource implements IDataSource {
 	 * 通知所有变更处理器
 	 */
 	private notifyChanges(changes: DataSourceChanges): void {
+		if (this.batchedChanges) {
+			this.batchedChanges.created.push(...changes.created);
+			this.batchedChanges.updated.push(...changes.updated);
+			this.batchedChanges.deleted.push(...changes.deleted);
+			return;
+		}
+
 		for (const handler of this.changeHandlers) {
 			try {
 				handler(changes);
@@ -824,13 +1639,254 @@ export class JsonDataSource implements IDataSource {
 	 */
 	async getDataForSync(): Promise<TasksJsonFile> {
 		return {
-			version: 1,
+			version: this.schemaVersion,
 			tasks: Array.from(this.tasks.values()).map(taskToJson),
 			archive: Array.from(this.archivedTasks.values()).map(taskToJson),
+			trash: Array.from(this.trashedTasks.values()).map(taskToJson),
 			lastSync: new Date().toISOString(),
 		};
 	}
 
+	/**
+	 * 本地修订号（每次变更递增）
+	 */
+	getRevision(): number {
+		return this.revision;
+	}
+
+	/**
+	 * 用同步合并结果替换本地数据
+	 *
+	 * 与当前数据比较后发出新增/更新/删除通知；撤销历史随之清空，
+	 * 避免撤销操作覆盖来自其他设备的修改。
+	 */
+	async applySyncedData(data: TasksJsonFile): Promise<void> {
+		// 远端数据已在解析时迁移；此处兜底处理直接传入的旧版本数据
+		data = migrateTasksFile(data).data;
+		const changes = this.replaceData(data);
+
+		await this.flushSave();
+		this.notifyChanges(changes);
+
+		Logger.info('JsonDataSource', 'Applied synced data', {
+			created: changes.created.length,
+			updated: changes.updated.length,
+			deleted: changes.deleted.length,
+		});
+	}
+
+	/**
+	 * 用给定数据替换内存数据并清空撤销历史
+	 * @returns 与替换前相比的变更（updated 不含具体字段）
+	 */
+	private replaceData(data: TasksJsonFile): DataSourceChanges {
+		const previous = new Map<string, GCTask>();
+		for (const task of [...this.tasks.values(), ...this.archivedTasks.values()]) {
+			previous.set(task.id, task);
+		}
+
+		this.schemaVersion = data.version;
+		this.tasks.clear();
+		this.archivedTasks.clear();
+		this.trashedTasks.clear();
+		for (const jsonTask of data.tasks) {
+			const task = jsonToTask(jsonTask);
+			this.tasks.set(task.id, task);
+		}
+		for (const jsonTask of data.archive) {
+			const task = jsonToTask(jsonTask);
+			this.archivedTasks.set(task.id, task);
+		}
+		for (const jsonTask of data.trash ?? []) {
+			const task = jsonToTask(jsonTask);
+			this.trashedTasks.set(task.id, task);
+		}
+		this.history.clear();
+
+		const changes: DataSourceChanges = {
+			sourceId: this.sourceId,
+			created: [],
+			updated: [],
+			deleted: [],
+		};
+		for (const task of [...this.tasks.values(), ...this.archivedTasks.values()]) {
+			if (previous.has(task.id)) {
+				changes.updated.push({ id: task.id, changes: {}, task });
+				previous.delete(task.id);
+			} else {
+				changes.created.push(task);
+			}
+		}
+		changes.deleted.push(...previous.values());
+		return changes;
+	}
+
+	// ==================== 外部修改 ====================
+
+	/**
+	 * 定时检查数据文件是否被外部修改（同步工具、git、另一个 Obsidian 窗口）
+	 */
+	private startExternalWatch(): void {
+		if (this.externalWatchTimer !== null) {
+			window.clearInterval(this.externalWatchTimer);
+		}
+		this.externalWatchTimer = window.setInterval(() => {
+			// 有待保存的修改时由保存流程检查
+			if (this.isWriting || this.saveDebounceTimer !== null) return;
+			this.checkExternalChanges().then(needsSave => {
+				if (needsSave) this.scheduleSave();
+			}).catch(error => {
+				Logger.error('JsonDataSource', 'Failed to check external changes:', error);
+			});
+		}, this.EXTERNAL_CHECK_INTERVAL_MS);
+	}
+
+	/**
+	 * 记录磁盘上的数据状态（读取或写入后调用）
+	 */
+	private async rememberDiskState(data: TasksJsonFile): Promise<void> {
+		this.diskSnapshot = data;
+		this.diskChecksum = computeChecksum(data);
+		try {
+			this.diskMtime = (await this.app.vault.adapter.stat(this.getDataFilePath()))?.mtime ?? null;
+		} catch (error) {
+			Logger.warn('JsonDataSource', 'Failed to stat data file:', error);
+			this.diskMtime = null;
+		}
+	}
+
+	/**
+	 * 检查并合并外部修改（同一时间只执行一次检查）
+	 * @returns 合并结果包含磁盘上没有的本地修改，需要写回
+	 */
+	private async checkExternalChanges(): Promise<boolean> {
+		if (!this.externalCheck) {
+			this.externalCheck = this.mergeExternalChanges().finally(() => {
+				this.externalCheck = null;
+			});
+		}
+		return await this.externalCheck;
+	}
+
+	/**
+	 * 修改时间变化且内容不是自己写入的时，以上次读写的数据为基准
+	 * 三方合并磁盘与内存数据（按 id 对齐，冲突取 lastModified 较新者），
+	 * 并发出变更通知刷新视图
+	 */
+	private async mergeExternalChanges(): Promise<boolean> {
+		const filePath = this.getDataFilePath();
+		const adapter = this.app.vault.adapter;
+
+		const stat = await adapter.stat(filePath);
+		if (!stat || stat.mtime === this.diskMtime) return false;
+
+		const external = mergeExternalFile(
+			await adapter.read(filePath), this.diskSnapshot, await this.getDataForSync(), this.diskChecksum
+		);
+		if (external.status === 'invalid') {
+			// 可能是外部工具尚未写完：不记录修改时间，下次检查时重新读取
+			Logger.warn('JsonDataSource', `Ignored invalid external change: ${external.reason}`);
+			return false;
+		}
+		this.diskMtime = stat.mtime;
+		if (external.status === 'unchanged') {
+			return false;
+		}
+
+		const { merge } = external;
+		this.diskSnapshot = external.disk;
+		this.diskChecksum = external.diskChecksum;
+
+		if (merge.localChanged) {
+			const changes = this.replaceData(merge.merged);
+			this.revision++;
+			this.notifyChanges(changes);
+			Logger.info('JsonDataSource', 'Merged external changes to data file', {
+				created: changes.created.length,
+				updated: changes.updated.length,
+				deleted: changes.deleted.length,
+				resolvedConflicts: merge.resolvedCount,
+			});
+		}
+		return merge.remoteChanged;
+	}
+
+	// ==================== 本地备份 ====================
+
+	/**
+	 * 配置本地备份
+	 */
+	configureBackups(config: BackupConfig): void {
+		this.backups.configure(config);
+	}
+
+	/**
+	 * 备份当前数据（内存中的最新状态）
+	 */
+	async createBackup(reason: BackupReason): Promise<BackupInfo> {
+		return await this.backups.createBackup(reason, await this.getJsonContent());
+	}
+
+	/**
+	 * 列出备份（按时间倒序）
+	 */
+	async listBackups(): Promise<BackupInfo[]> {
+		return await this.backups.listBackups();
+	}
+
+	/**
+	 * 比较当前数据与备份：恢复该备份会带来的变化
+	 */
+	async diffBackup(path: string): Promise<TaskDiff[]> {
+		const backup = await this.backups.readBackup(path);
+		return diffTaskFiles(await this.getDataForSync(), backup);
+	}
+
+	/**
+	 * 恢复备份（先备份当前数据；撤销历史随之清空）
+	 */
+	async restoreBackup(path: string): Promise<void> {
+		const backup = await this.backups.readBackup(path);
+		await this.createBackup('restore');
+		await this.applySyncedData(backup);
+		Logger.info('JsonDataSource', `Restored backup: ${path}`);
+	}
+
+	/**
+	 * 同步基准快照路径（每个同步后端各自一份；GitHub 沿用旧文件名）
+	 */
+	private getSyncBasePath(backendId: string): string {
+		const fileName = backendId === 'github'
+			? this.SYNC_BASE_FILE
+			: this.SYNC_BASE_FILE.replace('.json', `-${backendId}.json`);
+		return this.getDataDirPath() + '/' + fileName;
+	}
+
+	/**
+	 * 读取上次同步成功时的基准快照（不存在或损坏时返回 null）
+	 */
+	async loadSyncBase(backendId: string): Promise<TasksJsonFile | null> {
+		const filePath = this.getSyncBasePath(backendId);
+		try {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(filePath)) {
+				const base = JSON.parse(await adapter.read(filePath)) as TasksJsonFile;
+				return migrateTasksFile(base).data;
+			}
+		} catch (error) {
+			Logger.error('JsonDataSource', 'Failed to read sync base:', error);
+		}
+		return null;
+	}
+
+	/**
+	 * 保存同步基准快照
+	 */
+	async saveSyncBase(backendId: string, data: TasksJsonFile): Promise<void> {
+		const filePath = this.getSyncBasePath(backendId);
+		await this.app.vault.adapter.write(filePath, JSON.stringify(data));
+	}
+
 	/**
 	 * 获取 JSON 字符串内容（用于 GitHub 推送）
 	 */
@@ -0,0 +1,424 @@
+/**
+ * MarkdownMirrorDataSource - Markdown 镜像数据源
+ *
+ * 将选定的任务渲染到库中的一篇笔记（Tasks emoji 格式的复选框行，行尾带 ^任务ID 块 ID），
+ * 使任务可被搜索、反向链接和关系图谱发现；并监听该笔记的修改，
+ * 将勾选、改写描述/日期/优先级/标签等编辑解析为任务变更并通知仓库。
+ *
+ * 镜像不持有任务数据：渲染内容来自主数据源，变更由 TaskStore 写回 JSON 数据源。
+ * 笔记内容整体由插件生成，新增行、删除行和块 ID 以外的其他内容在下次渲染时被覆盖。
+ */
+
+import { App, TFile, normalizePath, type EventRef } from 'obsidian';
+import type { GCTask } from '../types';
+import type { ChangeEventHandler, IDataSource } from './IDataSource';
+import type {
+	DataSourceChanges,
+	DataSourceConfig,
+	MarkdownMirrorConfig,
+	SyncStatus,
+	TaskChanges,
+} from './types';
+import { parseMarkdownTasks, type ParsedMarkdownTask } from '../tasks/markdownTaskParser';
+import { getStatusByKey } from '../tasks/taskStatus';
+import { formatDate, withTime } from '../dateUtils/dateUtilsIndex';
+import { RegularExpressions } from '../utils/RegularExpressions';
+import { Logger } from '../utils/logger';
+
+/** 笔记开头的说明 */
+const MIRROR_HEADER = [
+	'> [!info] 由 Gantt Calendar 自动生成',
+	'> 勾选或编辑任务会同步回插件；请勿修改行尾的块 ID（^…），新增或删除的行会在下次更新时被覆盖。',
+	'',
+].join('\n');
+
+/** 渲染用的优先级符号（normal 不输出） */
+const PRIORITY_EMOJI: Record<string, string> = {
+	high: '⏫',
+	low: '🔽',
+};
+
+/** 待渲染的任务及其缩进层级 */
+interface MirrorEntry {
+	task: GCTask;
+	level: number;
+}
+
+export class MarkdownMirrorDataSource implements IDataSource {
+	readonly sourceId = 'markdown-mirror';
+	readonly sourceName = 'Markdown 镜像';
+	readonly isReadOnly = false;
+
+	private app: App;
+	private mirrorConfig: MarkdownMirrorConfig;
+	private getSourceTasks: () => GCTask[];
+	private changeHandlers: ChangeEventHandler[] = [];
+	private modifyRef: EventRef | null = null;
+
+	// 防抖
+	private renderTimer: number | null = null;
+	private readTimer: number | null = null;
+	private readonly RENDER_DEBOUNCE_MS = 500;
+	private readonly READ_DEBOUNCE_MS = 300;
+
+	/** 最近一次写入或已处理的笔记内容（用于忽略自身写入触发的 modify） */
+	private lastContent: string | null = null;
+
+	/**
+	 * @param getSourceTasks 获取主数据源中的活跃任务
+	 */
+	constructor(app: App, config: MarkdownMirrorConfig, getSourceTasks: () => GCTask[]) {
+		this.app = app;
+		this.mirrorConfig = config;
+		this.getSourceTasks = getSourceTasks;
+	}
+
+	/**
+	 * 初始化：开始监听笔记修改并立即渲染一次
+	 */
+	async initialize(_config: DataSourceConfig): Promise<void> {
+		if (!this.modifyRef) {
+			this.modifyRef = this.app.vault.on('modify', (file) => {
+				if (file instanceof TFile && file.path === this.getFilePath()) {
+					this.scheduleRead();
+				}
+			});
+		}
+		await this.render();
+		Logger.debug('MarkdownMirror', `Initialized: ${this.getFilePath()}`);
+	}
+
+	/**
+	 * 获取镜像中的任务（按笔记中的顺序）
+	 */
+	async getTasks(): Promise<GCTask[]> {
+		return this.collectEntries().map(entry => entry.task);
+	}
+
+	onChange(handler: ChangeEventHandler): void {
+		this.changeHandlers.push(handler);
+	}
+
+	async createTask(_task: GCTask): Promise<string> {
+		throw new Error('Markdown 镜像不支持创建任务，请在插件中创建');
+	}
+
+	/**
+	 * 更新任务：通知仓库（由 TaskStore 写回主数据源）
+	 */
+	async updateTask(taskId: string, changes: TaskChanges): Promise<void> {
+		const task = this.getSourceTasks().find(t => t.id === taskId);
+		if (!task) {
+			Logger.warn('MarkdownMirror', `Task not found for update: ${taskId}`);
+			return;
+		}
+
+		this.notifyChanges({
+			sourceId: this.sourceId,
+			created: [],
+			updated: [{ id: taskId, changes, task: { ...task, ...changes, lastModified: new Date() } }],
+			deleted: [],
+		});
+	}
+
+	async deleteTask(_taskId: string): Promise<void> {
+		throw new Error('Markdown 镜像不支持删除任务，请在插件中删除');
+	}
+
+	async getSyncStatus(): Promise<SyncStatus> {
+		return {
+			syncDirection: 'bidirectional',
+			conflictResolution: 'local-win',
+		};
+	}
+
+	/**
+	 * 任务数据变化后调用：防抖重新渲染笔记
+	 */
+	scheduleRender(): void {
+		if (this.renderTimer !== null) {
+			clearTimeout(this.renderTimer);
+		}
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render().catch(error => {
+				Logger.error('MarkdownMirror', 'Render failed:', error);
+			});
+		}, this.RENDER_DEBOUNCE_MS);
+	}
+
+	destroy(): void {
+		if (this.modifyRef) {
+			this.app.vault.offref(this.modifyRef);
+			this.modifyRef = null;
+		}
+		if (this.renderTimer !== null) {
+			clearTimeout(this.renderTimer);
+			this.renderTimer = null;
+		}
+		if (this.readTimer !== null) {
+			clearTimeout(this.readTimer);
+			this.readTimer = null;
+		}
+		this.changeHandlers = [];
+		Logger.debug('MarkdownMirror', 'Destroyed');
+	}
+
+	// ==================== 渲染 ====================
+
+	/**
+	 * 将任务写入笔记（内容未变化时跳过）
+	 */
+	private async render(): Promise<void> {
+		// 笔记有尚未处理的编辑：先读回，读回后会再次渲染
+		if (this.readTimer !== null) return;
+
+		const filePath = this.getFilePath();
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (file && !(file instanceof TFile)) {
+			Logger.warn('MarkdownMirror', `Mirror path is a folder: ${filePath}`);
+			return;
+		}
+
+		if (file) {
+			const current = await this.app.vault.read(file);
+			if (this.lastContent !== null && current !== this.lastContent) {
+				await this.readBack(current);
+				return;
+			}
+			const content = this.buildContent();
+			if (current === content) {
+				this.lastContent = content;
+				return;
+			}
+			this.lastContent = content;
+			await this.app.vault.modify(file, content);
+		} else {
+			const content = this.buildContent();
+			await this.ensureFolder(filePath);
+			this.lastContent = content;
+			await this.app.vault.create(filePath, content);
+		}
+		Logger.debug('MarkdownMirror', `Rendered ${filePath}`);
+	}
+
+	private buildContent(): string {
+		const lines = this.collectEntries().map(entry => formatTaskLine(entry.task, entry.level));
+		return MIRROR_HEADER + '\n' + lines.join('\n') + '\n';
+	}
+
+	/**
+	 * 按筛选条件收集任务：匹配的任务连同其子任务输出，祖先已输出时不重复
+	 */
+	private collectEntries(): MirrorEntry[] {
+		const tasks = this.getSourceTasks();
+		const byId = new Map(tasks.map(task => [task.id, task]));
+		const filter = this.mirrorConfig.filter;
+
+		const matches = (task: GCTask): boolean => {
+			switch (filter.type) {
+				case 'all':
+					return true;
+				case 'tag':
+					return !!task.tags?.includes(filter.tag.replace(/^#/, ''));
+				case 'parent':
+					return task.id === filter.parentId;
+			}
+		};
+
+		const hasMatchedAncestor = (task: GCTask): boolean => {
+			let parent = task.parentId ? byId.get(task.parentId) : undefined;
+			while (parent) {
+				if (matches(parent)) return true;
+				parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+			}
+			return false;
+		};
+
+		const entries: MirrorEntry[] = [];
+		const visit = (task: GCTask, level: number) => {
+			entries.push({ task, level });
+			for (const childId of task.childIds ?? []) {
+				const child = byId.get(childId);
+				if (child) visit(child, level + 1);
+			}
+		};
+
+		for (const task of tasks) {
+			if (matches(task) && !hasMatchedAncestor(task)) {
+				visit(task, 0);
+			}
+		}
+		return entries;
+	}
+
+	// ==================== 读回 ====================
+
+	private scheduleRead(): void {
+		if (this.readTimer !== null) {
+			clearTimeout(this.readTimer);
+		}
+		this.readTimer = window.setTimeout(async () => {
+			this.readTimer = null;
+			const file = this.app.vault.getAbstractFileByPath(this.getFilePath());
+			if (!(file instanceof TFile)) return;
+			try {
+				await this.readBack(await this.app.vault.read(file));
+			} catch (error) {
+				Logger.error('MarkdownMirror', 'Failed to apply note edits:', error);
+			}
+		}, this.READ_DEBOUNCE_MS);
+	}
+
+	/**
+	 * 解析笔记内容，将带块 ID 的任务行与原任务比较并通知变更
+	 */
+	private async readBack(content: string): Promise<void> {
+		if (content === this.lastContent) return;
+		this.lastContent = content;
+
+		const filePath = this.getFilePath();
+		const tasksById = new Map(this.getSourceTasks().map(task => [task.id, task]));
+		let changedCount = 0;
+
+		for (const parsed of parseMarkdownTasks(content, filePath)) {
+			const task = parsed.blockId ? tasksById.get(parsed.blockId) : undefined;
+			if (!task) continue;
+
+			// 与原任务渲染后的解析结果比较，只提取用户实际修改的字段
+			const [expected] = parseMarkdownTasks(formatTaskLine(task, 0), filePath);
+			const changes = diffParsedTask(task, expected, parsed);
+			if (Object.keys(changes).length > 0) {
+				await this.updateTask(task.id, changes);
+				changedCount++;
+			}
+		}
+
+		if (changedCount > 0) {
+			Logger.info('MarkdownMirror', `Applied ${changedCount} task edit(s) from ${filePath}`);
+		}
+		this.scheduleRender();
+	}
+
+	// ==================== 辅助方法 ====================
+
+	private getFilePath(): string {
+		return normalizePath(this.mirrorConfig.filePath.trim());
+	}
+
+	private async ensureFolder(filePath: string): Promise<void> {
+		const folder = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+	}
+
+	private notifyChanges(changes: DataSourceChanges): void {
+		for (const handler of this.changeHandlers) {
+			try {
+				handler(changes);
+			} catch (error) {
+				Logger.error('MarkdownMirror', 'Error in change handler:', error);
+			}
+		}
+	}
+}
+
+/**
+ * 渲染单个任务行（Tasks emoji 格式，行尾为 ^任务ID）
+ */
+function formatTaskLine(task: GCTask, level: number): string {
+	const symbols = RegularExpressions.Tasks.dateSymbols;
+	const status = task.status ?? (task.completed ? 'done' : 'todo');
+	const parts = [`- [${getStatusByKey(status)?.symbol ?? ' '}]`, task.description];
+
+	if (PRIORITY_EMOJI[task.priority]) parts.push(PRIORITY_EMOJI[task.priority]);
+	if (task.repeat) parts.push(`${RegularExpressions.Tasks.repeatSymbols.repeat} ${task.repeat}`);
+	if (task.startDate) parts.push(`${symbols.start} ${formatDate(task.startDate, 'yyyy-MM-dd')}`);
+	if (task.dueDate) parts.push(`${symbols.due} ${formatDate(task.dueDate, 'yyyy-MM-dd')}`);
+	if (status === 'done' && task.completionDate) {
+		parts.push(`${symbols.completion} ${formatDate(task.completionDate, 'yyyy-MM-dd')}`);
+	}
+	if (status === 'canceled' && task.cancelledDate) {
+		parts.push(`${symbols.cancelled} ${formatDate(task.cancelledDate, 'yyyy-MM-dd')}`);
+	}
+	for (const tag of task.tags ?? []) parts.push(`#${tag}`);
+	parts.push(`^${task.id}`);
+
+	return '\t'.repeat(level) + parts.join(' ');
+}
+
+/**
+ * 比较任务行的解析结果，生成任务变更
+ * @param expected 原任务渲染后的解析结果
+ * @param parsed 笔记中当前行的解析结果
+ */
+function diffParsedTask(task: GCTask, expected: ParsedMarkdownTask, parsed: ParsedMarkdownTask): TaskChanges {
+	const changes: TaskChanges = {};
+
+	if (parsed.status !== expected.status) {
+		Object.assign(changes, getStatusChanges(parsed));
+	}
+	if (parsed.description !== expected.description) {
+		changes.description = parsed.description;
+	}
+	if (parsed.priority !== expected.priority) {
+		changes.priority = parsed.priority;
+	}
+	if (parsed.tags.join(' ') !== expected.tags.join(' ')) {
+		changes.tags = parsed.tags;
+	}
+	if ((parsed.repeat ?? '') !== (expected.repeat ?? '')) {
+		changes.repeat = parsed.repeat;
+	}
+	if (!isSameDate(parsed.dueDate, expected.dueDate)) {
+		changes.dueDate = parsed.dueDate && task.dueDate && task.hasDueTime
+			? withTime(parsed.dueDate, task.dueDate.getHours(), task.dueDate.getMinutes())
+			: parsed.dueDate;
+		if (!parsed.dueDate) changes.hasDueTime = false;
+	}
+	// 开始日期不允许清空（视图依赖开始日期定位）
+	if (parsed.startDate && !isSameDate(parsed.startDate, expected.startDate)) {
+		changes.startDate = task.startDate && task.hasStartTime
+			? withTime(parsed.startDate, task.startDate.getHours(), task.startDate.getMinutes())
+			: parsed.startDate;
+	}
+
+	return changes;
+}
+
+/**
+ * 状态切换时联动的完成/取消字段
+ */
+function getStatusChanges(parsed: ParsedMarkdownTask): TaskChanges {
+	switch (parsed.status) {
+		case 'done':
+			return {
+				status: 'done',
+				completed: true,
+				completionDate: parsed.completionDate ?? new Date(),
+				cancelled: false,
+				cancelledDate: undefined,
+			};
+		case 'canceled':
+			return {
+				status: 'canceled',
+				cancelled: true,
+				cancelledDate: parsed.cancelledDate ?? new Date(),
+				completed: false,
+				completionDate: undefined,
+			};
+		default:
+			return {
+				status: parsed.status,
+				completed: false,
+				completionDate: undefined,
+				cancelled: false,
+				cancelledDate: undefined,
+			};
+	}
+}
+
+function isSameDate(a?: Date, b?: Date): boolean {
+	return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
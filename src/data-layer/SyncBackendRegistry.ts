@@ -0,0 +1,44 @@
+/**
+ * SyncBackendRegistry - 同步后端注册表
+ *
+ * 按类型注册同步后端工厂，根据配置创建后端实例。
+ */
+
+import type { ISyncBackend, ISyncBackendFactory } from './ISyncBackend';
+import type { SyncBackendConfig, SyncBackendType } from './types';
+
+export class SyncBackendRegistry {
+	private factories: Map<string, ISyncBackendFactory> = new Map();
+
+	/**
+	 * 注册后端工厂（同类型重复注册时覆盖）
+	 */
+	register(factory: ISyncBackendFactory): void {
+		this.factories.set(factory.getType(), factory);
+	}
+
+	/**
+	 * 是否已注册指定类型
+	 */
+	has(type: SyncBackendType): boolean {
+		return this.factories.has(type);
+	}
+
+	/**
+	 * 已注册的后端类型
+	 */
+	getTypes(): SyncBackendType[] {
+		return Array.from(this.factories.keys()) as SyncBackendType[];
+	}
+
+	/**
+	 * 按配置创建后端实例
+	 */
+	create(config: SyncBackendConfig): ISyncBackend {
+		const factory = this.factories.get(config.type);
+		if (!factory) {
+			throw new Error(`未注册的同步后端: ${config.type}`);
+		}
+		return factory.create(config);
+	}
+}
@@ -0,0 +1,411 @@
+/**
+ * TaskMerger - 任务数据三方合并
+ *
+ * 以上次同步成功时的快照（base）为基准，逐任务比较本地与远端：
+ * - 仅一方修改 → 采用该方版本（含新增与删除）
+ * - 双方修改 → 逐字段合并，只改了不同字段时自动合并
+ * - 双方修改了同一字段且结果不同 → 冲突，按冲突策略或手动选择解决
+ *
+ * 任务按 id 对齐；所在分区（活跃/归档/回收站）视为任务的一个字段。
+ * 合并完成后修复父子关系（childIds 与 parentId 互相一致）。
+ */
+
+import type { JsonTaskData, TasksJsonFile } from './JsonDataSource';
+import { migrateTasksFile } from './TaskMigrations';
+import { computeChecksum, validateTasksFile } from './TasksFileIntegrity';
+import type {
+	ConflictDecision,
+	ConflictResolution,
+	ConflictSide,
+	FieldConflict,
+	TaskConflict,
+	TaskDiff,
+	TaskSection,
+	TaskVersion,
+} from './types';
+
+/**
+ * 合并结果
+ */
+export interface MergeResult {
+	merged: TasksJsonFile;
+	/** 未解决的冲突（仅 manual 策略下未给出选择的任务，合并结果中冲突字段暂保留本地值） */
+	conflicts: TaskConflict[];
+	/** 按策略或选择解决的冲突数 */
+	resolvedCount: number;
+	/** 合并结果与本地不同（需要应用到本地） */
+	localChanged: boolean;
+	/** 合并结果与远端不同（需要推送） */
+	remoteChanged: boolean;
+}
+
+const SECTIONS: TaskSection[] = ['tasks', 'archive', 'trash'];
+
+/** 不参与字段比较的字段（lastModified 合并时取较晚者） */
+const IGNORED_FIELDS = new Set<string>(['id', 'lastModified']);
+
+/**
+ * 按 id 索引文件中的任务
+ */
+function indexFile(file: TasksJsonFile | null): Map<string, TaskVersion> {
+	const index = new Map<string, TaskVersion>();
+	if (!file) return index;
+	for (const section of SECTIONS) {
+		for (const data of file[section] ?? []) {
+			index.set(data.id, { section, data });
+		}
+	}
+	return index;
+}
+
+/**
+ * 字段值的比较键（空值统一视为不存在）
+ */
+function valueKey(value: unknown): string {
+	return value === undefined || value === null ? '' : JSON.stringify(value);
+}
+
+/**
+ * 生成版本的比较键（键排序、忽略空值，避免字段顺序影响比较）
+ */
+function versionKey(version: TaskVersion | null | undefined): string {
+	if (!version) return '';
+	const data = version.data as unknown as Record<string, unknown>;
+	const sorted: Record<string, unknown> = {};
+	for (const key of Object.keys(data).sort()) {
+		if (data[key] !== undefined && data[key] !== null) {
+			sorted[key] = data[key];
+		}
+	}
+	return `${version.section}:${JSON.stringify(sorted)}`;
+}
+
+/**
+ * 版本的最后变更时间（删除时间与修改时间取较晚者；不存在的版本为 0）
+ */
+function versionTime(version: TaskVersion | null): number {
+	if (!version) return 0;
+	const modified = version.data.lastModified ? Date.parse(version.data.lastModified) : 0;
+	const deleted = version.data.deletedAt ? Date.parse(version.data.deletedAt) : 0;
+	return Math.max(modified || 0, deleted || 0);
+}
+
+/**
+ * 按策略解决冲突
+ * @returns 选择的一侧，无法自动解决时返回 null
+ */
+function resolveConflict(conflict: TaskConflict, strategy: ConflictResolution): ConflictSide | null {
+	switch (strategy) {
+		case 'local-win':
+			return 'local';
+		case 'remote-win':
+			return 'remote';
+		case 'newest-win':
+			// 时间相同时保留本地
+			return versionTime(conflict.remote) > versionTime(conflict.local) ? 'remote' : 'local';
+		case 'manual':
+			return null;
+	}
+}
+
+/**
+ * 将版本展开为字段表（分区作为 section 字段）
+ */
+function toFields(version: TaskVersion | null): Record<string, unknown> {
+	return version ? { ...version.data, section: version.section } : {};
+}
+
+/**
+ * 由字段表还原版本
+ */
+function fromFields(fields: Record<string, unknown>): TaskVersion {
+	const { section, ...data } = fields;
+	return { section: section as TaskSection, data: data as unknown as JsonTaskData };
+}
+
+/**
+ * 字段级三方合并（本地与远端均存在时）
+ * @returns 合并后的字段表（冲突字段取本地值）与冲突字段
+ */
+function mergeFields(
+	base: TaskVersion | null,
+	local: TaskVersion,
+	remote: TaskVersion
+): { fields: Record<string, unknown>; conflicts: FieldConflict[] } {
+	const baseFields = toFields(base);
+	const localFields = toFields(local);
+	const remoteFields = toFields(remote);
+
+	const fields: Record<string, unknown> = { id: local.data.id };
+	const conflicts: FieldConflict[] = [];
+	const keys = new Set([...Object.keys(localFields), ...Object.keys(remoteFields)]);
+
+	for (const key of keys) {
+		if (IGNORED_FIELDS.has(key)) continue;
+		const baseKey = valueKey(baseFields[key]);
+		const localKey = valueKey(localFields[key]);
+		const remoteKey = valueKey(remoteFields[key]);
+
+		if (localKey === remoteKey || remoteKey === baseKey) {
+			fields[key] = localFields[key];
+		} else if (localKey === baseKey) {
+			fields[key] = remoteFields[key];
+		} else {
+			fields[key] = localFields[key];
+			conflicts.push({
+				field: key as FieldConflict['field'],
+				base: baseFields[key],
+				local: localFields[key],
+				remote: remoteFields[key],
+			});
+		}
+	}
+
+	fields.lastModified = versionTime(remote) > versionTime(local) ? remote.data.lastModified : local.data.lastModified;
+	return { fields, conflicts };
+}
+
+/**
+ * 将冲突解决方式应用到合并后的字段表
+ */
+function applyDecision(
+	fields: Record<string, unknown>,
+	conflict: TaskConflict,
+	decision: ConflictDecision
+): void {
+	for (const fieldConflict of conflict.fields) {
+		const side = typeof decision === 'string' ? decision : decision.fields[fieldConflict.field] ?? 'local';
+		fields[fieldConflict.field] = side === 'remote' ? fieldConflict.remote : fieldConflict.local;
+	}
+}
+
+/**
+ * 三方合并任务文件
+ *
+ * @param base 上次同步成功时的快照（首次同步为 null，此时两侧都有的不同值均视为冲突）
+ * @param local 本地数据
+ * @param remote 远端数据
+ * @param strategy 冲突解决策略
+ * @param decisions 手动给出的冲突解决方式（优先于策略）
+ */
+export function mergeTaskFiles(
+	base: TasksJsonFile | null,
+	local: TasksJsonFile,
+	remote: TasksJsonFile,
+	strategy: ConflictResolution,
+	decisions?: Map<string, ConflictDecision>
+): MergeResult {
+	const baseIndex = indexFile(base);
+	const localIndex = indexFile(local);
+	const remoteIndex = indexFile(remote);
+
+	// 保持本地顺序，远端新增的任务追加在后
+	const ids: string[] = [...localIndex.keys()];
+	for (const id of remoteIndex.keys()) {
+		if (!localIndex.has(id)) ids.push(id);
+	}
+
+	const merged: TasksJsonFile = {
+		version: Math.max(local.version || 1, remote.version || 1),
+		tasks: [],
+		archive: [],
+		trash: [],
+		lastSync: new Date().toISOString(),
+	};
+	const conflicts: TaskConflict[] = [];
+	let resolvedCount = 0;
+
+	for (const id of ids) {
+		const baseVersion = baseIndex.get(id) ?? null;
+		const localVersion = localIndex.get(id) ?? null;
+		const remoteVersion = remoteIndex.get(id) ?? null;
+
+		const baseKey = versionKey(baseVersion);
+		const localKey = versionKey(localVersion);
+		const remoteKey = versionKey(remoteVersion);
+
+		let chosen: TaskVersion | null;
+		if (localKey === remoteKey || remoteKey === baseKey) {
+			chosen = localVersion;
+		} else if (localKey === baseKey) {
+			chosen = remoteVersion;
+		} else if (!localVersion || !remoteVersion) {
+			// 一侧已彻底删除、另一侧有修改：只能整体选择
+			const conflict: TaskConflict = { taskId: id, base: baseVersion, local: localVersion, remote: remoteVersion, fields: [] };
+			const decision = decisions?.get(id) ?? resolveConflict(conflict, strategy);
+			if (decision) {
+				resolvedCount++;
+				chosen = decision === 'remote' ? remoteVersion : localVersion;
+			} else {
+				conflicts.push(conflict);
+				chosen = localVersion;
+			}
+		} else {
+			const { fields, conflicts: fieldConflicts } = mergeFields(baseVersion, localVersion, remoteVersion);
+			if (fieldConflicts.length > 0) {
+				const conflict: TaskConflict = { taskId: id, base: baseVersion, local: localVersion, remote: remoteVersion, fields: fieldConflicts };
+				const decision = decisions?.get(id) ?? resolveConflict(conflict, strategy);
+				if (decision) {
+					resolvedCount++;
+					applyDecision(fields, conflict, decision);
+				} else {
+					conflicts.push(conflict);
+				}
+			}
+			chosen = fromFields(fields);
+		}
+
+		if (chosen) {
+			merged[chosen.section]!.push({ ...chosen.data });
+		}
+	}
+
+	normalizeHierarchy(merged);
+
+	const mergedIndex = indexFile(merged);
+	return {
+		merged,
+		conflicts,
+		resolvedCount,
+		localChanged: !sameContent(mergedIndex, localIndex),
+		remoteChanged: !sameContent(mergedIndex, remoteIndex),
+	};
+}
+
+/**
+ * 比较两份索引的任务内容是否一致
+ */
+function sameContent(a: Map<string, TaskVersion>, b: Map<string, TaskVersion>): boolean {
+	if (a.size !== b.size) return false;
+	for (const [id, version] of a) {
+		if (versionKey(version) !== versionKey(b.get(id))) return false;
+	}
+	return true;
+}
+
+/**
+ * 修复合并后的父子关系
+ *
+ * - 移除 childIds 中已不存在或已改挂其他父任务的引用
+ * - 父任务已不存在的子任务提升为顶层任务
+ * - 父任务缺失的子任务引用补充到 childIds 末尾
+ * - 按父子关系重新计算 depth
+ *
+ * 回收站中的任务保持原样（删除时已从父任务中摘除）。
+ */
+function normalizeHierarchy(file: TasksJsonFile): void {
+	const live = new Map<string, JsonTaskData>();
+	for (const task of [...file.tasks, ...file.archive]) {
+		live.set(task.id, task);
+	}
+
+	for (const task of live.values()) {
+		if (!task.childIds) continue;
+		const childIds = task.childIds.filter(id => live.get(id)?.parentId === task.id);
+		if (childIds.length !== task.childIds.length) {
+			task.childIds = childIds.length > 0 ? childIds : undefined;
+		}
+	}
+
+	for (const task of live.values()) {
+		if (!task.parentId) continue;
+		const parent = live.get(task.parentId);
+		if (!parent) {
+			task.parentId = undefined;
+			continue;
+		}
+		if (!parent.childIds?.includes(task.id)) {
+			parent.childIds = [...(parent.childIds || []), task.id];
+		}
+	}
+
+	const depthOf = (task: JsonTaskData, seen: Set<string>): number => {
+		if (!task.parentId || seen.has(task.id)) return 0;
+		seen.add(task.id);
+		const parent = live.get(task.parentId);
+		return parent ? depthOf(parent, seen) + 1 : 0;
+	};
+	for (const task of live.values()) {
+		const depth = depthOf(task, new Set());
+		if ((task.depth ?? 0) !== depth) {
+			task.depth = depth;
+		}
+	}
+}
+
+/**
+ * 外部修改的合并结果
+ */
+export type ExternalMergeResult =
+	/** 文件无法解析或结构无效（可能尚未写完） */
+	| { status: 'invalid'; reason: string }
+	/** 内容即上次读写的数据 */
+	| { status: 'unchanged' }
+	| { status: 'merged'; disk: TasksJsonFile; diskChecksum: string; merge: MergeResult };
+
+/**
+ * 合并数据文件的外部修改
+ *
+ * 校验和不匹配或缺失的文件（手动编辑、git 合并、同步工具写入）照常合并，
+ * 以上次读写的数据为基准按 id 对齐，冲突取 lastModified 较新者。
+ * @param content 磁盘上的文件原文
+ * @param base 上次读写时磁盘上的数据
+ * @param local 内存中的数据
+ * @param baseChecksum base 的校验和
+ */
+export function mergeExternalFile(
+	content: string,
+	base: TasksJsonFile | null,
+	local: TasksJsonFile,
+	baseChecksum: string | null
+): ExternalMergeResult {
+	const result = validateTasksFile(content);
+	if (!result.ok) {
+		return { status: 'invalid', reason: result.reason };
+	}
+	if (!result.checksumMismatch && result.data.checksum !== undefined && result.data.checksum === baseChecksum) {
+		return { status: 'unchanged' };
+	}
+
+	const disk = migrateTasksFile(result.data).data;
+	return {
+		status: 'merged',
+		disk,
+		diskChecksum: computeChecksum(disk),
+		merge: mergeTaskFiles(base, local, disk, 'newest-win'),
+	};
+}
+
+/**
+ * 比较两份数据的任务差异（忽略 lastModified）
+ * @returns 新增、移除与修改的任务，按 to 中的顺序排列，移除的任务在最后
+ */
+export function diffTaskFiles(from: TasksJsonFile, to: TasksJsonFile): TaskDiff[] {
+	const fromIndex = indexFile(from);
+	const toIndex = indexFile(to);
+	const diffs: TaskDiff[] = [];
+
+	for (const [id, toVersion] of toIndex) {
+		const fromVersion = fromIndex.get(id) ?? null;
+		if (!fromVersion) {
+			diffs.push({ taskId: id, from: null, to: toVersion, fields: [] });
+			continue;
+		}
+
+		const fromFields = toFields(fromVersion);
+		const toFieldsMap = toFields(toVersion);
+		const fields = Array.from(new Set([...Object.keys(fromFields), ...Object.keys(toFieldsMap)]))
+			.filter(key => !IGNORED_FIELDS.has(key) && valueKey(fromFields[key]) !== valueKey(toFieldsMap[key]));
+		if (fields.length > 0) {
+			diffs.push({ taskId: id, from: fromVersion, to: toVersion, fields: fields as TaskDiff['fields'] });
+		}
+	}
+
+	for (const [id, fromVersion] of fromIndex) {
+		if (!toIndex.has(id)) {
+			diffs.push({ taskId: id, from: fromVersion, to: null, fields: [] });
+		}
+	}
+
+	return diffs;
+}
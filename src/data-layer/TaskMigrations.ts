@@ -0,0 +1,144 @@
+/**
+ * TaskMigrations - tasks.json 结构迁移
+ *
+ * 迁移步骤按目标版本号排列：文件版本低于某一步的目标版本时执行该步，
+ * 执行后文件版本即为该步的目标版本。所有步骤在数据副本上执行，
+ * 任一步骤抛出异常时原数据保持不变。
+ *
+ * 新增迁移：在 TASKS_MIGRATIONS 末尾追加一步（目标版本递增），
+ * 并在 __tests__/TaskMigrations.test.ts 中为该步补充测试。
+ */
+
+import type { JsonTaskData, TasksJsonFile } from './JsonDataSource';
+import { migratePriority } from '../utils/priorityUtils';
+
+/**
+ * 迁移步骤
+ */
+export interface TasksMigration {
+	/** 目标版本（执行后文件的版本号） */
+	version: number;
+	/** 说明（用于日志） */
+	description: string;
+	/** 就地修改数据 */
+	migrate(data: TasksJsonFile): void;
+}
+
+/**
+ * 迁移失败（包含失败步骤的目标版本）
+ */
+export class MigrationError extends Error {
+	readonly version: number;
+	readonly cause: unknown;
+
+	constructor(version: number, cause: unknown) {
+		super(`Migration to v${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+		this.name = 'MigrationError';
+		this.version = version;
+		this.cause = cause;
+	}
+}
+
+/**
+ * 迁移结果
+ */
+export interface MigrationResult {
+	/** 迁移后的数据（无需迁移时为原对象） */
+	data: TasksJsonFile;
+	/** 已执行步骤的目标版本 */
+	applied: number[];
+}
+
+/**
+ * 所有分区中的任务（回收站在旧版本文件中可能不存在）
+ */
+function allTasks(data: TasksJsonFile): JsonTaskData[] {
+	return [...data.tasks, ...data.archive, ...(data.trash ?? [])];
+}
+
+/**
+ * v2：六级优先级 → 三级
+ * highest/high → high, medium/normal → normal, low/lowest → low
+ */
+function migratePriorities(data: TasksJsonFile): void {
+	const OLD_PRIORITIES = new Set(['highest', 'medium', 'lowest']);
+	for (const task of allTasks(data)) {
+		if (OLD_PRIORITIES.has(task.priority)) {
+			task.priority = migratePriority(task.priority);
+		}
+	}
+}
+
+/**
+ * v3：七状态 → 四状态，并填充缺失的 dueDate
+ * - important → todo + priority: high
+ * - start → in_progress
+ * - question → todo
+ * - dueDate 为空 → 设为一个月后
+ */
+function migrateStatuses(data: TasksJsonFile): void {
+	const oneMonthLater = new Date();
+	oneMonthLater.setMonth(oneMonthLater.getMonth() + 1);
+
+	for (const task of allTasks(data)) {
+		if (task.status === 'important') {
+			task.status = 'todo';
+			task.priority = 'high';
+		} else if (task.status === 'start') {
+			task.status = 'in_progress';
+		} else if (task.status === 'question') {
+			task.status = 'todo';
+		}
+
+		if (!task.dueDate) {
+			task.dueDate = oneMonthLater.toISOString();
+		}
+	}
+}
+
+/**
+ * 迁移步骤（按目标版本升序）
+ */
+export const TASKS_MIGRATIONS: TasksMigration[] = [
+	{ version: 2, description: '六级优先级迁移为三级', migrate: migratePriorities },
+	{ version: 3, description: '七状态迁移为四状态并填充截止日期', migrate: migrateStatuses },
+];
+
+/** 当前 tasks.json 结构版本 */
+export const TASKS_SCHEMA_VERSION = TASKS_MIGRATIONS[TASKS_MIGRATIONS.length - 1].version;
+
+/**
+ * 获取指定版本需要执行的迁移步骤
+ */
+export function getPendingMigrations(
+	version: number,
+	migrations: TasksMigration[] = TASKS_MIGRATIONS
+): TasksMigration[] {
+	return migrations.filter(step => step.version > (version || 1));
+}
+
+/**
+ * 依次执行待迁移步骤
+ * @throws MigrationError 某一步骤抛出异常时（传入的数据不会被修改）
+ */
+export function migrateTasksFile(
+	data: TasksJsonFile,
+	migrations: TasksMigration[] = TASKS_MIGRATIONS
+): MigrationResult {
+	const pending = getPendingMigrations(data.version, migrations);
+	if (pending.length === 0) {
+		return { data, applied: [] };
+	}
+
+	const migrated = JSON.parse(JSON.stringify(data)) as TasksJsonFile;
+	for (const step of pending) {
+		try {
+			step.migrate(migrated);
+		} catch (error) {
+			throw new MigrationError(step.version, error);
+		}
+		migrated.version = step.version;
+	}
+
+	return { data: migrated, applied: pending.map(step => step.version) };
+}
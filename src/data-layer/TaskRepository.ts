@@ -24,6 +24,8 @@ import { Logger } from '../utils/logger';
 export class TaskRepository {
 	private dataSources: Map<string, IDataSource> = new Map();
 	private taskCache: Map<string, GCTask> = new Map();
+	/** 任务 ID → 创建该任务的数据源 ID */
+	private taskSources: Map<string, string> = new Map();
 	private eventBus: EventBus;
 
 	constructor(eventBus: EventBus) {
@@ -41,6 +43,36 @@ export class TaskRepository {
 		});
 	}
 
+	/**
+	 * 注销数据源并移除其任务（已注册的变更处理器由数据源 destroy() 清除）
+	 * @param sourceId - 数据源ID
+	 */
+	unregisterDataSource(sourceId: string): void {
+		this.dataSources.delete(sourceId);
+		for (const [taskId, owner] of Array.from(this.taskSources.entries())) {
+			if (owner !== sourceId) continue;
+			this.taskSources.delete(taskId);
+			this.taskCache.delete(taskId);
+			this.eventBus.emit('task:deleted', { taskId });
+		}
+	}
+
+	/**
+	 * 获取已注册的数据源
+	 * @returns 数据源列表
+	 */
+	getDataSources(): IDataSource[] {
+		return Array.from(this.dataSources.values());
+	}
+
+	/**
+	 * 获取任务所属的数据源ID
+	 * @param taskId - 任务ID
+	 */
+	getTaskSource(taskId: string): string | undefined {
+		return this.taskSources.get(taskId);
+	}
+
 	/**
 	 * 获取所有任务
 	 * @param options - 查询选项
@@ -181,6 +213,10 @@ export class TaskRepository {
 			filtered = filtered.filter(t => options.type!.includes(t.type));
 		}
 
+		if (options.sources) {
+			filtered = filtered.filter(t => options.sources!.includes(this.taskSources.get(t.id) ?? ''));
+		}
+
 		if (options.archived !== undefined) {
 			filtered = filtered.filter(t => t.archived === options.archived);
 		}
@@ -232,6 +268,7 @@ export class TaskRepository {
 		// 处理新增任务
 		for (const task of changes.created) {
 			this.taskCache.set(task.id, task);
+			this.taskSources.set(task.id, sourceId);
 			this.eventBus.emit('task:created', { task });
 		}
 
@@ -242,6 +279,8 @@ export class TaskRepository {
 			if (newTask) {
 				updatedTask = newTask;
 				this.taskCache.set(id, newTask);
+				// 仅记录首次出现的任务（其他数据源代为转发的更新不改变归属）
+				if (!this.taskSources.has(id)) this.taskSources.set(id, sourceId);
 			} else {
 				const task = this.taskCache.get(id);
 				if (task) {
@@ -258,6 +297,7 @@ export class TaskRepository {
 		// 处理删除任务
 		for (const task of changes.deleted) {
 			this.taskCache.delete(task.id);
+			this.taskSources.delete(task.id);
 			this.eventBus.emit('task:deleted', { taskId: task.id });
 		}
 
@@ -265,6 +305,7 @@ export class TaskRepository {
 		if (changes.deletedIds) {
 			for (const taskId of changes.deletedIds) {
 				this.taskCache.delete(taskId);
+				this.taskSources.delete(taskId);
 				this.eventBus.emit('task:deleted', { taskId });
 			}
 		}
@@ -279,5 +320,6 @@ export class TaskRepository {
 	 */
 	clear(): void {
 		this.taskCache.clear();
+		this.taskSources.clear();
 	}
 }
@@ -0,0 +1,80 @@
+/**
+ * TasksFileIntegrity - tasks.json 完整性校验
+ *
+ * 保存时在文件中写入 `checksum`（除 checksum 外全部内容的 FNV-1a 哈希），
+ * 加载时校验 JSON 结构，截断或结构无效的文件视为损坏。
+ * 结构完整但校验和不匹配的文件（手动编辑、git 合并、同步工具写入）仍然有效，
+ * 由调用方按外部修改处理并重新写入校验和；不含 checksum 的文件（旧版本）只校验结构。
+ */
+
+import type { TasksJsonFile } from './JsonDataSource';
+
+/**
+ * 校验结果
+ */
+export type TasksFileValidation =
+	| { ok: true; data: TasksJsonFile; checksumMismatch: boolean }
+	| { ok: false; reason: string };
+
+/**
+ * 计算数据的校验和（忽略 checksum 字段）
+ */
+export function computeChecksum(data: TasksJsonFile): string {
+	return fnv1a(JSON.stringify(withoutChecksum(data)));
+}
+
+/**
+ * 序列化数据并写入校验和
+ */
+export function serializeTasksFile(data: TasksJsonFile): string {
+	const content = withoutChecksum(data);
+	return JSON.stringify({ ...content, checksum: fnv1a(JSON.stringify(content)) }, null, 2);
+}
+
+/**
+ * 解析并校验 tasks.json 内容
+ */
+export function validateTasksFile(content: string): TasksFileValidation {
+	if (!content.trim()) {
+		return { ok: false, reason: '文件为空' };
+	}
+
+	let data: TasksJsonFile;
+	try {
+		data = JSON.parse(content) as TasksJsonFile;
+	} catch (error) {
+		return { ok: false, reason: `JSON 解析失败：${(error as Error).message}` };
+	}
+
+	if (!data || typeof data !== 'object' || !Array.isArray(data.tasks) || !Array.isArray(data.archive)) {
+		return { ok: false, reason: '缺少 tasks / archive 列表' };
+	}
+	if (data.trash !== undefined && !Array.isArray(data.trash)) {
+		return { ok: false, reason: 'trash 不是列表' };
+	}
+	const checksumMismatch = data.checksum !== undefined && data.checksum !== computeChecksum(data);
+
+	// 旧文件无版本号时视为 v1
+	if (!data.version) {
+		data.version = 1;
+	}
+	return { ok: true, data, checksumMismatch };
+}
+
+function withoutChecksum(data: TasksJsonFile): TasksJsonFile {
+	const content = { ...data };
+	delete content.checksum;
+	return content;
+}
+
+/**
+ * 32 位 FNV-1a 哈希（十六进制）
+ */
+function fnv1a(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
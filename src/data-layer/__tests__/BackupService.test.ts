@@ -0,0 +1,54 @@
+/**
+ * BackupService 单元测试
+ */
+
+import {
+	formatBackupName,
+	parseBackupName,
+	selectExpiredBackups,
+	type BackupInfo,
+	type BackupReason,
+} from '../BackupService';
+
+function createBackup(reason: BackupReason, day: number): BackupInfo {
+	const createdAt = new Date(2026, 0, day, 8, 0, 0);
+	return { path: `data/backups/${formatBackupName(reason, createdAt)}`, reason, createdAt };
+}
+
+describe('backup file names', () => {
+	it('should round-trip reason and time', () => {
+		const date = new Date(2026, 2, 5, 9, 7, 3);
+		const name = formatBackupName('migration', date);
+
+		expect(name).toBe('tasks-20260305-090703-migration.json');
+		expect(parseBackupName(name)).toEqual({ reason: 'migration', createdAt: date });
+	});
+
+	it('should accept a collision suffix and reject other files', () => {
+		expect(parseBackupName('tasks-20260305-090703-manual-2.json')?.reason).toBe('manual');
+		expect(parseBackupName('tasks-v1-2026.json')).toBe(null);
+		expect(parseBackupName('tasks-20260305-090703-unknown.json')).toBe(null);
+	});
+});
+
+describe('selectExpiredBackups', () => {
+	it('should keep the newest backups of each kind separately', () => {
+		const backups = [
+			createBackup('daily', 5),
+			createBackup('import', 4),
+			createBackup('daily', 3),
+			createBackup('manual', 2),
+			createBackup('daily', 1),
+		];
+
+		const expired = selectExpiredBackups(backups, { daily: true, keepDaily: 2, keepOther: 1 });
+
+		expect(expired.map(backup => backup.createdAt.getDate())).toEqual([1, 2]);
+	});
+
+	it('should always keep at least one backup of each kind', () => {
+		const backups = [createBackup('daily', 2), createBackup('restore', 1)];
+
+		expect(selectExpiredBackups(backups, { daily: true, keepDaily: 0, keepOther: 0 })).toHaveLength(0);
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * CommandHistory 单元测试
+ */
+
+import { CommandHistory } from '../CommandHistory';
+import type { HistoryEntry } from '../types';
+
+function createEntry(label: string, taskIds: string[] = []): HistoryEntry {
+	return {
+		label,
+		before: new Map(taskIds.map(id => [id, null])),
+		after: new Map(),
+		timestamp: Date.now(),
+	};
+}
+
+describe('CommandHistory', () => {
+	let history: CommandHistory;
+
+	beforeEach(() => {
+		history = new CommandHistory(3);
+	});
+
+	describe('undo and redo', () => {
+		it('should return entries in reverse order', () => {
+			history.push(createEntry('a'));
+			history.push(createEntry('b'));
+
+			expect(history.undo()?.label).toBe('b');
+			expect(history.undo()?.label).toBe('a');
+			expect(history.undo()).toBeUndefined();
+		});
+
+		it('should move undone entries to the redo stack', () => {
+			history.push(createEntry('a'));
+			history.undo();
+
+			expect(history.canUndo()).toBe(false);
+			expect(history.canRedo()).toBe(true);
+			expect(history.redo()?.label).toBe('a');
+			expect(history.peekUndoLabel()).toBe('a');
+		});
+
+		it('should clear the redo stack on new entries', () => {
+			history.push(createEntry('a'));
+			history.undo();
+			history.push(createEntry('b'));
+
+			expect(history.canRedo()).toBe(false);
+		});
+	});
+
+	describe('forgetTasks', () => {
+		it('should drop entries touching purged tasks and the older entries they depend on', () => {
+			history = new CommandHistory(10);
+			history.push(createEntry('edit a', ['a']));
+			history.push(createEntry('delete x', ['x']));
+			history.push(createEntry('edit b', ['b']));
+
+			history.forgetTasks(new Set(['x']));
+
+			expect(history.undo()?.label).toBe('edit b');
+			expect(history.canUndo()).toBe(false);
+		});
+
+		it('should drop redo entries touching purged tasks and the later ones', () => {
+			history = new CommandHistory(10);
+			history.push(createEntry('edit a', ['a']));
+			history.push(createEntry('delete x', ['x']));
+			history.push(createEntry('edit b', ['b']));
+			history.undo();
+			history.undo();
+			history.undo();
+
+			history.forgetTasks(new Set(['x']));
+
+			expect(history.redo()?.label).toBe('edit a');
+			expect(history.canRedo()).toBe(false);
+		});
+
+		it('should keep history unrelated to purged tasks', () => {
+			history.push(createEntry('edit a', ['a']));
+			history.forgetTasks(new Set(['x']));
+
+			expect(history.peekUndoLabel()).toBe('edit a');
+		});
+	});
+
+	describe('limits', () => {
+		it('should drop the oldest entries beyond max size', () => {
+			['a', 'b', 'c', 'd'].forEach(label => history.push(createEntry(label)));
+
+			expect(history.undo()?.label).toBe('d');
+			expect(history.undo()?.label).toBe('c');
+			expect(history.undo()?.label).toBe('b');
+			expect(history.canUndo()).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,49 @@
+/**
+ * SyncBackendRegistry 单元测试
+ */
+
+import { SyncBackendRegistry } from '../SyncBackendRegistry';
+import type { ISyncBackend, ISyncBackendFactory } from '../ISyncBackend';
+import type { SyncBackendConfig } from '../types';
+
+function createFactory(type: 'webdav' | 'vault-folder'): ISyncBackendFactory {
+	return {
+		getType: () => type,
+		create: (config: SyncBackendConfig): ISyncBackend => ({
+			type: config.type,
+			isConfigured: () => true,
+			describeTarget: () => type,
+			pull: async () => null,
+			push: async () => undefined,
+			getStatus: async () => ({ reachable: true, hasRemoteData: false }),
+		}),
+	};
+}
+
+describe('SyncBackendRegistry', () => {
+	let registry: SyncBackendRegistry;
+
+	beforeEach(() => {
+		registry = new SyncBackendRegistry();
+		registry.register(createFactory('webdav'));
+		registry.register(createFactory('vault-folder'));
+	});
+
+	it('should list registered backend types', () => {
+		expect(registry.getTypes()).toEqual(['webdav', 'vault-folder']);
+		expect(registry.has('webdav')).toBe(true);
+		expect(registry.has('gitlab')).toBe(false);
+	});
+
+	it('should create a backend from its config', () => {
+		const backend = registry.create({ type: 'vault-folder', folder: 'sync' });
+
+		expect(backend.type).toBe('vault-folder');
+		expect(backend.describeTarget()).toBe('vault-folder');
+	});
+
+	it('should throw for unregistered backend types', () => {
+		expect(() => registry.create({ type: 'gitlab', baseUrl: '', token: '', projectId: '', branch: 'main' }))
+			.toThrow('gitlab');
+	});
+});
@@ -0,0 +1,196 @@
+/**
+ * TaskMerger 单元测试
+ */
+
+import { diffTaskFiles, mergeExternalFile, mergeTaskFiles } from '../TaskMerger';
+import { computeChecksum, serializeTasksFile } from '../TasksFileIntegrity';
+import type { JsonTaskData, TasksJsonFile } from '../JsonDataSource';
+
+function createTask(id: string, overrides: Partial<JsonTaskData> = {}): JsonTaskData {
+	return {
+		id,
+		type: 'todo',
+		description: `Task ${id}`,
+		completed: false,
+		priority: 'normal',
+		archived: false,
+		lastModified: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+function createFile(tasks: JsonTaskData[], archive: JsonTaskData[] = []): TasksJsonFile {
+	return { version: 1, tasks, archive, trash: [] };
+}
+
+describe('mergeTaskFiles', () => {
+	describe('non-conflicting changes', () => {
+		it('should take changes made on only one side', () => {
+			const base = createFile([createTask('a'), createTask('b')]);
+			const local = createFile([createTask('a', { description: 'local edit' }), createTask('b')]);
+			const remote = createFile([createTask('a'), createTask('b', { description: 'remote edit' })]);
+
+			const result = mergeTaskFiles(base, local, remote, 'manual');
+
+			expect(result.conflicts).toHaveLength(0);
+			expect(result.merged.tasks.map(t => t.description)).toEqual(['local edit', 'remote edit']);
+			expect(result.localChanged).toBe(true);
+			expect(result.remoteChanged).toBe(true);
+		});
+
+		it('should keep additions and deletions from both sides', () => {
+			const base = createFile([createTask('a'), createTask('b')]);
+			const local = createFile([createTask('a'), createTask('b'), createTask('c')]);
+			const remote = createFile([createTask('b')]);
+
+			const result = mergeTaskFiles(base, local, remote, 'local-win');
+
+			expect(result.merged.tasks.map(t => t.id)).toEqual(['b', 'c']);
+		});
+
+		it('should report no changes when both sides are identical', () => {
+			const file = createFile([createTask('a')]);
+
+			const result = mergeTaskFiles(file, file, file, 'manual');
+
+			expect(result.localChanged).toBe(false);
+			expect(result.remoteChanged).toBe(false);
+		});
+	});
+
+	describe('conflict resolution', () => {
+		const base = createFile([createTask('a')]);
+		const local = createFile([createTask('a', { description: 'local', lastModified: '2026-01-02T00:00:00.000Z' })]);
+		const remote = createFile([createTask('a', { description: 'remote', lastModified: '2026-01-03T00:00:00.000Z' })]);
+
+		it('should honor local-win and remote-win', () => {
+			expect(mergeTaskFiles(base, local, remote, 'local-win').merged.tasks[0].description).toBe('local');
+			expect(mergeTaskFiles(base, local, remote, 'remote-win').merged.tasks[0].description).toBe('remote');
+		});
+
+		it('should pick the newest version for newest-win', () => {
+			const result = mergeTaskFiles(base, local, remote, 'newest-win');
+
+			expect(result.merged.tasks[0].description).toBe('remote');
+			expect(result.resolvedCount).toBe(1);
+		});
+
+		it('should leave conflicts unresolved for manual', () => {
+			const result = mergeTaskFiles(base, local, remote, 'manual');
+
+			expect(result.conflicts.map(c => c.taskId)).toEqual(['a']);
+			expect(result.conflicts[0].fields.map(f => f.field)).toEqual(['description']);
+			expect(result.merged.tasks[0].description).toBe('local');
+		});
+
+		it('should apply explicit choices', () => {
+			const result = mergeTaskFiles(base, local, remote, 'manual', new Map([['a', 'remote' as const]]));
+
+			expect(result.conflicts).toHaveLength(0);
+			expect(result.merged.tasks[0].description).toBe('remote');
+		});
+	});
+
+	describe('field-level merge', () => {
+		const base = createFile([createTask('a')]);
+
+		it('should merge different fields changed on each side', () => {
+			const local = createFile([createTask('a', { description: 'local', lastModified: '2026-01-02T00:00:00.000Z' })]);
+			const remote = createFile([createTask('a', { priority: 'high', lastModified: '2026-01-03T00:00:00.000Z' })]);
+
+			const result = mergeTaskFiles(base, local, remote, 'manual');
+			const task = result.merged.tasks[0];
+
+			expect(result.conflicts).toHaveLength(0);
+			expect(task.description).toBe('local');
+			expect(task.priority).toBe('high');
+			expect(task.lastModified).toBe('2026-01-03T00:00:00.000Z');
+		});
+
+		it('should apply per-field decisions', () => {
+			const local = createFile([createTask('a', { description: 'local', tags: ['x'] })]);
+			const remote = createFile([createTask('a', { description: 'remote', tags: ['y'] })]);
+
+			const result = mergeTaskFiles(base, local, remote, 'manual', new Map([
+				['a', { fields: { description: 'remote' as const, tags: 'local' as const } }],
+			]));
+
+			expect(result.merged.tasks[0].description).toBe('remote');
+			expect(result.merged.tasks[0].tags).toEqual(['x']);
+		});
+	});
+
+	describe('hierarchy', () => {
+		it('should link subtasks added remotely to their parent', () => {
+			const base = createFile([createTask('p')]);
+			const local = createFile([createTask('p', { description: 'renamed' })]);
+			const remote = createFile([
+				createTask('p', { childIds: ['c'] }),
+				createTask('c', { parentId: 'p', depth: 1 }),
+			]);
+
+			const result = mergeTaskFiles(base, local, remote, 'local-win');
+			const parent = result.merged.tasks.find(t => t.id === 'p');
+
+			expect(parent?.description).toBe('renamed');
+			expect(parent?.childIds).toEqual(['c']);
+		});
+	});
+});
+
+describe('mergeExternalFile', () => {
+	it('should merge a valid file whose checksum no longer matches', () => {
+		const base = createFile([createTask('a')]);
+		const local = createFile([createTask('a'), createTask('b')]);
+		// 手动编辑（或 git 合并）后未更新 checksum
+		const content = serializeTasksFile(base).replace('Task a', 'edited on disk');
+
+		const result = mergeExternalFile(content, base, local, computeChecksum(base));
+
+		expect(result.status).toBe('merged');
+		if (result.status === 'merged') {
+			expect(result.merge.merged.tasks.map(t => t.description)).toEqual(['edited on disk', 'Task b']);
+			expect(result.merge.localChanged).toBe(true);
+			expect(result.merge.remoteChanged).toBe(true);
+			expect(result.diskChecksum).toBe(computeChecksum(result.disk));
+		}
+	});
+
+	it('should skip the file last written by this device', () => {
+		const base = createFile([createTask('a')]);
+
+		expect(mergeExternalFile(serializeTasksFile(base), base, base, computeChecksum(base))).toEqual({ status: 'unchanged' });
+	});
+
+	it('should report truncated content as invalid', () => {
+		const base = createFile([createTask('a')]);
+		const content = serializeTasksFile(base);
+
+		expect(mergeExternalFile(content.slice(0, 20), base, base, computeChecksum(base)).status).toBe('invalid');
+	});
+});
+
+describe('diffTaskFiles', () => {
+	it('should list added, changed and removed tasks', () => {
+		const from = createFile([createTask('a'), createTask('b'), createTask('c')]);
+		const to = createFile(
+			[createTask('b', { description: 'edited', priority: 'high' }), createTask('d')],
+			[createTask('a', { archived: true })],
+		);
+
+		const diffs = diffTaskFiles(from, to);
+
+		expect(diffs.map(diff => diff.taskId)).toEqual(['b', 'd', 'a', 'c']);
+		expect(diffs[0].fields).toEqual(['description', 'priority']);
+		expect(diffs[1].from).toBe(null);
+		expect(diffs[2].fields.includes('section')).toBe(true);
+		expect(diffs[3].to).toBe(null);
+	});
+
+	it('should ignore lastModified', () => {
+		const from = createFile([createTask('a')]);
+		const to = createFile([createTask('a', { lastModified: '2026-02-01T00:00:00.000Z' })]);
+
+		expect(diffTaskFiles(from, to)).toHaveLength(0);
+	});
+});
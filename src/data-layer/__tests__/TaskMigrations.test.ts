@@ -0,0 +1,120 @@
+/**
+ * TaskMigrations 单元测试
+ */
+
+import {
+	MigrationError,
+	TASKS_MIGRATIONS,
+	TASKS_SCHEMA_VERSION,
+	getPendingMigrations,
+	migrateTasksFile,
+	type TasksMigration,
+} from '../TaskMigrations';
+import type { JsonTaskData, TasksJsonFile } from '../JsonDataSource';
+
+function createTask(id: string, overrides: Partial<JsonTaskData> = {}): JsonTaskData {
+	return {
+		id,
+		type: 'todo',
+		description: `Task ${id}`,
+		completed: false,
+		priority: 'normal',
+		archived: false,
+		dueDate: '2026-01-10T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+function createFile(version: number, tasks: JsonTaskData[], archive: JsonTaskData[] = []): TasksJsonFile {
+	return { version, tasks, archive, trash: [] };
+}
+
+function getStep(version: number): TasksMigration {
+	return TASKS_MIGRATIONS.find(step => step.version === version)!;
+}
+
+describe('TASKS_MIGRATIONS', () => {
+	it('should be ordered by consecutive target versions', () => {
+		expect(TASKS_MIGRATIONS.map(step => step.version)).toEqual([2, 3]);
+		expect(TASKS_SCHEMA_VERSION).toBe(3);
+	});
+
+	describe('v2: priorities', () => {
+		it('should map six-level priorities to three levels', () => {
+			const data = createFile(1, [
+				createTask('a', { priority: 'highest' }),
+				createTask('b', { priority: 'medium' }),
+			], [createTask('c', { priority: 'lowest' })]);
+			data.trash = [createTask('d', { priority: 'highest' })];
+
+			getStep(2).migrate(data);
+
+			expect(data.tasks.map(t => t.priority)).toEqual(['high', 'normal']);
+			expect(data.archive[0].priority).toBe('low');
+			expect(data.trash[0].priority).toBe('high');
+		});
+	});
+
+	describe('v3: statuses', () => {
+		it('should map legacy statuses and fill missing due dates', () => {
+			const data = createFile(2, [
+				createTask('a', { status: 'important', priority: 'low' }),
+				createTask('b', { status: 'start' }),
+				createTask('c', { status: 'question', dueDate: undefined }),
+				createTask('d', { status: 'done' }),
+			]);
+
+			getStep(3).migrate(data);
+
+			expect(data.tasks.map(t => t.status)).toEqual(['todo', 'in_progress', 'todo', 'done']);
+			expect(data.tasks[0].priority).toBe('high');
+			expect(Date.parse(data.tasks[2].dueDate!)).toBeGreaterThan(Date.now());
+			expect(data.tasks[3].dueDate).toBe('2026-01-10T00:00:00.000Z');
+		});
+	});
+});
+
+describe('migrateTasksFile', () => {
+	it('should run pending steps in order and bump the version', () => {
+		const data = createFile(1, [createTask('a', { priority: 'highest', status: 'start' })]);
+
+		const result = migrateTasksFile(data);
+
+		expect(result.applied).toEqual([2, 3]);
+		expect(result.data.version).toBe(3);
+		expect(result.data.tasks[0]).toMatchObject({ priority: 'high', status: 'in_progress' });
+		// 原数据不被修改
+		expect(data.version).toBe(1);
+		expect(data.tasks[0].priority).toBe('highest');
+	});
+
+	it('should treat files without a version as v1', () => {
+		const data = { ...createFile(1, []), version: 0 };
+		expect(getPendingMigrations(data.version)).toHaveLength(2);
+		expect(migrateTasksFile(data).data.version).toBe(TASKS_SCHEMA_VERSION);
+	});
+
+	it('should return the same object when up to date or newer', () => {
+		const current = createFile(TASKS_SCHEMA_VERSION, [createTask('a')]);
+		const newer = createFile(TASKS_SCHEMA_VERSION + 1, [createTask('a')]);
+
+		expect(migrateTasksFile(current)).toEqual({ data: current, applied: [] });
+		expect(migrateTasksFile(newer).data).toBe(newer);
+	});
+
+	it('should throw MigrationError and leave the input untouched when a step fails', () => {
+		const data = createFile(1, [createTask('a')]);
+		const migrations: TasksMigration[] = [
+			{ version: 2, description: 'rename', migrate: d => { d.tasks[0].description = 'renamed'; } },
+			{ version: 3, description: 'broken', migrate: () => { throw new Error('boom'); } },
+		];
+
+		expect(() => migrateTasksFile(data, migrations)).toThrow(MigrationError);
+		try {
+			migrateTasksFile(data, migrations);
+		} catch (error) {
+			expect((error as MigrationError).version).toBe(3);
+		}
+		expect(data).toEqual(createFile(1, [createTask('a')]));
+	});
+});
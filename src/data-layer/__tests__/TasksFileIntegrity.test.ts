@@ -0,0 +1,73 @@
+/**
+ * TasksFileIntegrity 单元测试
+ */
+
+import { computeChecksum, serializeTasksFile, validateTasksFile } from '../TasksFileIntegrity';
+import { parseTasksFile, serializeForRemote } from '../ISyncBackend';
+import type { TasksJsonFile } from '../JsonDataSource';
+
+function createFile(): TasksJsonFile {
+	return {
+		version: 3,
+		tasks: [{ id: 'a', type: 'todo', description: '任务 a', completed: false, priority: 'normal', archived: false }],
+		archive: [],
+		trash: [],
+		lastSync: '2026-01-01T00:00:00.000Z',
+	};
+}
+
+describe('validateTasksFile', () => {
+	it('should accept a serialized file and keep its checksum valid', () => {
+		const content = serializeTasksFile(createFile());
+		const result = validateTasksFile(content);
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.checksumMismatch).toBe(false);
+			expect(result.data.checksum).toBe(computeChecksum(createFile()));
+			expect(serializeTasksFile(result.data)).toBe(content);
+		}
+	});
+
+	it('should reject truncated or empty content', () => {
+		const content = serializeTasksFile(createFile());
+
+		expect(validateTasksFile(content.slice(0, content.length / 2)).ok).toBe(false);
+		expect(validateTasksFile('').ok).toBe(false);
+		expect(validateTasksFile('{"version": 3}').ok).toBe(false);
+	});
+
+	it('should accept edited content but flag the stale checksum', () => {
+		const content = serializeTasksFile(createFile()).replace('任务 a', '任务 b');
+		const result = validateTasksFile(content);
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.checksumMismatch).toBe(true);
+			expect(result.data.tasks[0].description).toBe('任务 b');
+		}
+	});
+
+	it('should accept files without a checksum and default the version', () => {
+		const file = createFile() as Partial<TasksJsonFile>;
+		delete file.version;
+		const result = validateTasksFile(JSON.stringify(file));
+
+		expect(result.ok && result.data.version).toBe(1);
+	});
+});
+
+describe('serializeForRemote', () => {
+	it('should stamp lastSync and a valid checksum', () => {
+		const content = serializeForRemote(createFile());
+		const result = validateTasksFile(content);
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.checksumMismatch).toBe(false);
+			expect(result.data.checksum).toBeDefined();
+			expect(result.data.lastSync).not.toBe(createFile().lastSync);
+		}
+		expect(parseTasksFile(content).tasks).toEqual(createFile().tasks);
+	});
+});
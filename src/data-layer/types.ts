@@ -6,7 +6,8 @@
  */
 
 import { TaskStatusType } from '../tasks/taskStatus';
-import type { GCTask, TaskPriority } from '../types';
+import type { GCTask, TaskPriority, TaskType } from '../types';
+import type { JsonTaskData } from './JsonDataSource';
 
 /**
  * 任务状态类型（与现有系统兼容）
@@ -29,15 +30,25 @@ export interface TaskDates {
 	cancelled?: Date;
 }
 
+/**
+ * 同步方向
+ */
+export type SyncDirection = 'bidirectional' | 'import-only' | 'export-only';
+
+/**
+ * 冲突解决策略（本地与远端同时修改同一任务时）
+ */
+export type ConflictResolution = 'local-win' | 'remote-win' | 'newest-win' | 'manual';
+
 /**
  * 数据源配置
  */
 export interface DataSourceConfig {
 	enabled?: boolean;
-	syncDirection: 'bidirectional' | 'import-only' | 'export-only';
+	syncDirection: SyncDirection;
 	autoSync?: boolean;
 	syncInterval?: number;
-	conflictResolution: 'local-win' | 'remote-win' | 'newest-win' | 'manual';
+	conflictResolution: ConflictResolution;
 	globalFilter?: string;
 }
 
@@ -74,6 +85,7 @@ export interface DataSourceChanges {
  * 与 GCTask 字段保持一致，便于更新操作
  */
 export interface TaskChanges {
+	type?: TaskType;
 	description?: string;
 	detail?: string;
 	completed?: boolean;
@@ -84,6 +96,8 @@ export interface TaskChanges {
 	createdDate?: Date;
 	startDate?: Date;
 	dueDate?: Date;
+	hasStartTime?: boolean;
+	hasDueTime?: boolean;
 	cancelledDate?: Date;
 	completionDate?: Date;
 	repeat?: string;
@@ -118,6 +132,218 @@ export interface QueryOptions {
  */
 export interface SyncStatus {
 	lastSyncAt?: Date;
-	syncDirection: 'bidirectional' | 'import-only' | 'export-only';
-	conflictResolution: 'local-win' | 'remote-win' | 'newest-win' | 'manual';
+	syncDirection: SyncDirection;
+	conflictResolution: ConflictResolution;
+}
+
+/**
+ * 撤销/重做历史记录
+ *
+ * 以任务快照记录一次用户操作（含联动传播、递归删除、周期实例生成）
+ * 涉及的所有任务在操作前后的状态；快照为 null 表示该任务不存在。
+ */
+export interface HistoryEntry {
+	/** 操作描述（用于提示，如「删除任务」） */
+	label: string;
+	/** 操作前快照 */
+	before: Map<string, GCTask | null>;
+	/** 操作后快照 */
+	after: Map<string, GCTask | null>;
+	timestamp: number;
+}
+
+// ==================== 同步冲突 ====================
+
+/**
+ * 任务所在分区（活跃/归档/回收站）
+ */
+export type TaskSection = 'tasks' | 'archive' | 'trash';
+
+/**
+ * 任务在同步某一侧的版本
+ */
+export interface TaskVersion {
+	section: TaskSection;
+	data: JsonTaskData;
+}
+
+/**
+ * 冲突的一侧
+ */
+export type ConflictSide = 'local' | 'remote';
+
+/**
+ * 字段级冲突：本地与远端自上次同步后都修改了同一字段且结果不同
+ *
+ * field 为存储格式的字段名；分区变化（归档/删除到回收站）以 'section' 表示。
+ */
+export interface FieldConflict {
+	field: keyof JsonTaskData | 'section';
+	base: unknown;
+	local: unknown;
+	remote: unknown;
+}
+
+/**
+ * 任务级冲突
+ *
+ * 一侧已不存在（彻底删除）时 fields 为空，只能整体选择保留哪一侧。
+ */
+export interface TaskConflict {
+	taskId: string;
+	base: TaskVersion | null;
+	local: TaskVersion | null;
+	remote: TaskVersion | null;
+	fields: FieldConflict[];
+}
+
+/**
+ * 两份数据之间单个任务的差异
+ *
+ * from 为空表示任务仅存在于 to 中（新增），to 为空表示仅存在于 from 中（移除）。
+ */
+export interface TaskDiff {
+	taskId: string;
+	from: TaskVersion | null;
+	to: TaskVersion | null;
+	/** 内容不同的字段（新增或移除时为空） */
+	fields: FieldConflict['field'][];
+}
+
+/**
+ * 冲突的解决方式：整体选择一侧，或逐字段选择（未列出的字段保留本地）
+ */
+export type ConflictDecision = ConflictSide | { fields: Partial<Record<FieldConflict['field'], ConflictSide>> };
+
+
+// ==================== 同步后端 ====================
+
+/**
+ * 同步后端类型
+ */
+export type SyncBackendType = 'github' | 'gitea' | 'gitlab' | 'webdav' | 'vault-folder';
+
+/**
+ * GitHub 仓库（Contents API）
+ */
+export interface GitHubBackendConfig {
+	type: 'github';
+	token: string;
+	owner: string;
+	repo: string;
+}
+
+/**
+ * Gitea / Forgejo 仓库（Contents API，与 GitHub 兼容）
+ */
+export interface GiteaBackendConfig {
+	type: 'gitea';
+	/** 实例地址，如 https://gitea.example.com */
+	baseUrl: string;
+	token: string;
+	owner: string;
+	repo: string;
+	/** 分支（留空使用默认分支） */
+	branch?: string;
+}
+
+/**
+ * GitLab 项目（Repository Files API）
+ */
+export interface GitLabBackendConfig {
+	type: 'gitlab';
+	/** 实例地址，如 https://gitlab.com */
+	baseUrl: string;
+	token: string;
+	/** 项目 ID 或完整路径（group/project） */
+	projectId: string;
+	branch: string;
+}
+
+/**
+ * WebDAV 服务器
+ */
+export interface WebDavBackendConfig {
+	type: 'webdav';
+	/** 存放 tasks.json 的目录地址 */
+	url: string;
+	username: string;
+	password: string;
+}
+
+/**
+ * 库内文件夹（配合 Obsidian Sync、Syncthing 等文件同步工具）
+ */
+export interface VaultFolderBackendConfig {
+	type: 'vault-folder';
+	/** 相对库根目录的文件夹路径 */
+	folder: string;
+}
+
+/**
+ * 同步后端配置
+ */
+export type SyncBackendConfig =
+	| GitHubBackendConfig
+	| GiteaBackendConfig
+	| GitLabBackendConfig
+	| WebDavBackendConfig
+	| VaultFolderBackendConfig;
+
+// ==================== Markdown 镜像 ====================
+
+/**
+ * 镜像任务的筛选方式
+ * - all：全部活跃任务
+ * - tag：带指定标签的任务（连同子任务）
+ * - parent：指定任务及其子任务
+ */
+export type MarkdownMirrorFilter =
+	| { type: 'all' }
+	| { type: 'tag'; tag: string }
+	| { type: 'parent'; parentId: string };
+
+/**
+ * Markdown 镜像配置
+ */
+export interface MarkdownMirrorConfig {
+	/** 镜像笔记路径（相对库根目录） */
+	filePath: string;
+	filter: MarkdownMirrorFilter;
+}
+
+// ==================== 订阅日历 ====================
+
+/**
+ * 订阅日历配置（库内的 .ics 文件）
+ */
+export interface IcsCalendarConfig {
+	/** .ics 文件路径（相对库根目录） */
+	filePath: string;
+}
+
+// ==================== 本地备份 ====================
+
+/**
+ * 本地备份配置
+ */
+export interface BackupConfig {
+	/** 每天首次写入前自动备份 */
+	daily: boolean;
+	/** 保留的每日备份份数 */
+	keepDaily: number;
+	/** 保留的其他备份（迁移前、导入前、恢复前、手动）份数 */
+	keepOther: number;
+}
+
+/**
+ * 加载时发现 tasks.json 损坏后的恢复情况
+ */
+export interface DataFileRecovery {
+	/** 损坏原因 */
+	reason: string;
+	/** 损坏文件的另存路径（读取失败时为 null） */
+	corruptPath: string | null;
+	/** 恢复所用的临时文件或备份路径（无可用快照、以空数据启动时为 null） */
+	recoveredFrom: string | null;
 }
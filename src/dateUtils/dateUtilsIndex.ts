@@ -6,5 +6,6 @@
 // Date utilities - all date-related functions in one place
 export * from './dateCompare';
 export * from './format';
+export * from './time';
 export * from './today';
 export * from './week';
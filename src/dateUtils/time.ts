@@ -0,0 +1,74 @@
+/**
+ * @fileoverview 时间（时:分）工具
+ * @module dateUtils/time
+ *
+ * 任务的开始/截止日期默认按天计算，可选附带具体时间（HH:mm）。
+ * 是否带时间由 GCTask.hasStartTime / hasDueTime 标记。
+ */
+
+import { RegularExpressions } from '../utils/RegularExpressions';
+import { formatDate } from './format';
+
+/**
+ * 解析时间字符串（HH:mm）
+ * @returns 时分，格式无效时返回 null
+ */
+export function parseTime(timeStr: string): { hours: number; minutes: number } | null {
+	const match = timeStr.trim().match(RegularExpressions.timeRegex);
+	if (!match) return null;
+	return { hours: parseInt(match[1]), minutes: parseInt(match[2]) };
+}
+
+/**
+ * 格式化日期的时间部分为 HH:mm
+ */
+export function formatTime(date: Date): string {
+	const hours = String(date.getHours()).padStart(2, '0');
+	const minutes = String(date.getMinutes()).padStart(2, '0');
+	return `${hours}:${minutes}`;
+}
+
+/**
+ * 按 RegularExpressions.dateTimeFormat（YYYY-MM-DD HH:mm）格式化日期时间
+ */
+export function formatDateTime(date: Date): string {
+	return RegularExpressions.dateTimeFormat
+		.replace('YYYY', String(date.getFullYear()))
+		.replace('MM', String(date.getMonth() + 1).padStart(2, '0'))
+		.replace('DD', String(date.getDate()).padStart(2, '0'))
+		.replace('HH', String(date.getHours()).padStart(2, '0'))
+		.replace('mm', String(date.getMinutes()).padStart(2, '0'));
+}
+
+/**
+ * 解析日期时间字符串（YYYY-MM-DD HH:mm）
+ * @returns 本地时间的 Date，格式无效时返回 null
+ */
+export function parseDateTime(dateTimeStr: string): Date | null {
+	const match = dateTimeStr.trim().match(RegularExpressions.dateTimeRegex);
+	if (!match) return null;
+	const date = new Date(
+		parseInt(match[1]),
+		parseInt(match[2]) - 1,
+		parseInt(match[3]),
+		parseInt(match[4]),
+		parseInt(match[5])
+	);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 格式化任务日期：带时间时输出 YYYY-MM-DD HH:mm，否则输出 YYYY-MM-DD
+ */
+export function formatTaskDate(date: Date, hasTime?: boolean): string {
+	return hasTime ? formatDateTime(date) : formatDate(date, 'yyyy-MM-dd');
+}
+
+/**
+ * 返回设置了指定时分的新日期（秒和毫秒清零）
+ */
+export function withTime(date: Date, hours: number, minutes: number): Date {
+	const result = new Date(date);
+	result.setHours(hours, minutes, 0, 0);
+	return result;
+}
@@ -5,7 +5,8 @@
  */
 
 import type { App } from 'obsidian';
-import { GC_VIEW_ID } from '../GCMainView';
+import { GCMainView, GC_VIEW_ID } from '../GCMainView';
+import type { CalendarViewType } from '../types';
 
 /**
  * 视图管理器
@@ -34,6 +35,29 @@ export class ViewManager {
 		this.app.workspace.revealLeaf(leaf);
 	}
 
+	/**
+	 * 激活日历视图并定位到指定日期
+	 * @param type 省略时保持当前视图类型
+	 */
+	async openViewAt(date: Date, type?: CalendarViewType): Promise<void> {
+		await this.activateView();
+		const view = this.app.workspace.getLeavesOfType(GC_VIEW_ID)[0]?.view;
+		if (view instanceof GCMainView) {
+			view.showDate(date, type);
+		}
+	}
+
+	/**
+	 * 激活日历视图并在任务视图中定位任务
+	 */
+	async revealTask(taskId: string): Promise<void> {
+		await this.activateView();
+		const view = this.app.workspace.getLeavesOfType(GC_VIEW_ID)[0]?.view;
+		if (view instanceof GCMainView) {
+			view.revealTask(taskId);
+		}
+	}
+
 	/**
 	 * 刷新所有视图
 	 */
@@ -0,0 +1,130 @@
+/**
+ * 备份差异弹窗
+ *
+ * 列出恢复某个备份会带来的变化：重新出现的任务、将被移除的任务，
+ * 以及被修改任务的字段对比（当前 / 备份），确认后恢复该备份。
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+import type GanttCalendarPlugin from '../../main';
+import type { TaskDiff } from '../data-layer/types';
+import { BACKUP_REASON_LABELS, type BackupInfo } from '../data-layer/BackupService';
+import { BackupDiffModalClasses } from '../utils/bem';
+import { formatDateTime } from '../dateUtils/dateUtilsIndex';
+import { FIELD_LABELS, formatFieldValue } from './SyncConflictModal';
+import { Logger } from '../utils/logger';
+
+/** 最多列出的差异数 */
+const DIFF_LIMIT = 200;
+
+export class BackupDiffModal extends Modal {
+	private plugin: GanttCalendarPlugin;
+	private backup: BackupInfo;
+	private onRestored?: () => void;
+
+	constructor(app: App, plugin: GanttCalendarPlugin, backup: BackupInfo, onRestored?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.backup = backup;
+		this.onRestored = onRestored;
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass(BackupDiffModalClasses.block);
+
+		contentEl.createEl('h2', {
+			text: `🗂 ${formatDateTime(this.backup.createdAt)} · ${BACKUP_REASON_LABELS[this.backup.reason]}`,
+		});
+		const summaryEl = contentEl.createDiv({ text: '正在比较...', cls: BackupDiffModalClasses.elements.summary });
+		const listEl = contentEl.createDiv(BackupDiffModalClasses.elements.list);
+
+		const buttons = contentEl.createDiv(BackupDiffModalClasses.elements.buttons);
+		const closeBtn = buttons.createEl('button', { text: '关闭' });
+		closeBtn.addEventListener('click', () => this.close());
+		const restoreBtn = buttons.createEl('button', { text: '恢复此备份', cls: 'mod-warning' });
+		restoreBtn.disabled = true;
+		restoreBtn.addEventListener('click', async () => {
+			restoreBtn.disabled = true;
+			restoreBtn.setText('恢复中...');
+			try {
+				await this.plugin.taskCache.restoreBackup(this.backup.path);
+				this.plugin.refreshCalendarViews();
+				new Notice('已恢复备份，恢复前的数据已另行备份');
+				this.onRestored?.();
+				this.close();
+			} catch (error) {
+				Logger.error('BackupDiff', 'Restore failed', error);
+				new Notice('恢复失败: ' + (error as Error).message);
+				restoreBtn.disabled = false;
+				restoreBtn.setText('恢复此备份');
+			}
+		});
+
+		let diffs: TaskDiff[];
+		try {
+			diffs = await this.plugin.taskCache.diffBackup(this.backup.path);
+		} catch (error) {
+			Logger.error('BackupDiff', `Failed to read ${this.backup.path}`, error);
+			summaryEl.setText('无法读取备份: ' + (error as Error).message);
+			return;
+		}
+
+		const added = diffs.filter(diff => !diff.from).length;
+		const removed = diffs.filter(diff => !diff.to).length;
+		const changed = diffs.length - added - removed;
+		summaryEl.setText(diffs.length === 0
+			? '备份与当前数据相同'
+			: `恢复后：${added} 个任务重新出现，${removed} 个任务被移除，${changed} 个任务被还原修改`);
+		restoreBtn.disabled = diffs.length === 0;
+
+		for (const diff of diffs.slice(0, DIFF_LIMIT)) {
+			this.renderDiff(listEl, diff);
+		}
+		if (diffs.length > DIFF_LIMIT) {
+			listEl.createDiv({ text: `另有 ${diffs.length - DIFF_LIMIT} 项差异未列出`, cls: BackupDiffModalClasses.elements.more });
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderDiff(listEl: HTMLElement, diff: TaskDiff): void {
+		const card = listEl.createDiv(BackupDiffModalClasses.elements.card);
+		const header = card.createDiv(BackupDiffModalClasses.elements.cardHeader);
+		const title = diff.to?.data.description ?? diff.from?.data.description ?? diff.taskId;
+		header.createDiv({ text: title || '无标题', cls: BackupDiffModalClasses.elements.cardTitle });
+
+		const badge = header.createSpan(BackupDiffModalClasses.elements.badge);
+		if (!diff.from) {
+			badge.setText('重新出现');
+			badge.addClass(BackupDiffModalClasses.elements.badgeAdded);
+			return;
+		}
+		if (!diff.to) {
+			badge.setText('将被移除');
+			badge.addClass(BackupDiffModalClasses.elements.badgeRemoved);
+			return;
+		}
+		badge.setText('还原修改');
+
+		const table = card.createEl('table', { cls: BackupDiffModalClasses.elements.table });
+		const headRow = table.createEl('thead').createEl('tr');
+		headRow.createEl('th', { text: '' });
+		headRow.createEl('th', { text: '当前' });
+		headRow.createEl('th', { text: '备份' });
+
+		const body = table.createEl('tbody');
+		for (const field of diff.fields) {
+			const row = body.createEl('tr', { cls: BackupDiffModalClasses.elements.row });
+			row.createEl('td', { text: FIELD_LABELS[field] ?? field, cls: BackupDiffModalClasses.elements.fieldName });
+			for (const version of [diff.from, diff.to]) {
+				const text = formatFieldValue(version, field);
+				const cell = row.createEl('td', { text: text || '—', cls: BackupDiffModalClasses.elements.value });
+				if (!text) cell.addClass(BackupDiffModalClasses.elements.valueEmpty);
+			}
+		}
+	}
+}
@@ -16,6 +16,7 @@ import { App, Modal } from 'obsidian';
 import type { GCTask } from '../types';
 import { EditTaskModalClasses } from '../utils/bem';
 import { TagSelector } from '../components/TagSelector';
+import { formatTime, parseDateTime } from '../dateUtils/dateUtilsIndex';
 
 /**
  * 优先级选项
@@ -26,6 +27,16 @@ export interface PriorityOption {
 	icon: string;
 }
 
+/**
+ * 日期字段的可选时间配置
+ */
+export interface DateFieldTimeOptions {
+	/** 当前是否带具体时间 */
+	hasTime: boolean;
+	/** 时间开关变化回调（清空时间即为全天） */
+	onChange: (hasTime: boolean) => void;
+}
+
 /**
  * 周期任务配置
  */
@@ -52,6 +63,8 @@ export abstract class BaseTaskModal extends Modal {
 	protected createdDate: Date | null = null;
 	protected startDate: Date | null = null;
 	protected dueDate: Date | null = null;
+	protected hasStartTime = false;
+	protected hasDueTime = false;
 	protected cancelledDate: Date | null = null;
 	protected completionDate: Date | null = null;
 	protected selectedTags: string[] = [];
@@ -260,17 +273,22 @@ export abstract class BaseTaskModal extends Modal {
 
 		const datesGrid = dateContainer.createDiv(EditTaskModalClasses.elements.datesGrid);
 
-		this.renderDateField(datesGrid, '📅 截止/提醒', this.dueDate, (d) => this.dueDate = d);
+		this.renderDateField(datesGrid, '📅 截止/提醒', this.dueDate, (d) => this.dueDate = d, {
+			hasTime: this.hasDueTime,
+			onChange: (hasTime) => this.hasDueTime = hasTime,
+		});
 	}
 
 	/**
 	 * 渲染单个日期字段
+	 * @param time 传入时额外渲染可选的时间输入（留空表示全天）
 	 */
 	protected renderDateField(
 		container: HTMLElement,
 		label: string,
 		current: Date | null,
-		onChange: (d: Date | null) => void
+		onChange: (d: Date | null) => void,
+		time?: DateFieldTimeOptions
 	): void {
 		const dateItem = container.createDiv(EditTaskModalClasses.elements.dateItem);
 		const labelEl = dateItem.createEl('label', {
@@ -287,14 +305,17 @@ export abstract class BaseTaskModal extends Modal {
 		const initStr = current ? this.formatDateForInput(current) : '';
 		if (initStr) input.value = initStr;
 
-		input.addEventListener('change', () => {
-			if (!input.value) {
-				onChange(null);
-				return;
-			}
-			const parsed = this.parseDate(input.value);
-			if (parsed) onChange(parsed);
-		});
+		const timeInput = time ? this.renderTimeInput(inputContainer, current, time.hasTime) : null;
+
+		const emitChange = () => {
+			const result = this.readDateTimeInputs(input, timeInput);
+			if (result === undefined) return;
+			onChange(result.date);
+			time?.onChange(result.hasTime);
+		};
+
+		input.addEventListener('change', emitChange);
+		timeInput?.addEventListener('change', emitChange);
 
 		const clearBtn = inputContainer.createEl('button', {
 			cls: EditTaskModalClasses.elements.dateClear,
@@ -302,10 +323,48 @@ export abstract class BaseTaskModal extends Modal {
 		});
 		clearBtn.addEventListener('click', () => {
 			input.value = '';
+			if (timeInput) timeInput.value = '';
 			onChange(null);
+			time?.onChange(false);
 		});
 	}
 
+	/**
+	 * 渲染时间输入框（HH:mm）
+	 */
+	protected renderTimeInput(container: HTMLElement, current: Date | null, hasTime: boolean): HTMLInputElement {
+		const timeInput = container.createEl('input', {
+			type: 'time',
+			cls: `${EditTaskModalClasses.elements.dateInput} ${EditTaskModalClasses.elements.timeInput}`
+		});
+		timeInput.setAttribute('aria-label', '时间（留空为全天）');
+		if (current && hasTime) {
+			timeInput.value = formatTime(current);
+		}
+		return timeInput;
+	}
+
+	/**
+	 * 读取日期 + 时间输入框的组合值
+	 * @returns 日期为空时 date 为 null；日期无效时返回 undefined（忽略本次变更）
+	 */
+	protected readDateTimeInputs(
+		dateInput: HTMLInputElement,
+		timeInput: HTMLInputElement | null
+	): { date: Date | null; hasTime: boolean } | undefined {
+		if (!dateInput.value) {
+			return { date: null, hasTime: false };
+		}
+		const parsed = this.parseDate(dateInput.value);
+		if (!parsed) return undefined;
+
+		const withClock = timeInput?.value ? parseDateTime(`${dateInput.value} ${timeInput.value}`) : null;
+		if (withClock) {
+			return { date: withClock, hasTime: true };
+		}
+		return { date: parsed, hasTime: false };
+	}
+
 	// ==================== 周期设置板块 ====================
 
 	/**
@@ -1093,6 +1152,9 @@ export abstract class BaseTaskModal extends Modal {
 				color: var(--text-normal);
 				font-size: var(--font-ui-small);
 			}
+			.${EditTaskModalClasses.elements.timeInput} {
+				flex: 0 0 96px;
+			}
 			.${EditTaskModalClasses.elements.dateInput}:focus {
 				outline: 2px solid var(--interactive-accent);
 				border-color: var(--interactive-accent);
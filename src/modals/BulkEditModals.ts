@@ -0,0 +1,142 @@
+/**
+ * 批量编辑弹窗
+ *
+ * 多选工具栏中需要额外输入的批量操作：
+ * - BulkTagsModal：为所选任务添加 / 移除标签
+ * - BulkDateModal：设置或清除所选任务的开始日期 / 截止日期
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import type { GCTask } from '../types';
+import { TagSelector } from '../components/TagSelector';
+import { BulkEditModalClasses } from '../utils/bem';
+import { formatDate, getTodayDate } from '../dateUtils/dateUtilsIndex';
+
+/**
+ * 批量修改标签
+ */
+export class BulkTagsModal extends Modal {
+	private tasks: GCTask[];
+	private allTasks: GCTask[];
+	private onSubmit: (add: string[], remove: string[]) => void;
+	private addTags: string[] = [];
+	private removeTags = new Set<string>();
+
+	constructor(app: App, tasks: GCTask[], allTasks: GCTask[], onSubmit: (add: string[], remove: string[]) => void) {
+		super(app);
+		this.tasks = tasks;
+		this.allTasks = allTasks;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass(BulkEditModalClasses.block);
+		contentEl.createEl('h2', { text: `修改 ${this.tasks.length} 个任务的标签` });
+
+		const addSection = contentEl.createDiv(BulkEditModalClasses.elements.section);
+		addSection.createEl('h4', { text: '添加标签' });
+		new TagSelector({
+			container: addSection.createDiv(),
+			allTasks: this.allTasks,
+			compact: true,
+			onChange: (tags) => {
+				this.addTags = tags;
+			},
+		});
+
+		// 所选任务中已有的标签，可勾选移除
+		const counts = new Map<string, number>();
+		for (const task of this.tasks) {
+			for (const tag of task.tags ?? []) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
+		const removeSection = contentEl.createDiv(BulkEditModalClasses.elements.section);
+		removeSection.createEl('h4', { text: '移除标签' });
+		if (counts.size === 0) {
+			removeSection.createDiv({ text: '所选任务没有标签', cls: BulkEditModalClasses.elements.hint });
+		}
+		for (const [tag, count] of [...counts].sort((a, b) => b[1] - a[1])) {
+			new Setting(removeSection)
+				.setName(`#${tag}`)
+				.setDesc(`${count} 个任务`)
+				.addToggle(toggle => toggle.onChange(value => {
+					if (value) this.removeTags.add(tag);
+					else this.removeTags.delete(tag);
+				}));
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn.setButtonText('应用').setCta().onClick(() => {
+				this.close();
+				this.onSubmit(this.addTags, [...this.removeTags]);
+			}))
+			.addButton(btn => btn.setButtonText('取消').onClick(() => this.close()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * 批量设置日期
+ */
+export class BulkDateModal extends Modal {
+	private count: number;
+	private onSubmit: (field: 'startDate' | 'dueDate', date: Date | null) => void;
+	private field: 'startDate' | 'dueDate' = 'dueDate';
+	private value = formatDate(getTodayDate(), 'yyyy-MM-dd');
+
+	constructor(app: App, count: number, onSubmit: (field: 'startDate' | 'dueDate', date: Date | null) => void) {
+		super(app);
+		this.count = count;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass(BulkEditModalClasses.block);
+		contentEl.createEl('h2', { text: `设置 ${this.count} 个任务的日期` });
+
+		new Setting(contentEl)
+			.setName('日期字段')
+			.addDropdown(dropdown => dropdown
+				.addOption('dueDate', '截止日期')
+				.addOption('startDate', '开始日期')
+				.setValue(this.field)
+				.onChange(value => {
+					this.field = value as 'startDate' | 'dueDate';
+				}));
+
+		new Setting(contentEl)
+			.setName('日期')
+			.setDesc('原日期带具体时间时保留时分')
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.setValue(this.value).onChange(value => {
+					this.value = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton(btn => btn.setButtonText('设置').setCta().onClick(() => {
+				const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(this.value);
+				if (!match) return;
+				this.close();
+				this.onSubmit(this.field, new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+			}))
+			.addButton(btn => btn.setButtonText('清除日期').setWarning().onClick(() => {
+				this.close();
+				this.onSubmit(this.field, null);
+			}))
+			.addButton(btn => btn.setButtonText('取消').onClick(() => this.close()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
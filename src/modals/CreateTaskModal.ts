@@ -18,6 +18,8 @@ export interface CreateTaskModalOptions {
 	app: App;
 	plugin: GanttCalendarPlugin;
 	targetDate?: Date;
+	/** targetDate 是否带具体时间（日视图时间轴上创建） */
+	targetHasTime?: boolean;
 	defaultType?: 'todo' | 'reminder';
 	parentTask?: GCTask;    // 创建子任务时的父任务
 	onSuccess: () => void;
@@ -60,7 +62,9 @@ export class CreateTaskModal extends BaseTaskModal {
 		today.setHours(0, 0, 0, 0);
 		this.createdDate = new Date(today);
 		this.startDate = new Date(today);
-		if (this.dueDate) {
+		if (this.dueDate && options.targetHasTime && !this.parentTask) {
+			this.hasDueTime = true;
+		} else if (this.dueDate) {
 			this.dueDate.setHours(0, 0, 0, 0);
 		}
 		this.cancelledDate = null;
@@ -157,6 +161,7 @@ export class CreateTaskModal extends BaseTaskModal {
 					tags: this.selectedTags.length > 0 ? this.selectedTags : undefined,
 					startDate: this.startDate || new Date(),
 					dueDate: this.dueDate,
+					hasDueTime: this.hasDueTime || undefined,
 					repeat: this.repeat || undefined,
 				});
 				new Notice('子任务创建成功');
@@ -173,6 +178,7 @@ export class CreateTaskModal extends BaseTaskModal {
 					createdDate: new Date(),
 					startDate: this.startDate || new Date(),
 					dueDate: this.dueDate,
+					hasDueTime: this.hasDueTime || undefined,
 					repeat: this.repeat || undefined,
 					archived: false,
 				};
@@ -11,8 +11,9 @@ import type { GCTask } from '../types';
 import type { TaskChanges } from '../data-layer/types';
 import { Logger } from '../utils/logger';
 import { EditTaskModalClasses } from '../utils/bem';
-import { BaseTaskModal, type PriorityOption, type RepeatConfig } from './BaseTaskModal';
+import { BaseTaskModal, type DateFieldTimeOptions, type PriorityOption, type RepeatConfig } from './BaseTaskModal';
 import { updateTaskCompletion } from '../tasks/taskUpdater';
+import { materializeOccurrence } from '../tasks/taskRecurrence';
 
 /**
  * 快捷打开编辑弹窗
@@ -66,6 +67,8 @@ class EditTaskModal extends BaseTaskModal {
 		this.createdDate = task.createdDate || null;
 		this.startDate = task.startDate || null;
 		this.dueDate = task.dueDate || null;
+		this.hasStartTime = !!task.hasStartTime;
+		this.hasDueTime = !!task.hasDueTime;
 		this.cancelledDate = task.cancelledDate || null;
 		this.completionDate = task.completionDate || null;
 		this.selectedTags = task.tags ? [...task.tags] : [];
@@ -82,8 +85,8 @@ class EditTaskModal extends BaseTaskModal {
 	protected renderModalContent(title: string): void {
 		super.renderModalContent(title);
 
-		// 在标签区域之后、按钮之前插入子任务区域
-		if ((this.task.depth ?? 0) < 2) {
+		// 在标签区域之后、按钮之前插入子任务区域（周期任务的虚拟实例保存前尚不存在，无法添加子任务）
+		if ((this.task.depth ?? 0) < 2 && !this.task.ghostOf) {
 			const scrollContainer = this.contentEl.querySelector(`.${EditTaskModalClasses.elements.scrollContainer}`) as HTMLElement;
 			if (scrollContainer) {
 				this.renderSubTasksSection(scrollContainer);
@@ -346,6 +349,8 @@ class EditTaskModal extends BaseTaskModal {
 			if (this.datesChanged) {
 				changes.startDate = this.startDate || undefined;
 				changes.dueDate = this.dueDate || undefined;
+				changes.hasStartTime = !!this.startDate && this.hasStartTime;
+				changes.hasDueTime = !!this.dueDate && this.hasDueTime;
 				changes.completionDate = this.completionDate || undefined;
 				changes.cancelledDate = this.cancelledDate || undefined;
 				hasChanges = true;
@@ -362,7 +367,13 @@ class EditTaskModal extends BaseTaskModal {
 				return;
 			}
 
-			await this.plugin.taskCache.updateTask(this.task.id, changes);
+			if (this.task.ghostOf) {
+				// 周期任务的虚拟实例：保存时才创建为真实任务，取消则不留下任何任务
+				const newId = await this.plugin.taskCache.createTask({ ...materializeOccurrence(this.task), ...changes });
+				if (!newId) throw new Error('创建周期任务实例失败');
+			} else {
+				await this.plugin.taskCache.updateTask(this.task.id, changes);
+			}
 			new Notice('任务已更新');
 			this.onSuccess();
 			this.close();
@@ -457,7 +468,8 @@ class EditTaskModal extends BaseTaskModal {
 		container: HTMLElement,
 		label: string,
 		current: Date | null,
-		onChange: (d: Date | null) => void
+		onChange: (d: Date | null) => void,
+		time?: DateFieldTimeOptions
 	): void {
 		const { EditTaskModalClasses } = require('../utils/bem') as typeof import('../utils/bem');
 		const dateItem = container.createDiv(EditTaskModalClasses.elements.dateItem);
@@ -475,18 +487,18 @@ class EditTaskModal extends BaseTaskModal {
 		const initStr = current ? this.formatDateForInput(current) : '';
 		if (initStr) input.value = initStr;
 
-		input.addEventListener('change', () => {
-			if (!input.value) {
-				onChange(null);
-				this.datesChanged = true;
-				return;
-			}
-			const parsed = this.parseDate(input.value);
-			if (parsed) {
-				onChange(parsed);
-				this.datesChanged = true;
-			}
-		});
+		const timeInput = time ? this.renderTimeInput(inputContainer, current, time.hasTime) : null;
+
+		const emitChange = () => {
+			const result = this.readDateTimeInputs(input, timeInput);
+			if (result === undefined) return;
+			onChange(result.date);
+			time?.onChange(result.hasTime);
+			this.datesChanged = true;
+		};
+
+		input.addEventListener('change', emitChange);
+		timeInput?.addEventListener('change', emitChange);
 
 		const clearBtn = inputContainer.createEl('button', {
 			cls: EditTaskModalClasses.elements.dateClear,
@@ -494,7 +506,9 @@ class EditTaskModal extends BaseTaskModal {
 		});
 		clearBtn.addEventListener('click', () => {
 			input.value = '';
+			if (timeInput) timeInput.value = '';
 			onChange(null);
+			time?.onChange(false);
 			this.datesChanged = true;
 		});
 	}
@@ -514,8 +528,14 @@ class EditTaskModal extends BaseTaskModal {
 
 		const datesGrid = datesContainer.createDiv(EditTaskModalClasses.elements.datesGrid);
 
-		this.renderDateField(datesGrid, '📅 截止/提醒', this.dueDate, (d) => this.dueDate = d);
-		this.renderDateField(datesGrid, '🛫 开始', this.startDate, (d) => this.startDate = d);
+		this.renderDateField(datesGrid, '📅 截止/提醒', this.dueDate, (d) => this.dueDate = d, {
+			hasTime: this.hasDueTime,
+			onChange: (hasTime) => this.hasDueTime = hasTime,
+		});
+		this.renderDateField(datesGrid, '🛫 开始', this.startDate, (d) => this.startDate = d, {
+			hasTime: this.hasStartTime,
+			onChange: (hasTime) => this.hasStartTime = hasTime,
+		});
 	}
 
 	/**
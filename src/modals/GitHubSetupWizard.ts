@@ -18,6 +18,7 @@ import {
 	DEFAULT_REMINDER_SCHEDULE,
 	DEFAULT_TIMEZONE,
 } from '../services/githubTemplates';
+import { TASKS_SCHEMA_VERSION } from '../data-layer/TaskMigrations';
 import { Logger } from '../utils/logger';
 
 export class GitHubSetupWizard extends Modal {
@@ -206,17 +207,20 @@ export class GitHubSetupWizard extends Modal {
 				this.showStatus('✅ 仓库已存在');
 			}
 
-			// 2. 准备任务数据
+			// 2. 准备任务数据（远端已有 tasks.json 时不覆盖，由首次同步合并）
 			this.showStatus('⏳ 推送文件...');
-			const tasksJson = await this.getTasksJsonContent();
+			const files = [];
+			if (!(await syncService.hasRemoteTasks())) {
+				files.push({
+					path: 'tasks.json',
+					content: await this.getTasksJsonContent(),
+					message: 'init: add tasks.json',
+				});
+			}
 
 			// 3. 推送所有文件
 			await syncService.pushMultipleFiles([
-				{
-					path: 'tasks.json',
-					content: tasksJson,
-					message: 'init: add tasks.json',
-				},
+				...files,
 				{
 					path: 'scripts/generate-email.js',
 					content: EMAIL_SCRIPT_TEMPLATE,
@@ -241,6 +245,7 @@ export class GitHubSetupWizard extends Modal {
 				timezone: DEFAULT_TIMEZONE,
 			};
 			await this.plugin.saveSettings();
+			this.plugin.initGitHubSync();
 
 			this.showStatus('✅ 仓库初始化完成！');
 			new Notice('GitHub 仓库初始化成功！');
@@ -355,7 +360,7 @@ export class GitHubSetupWizard extends Modal {
 
 		// 默认空数据
 		return JSON.stringify({
-			version: 1,
+			version: TASKS_SCHEMA_VERSION,
 			tasks: [],
 			archive: [],
 			lastSync: new Date().toISOString(),
@@ -0,0 +1,320 @@
+/**
+ * 从笔记导入任务弹窗
+ *
+ * 第一步选择要扫描的文件夹；第二步预览解析出的 Tasks / Dataview 格式任务，
+ * 勾选后批量创建。已导入过的任务（按来源文件与描述识别）标记为「已导入」并跳过。
+ */
+
+import { App, Modal, Notice, TFolder } from 'obsidian';
+import type GanttCalendarPlugin from '../../main';
+import type { GCTask } from '../types';
+import { MarkdownImportModalClasses } from '../utils/bem';
+import { formatTaskDate } from '../dateUtils/dateUtilsIndex';
+import { getStatusByKey } from '../tasks/taskStatus';
+import { parseMarkdownTasks, toGCTask, type ParsedMarkdownTask } from '../tasks/markdownTaskParser';
+import { Logger } from '../utils/logger';
+
+/** 库根目录 */
+const ROOT_FOLDER = '/';
+
+export class MarkdownImportModal extends Modal {
+	private plugin: GanttCalendarPlugin;
+
+	/** 选中的文件夹 */
+	private selectedFolders: Set<string>;
+	private folderFilter = '';
+
+	/** 解析结果（按文件分组，保持文件内顺序） */
+	private parsedByFile = new Map<string, ParsedMarkdownTask[]>();
+	/** 选中待导入的任务（importKey） */
+	private selectedTasks = new Set<string>();
+	/** 已存在的导入任务：importKey → 任务 */
+	private existingTasks = new Map<string, GCTask>();
+	/** 可作为父任务的已有任务 ID（活跃或归档） */
+	private linkableTaskIds = new Set<string>();
+
+	private listEl: HTMLElement;
+	private importBtn: HTMLButtonElement;
+
+	constructor(app: App, plugin: GanttCalendarPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.selectedFolders = new Set(plugin.settings.markdownImportFolders ?? []);
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass(MarkdownImportModalClasses.block);
+		this.renderFolderStep();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	// ==================== 第一步：选择文件夹 ====================
+
+	private renderFolderStep(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '📥 从笔记导入任务' });
+		contentEl.createDiv({
+			text: '选择要扫描的文件夹（包含子文件夹），识别 Tasks / Dataview 格式的任务行。',
+			cls: MarkdownImportModalClasses.elements.summary,
+		});
+
+		const filterInput = contentEl.createEl('input', {
+			type: 'text',
+			placeholder: '筛选文件夹...',
+			cls: MarkdownImportModalClasses.elements.filter,
+		});
+		filterInput.value = this.folderFilter;
+		filterInput.addEventListener('input', () => {
+			this.folderFilter = filterInput.value.trim().toLowerCase();
+			this.renderFolderList();
+		});
+
+		this.listEl = contentEl.createDiv(MarkdownImportModalClasses.elements.list);
+		this.renderFolderList();
+
+		const buttons = contentEl.createDiv(MarkdownImportModalClasses.elements.buttons);
+		const cancelBtn = buttons.createEl('button', { text: '取消' });
+		cancelBtn.addEventListener('click', () => this.close());
+		const scanBtn = buttons.createEl('button', { text: '扫描', cls: 'mod-cta' });
+		scanBtn.addEventListener('click', async () => {
+			if (this.selectedFolders.size === 0) {
+				new Notice('请至少选择一个文件夹');
+				return;
+			}
+			scanBtn.disabled = true;
+			scanBtn.setText('扫描中...');
+			this.plugin.settings.markdownImportFolders = [...this.selectedFolders];
+			await this.plugin.saveSettings();
+			await this.scan();
+			this.renderPreviewStep();
+		});
+	}
+
+	private renderFolderList(): void {
+		this.listEl.empty();
+
+		const folders = this.getFolders().filter(path =>
+			!this.folderFilter || path.toLowerCase().includes(this.folderFilter)
+		);
+		if (folders.length === 0) {
+			this.listEl.createDiv({ text: '没有匹配的文件夹', cls: MarkdownImportModalClasses.elements.empty });
+			return;
+		}
+
+		for (const path of folders) {
+			const row = this.listEl.createEl('label', { cls: MarkdownImportModalClasses.elements.folder });
+			const checkbox = row.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selectedFolders.has(path);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) this.selectedFolders.add(path);
+				else this.selectedFolders.delete(path);
+			});
+			row.createSpan({ text: path === ROOT_FOLDER ? '/（整个库）' : path });
+		}
+	}
+
+	/**
+	 * 库中所有文件夹路径（按路径排序，根目录在前）
+	 */
+	private getFolders(): string[] {
+		return this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder)
+			.map(folder => folder.isRoot() ? ROOT_FOLDER : folder.path)
+			.sort((a, b) => a.localeCompare(b));
+	}
+
+	// ==================== 扫描 ====================
+
+	private async scan(): Promise<void> {
+		const store = this.plugin.taskCache;
+		const linkable = [...store.getAllTasks(), ...store.getArchivedTasks()];
+		this.linkableTaskIds = new Set(linkable.map(task => task.id));
+		this.existingTasks.clear();
+		for (const task of [...linkable, ...store.getTrashedTasks()]) {
+			if (task.sourceId) this.existingTasks.set(task.sourceId, task);
+		}
+
+		const folders = [...this.selectedFolders];
+		const files = this.app.vault.getMarkdownFiles()
+			.filter(file => folders.some(folder =>
+				folder === ROOT_FOLDER || file.path.startsWith(folder + '/')
+			))
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		this.parsedByFile.clear();
+		this.selectedTasks.clear();
+		for (const file of files) {
+			try {
+				const tasks = parseMarkdownTasks(await this.app.vault.cachedRead(file), file.path);
+				if (tasks.length === 0) continue;
+				this.parsedByFile.set(file.path, tasks);
+				for (const task of tasks) {
+					if (!this.existingTasks.has(task.importKey)) this.selectedTasks.add(task.importKey);
+				}
+			} catch (error) {
+				Logger.error('MarkdownImport', `Failed to read ${file.path}`, error);
+			}
+		}
+	}
+
+	// ==================== 第二步：预览 ====================
+
+	private renderPreviewStep(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		let total = 0;
+		let duplicates = 0;
+		for (const tasks of this.parsedByFile.values()) {
+			total += tasks.length;
+			duplicates += tasks.filter(task => this.existingTasks.has(task.importKey)).length;
+		}
+
+		contentEl.createEl('h2', { text: '📥 导入预览' });
+		contentEl.createDiv({
+			text: `在 ${this.parsedByFile.size} 个文件中找到 ${total} 个任务` +
+				(duplicates > 0 ? `，其中 ${duplicates} 个已导入过` : ''),
+			cls: MarkdownImportModalClasses.elements.summary,
+		});
+
+		const bulk = contentEl.createDiv(MarkdownImportModalClasses.elements.bulkActions);
+		const selectAll = bulk.createEl('button', { text: '全选' });
+		selectAll.addEventListener('click', () => this.setAllSelected(true));
+		const selectNone = bulk.createEl('button', { text: '全不选' });
+		selectNone.addEventListener('click', () => this.setAllSelected(false));
+
+		this.listEl = contentEl.createDiv(MarkdownImportModalClasses.elements.list);
+		this.renderTaskList();
+
+		const buttons = contentEl.createDiv(MarkdownImportModalClasses.elements.buttons);
+		const backBtn = buttons.createEl('button', { text: '返回' });
+		backBtn.addEventListener('click', () => this.renderFolderStep());
+		this.importBtn = buttons.createEl('button', { cls: 'mod-cta' });
+		this.importBtn.addEventListener('click', () => this.importSelected());
+		this.updateImportButton();
+	}
+
+	private renderTaskList(): void {
+		this.listEl.empty();
+
+		if (this.parsedByFile.size === 0) {
+			this.listEl.createDiv({ text: '所选文件夹中没有找到任务', cls: MarkdownImportModalClasses.elements.empty });
+			return;
+		}
+
+		for (const [filePath, tasks] of this.parsedByFile) {
+			const fileEl = this.listEl.createDiv(MarkdownImportModalClasses.elements.file);
+			fileEl.createDiv({ text: filePath, cls: MarkdownImportModalClasses.elements.fileName });
+
+			for (const task of tasks) {
+				const duplicate = this.existingTasks.has(task.importKey);
+				const row = fileEl.createEl('label', { cls: MarkdownImportModalClasses.elements.task });
+				row.style.paddingLeft = `${4 + task.depth * 20}px`;
+
+				const checkbox = row.createEl('input', { type: 'checkbox' });
+				checkbox.checked = this.selectedTasks.has(task.importKey);
+				if (duplicate) {
+					row.addClass(MarkdownImportModalClasses.elements.taskDuplicate);
+					checkbox.disabled = true;
+				} else {
+					checkbox.addEventListener('change', () => {
+						if (checkbox.checked) this.selectedTasks.add(task.importKey);
+						else this.selectedTasks.delete(task.importKey);
+						this.updateImportButton();
+					});
+				}
+
+				const status = getStatusByKey(task.status);
+				row.createSpan({
+					text: `[${status?.symbol ?? ' '}] ${task.description}`,
+					cls: MarkdownImportModalClasses.elements.taskText,
+				});
+				row.createSpan({
+					text: duplicate ? '已导入' : this.describeMeta(task),
+					cls: MarkdownImportModalClasses.elements.taskMeta,
+				});
+			}
+		}
+	}
+
+	private describeMeta(task: ParsedMarkdownTask): string {
+		const parts: string[] = [];
+		if (task.dueDate) parts.push(`📅 ${formatTaskDate(task.dueDate)}`);
+		if (task.repeat) parts.push(`🔁 ${task.repeat}`);
+		if (task.tags.length > 0) parts.push(task.tags.map(tag => `#${tag}`).join(' '));
+		return parts.join(' ');
+	}
+
+	private setAllSelected(selected: boolean): void {
+		this.selectedTasks.clear();
+		if (selected) {
+			for (const tasks of this.parsedByFile.values()) {
+				for (const task of tasks) {
+					if (!this.existingTasks.has(task.importKey)) this.selectedTasks.add(task.importKey);
+				}
+			}
+		}
+		this.renderTaskList();
+		this.updateImportButton();
+	}
+
+	private updateImportButton(): void {
+		const count = this.selectedTasks.size;
+		this.importBtn.setText(`导入 ${count} 个任务`);
+		this.importBtn.disabled = count === 0;
+	}
+
+	// ==================== 导入 ====================
+
+	/**
+	 * 构建待创建任务（父任务在前）
+	 *
+	 * 父任务也被选中时以其 importKey 作为临时 ID 引用；
+	 * 父任务已导入过时挂到已有任务下；父任务未选中时作为顶层任务。
+	 */
+	private buildTasks(): GCTask[] {
+		const result: GCTask[] = [];
+		for (const tasks of this.parsedByFile.values()) {
+			for (const task of tasks) {
+				if (!this.selectedTasks.has(task.importKey)) continue;
+
+				const parent = task.parentIndex !== null ? tasks[task.parentIndex] : null;
+				let parentId: string | undefined;
+				if (parent && this.selectedTasks.has(parent.importKey)) {
+					parentId = parent.importKey;
+				} else if (parent) {
+					const existing = this.existingTasks.get(parent.importKey);
+					if (existing && this.linkableTaskIds.has(existing.id) && (existing.depth ?? 0) < 2) {
+						parentId = existing.id;
+					}
+				}
+
+				result.push({ ...toGCTask(task, parentId), id: task.importKey });
+			}
+		}
+		return result;
+	}
+
+	private async importSelected(): Promise<void> {
+		const tasks = this.buildTasks();
+		if (tasks.length === 0) return;
+
+		this.importBtn.disabled = true;
+		this.importBtn.setText('导入中...');
+		try {
+			const created = await this.plugin.taskCache.importTasks(tasks);
+			this.plugin.refreshCalendarViews();
+			new Notice(`已导入 ${created.length} 个任务`);
+			this.close();
+		} catch (error) {
+			Logger.error('MarkdownImport', 'Import failed', error);
+			new Notice('导入失败: ' + (error as Error).message);
+			this.updateImportButton();
+		}
+	}
+}
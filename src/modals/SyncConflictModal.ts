@@ -0,0 +1,290 @@
+/**
+ * 同步冲突弹窗
+ *
+ * 冲突策略为「手动」时，在同步过程中列出本地与远端都修改过的任务，
+ * 逐字段并排展示两侧版本，可按字段或按任务选择保留哪一侧，确认后继续同步。
+ */
+
+import { App, Modal } from 'obsidian';
+import type { JsonTaskData } from '../data-layer/JsonDataSource';
+import type { ConflictDecision, ConflictSide, FieldConflict, TaskConflict, TaskVersion } from '../data-layer/types';
+import { SyncConflictModalClasses } from '../utils/bem';
+import { formatTaskDate } from '../dateUtils/dateUtilsIndex';
+import { getStatusByKey } from '../tasks/taskStatus';
+
+type FieldKey = FieldConflict['field'];
+
+/** 始终展示的字段（其余字段仅在冲突时展示） */
+const DISPLAY_FIELDS: FieldKey[] = ['description', 'startDate', 'dueDate', 'status', 'tags', 'childIds'];
+
+export const FIELD_LABELS: Partial<Record<FieldKey, string>> = {
+	description: '描述',
+	detail: '详情',
+	type: '类型',
+	status: '状态',
+	priority: '优先级',
+	tags: '标签',
+	startDate: '开始',
+	dueDate: '截止',
+	createdDate: '创建',
+	completionDate: '完成日期',
+	cancelledDate: '取消日期',
+	completed: '已完成',
+	cancelled: '已取消',
+	archived: '已归档',
+	repeat: '重复',
+	parentId: '父任务',
+	childIds: '子任务',
+	section: '位置',
+	deletedAt: '删除时间',
+};
+
+const SECTION_LABELS: Record<string, string> = {
+	tasks: '任务列表',
+	archive: '归档',
+	trash: '回收站',
+};
+
+/**
+ * 打开同步冲突弹窗
+ * @returns 每个任务的解决方式；取消时返回 null
+ */
+export function openSyncConflictModal(app: App, conflicts: TaskConflict[]): Promise<Map<string, ConflictDecision> | null> {
+	return new Promise((resolve) => {
+		new SyncConflictModal(app, conflicts, resolve).open();
+	});
+}
+
+/**
+ * 同步冲突弹窗
+ */
+class SyncConflictModal extends Modal {
+	private conflicts: TaskConflict[];
+	private onResolve: (decisions: Map<string, ConflictDecision> | null) => void;
+	private resolved = false;
+
+	/** 字段级选择：taskId → 字段 → 一侧 */
+	private fieldSides = new Map<string, Map<FieldKey, ConflictSide>>();
+	/** 整体选择（一侧已彻底删除的任务） */
+	private taskSides = new Map<string, ConflictSide>();
+
+	private listEl: HTMLElement;
+
+	constructor(
+		app: App,
+		conflicts: TaskConflict[],
+		onResolve: (decisions: Map<string, ConflictDecision> | null) => void
+	) {
+		super(app);
+		this.conflicts = conflicts;
+		this.onResolve = onResolve;
+
+		// 默认保留本地
+		for (const conflict of conflicts) {
+			this.setTaskSide(conflict, 'local');
+		}
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass(SyncConflictModalClasses.block);
+
+		contentEl.createEl('h2', { text: '⚠️ 同步冲突' });
+		contentEl.createDiv({
+			text: `${this.conflicts.length} 个任务在本地和远端都被修改。点击字段值选择保留哪一侧，未冲突的修改已自动合并。`,
+			cls: SyncConflictModalClasses.elements.summary,
+		});
+
+		const bulk = contentEl.createDiv(SyncConflictModalClasses.elements.bulkActions);
+		const useAllLocal = bulk.createEl('button', { text: '全部使用本地' });
+		useAllLocal.addEventListener('click', () => this.setAllSides('local'));
+		const useAllRemote = bulk.createEl('button', { text: '全部使用远端' });
+		useAllRemote.addEventListener('click', () => this.setAllSides('remote'));
+
+		this.listEl = contentEl.createDiv(SyncConflictModalClasses.elements.list);
+		this.renderList();
+
+		const buttons = contentEl.createDiv(SyncConflictModalClasses.elements.buttons);
+		const cancelBtn = buttons.createEl('button', { text: '取消' });
+		cancelBtn.addEventListener('click', () => this.close());
+		const confirmBtn = buttons.createEl('button', { text: '继续同步', cls: 'mod-cta' });
+		confirmBtn.addEventListener('click', () => this.finish(this.buildDecisions()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		// 直接关闭视为取消
+		this.finish(null);
+	}
+
+	private finish(decisions: Map<string, ConflictDecision> | null): void {
+		if (this.resolved) return;
+		this.resolved = true;
+		this.onResolve(decisions);
+		this.close();
+	}
+
+	// ==================== 选择状态 ====================
+
+	private setTaskSide(conflict: TaskConflict, side: ConflictSide): void {
+		if (conflict.fields.length === 0) {
+			this.taskSides.set(conflict.taskId, side);
+			return;
+		}
+		const sides = new Map<FieldKey, ConflictSide>();
+		for (const field of conflict.fields) {
+			sides.set(field.field, side);
+		}
+		this.fieldSides.set(conflict.taskId, sides);
+	}
+
+	private setAllSides(side: ConflictSide): void {
+		for (const conflict of this.conflicts) {
+			this.setTaskSide(conflict, side);
+		}
+		this.renderList();
+	}
+
+	/**
+	 * 任务整体选择的一侧（字段选择不一致时返回 null）
+	 */
+	private getTaskSide(conflict: TaskConflict): ConflictSide | null {
+		if (conflict.fields.length === 0) {
+			return this.taskSides.get(conflict.taskId) ?? 'local';
+		}
+		const sides = new Set(this.fieldSides.get(conflict.taskId)?.values());
+		return sides.size === 1 ? [...sides][0] : null;
+	}
+
+	private buildDecisions(): Map<string, ConflictDecision> {
+		const decisions = new Map<string, ConflictDecision>();
+		for (const conflict of this.conflicts) {
+			const side = this.getTaskSide(conflict);
+			if (side) {
+				decisions.set(conflict.taskId, side);
+			} else {
+				const fields = Object.fromEntries(this.fieldSides.get(conflict.taskId) ?? []);
+				decisions.set(conflict.taskId, { fields });
+			}
+		}
+		return decisions;
+	}
+
+	// ==================== 渲染 ====================
+
+	private renderList(): void {
+		this.listEl.empty();
+		for (const conflict of this.conflicts) {
+			this.renderCard(conflict);
+		}
+	}
+
+	private renderCard(conflict: TaskConflict): void {
+		const card = this.listEl.createDiv(SyncConflictModalClasses.elements.card);
+
+		const header = card.createDiv(SyncConflictModalClasses.elements.cardHeader);
+		const title = conflict.local?.data.description ?? conflict.remote?.data.description ?? conflict.taskId;
+		header.createDiv({ text: title || '无标题', cls: SyncConflictModalClasses.elements.cardTitle });
+
+		const toggle = header.createDiv(SyncConflictModalClasses.elements.sideToggle);
+		const current = this.getTaskSide(conflict);
+		for (const side of ['local', 'remote'] as const) {
+			const btn = toggle.createEl('button', {
+				text: side === 'local' ? '本地' : '远端',
+				cls: SyncConflictModalClasses.elements.sideButton,
+			});
+			if (current === side) btn.addClass(SyncConflictModalClasses.elements.sideButtonActive);
+			btn.addEventListener('click', () => {
+				this.setTaskSide(conflict, side);
+				this.renderList();
+			});
+		}
+
+		const table = card.createEl('table', { cls: SyncConflictModalClasses.elements.table });
+		const headRow = table.createEl('thead').createEl('tr');
+		headRow.createEl('th', { text: '' });
+		headRow.createEl('th', { text: '本地' });
+		headRow.createEl('th', { text: '远端' });
+
+		const body = table.createEl('tbody');
+		const conflictFields = new Map(conflict.fields.map(field => [field.field, field]));
+		const fields = [...DISPLAY_FIELDS, ...conflict.fields.map(field => field.field).filter(field => !DISPLAY_FIELDS.includes(field))];
+
+		for (const field of fields) {
+			const row = body.createEl('tr', { cls: SyncConflictModalClasses.elements.row });
+			row.createEl('td', { text: FIELD_LABELS[field] ?? field, cls: SyncConflictModalClasses.elements.fieldName });
+
+			const fieldConflict = conflictFields.get(field);
+			if (fieldConflict) row.addClass(SyncConflictModalClasses.elements.rowConflict);
+
+			for (const side of ['local', 'remote'] as const) {
+				const version = side === 'local' ? conflict.local : conflict.remote;
+				const cell = row.createEl('td', { cls: SyncConflictModalClasses.elements.value });
+				this.renderValue(cell, version, field);
+
+				const selected = fieldConflict
+					? this.fieldSides.get(conflict.taskId)?.get(field) === side
+					: conflict.fields.length === 0 && current === side;
+				if (selected) cell.addClass(SyncConflictModalClasses.elements.valueSelected);
+
+				if (fieldConflict) {
+					cell.addEventListener('click', () => {
+						this.fieldSides.get(conflict.taskId)?.set(field, side);
+						this.renderList();
+					});
+				}
+			}
+		}
+	}
+
+	private renderValue(cell: HTMLElement, version: TaskVersion | null, field: FieldKey): void {
+		if (!version) {
+			cell.setText('已删除');
+			cell.addClass(SyncConflictModalClasses.elements.valueEmpty);
+			return;
+		}
+		const text = formatFieldValue(version, field);
+		cell.setText(text || '—');
+		if (!text) cell.addClass(SyncConflictModalClasses.elements.valueEmpty);
+	}
+}
+
+/**
+ * 字段值的展示文本（空值返回空字符串）
+ */
+export function formatFieldValue(version: TaskVersion, field: FieldKey): string {
+	if (field === 'section') return SECTION_LABELS[version.section] ?? version.section;
+
+	const data = version.data;
+	const value = data[field as keyof JsonTaskData];
+	if (value === undefined || value === null || value === '') return '';
+
+	switch (field) {
+		case 'startDate':
+			return formatDateValue(value, data.hasStartTime);
+		case 'dueDate':
+			return formatDateValue(value, data.hasDueTime);
+		case 'createdDate':
+		case 'completionDate':
+		case 'cancelledDate':
+			return formatDateValue(value, false);
+		case 'deletedAt':
+		case 'lastModified':
+			return formatDateValue(value, true);
+		case 'status':
+			return getStatusByKey(String(value))?.name ?? String(value);
+		case 'tags':
+			return (value as string[]).map(tag => `#${tag}`).join(' ');
+		case 'childIds':
+			return `${(value as string[]).length} 个子任务`;
+	}
+
+	if (typeof value === 'boolean') return value ? '是' : '否';
+	return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function formatDateValue(value: unknown, hasTime?: boolean): string {
+	const date = new Date(String(value));
+	return isNaN(date.getTime()) ? String(value) : formatTaskDate(date, hasTime);
+}
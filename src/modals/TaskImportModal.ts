@@ -0,0 +1,271 @@
+/**
+ * 从 CSV / JSON 文件导入任务弹窗
+ *
+ * 第一步选择文件；第二步将各列映射到任务字段并确认日期格式（自动检测）；
+ * 第三步逐行校验并预览试运行结果，确认后批量创建。
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+import type GanttCalendarPlugin from '../../main';
+import { TaskImportModalClasses } from '../utils/bem';
+import { formatTaskDate } from '../dateUtils/dateUtilsIndex';
+import { getStatusByKey } from '../tasks/taskStatus';
+import {
+	IMPORT_DATE_FORMATS,
+	IMPORT_FIELDS,
+	buildImportTasks,
+	detectDateFormat,
+	guessFieldMapping,
+	readImportTable,
+	summarizeImport,
+	type ImportDateFormat,
+	type ImportField,
+	type ImportRowResult,
+	type ImportTable,
+} from '../tasks/taskImport';
+import { Logger } from '../utils/logger';
+
+/** 预览中最多列出的任务数 */
+const PREVIEW_LIMIT = 200;
+
+export class TaskImportModal extends Modal {
+	private plugin: GanttCalendarPlugin;
+
+	private fileName = '';
+	private table: ImportTable | null = null;
+	/** 每列映射到的字段（null 为不导入） */
+	private mapping: Array<ImportField | null> = [];
+	private dateFormat: ImportDateFormat = 'YYYY-MM-DD';
+	private detectedDateFormat: ImportDateFormat | null = null;
+	private results: ImportRowResult[] = [];
+
+	private importBtn: HTMLButtonElement;
+
+	constructor(app: App, plugin: GanttCalendarPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass(TaskImportModalClasses.block);
+		this.renderFileStep();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	// ==================== 第一步：选择文件 ====================
+
+	private renderFileStep(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '📥 从 CSV / JSON 文件导入任务' });
+		contentEl.createDiv({
+			text: '支持首行为列名的 CSV（逗号、分号或制表符分隔），以及本插件导出的 JSON 文件或任意对象数组。',
+			cls: TaskImportModalClasses.elements.summary,
+		});
+
+		const fileInput = contentEl.createEl('input', {
+			type: 'file',
+			cls: TaskImportModalClasses.elements.fileInput,
+		});
+		fileInput.accept = '.csv,.json,text/csv,application/json';
+		fileInput.addEventListener('change', async () => {
+			const file = fileInput.files?.[0];
+			if (!file) return;
+			try {
+				this.load(file.name, await file.text());
+			} catch (error) {
+				Logger.error('TaskImport', `Failed to read ${file.name}`, error);
+				new Notice('无法读取文件: ' + (error as Error).message);
+				fileInput.value = '';
+				return;
+			}
+			if (!this.table || this.table.rows.length === 0) {
+				new Notice('文件中没有数据');
+				fileInput.value = '';
+				return;
+			}
+			this.renderMappingStep();
+		});
+
+		const buttons = contentEl.createDiv(TaskImportModalClasses.elements.buttons);
+		const cancelBtn = buttons.createEl('button', { text: '取消' });
+		cancelBtn.addEventListener('click', () => this.close());
+	}
+
+	private load(fileName: string, text: string): void {
+		this.fileName = fileName;
+		this.table = readImportTable(text, fileName);
+		this.mapping = guessFieldMapping(this.table.headers);
+		this.detectedDateFormat = detectDateFormat(this.table, this.mapping);
+		this.dateFormat = this.detectedDateFormat ?? 'YYYY-MM-DD';
+	}
+
+	// ==================== 第二步：字段映射 ====================
+
+	private renderMappingStep(): void {
+		const { contentEl } = this;
+		const table = this.table!;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '🔗 字段映射' });
+		contentEl.createDiv({
+			text: `${this.fileName}：${table.rows.length} 条记录，${table.headers.length} 列。请为每列选择对应的任务字段。`,
+			cls: TaskImportModalClasses.elements.summary,
+		});
+
+		const list = contentEl.createDiv(TaskImportModalClasses.elements.list);
+		const header = list.createDiv(TaskImportModalClasses.elements.mappingHeader);
+		header.createSpan({ text: '列名' });
+		header.createSpan({ text: '示例' });
+		header.createSpan({ text: '导入为' });
+
+		table.headers.forEach((name, col) => {
+			const row = list.createDiv(TaskImportModalClasses.elements.mappingRow);
+			row.createSpan({ text: name || `第 ${col + 1} 列`, cls: TaskImportModalClasses.elements.column });
+			const sample = table.rows.find(r => r[col]?.trim())?.[col] ?? '';
+			row.createSpan({ text: sample, cls: TaskImportModalClasses.elements.sample });
+
+			const select = row.createEl('select', { cls: 'dropdown' });
+			select.createEl('option', { text: '不导入', value: '' });
+			for (const { field, label } of IMPORT_FIELDS) {
+				select.createEl('option', { text: label, value: field });
+			}
+			select.value = this.mapping[col] ?? '';
+			select.addEventListener('change', () => {
+				const field = (select.value || null) as ImportField | null;
+				// 每个字段只能对应一列
+				const previous = field ? this.mapping.indexOf(field) : -1;
+				if (previous >= 0) this.mapping[previous] = null;
+				this.mapping[col] = field;
+				this.renderMappingStep();
+			});
+		});
+
+		const dateRow = contentEl.createDiv(TaskImportModalClasses.elements.dateFormat);
+		dateRow.createSpan({ text: '日期格式' });
+		const dateSelect = dateRow.createEl('select', { cls: 'dropdown' });
+		for (const format of IMPORT_DATE_FORMATS) {
+			const suffix = format === this.detectedDateFormat ? '（检测到）' : '';
+			dateSelect.createEl('option', { text: format + suffix, value: format });
+		}
+		dateSelect.value = this.dateFormat;
+		dateSelect.addEventListener('change', () => {
+			this.dateFormat = dateSelect.value as ImportDateFormat;
+		});
+
+		const buttons = contentEl.createDiv(TaskImportModalClasses.elements.buttons);
+		const backBtn = buttons.createEl('button', { text: '返回' });
+		backBtn.addEventListener('click', () => this.renderFileStep());
+		const nextBtn = buttons.createEl('button', { text: '校验', cls: 'mod-cta' });
+		nextBtn.addEventListener('click', () => {
+			if (!this.mapping.includes('description')) {
+				new Notice('请为「标题」选择一列');
+				return;
+			}
+			this.results = buildImportTasks(table, this.mapping, this.dateFormat);
+			this.renderPreviewStep();
+		});
+	}
+
+	// ==================== 第三步：校验预览 ====================
+
+	private renderPreviewStep(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const summary = summarizeImport(this.results);
+		contentEl.createEl('h2', { text: '✅ 导入预览（试运行）' });
+		const summaryEl = contentEl.createDiv(TaskImportModalClasses.elements.summary);
+		summaryEl.createDiv({
+			text: `共 ${summary.total} 条记录：${summary.valid} 条可导入` +
+				`（待办 ${summary.todos}，提醒 ${summary.reminders}，其中子任务 ${summary.subtasks}）` +
+				(summary.invalid > 0 ? `，${summary.invalid} 条有错误将跳过` : '') +
+				(summary.withWarnings > 0 ? `，${summary.withWarnings} 条有警告` : ''),
+		});
+		summaryEl.createDiv({ text: `日期格式：${this.dateFormat}。尚未创建任何任务。` });
+
+		const list = contentEl.createDiv(TaskImportModalClasses.elements.list);
+		const depths = new Map<string, number>();
+		let shown = 0;
+		for (const result of this.results) {
+			const task = result.task;
+			if (task) {
+				const depth = task.parentId ? (depths.get(task.parentId) ?? 0) + 1 : 0;
+				depths.set(task.id, depth);
+				// 有效任务超出数量时不再列出，但错误和警告始终显示
+				if (shown >= PREVIEW_LIMIT && result.warnings.length === 0) continue;
+				shown++;
+			}
+
+			const row = list.createDiv(TaskImportModalClasses.elements.row);
+			if (!task) row.addClass(TaskImportModalClasses.elements.rowInvalid);
+			else row.style.paddingLeft = `${4 + (depths.get(task.id) ?? 0) * 20}px`;
+
+			const line = row.createDiv(TaskImportModalClasses.elements.rowLine);
+			line.createSpan({ text: `#${result.rowNumber}`, cls: TaskImportModalClasses.elements.rowNumber });
+			line.createSpan({
+				text: task ? task.description : '（跳过）',
+				cls: TaskImportModalClasses.elements.rowText,
+			});
+			if (task) {
+				line.createSpan({ text: this.describeMeta(result), cls: TaskImportModalClasses.elements.rowMeta });
+			}
+
+			for (const message of result.errors) {
+				row.createDiv({ text: `✖ ${message}`, cls: TaskImportModalClasses.elements.error });
+			}
+			for (const message of result.warnings) {
+				row.createDiv({ text: `⚠ ${message}`, cls: TaskImportModalClasses.elements.warning });
+			}
+		}
+		if (shown < summary.valid) {
+			list.createDiv({
+				text: `另有 ${summary.valid - shown} 个任务未列出`,
+				cls: TaskImportModalClasses.elements.empty,
+			});
+		}
+
+		const buttons = contentEl.createDiv(TaskImportModalClasses.elements.buttons);
+		const backBtn = buttons.createEl('button', { text: '返回' });
+		backBtn.addEventListener('click', () => this.renderMappingStep());
+		this.importBtn = buttons.createEl('button', { text: `导入 ${summary.valid} 个任务`, cls: 'mod-cta' });
+		this.importBtn.disabled = summary.valid === 0;
+		this.importBtn.addEventListener('click', () => this.importValid());
+	}
+
+	private describeMeta(result: ImportRowResult): string {
+		const task = result.task!;
+		const parts: string[] = [task.type === 'reminder' ? '提醒' : '待办'];
+		if (task.status && task.status !== 'todo') parts.push(getStatusByKey(task.status)?.name ?? task.status);
+		if (task.startDate) parts.push(`🛫 ${formatTaskDate(task.startDate, task.hasStartTime)}`);
+		if (task.dueDate) parts.push(`📅 ${formatTaskDate(task.dueDate, task.hasDueTime)}`);
+		if (task.repeat) parts.push(`🔁 ${task.repeat}`);
+		if (task.tags?.length) parts.push(task.tags.map(tag => `#${tag}`).join(' '));
+		return parts.join(' ');
+	}
+
+	// ==================== 导入 ====================
+
+	private async importValid(): Promise<void> {
+		const tasks = this.results.filter(result => result.task).map(result => result.task!);
+		if (tasks.length === 0) return;
+
+		this.importBtn.disabled = true;
+		this.importBtn.setText('导入中...');
+		try {
+			const created = await this.plugin.taskCache.importTasks(tasks);
+			this.plugin.refreshCalendarViews();
+			new Notice(`已导入 ${created.length} 个任务`);
+			this.close();
+		} catch (error) {
+			Logger.error('TaskImport', 'Import failed', error);
+			new Notice('导入失败: ' + (error as Error).message);
+			this.importBtn.disabled = false;
+			this.importBtn.setText(`导入 ${tasks.length} 个任务`);
+		}
+	}
+}
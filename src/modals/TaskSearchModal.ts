@@ -0,0 +1,210 @@
+/**
+ * 任务搜索面板
+ *
+ * 命令面板风格，按标题、详情和标签模糊搜索全部任务（含已归档任务与订阅日历），
+ * 结果显示状态、截止日期和父任务路径。选中结果后可：
+ * - ↵ 编辑任务
+ * - Ctrl/⌘ + ↵ 在周视图中打开任务日期，Shift + ↵ 在月视图中打开
+ * - Alt + ↵ 在任务视图中定位
+ */
+
+import { App, Keymap, Notice, SuggestModal, renderMatches, setIcon } from 'obsidian';
+import type GanttCalendarPlugin from '../../main';
+import type { CalendarViewType, GCTask } from '../types';
+import { fuzzySearchTasks, type TaskSearchResult, type TextMatches } from '../tasks/taskSearch';
+import { getStatusByKey } from '../tasks/taskStatus';
+import { openEditTaskModal } from './EditTaskModal';
+import { TaskSearchModalClasses } from '../utils/bem';
+import { formatDate } from '../dateUtils/dateUtilsIndex';
+import { Logger } from '../utils/logger';
+
+/** 空查询时显示的最近修改任务数 */
+const RECENT_LIMIT = 30;
+
+/** 详情摘要在命中位置前后保留的字符数 */
+const SNIPPET_CONTEXT = 30;
+
+type SearchAction = 'edit' | 'week' | 'month' | 'reveal';
+
+const ACTIONS: Array<{ action: SearchAction; icon: string; label: string }> = [
+	{ action: 'edit', icon: 'pencil', label: '编辑' },
+	{ action: 'week', icon: 'calendar-range', label: '在周视图中打开' },
+	{ action: 'month', icon: 'calendar', label: '在月视图中打开' },
+	{ action: 'reveal', icon: 'list', label: '在任务视图中定位' },
+];
+
+export class TaskSearchModal extends SuggestModal<TaskSearchResult> {
+	private plugin: GanttCalendarPlugin;
+	private tasks: GCTask[];
+	private tasksById: Map<string, GCTask>;
+
+	constructor(app: App, plugin: GanttCalendarPlugin) {
+		super(app);
+		this.plugin = plugin;
+
+		// 活跃任务（含已归档标记的任务与订阅日历）+ 旧版归档列表中的任务
+		const tasks = plugin.taskCache.queryTasks();
+		const ids = new Set(tasks.map(task => task.id));
+		this.tasks = [...tasks, ...plugin.taskCache.getArchivedTasks().filter(task => !ids.has(task.id))];
+		this.tasksById = new Map(this.tasks.map(task => [task.id, task]));
+
+		this.modalEl.addClass(TaskSearchModalClasses.block);
+		this.setPlaceholder('搜索任务标题、详情或标签…');
+		this.emptyStateText = '没有匹配的任务';
+		this.limit = 50;
+		this.setInstructions([
+			{ command: '↑↓', purpose: '选择' },
+			{ command: '↵', purpose: '编辑' },
+			{ command: 'Ctrl/⌘ ↵', purpose: '周视图' },
+			{ command: 'Shift ↵', purpose: '月视图' },
+			{ command: 'Alt ↵', purpose: '任务视图中定位' },
+			{ command: 'esc', purpose: '关闭' },
+		]);
+
+		for (const modifier of ['Mod', 'Shift', 'Alt'] as const) {
+			this.scope.register([modifier], 'Enter', (evt) => {
+				this.selectActiveSuggestion(evt);
+				return false;
+			});
+		}
+	}
+
+	getSuggestions(query: string): TaskSearchResult[] {
+		if (query.trim()) {
+			return fuzzySearchTasks(this.tasks, query, this.limit);
+		}
+		return [...this.tasks]
+			.sort((a, b) => (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0))
+			.slice(0, RECENT_LIMIT)
+			.map(task => ({ task, score: 0, descriptionMatches: [], detailMatches: [], matchedTags: [] }));
+	}
+
+	renderSuggestion(result: TaskSearchResult, el: HTMLElement): void {
+		const { task } = result;
+		const classes = TaskSearchModalClasses.elements;
+		el.addClass(classes.item);
+
+		const content = el.createDiv(classes.content);
+		renderMatches(content.createDiv(classes.title), task.description, result.descriptionMatches);
+
+		// 状态 · 截止日期 · 归档/只读 · 父任务路径
+		const meta = content.createDiv(classes.meta);
+		const status = task.status || (task.completed ? 'done' : task.cancelled ? 'canceled' : 'todo');
+		meta.createSpan({ text: getStatusByKey(status)?.name ?? status, cls: classes.badge });
+		if (task.type === 'reminder') {
+			meta.createSpan({ text: '提醒', cls: classes.badge });
+		}
+		if (task.dueDate) {
+			meta.createSpan({ text: `截止 ${formatDate(task.dueDate, 'yyyy-MM-dd')}` });
+		}
+		if (task.archived || !this.plugin.taskCache.getTaskById(task.id)) {
+			meta.createSpan({ text: '已归档', cls: classes.badge });
+		}
+		if (task.source) {
+			meta.createSpan({ text: '只读', cls: classes.badge });
+		}
+		const path = this.getParentPath(task);
+		if (path) {
+			meta.createSpan({ text: path, cls: classes.path });
+		}
+
+		if (task.detail && result.detailMatches.length > 0) {
+			this.renderDetailSnippet(content.createDiv(classes.detail), task.detail, result.detailMatches);
+		}
+
+		if (task.tags?.length) {
+			const tagsEl = content.createDiv(classes.meta);
+			task.tags.forEach(tag => {
+				const tagEl = tagsEl.createSpan({ text: `#${tag}`, cls: classes.tag });
+				if (result.matchedTags.includes(tag)) tagEl.addClass(classes.tagMatched);
+			});
+		}
+
+		const actions = el.createDiv(classes.actions);
+		ACTIONS.forEach(({ action, icon, label }) => {
+			const btn = actions.createEl('button', { cls: `clickable-icon ${classes.action}` });
+			setIcon(btn, icon);
+			btn.setAttribute('aria-label', label);
+			btn.addEventListener('click', (evt) => {
+				evt.stopPropagation();
+				this.close();
+				this.runAction(action, task);
+			});
+		});
+	}
+
+	onChooseSuggestion(result: TaskSearchResult, evt: MouseEvent | KeyboardEvent): void {
+		let action: SearchAction = 'edit';
+		if (Keymap.isModifier(evt, 'Mod')) action = 'week';
+		else if (Keymap.isModifier(evt, 'Shift')) action = 'month';
+		else if (Keymap.isModifier(evt, 'Alt')) action = 'reveal';
+		this.runAction(action, result.task);
+	}
+
+	private runAction(action: SearchAction, task: GCTask): void {
+		const liveTask = this.plugin.taskCache.getTaskById(task.id);
+
+		switch (action) {
+			case 'edit':
+				if (!liveTask || liveTask.source) {
+					new Notice('该任务为只读，无法编辑');
+					return;
+				}
+				openEditTaskModal(this.app, this.plugin, liveTask, () => this.plugin.refreshCalendarViews());
+				break;
+			case 'week':
+			case 'month':
+				this.openAtTaskDate(task, action);
+				break;
+			case 'reveal':
+				if (!liveTask || liveTask.source) {
+					new Notice('订阅日历与旧版归档中的任务不在任务视图中显示');
+					return;
+				}
+				this.plugin.revealTask(liveTask.id).catch(error =>
+					Logger.error('TaskSearch', 'Failed to reveal task', error));
+				break;
+		}
+	}
+
+	private openAtTaskDate(task: GCTask, view: CalendarViewType): void {
+		const date = task.dueDate ?? task.startDate ?? task.createdDate;
+		if (!date) {
+			new Notice('该任务没有日期');
+			return;
+		}
+		this.plugin.openViewAt(new Date(date), view).catch(error =>
+			Logger.error('TaskSearch', 'Failed to open view', error));
+	}
+
+	/**
+	 * 父任务路径，如 "项目 › 阶段一"
+	 */
+	private getParentPath(task: GCTask): string {
+		const names: string[] = [];
+		let parentId = task.parentId;
+		while (parentId && names.length < 5) {
+			const parent = this.tasksById.get(parentId);
+			if (!parent) break;
+			names.unshift(parent.description);
+			parentId = parent.parentId;
+		}
+		return names.join(' › ');
+	}
+
+	/**
+	 * 渲染详情中首个命中位置附近的摘要
+	 */
+	private renderDetailSnippet(el: HTMLElement, detail: string, matches: TextMatches): void {
+		const start = Math.max(0, matches[0][0] - SNIPPET_CONTEXT);
+		const end = Math.min(detail.length, matches[0][1] + SNIPPET_CONTEXT * 2);
+		const snippet = detail.slice(start, end).replace(/\n/g, ' ');
+		const shifted = matches
+			.filter(([from, to]) => from >= start && to <= end)
+			.map(([from, to]): [number, number] => [from - start, to - start]);
+
+		if (start > 0) el.appendText('…');
+		renderMatches(el, snippet, shifted);
+		if (end < detail.length) el.appendText('…');
+	}
+}
@@ -1,19 +1,27 @@
 /**
- * GitHub 数据同步服务
+ * GitHub 同步后端
  *
- * 通过 GitHub Contents API 将 tasks.json 推送到专用私有仓库。
- * 支持防抖推送、离线处理、SHA 冲突检测。
+ * 通过 GitHub Contents API 读写专用私有仓库中的 tasks.json（以文件 SHA 作为版本标识），
+ * 并提供设置向导所需的仓库创建、多文件推送、Token 验证等方法。
  */
 
-import { Notice, requestUrl } from 'obsidian';
+import { requestUrl } from 'obsidian';
 import { Logger } from '../utils/logger';
+import type { TasksJsonFile } from '../data-layer/JsonDataSource';
+import type { GitHubBackendConfig } from '../data-layer/types';
+import {
+	REMOTE_TASKS_FILE,
+	RemoteChangedError,
+	parseTasksFile,
+	serializeForRemote,
+	type ISyncBackend,
+	type ISyncBackendFactory,
+	type RemoteSnapshot,
+	type SyncBackendStatus,
+} from '../data-layer/ISyncBackend';
 
 /** GitHub 同步配置 */
-export interface GitHubSyncConfig {
-	token: string;
-	owner: string;
-	repo: string;
-}
+export type GitHubSyncConfig = Omit<GitHubBackendConfig, 'type'>;
 
 /** GitHub 文件信息 */
 interface GitHubFileInfo {
@@ -28,35 +36,31 @@ interface FileToPush {
 	message: string;
 }
 
+/**
+ * GitHub 同步后端工厂
+ */
+export const gitHubSyncBackendFactory: ISyncBackendFactory = {
+	getType: () => 'github',
+	create: (config) => {
+		if (config.type !== 'github') throw new Error(`配置类型不匹配: ${config.type}`);
+		const service = new GitHubSyncService();
+		service.configure({ token: config.token, owner: config.owner, repo: config.repo });
+		return service;
+	},
+};
+
 /**
  * GitHub 同步服务
  */
-export class GitHubSyncService {
+export class GitHubSyncService implements ISyncBackend {
+	readonly type = 'github' as const;
 	private config: GitHubSyncConfig | null = null;
-	private debounceTimer: ReturnType<typeof setTimeout> | null = null;
-	private readonly DEBOUNCE_MS = 30000; // 30秒防抖
-	private pendingContent: string | null = null;
-	private isSyncing = false;
-	private fileSha: string | null = null;
-
-	// 回调
-	private onSyncSuccess?: (time: string) => void;
-	private onSyncError?: (error: string) => void;
 
 	/**
-	 * 配置同步服务
+	 * 配置仓库与 Token
 	 */
 	configure(config: GitHubSyncConfig): void {
 		this.config = config;
-		this.fileSha = null; // 重置 SHA 缓存
-	}
-
-	/**
-	 * 设置回调
-	 */
-	setCallbacks(onSuccess?: (time: string) => void, onError?: (error: string) => void): void {
-		this.onSyncSuccess = onSuccess;
-		this.onSyncError = onError;
 	}
 
 	/**
@@ -66,121 +70,90 @@ export class GitHubSyncService {
 		return !!(this.config?.token && this.config?.owner && this.config?.repo);
 	}
 
-	/**
-	 * 防抖推送 tasks.json
-	 */
-	schedulePush(tasksJsonContent: string): void {
-		if (!this.isConfigured()) return;
-
-		this.pendingContent = tasksJsonContent;
-
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
-		}
-
-		this.debounceTimer = setTimeout(() => {
-			this.executePush();
-		}, this.DEBOUNCE_MS);
-
-		Logger.debug('GitHubSync', 'Push scheduled (debounce 30s)');
+	describeTarget(): string {
+		return this.config ? `${this.config.owner}/${this.config.repo}` : '';
 	}
 
 	/**
-	 * 立即推送（不防抖）
+	 * 拉取远端 tasks.json（不存在时返回 null）
 	 */
-	async pushNow(tasksJsonContent: string): Promise<void> {
-		if (!this.isConfigured()) {
-			throw new Error('GitHub 同步未配置');
+	async pull(): Promise<RemoteSnapshot | null> {
+		const { token, owner, repo } = this.config!;
+		const url = `https://api.github.com/repos/${owner}/${repo}/contents/${REMOTE_TASKS_FILE}`;
+		const headers = {
+			'Authorization': `Bearer ${token}`,
+			'Accept': 'application/vnd.github.v3+json',
+			'X-GitHub-Api-Version': '2022-11-28',
+		};
+
+		const response = await requestUrl({ url, method: 'GET', headers, throw: false });
+		if (response.status === 404) {
+			return null;
+		}
+		if (response.status !== 200) {
+			throw new Error(`GitHub API error: ${response.status}`);
 		}
 
-		// 取消防抖
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
-			this.debounceTimer = null;
+		let text: string;
+		if (response.json.encoding === 'base64' && response.json.content) {
+			text = decodeURIComponent(escape(atob(response.json.content.replace(/\n/g, ''))));
+		} else {
+			// 超过 1MB 的文件不内联内容，改用 raw 格式获取
+			const raw = await requestUrl({
+				url,
+				method: 'GET',
+				headers: { ...headers, 'Accept': 'application/vnd.github.raw' },
+			});
+			text = raw.text;
 		}
 
-		this.pendingContent = tasksJsonContent;
-		await this.executePush();
+		return { data: parseTasksFile(text), version: response.json.sha };
 	}
 
 	/**
-	 * 执行推送
+	 * 推送 tasks.json（使用拉取时的 SHA，远端已变化时抛出 RemoteChangedError）
 	 */
-	private async executePush(): Promise<void> {
-		if (!this.config || !this.pendingContent) return;
-		if (this.isSyncing) {
-			// 已在同步中，稍后重试
-			Logger.debug('GitHubSync', 'Already syncing, will retry');
-			this.schedulePush(this.pendingContent);
-			return;
-		}
-
-		this.isSyncing = true;
-		const content = this.pendingContent;
-		this.pendingContent = null;
-
+	async push(data: TasksJsonFile, expectedVersion: string | null): Promise<void> {
 		try {
-			// 获取当前文件 SHA（如果文件存在）
-			if (!this.fileSha) {
-				try {
-					const fileInfo = await this.getFile('tasks.json');
-					this.fileSha = fileInfo.sha;
-				} catch {
-					// 文件不存在，首次创建
-					this.fileSha = null;
-				}
-			}
-
-			// 推送文件
 			const result = await this.createOrUpdateFile({
-				path: 'tasks.json',
-				content,
+				path: REMOTE_TASKS_FILE,
+				content: serializeForRemote(data),
 				message: `sync: update tasks ${new Date().toISOString()}`,
-			});
-
-			// 更新缓存的 SHA
-			this.fileSha = result.sha;
-
-			const syncTime = new Date().toISOString();
+			}, expectedVersion);
 			Logger.info('GitHubSync', 'Push successful', { sha: result.sha });
-			this.onSyncSuccess?.(syncTime);
-
 		} catch (error) {
-			const errorMsg = (error as Error).message || '未知错误';
-			Logger.error('GitHubSync', 'Push failed', error);
-			this.onSyncError?.(errorMsg);
-
-			// SHA 冲突：重置 SHA 并重试
+			const errorMsg = (error as Error).message || '';
 			if (errorMsg.includes('409') || errorMsg.includes('conflict')) {
-				Logger.warn('GitHubSync', 'SHA conflict detected, retrying...');
-				this.fileSha = null;
-				this.schedulePush(content);
+				throw new RemoteChangedError('GitHub 409');
 			}
-		} finally {
-			this.isSyncing = false;
+			throw error;
 		}
 	}
 
 	/**
-	 * 刷新：立即执行待处理的推送
+	 * 检查 Token 与仓库
 	 */
-	async flush(): Promise<void> {
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
-			this.debounceTimer = null;
-		}
-		if (this.pendingContent) {
-			await this.executePush();
+	async getStatus(): Promise<SyncBackendStatus> {
+		try {
+			const user = await this.getCurrentUser();
+			if (!(await this.checkRepoExists())) {
+				return { reachable: false, hasRemoteData: false, message: `仓库 ${this.describeTarget()} 不存在或无权访问` };
+			}
+			return { reachable: true, hasRemoteData: await this.hasRemoteTasks(), message: `已登录为 ${user}` };
+		} catch (error) {
+			return { reachable: false, hasRemoteData: false, message: (error as Error).message };
 		}
 	}
 
 	/**
-	 * 销毁服务
+	 * 远端是否已有 tasks.json
 	 */
-	destroy(): void {
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
-			this.debounceTimer = null;
+	async hasRemoteTasks(): Promise<boolean> {
+		try {
+			await this.getFile(REMOTE_TASKS_FILE);
+			return true;
+		} catch {
+			return false;
 		}
 	}
 
@@ -215,7 +188,7 @@ export class GitHubSyncService {
 	/**
 	 * 创建或更新文件
 	 */
-	private async createOrUpdateFile(file: FileToPush): Promise<{ sha: string }> {
+	private async createOrUpdateFile(file: FileToPush, sha: string | null): Promise<{ sha: string }> {
 		const { token, owner, repo } = this.config!;
 
 		// Base64 编码内容
@@ -226,8 +199,8 @@ export class GitHubSyncService {
 			content: contentBase64,
 		};
 
-		if (this.fileSha) {
-			body.sha = this.fileSha;
+		if (sha) {
+			body.sha = sha;
 		}
 
 		const response = await requestUrl({
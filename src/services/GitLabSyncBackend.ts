@@ -0,0 +1,126 @@
+/**
+ * GitLab 同步后端
+ *
+ * 通过 GitLab Repository Files API 读写项目中的 tasks.json，
+ * 以文件最后一次提交的 ID（last_commit_id）作为版本标识。
+ */
+
+import { requestUrl } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type { TasksJsonFile } from '../data-layer/JsonDataSource';
+import type { GitLabBackendConfig } from '../data-layer/types';
+import {
+	REMOTE_TASKS_FILE,
+	RemoteChangedError,
+	parseTasksFile,
+	serializeForRemote,
+	type ISyncBackend,
+	type ISyncBackendFactory,
+	type RemoteSnapshot,
+	type SyncBackendStatus,
+} from '../data-layer/ISyncBackend';
+
+/**
+ * GitLab 同步后端工厂
+ */
+export const gitLabSyncBackendFactory: ISyncBackendFactory = {
+	getType: () => 'gitlab',
+	create: (config) => {
+		if (config.type !== 'gitlab') throw new Error(`配置类型不匹配: ${config.type}`);
+		return new GitLabSyncBackend(config);
+	},
+};
+
+export class GitLabSyncBackend implements ISyncBackend {
+	readonly type = 'gitlab' as const;
+	private config: GitLabBackendConfig;
+
+	constructor(config: GitLabBackendConfig) {
+		this.config = config;
+	}
+
+	isConfigured(): boolean {
+		return !!(this.config.baseUrl && this.config.token && this.config.projectId && this.config.branch);
+	}
+
+	describeTarget(): string {
+		return `${this.config.projectId}@${this.config.branch}`;
+	}
+
+	async pull(): Promise<RemoteSnapshot | null> {
+		const response = await requestUrl({
+			url: `${this.getFileUrl()}?ref=${encodeURIComponent(this.config.branch)}`,
+			method: 'GET',
+			headers: this.getHeaders(),
+			throw: false,
+		});
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`GitLab API error: ${response.status}`);
+		}
+
+		const text = decodeURIComponent(escape(atob(String(response.json.content ?? ''))));
+		return { data: parseTasksFile(text), version: response.json.last_commit_id };
+	}
+
+	async push(data: TasksJsonFile, expectedVersion: string | null): Promise<void> {
+		const body: Record<string, string> = {
+			branch: this.config.branch,
+			commit_message: `sync: update tasks ${new Date().toISOString()}`,
+			encoding: 'base64',
+			content: btoa(unescape(encodeURIComponent(serializeForRemote(data)))),
+		};
+		// last_commit_id 与远端不一致时 GitLab 拒绝更新
+		if (expectedVersion) body.last_commit_id = expectedVersion;
+
+		// 新建文件用 POST，更新已有文件用 PUT
+		const response = await requestUrl({
+			url: this.getFileUrl(),
+			method: expectedVersion ? 'PUT' : 'POST',
+			headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+			throw: false,
+		});
+
+		if (response.status === 400 || response.status === 409) {
+			const message = String(response.json?.message ?? '');
+			if (response.status === 409 || /changed|already exists/i.test(message)) {
+				throw new RemoteChangedError(`GitLab ${response.status}`);
+			}
+		}
+		if (response.status !== 200 && response.status !== 201) {
+			throw new Error(`GitLab API error: ${response.status} - ${response.text}`);
+		}
+		Logger.info('GitLabSync', 'Push successful', { branch: this.config.branch });
+	}
+
+	async getStatus(): Promise<SyncBackendStatus> {
+		try {
+			const response = await requestUrl({
+				url: this.getProjectUrl(),
+				method: 'GET',
+				headers: this.getHeaders(),
+				throw: false,
+			});
+			if (response.status !== 200) {
+				return { reachable: false, hasRemoteData: false, message: `项目不可访问（${response.status}）` };
+			}
+			return { reachable: true, hasRemoteData: (await this.pull()) !== null };
+		} catch (error) {
+			return { reachable: false, hasRemoteData: false, message: (error as Error).message };
+		}
+	}
+
+	private getProjectUrl(): string {
+		const baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+		return `${baseUrl}/api/v4/projects/${encodeURIComponent(this.config.projectId)}`;
+	}
+
+	private getFileUrl(): string {
+		return `${this.getProjectUrl()}/repository/files/${encodeURIComponent(REMOTE_TASKS_FILE)}`;
+	}
+
+	private getHeaders(): Record<string, string> {
+		return { 'PRIVATE-TOKEN': this.config.token };
+	}
+}
@@ -0,0 +1,124 @@
+/**
+ * Gitea 同步后端
+ *
+ * 通过 Gitea（及 Forgejo）Contents API 读写仓库中的 tasks.json，以文件 SHA 作为版本标识。
+ */
+
+import { requestUrl } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type { TasksJsonFile } from '../data-layer/JsonDataSource';
+import type { GiteaBackendConfig } from '../data-layer/types';
+import {
+	REMOTE_TASKS_FILE,
+	RemoteChangedError,
+	parseTasksFile,
+	serializeForRemote,
+	type ISyncBackend,
+	type ISyncBackendFactory,
+	type RemoteSnapshot,
+	type SyncBackendStatus,
+} from '../data-layer/ISyncBackend';
+
+/**
+ * Gitea 同步后端工厂
+ */
+export const giteaSyncBackendFactory: ISyncBackendFactory = {
+	getType: () => 'gitea',
+	create: (config) => {
+		if (config.type !== 'gitea') throw new Error(`配置类型不匹配: ${config.type}`);
+		return new GiteaSyncBackend(config);
+	},
+};
+
+export class GiteaSyncBackend implements ISyncBackend {
+	readonly type = 'gitea' as const;
+	private config: GiteaBackendConfig;
+
+	constructor(config: GiteaBackendConfig) {
+		this.config = config;
+	}
+
+	isConfigured(): boolean {
+		return !!(this.config.baseUrl && this.config.token && this.config.owner && this.config.repo);
+	}
+
+	describeTarget(): string {
+		return `${this.config.owner}/${this.config.repo}`;
+	}
+
+	async pull(): Promise<RemoteSnapshot | null> {
+		const branch = this.config.branch ? `?ref=${encodeURIComponent(this.config.branch)}` : '';
+		const response = await requestUrl({
+			url: this.getFileUrl() + branch,
+			method: 'GET',
+			headers: this.getHeaders(),
+			throw: false,
+		});
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Gitea API error: ${response.status}`);
+		}
+
+		const text = decodeURIComponent(escape(atob(String(response.json.content ?? '').replace(/\n/g, ''))));
+		return { data: parseTasksFile(text), version: response.json.sha };
+	}
+
+	async push(data: TasksJsonFile, expectedVersion: string | null): Promise<void> {
+		const body: Record<string, string> = {
+			message: `sync: update tasks ${new Date().toISOString()}`,
+			content: btoa(unescape(encodeURIComponent(serializeForRemote(data)))),
+		};
+		if (this.config.branch) body.branch = this.config.branch;
+		if (expectedVersion) body.sha = expectedVersion;
+
+		// 新建文件用 POST，更新已有文件用 PUT
+		const response = await requestUrl({
+			url: this.getFileUrl(),
+			method: expectedVersion ? 'PUT' : 'POST',
+			headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+			throw: false,
+		});
+
+		// SHA 不匹配（409/422）或文件已被其他设备创建（422）
+		if (response.status === 409 || response.status === 422) {
+			throw new RemoteChangedError(`Gitea ${response.status}`);
+		}
+		if (response.status !== 200 && response.status !== 201) {
+			throw new Error(`Gitea API error: ${response.status} - ${response.text}`);
+		}
+		Logger.info('GiteaSync', 'Push successful', { sha: response.json?.content?.sha });
+	}
+
+	async getStatus(): Promise<SyncBackendStatus> {
+		try {
+			const response = await requestUrl({
+				url: `${this.getApiBase()}/repos/${this.config.owner}/${this.config.repo}`,
+				method: 'GET',
+				headers: this.getHeaders(),
+				throw: false,
+			});
+			if (response.status !== 200) {
+				return { reachable: false, hasRemoteData: false, message: `仓库不可访问（${response.status}）` };
+			}
+			return { reachable: true, hasRemoteData: (await this.pull()) !== null };
+		} catch (error) {
+			return { reachable: false, hasRemoteData: false, message: (error as Error).message };
+		}
+	}
+
+	private getApiBase(): string {
+		return `${this.config.baseUrl.replace(/\/+$/, '')}/api/v1`;
+	}
+
+	private getFileUrl(): string {
+		return `${this.getApiBase()}/repos/${this.config.owner}/${this.config.repo}/contents/${REMOTE_TASKS_FILE}`;
+	}
+
+	private getHeaders(): Record<string, string> {
+		return {
+			'Authorization': `token ${this.config.token}`,
+			'Accept': 'application/json',
+		};
+	}
+}
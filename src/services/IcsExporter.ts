@@ -0,0 +1,98 @@
+/**
+ * iCalendar 导出服务
+ *
+ * 将活跃任务导出为库内的 .ics 文件；开启自动导出后，任务变更时防抖重写该文件，
+ * 可配合文件同步工具发布为其他日历应用订阅的地址。
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import type { GCTask } from '../types';
+import { buildICalendar } from '../tasks/icalendar';
+import { Logger } from '../utils/logger';
+
+/** iCalendar 导出配置 */
+export interface IcsExportConfig {
+	/** 任务变更时自动导出 */
+	autoExport: boolean;
+	/** 导出文件路径（相对库根目录） */
+	filePath: string;
+}
+
+/** 日历名称 */
+const CALENDAR_NAME = 'Gantt Calendar';
+
+/**
+ * iCalendar 导出器
+ */
+export class IcsExporter {
+	private app: App;
+	private getTasks: () => GCTask[];
+	private config: IcsExportConfig | null = null;
+
+	private exportTimer: number | null = null;
+	private readonly EXPORT_DEBOUNCE_MS = 2000;
+
+	constructor(app: App, getTasks: () => GCTask[]) {
+		this.app = app;
+		this.getTasks = getTasks;
+	}
+
+	/**
+	 * 配置导出器
+	 */
+	configure(config: IcsExportConfig): void {
+		this.config = config;
+		if (!config.autoExport) this.cancelScheduledExport();
+	}
+
+	/**
+	 * 任务变更后调用：开启自动导出时防抖写入
+	 */
+	scheduleExport(): void {
+		if (!this.config?.autoExport) return;
+		this.cancelScheduledExport();
+		this.exportTimer = window.setTimeout(() => {
+			this.exportTimer = null;
+			this.exportNow().catch(error => {
+				Logger.error('IcsExporter', 'Auto export failed:', error);
+			});
+		}, this.EXPORT_DEBOUNCE_MS);
+	}
+
+	/**
+	 * 立即导出
+	 * @returns 导出文件路径
+	 */
+	async exportNow(): Promise<string> {
+		const filePath = normalizePath(this.config?.filePath.trim() || 'tasks.ics');
+		const content = buildICalendar(this.getTasks(), { calendarName: CALENDAR_NAME });
+
+		const vault = this.app.vault;
+		const file = vault.getAbstractFileByPath(filePath);
+		if (file instanceof TFile) {
+			await vault.modify(file, content);
+		} else if (file) {
+			throw new Error(`导出路径是文件夹: ${filePath}`);
+		} else {
+			const folder = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+			if (folder && !vault.getAbstractFileByPath(folder)) {
+				await vault.createFolder(folder);
+			}
+			await vault.create(filePath, content);
+		}
+
+		Logger.debug('IcsExporter', `Exported ${filePath}`);
+		return filePath;
+	}
+
+	destroy(): void {
+		this.cancelScheduledExport();
+	}
+
+	private cancelScheduledExport(): void {
+		if (this.exportTimer !== null) {
+			clearTimeout(this.exportTimer);
+			this.exportTimer = null;
+		}
+	}
+}
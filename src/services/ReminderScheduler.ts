@@ -0,0 +1,288 @@
+/**
+ * 本地提醒通知服务
+ *
+ * 在 Obsidian 内定时检查到期的提醒（及可选的到期待办），
+ * 通过 Notice（可选系统通知）提示，并支持稍后提醒/延期。
+ * 已通知记录持久化到 data/notifications.json，重载后不会重复提醒。
+ */
+
+import { App, Notice } from 'obsidian';
+import type { GCTask } from '../types';
+import { Logger } from '../utils/logger';
+import { ReminderNoticeClasses } from '../utils/bem';
+import { formatTaskDate, parseTime, withTime } from '../dateUtils/dateUtilsIndex';
+import { postponeTask } from '../contextMenu/commands/postponeTask';
+
+/** 本地提醒配置 */
+export interface ReminderNotificationConfig {
+	enabled: boolean;
+	/** 同时发送系统通知 */
+	systemNotification: boolean;
+	/** 待办到期时也提醒 */
+	includeDueTodos: boolean;
+	/** 全天任务的提醒时刻（HH:mm） */
+	allDayTime: string;
+	/** 「稍后提醒」间隔（分钟） */
+	snoozeMinutes: number;
+}
+
+/** 通知记录文件 */
+interface NotificationRecordFile {
+	version: number;
+	/** 已通知：`${taskId}@${到期时刻}` → 通知时间 */
+	notified: Record<string, number>;
+	/** 稍后提醒：`${taskId}@${到期时刻}` → 再次提醒时间 */
+	snoozed: Record<string, number>;
+}
+
+/**
+ * 本地提醒调度器
+ */
+export class ReminderScheduler {
+	private app: App;
+	private getTasks: () => GCTask[];
+	private config: ReminderNotificationConfig | null = null;
+
+	private timer: number | null = null;
+	private readonly CHECK_INTERVAL_MS = 30 * 1000;
+	/** 超过此时长的过期项不再补发通知 */
+	private readonly LOOKBACK_MS = 24 * 60 * 60 * 1000;
+	/** 通知记录保留时长 */
+	private readonly RECORD_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+	private record: NotificationRecordFile = { version: 1, notified: {}, snoozed: {} };
+	private recordLoaded = false;
+	private isChecking = false;
+
+	// 文件路径
+	private readonly DATA_DIR = 'data';
+	private readonly RECORD_FILE = 'notifications.json';
+
+	constructor(app: App, getTasks: () => GCTask[]) {
+		this.app = app;
+		this.getTasks = getTasks;
+	}
+
+	/**
+	 * 配置调度器
+	 */
+	configure(config: ReminderNotificationConfig): void {
+		this.config = config;
+	}
+
+	/**
+	 * 启动定时检查（立即检查一次）
+	 */
+	async start(): Promise<void> {
+		if (!this.config?.enabled) return;
+		if (!this.recordLoaded) {
+			await this.loadRecord();
+		}
+		if (this.timer === null) {
+			this.timer = window.setInterval(() => {
+				this.check().catch(error => Logger.error('ReminderScheduler', 'Check failed', error));
+			}, this.CHECK_INTERVAL_MS);
+		}
+		if (this.config.systemNotification) {
+			this.requestSystemPermission();
+		}
+		await this.check();
+	}
+
+	/**
+	 * 销毁服务
+	 */
+	destroy(): void {
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * 检查到期任务并发送通知
+	 */
+	async check(): Promise<void> {
+		if (!this.config?.enabled || this.isChecking) return;
+		this.isChecking = true;
+
+		try {
+			const now = Date.now();
+			let recordChanged = this.pruneRecord(now);
+			const activeKeys = new Set<string>();
+
+			for (const task of this.getTasks()) {
+				const dueAt = this.getDueMoment(task);
+				if (dueAt === null) continue;
+
+				const key = `${task.id}@${dueAt}`;
+				activeKeys.add(key);
+				const snoozedUntil = this.record.snoozed[key];
+				if (snoozedUntil !== undefined) {
+					if (snoozedUntil > now) continue;
+					delete this.record.snoozed[key];
+				} else {
+					if (this.record.notified[key] !== undefined) continue;
+					if (dueAt > now || now - dueAt > this.LOOKBACK_MS) continue;
+				}
+
+				this.record.notified[key] = now;
+				recordChanged = true;
+				this.notify(task, key);
+			}
+
+			if (this.pruneSnoozed(activeKeys)) {
+				recordChanged = true;
+			}
+
+			if (recordChanged) {
+				await this.saveRecord();
+			}
+		} finally {
+			this.isChecking = false;
+		}
+	}
+
+	/**
+	 * 计算任务的提醒时刻（毫秒），不需要提醒时返回 null
+	 */
+	private getDueMoment(task: GCTask): number | null {
+		if (!this.config || !task.dueDate) return null;
+		if (task.archived || task.completed || task.cancelled) return null;
+		if (task.status === 'done' || task.status === 'canceled') return null;
+		if (task.type !== 'reminder' && !this.config.includeDueTodos) return null;
+
+		if (task.hasDueTime) return task.dueDate.getTime();
+
+		const time = parseTime(this.config.allDayTime) ?? { hours: 9, minutes: 0 };
+		return withTime(task.dueDate, time.hours, time.minutes).getTime();
+	}
+
+	/**
+	 * 发送通知（Notice + 可选系统通知）
+	 */
+	private notify(task: GCTask, key: string): void {
+		const title = task.type === 'reminder' ? '⏰ 提醒' : '📅 待办到期';
+		const description = task.description || '无标题';
+		const dueText = task.dueDate ? formatTaskDate(task.dueDate, task.hasDueTime) : '';
+
+		const fragment = document.createDocumentFragment();
+		const container = fragment.createDiv(ReminderNoticeClasses.block);
+		container.createDiv({ text: `${title}：${description}`, cls: ReminderNoticeClasses.elements.title });
+		if (dueText) {
+			container.createDiv({ text: dueText, cls: ReminderNoticeClasses.elements.meta });
+		}
+		const actions = container.createDiv(ReminderNoticeClasses.elements.actions);
+
+		const notice = new Notice(fragment, 0);
+		const addAction = (label: string, handler: () => Promise<void> | void) => {
+			const btn = actions.createEl('button', { text: label, cls: ReminderNoticeClasses.elements.action });
+			btn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				notice.hide();
+				Promise.resolve(handler()).catch(error =>
+					Logger.error('ReminderScheduler', 'Notice action failed', error));
+			});
+		};
+
+		const snoozeMinutes = this.config?.snoozeMinutes || 10;
+		addAction(`${snoozeMinutes} 分钟后`, () => this.snooze(key, snoozeMinutes));
+		addAction('推迟 1 天', () => postponeTask(this.app, task, 1, () => undefined));
+		addAction('知道了', () => undefined);
+
+		if (this.config?.systemNotification) {
+			this.sendSystemNotification(`${title}：${description}`, dueText);
+		}
+
+		Logger.debug('ReminderScheduler', 'Notified', { taskId: task.id, key });
+	}
+
+	/**
+	 * 稍后提醒（不修改任务，仅在记录中延后）
+	 */
+	private async snooze(key: string, minutes: number): Promise<void> {
+		this.record.snoozed[key] = Date.now() + minutes * 60 * 1000;
+		await this.saveRecord();
+	}
+
+	private requestSystemPermission(): void {
+		if (typeof Notification === 'undefined') return;
+		if (Notification.permission === 'default') {
+			Notification.requestPermission().catch(error =>
+				Logger.warn('ReminderScheduler', 'Notification permission request failed', error));
+		}
+	}
+
+	private sendSystemNotification(title: string, body: string): void {
+		if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+		try {
+			const notification = new Notification(title, { body, silent: false });
+			notification.onclick = () => window.focus();
+		} catch (error) {
+			Logger.warn('ReminderScheduler', 'System notification failed', error);
+		}
+	}
+
+	// ==================== 记录持久化 ====================
+
+	private getRecordFilePath(): string {
+		const pluginDir = this.app.vault.configDir + '/plugins/obsidian-gantt-calendar';
+		return `${pluginDir}/${this.DATA_DIR}/${this.RECORD_FILE}`;
+	}
+
+	/**
+	 * 清理过期记录
+	 * @returns 是否有变更
+	 */
+	private pruneRecord(now: number): boolean {
+		let changed = false;
+		for (const [key, time] of Object.entries(this.record.notified)) {
+			if (now - time > this.RECORD_RETENTION_MS) {
+				delete this.record.notified[key];
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	/**
+	 * 清理不再需要提醒的稍后提醒记录（任务已删除、完成或改期）
+	 * @returns 是否有变更
+	 */
+	private pruneSnoozed(activeKeys: Set<string>): boolean {
+		let changed = false;
+		for (const key of Object.keys(this.record.snoozed)) {
+			if (!activeKeys.has(key)) {
+				delete this.record.snoozed[key];
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	private async loadRecord(): Promise<void> {
+		const filePath = this.getRecordFilePath();
+		try {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(filePath)) {
+				const data = JSON.parse(await adapter.read(filePath)) as Partial<NotificationRecordFile>;
+				this.record = {
+					version: 1,
+					notified: data.notified ?? {},
+					snoozed: data.snoozed ?? {},
+				};
+			}
+		} catch (error) {
+			Logger.error('ReminderScheduler', 'Failed to read notification record:', error);
+		}
+		this.recordLoaded = true;
+	}
+
+	private async saveRecord(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(this.getRecordFilePath(), JSON.stringify(this.record, null, 2));
+		} catch (error) {
+			Logger.error('ReminderScheduler', 'Failed to save notification record:', error);
+		}
+	}
+}
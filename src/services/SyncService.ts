@@ -0,0 +1,345 @@
+/**
+ * 任务数据同步服务
+ *
+ * 与同步后端（GitHub、Gitea、GitLab、WebDAV、库内文件夹）中的 tasks.json 双向同步：
+ * 先拉取远端，与本地按上次同步的基准快照三方合并，再推送合并结果。
+ * 支持防抖同步、同步方向、冲突解决策略、远端并发写入时重新拉取合并。
+ */
+
+import { Logger } from '../utils/logger';
+import type { TasksJsonFile } from '../data-layer/JsonDataSource';
+import type { ConflictDecision, ConflictResolution, SyncDirection, TaskConflict } from '../data-layer/types';
+import { RemoteChangedError, type ISyncBackend } from '../data-layer/ISyncBackend';
+import { mergeTaskFiles } from '../data-layer/TaskMerger';
+
+/** 同步选项 */
+export interface SyncOptions {
+	/** 同步方向（默认双向） */
+	syncDirection?: SyncDirection;
+	/** 冲突解决策略（默认较新者优先） */
+	conflictResolution?: ConflictResolution;
+}
+
+/**
+ * 同步数据提供者（由 TaskStore 实现）
+ */
+export interface SyncDataProvider {
+	/** 获取本地数据 */
+	getLocalData(): Promise<TasksJsonFile>;
+	/** 本地数据修订号（每次变更递增，用于检测同步期间的本地修改） */
+	getLocalRevision(): number;
+	/** 将合并结果应用到本地 */
+	applyMergedData(data: TasksJsonFile): Promise<void>;
+	/** 读取上次同步成功时的基准快照 */
+	loadBase(): Promise<TasksJsonFile | null>;
+	/** 保存基准快照 */
+	saveBase(data: TasksJsonFile): Promise<void>;
+}
+
+/** 一次同步的结果 */
+export interface SyncResult {
+	/** 本地应用了远端的变更 */
+	pulled: boolean;
+	/** 推送了合并结果 */
+	pushed: boolean;
+	/** 按策略自动解决的冲突数 */
+	resolvedCount: number;
+	/** 待手动解决的冲突 */
+	conflicts: TaskConflict[];
+}
+
+/**
+ * 手动冲突解决器（manual 策略下由界面实现）
+ * @returns 每个任务的解决方式；用户取消时返回 null
+ */
+export type ConflictResolver = (conflicts: TaskConflict[]) => Promise<Map<string, ConflictDecision> | null>;
+
+/**
+ * 生成同步结果的提示文本
+ */
+export function describeSyncResult(result: SyncResult): string {
+	if (result.conflicts.length > 0) {
+		return `⚠️ ${result.conflicts.length} 个任务存在冲突，需要手动解决`;
+	}
+	const parts: string[] = [];
+	if (result.pulled) parts.push('已合并远端修改');
+	if (result.pushed) parts.push('已推送本地修改');
+	if (result.resolvedCount > 0) parts.push(`自动解决 ${result.resolvedCount} 个冲突`);
+	return parts.length > 0 ? `同步完成：${parts.join('，')}` : '已是最新，无需同步';
+}
+
+/**
+ * 同步服务（每个启用的后端一个实例）
+ */
+export class SyncService {
+	private backend: ISyncBackend | null = null;
+	private options: SyncOptions = {};
+	private provider: SyncDataProvider | null = null;
+	private conflictResolver: ConflictResolver | null = null;
+	private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+	private readonly DEBOUNCE_MS = 30000; // 30秒防抖
+	private readonly MAX_CONFLICT_RETRIES = 3;
+	private syncPending = false;
+	private isSyncing = false;
+	/** 因本地修改而推迟的同步中用户已做的冲突选择，下次同步沿用 */
+	private pendingDecisions: Map<string, ConflictDecision> | null = null;
+
+	// 回调
+	private onSyncSuccess?: (time: string) => void;
+	private onSyncError?: (error: string) => void;
+
+	/**
+	 * 配置同步后端与选项
+	 */
+	configure(backend: ISyncBackend, options: SyncOptions = {}): void {
+		this.backend = backend;
+		this.options = options;
+	}
+
+	/**
+	 * 设置本地数据提供者（双向同步必需）
+	 */
+	setDataProvider(provider: SyncDataProvider): void {
+		this.provider = provider;
+	}
+
+	/**
+	 * 设置手动冲突解决器（未设置时冲突保留待处理）
+	 */
+	setConflictResolver(resolver: ConflictResolver | null): void {
+		this.conflictResolver = resolver;
+	}
+
+	/**
+	 * 设置回调
+	 */
+	setCallbacks(onSuccess?: (time: string) => void, onError?: (error: string) => void): void {
+		this.onSyncSuccess = onSuccess;
+		this.onSyncError = onError;
+	}
+
+	/**
+	 * 是否已配置
+	 */
+	isConfigured(): boolean {
+		return this.backend?.isConfigured() ?? false;
+	}
+
+	/**
+	 * 当前后端
+	 */
+	getBackend(): ISyncBackend | null {
+		return this.backend;
+	}
+
+	/**
+	 * 防抖同步（本地变更后调用）
+	 */
+	scheduleSync(): void {
+		if (!this.isConfigured()) return;
+
+		this.syncPending = true;
+
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+		}
+
+		this.debounceTimer = setTimeout(() => {
+			this.debounceTimer = null;
+			this.executeSync();
+		}, this.DEBOUNCE_MS);
+
+		Logger.debug('SyncService', 'Sync scheduled (debounce 30s)', { backend: this.backend?.type });
+	}
+
+	/**
+	 * 立即同步（不防抖，失败时抛出异常）
+	 */
+	async syncNow(): Promise<SyncResult> {
+		if (!this.isConfigured()) {
+			throw new Error('同步后端未配置');
+		}
+
+		// 取消防抖
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+			this.debounceTimer = null;
+		}
+
+		if (this.isSyncing) {
+			throw new Error('正在同步中，请稍后再试');
+		}
+
+		this.syncPending = false;
+		this.isSyncing = true;
+		try {
+			const result = await this.performSync();
+			this.reportResult(result);
+			return result;
+		} catch (error) {
+			this.onSyncError?.((error as Error).message || '未知错误');
+			throw error;
+		} finally {
+			this.isSyncing = false;
+		}
+	}
+
+	/**
+	 * 执行防抖触发的同步（错误通过回调报告）
+	 */
+	private async executeSync(): Promise<void> {
+		if (!this.backend || !this.syncPending) return;
+		if (this.isSyncing) {
+			// 已在同步中，稍后重试
+			Logger.debug('SyncService', 'Already syncing, will retry');
+			this.scheduleSync();
+			return;
+		}
+
+		this.syncPending = false;
+		this.isSyncing = true;
+
+		try {
+			const result = await this.performSync();
+			this.reportResult(result);
+		} catch (error) {
+			const errorMsg = (error as Error).message || '未知错误';
+			Logger.error('SyncService', 'Sync failed', error);
+			this.onSyncError?.(errorMsg);
+		} finally {
+			this.isSyncing = false;
+		}
+	}
+
+	/**
+	 * 报告同步结果
+	 */
+	private reportResult(result: SyncResult): void {
+		if (result.conflicts.length > 0) {
+			this.onSyncError?.(`${result.conflicts.length} 个任务在本地和远端都被修改，需要手动解决冲突`);
+			return;
+		}
+		if (result.pulled || result.pushed) {
+			this.onSyncSuccess?.(new Date().toISOString());
+		}
+	}
+
+	/**
+	 * 拉取 → 合并 → 推送（远端并发写入时重新拉取合并）
+	 */
+	private async performSync(): Promise<SyncResult> {
+		if (!this.provider) {
+			throw new Error('同步数据提供者未设置');
+		}
+		if (!this.backend) {
+			throw new Error('同步后端未配置');
+		}
+		const provider = this.provider;
+		const backend = this.backend;
+		const direction = this.options.syncDirection ?? 'bidirectional';
+		const strategy = this.options.conflictResolution ?? 'newest-win';
+		// 手动选择在重试间（包括推迟到下次的同步）保留，只对新出现的冲突再次询问
+		const decisions = this.pendingDecisions ?? new Map<string, ConflictDecision>();
+		this.pendingDecisions = null;
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				const revision = provider.getLocalRevision();
+				const local = await provider.getLocalData();
+				const snapshot = await backend.pull();
+
+				// 仅拉取模式从不写入远端：远端尚无数据时无事可做
+				if (!snapshot && direction === 'import-only') {
+					Logger.info('SyncService', 'Remote is empty, nothing to import', { backend: backend.type });
+					return { pulled: false, pushed: false, resolvedCount: 0, conflicts: [] };
+				}
+
+				// 远端尚无数据或仅推送：以本地为准
+				if (!snapshot || direction === 'export-only') {
+					await backend.push(local, snapshot?.version ?? null);
+					await provider.saveBase(local);
+					Logger.info('SyncService', 'Pushed local tasks', { backend: backend.type, direction });
+					return { pulled: false, pushed: true, resolvedCount: 0, conflicts: [] };
+				}
+
+				const remote = snapshot.data;
+				const base = await provider.loadBase();
+				let result = mergeTaskFiles(base, local, remote, strategy, decisions);
+
+				if (result.conflicts.length > 0 && this.conflictResolver) {
+					const chosen = await this.conflictResolver(result.conflicts);
+					if (chosen) {
+						chosen.forEach((decision, taskId) => decisions.set(taskId, decision));
+						result = mergeTaskFiles(base, local, remote, strategy, decisions);
+					} else {
+						Logger.info('SyncService', 'Conflict resolution cancelled');
+					}
+				}
+
+				if (result.localChanged) {
+					// 合并期间本地有新修改：放弃本次结果，用已有的冲突选择重新合并
+					if (provider.getLocalRevision() !== revision) {
+						if (attempt < this.MAX_CONFLICT_RETRIES) {
+							Logger.debug('SyncService', 'Local data changed during sync, merging again');
+							continue;
+						}
+						Logger.debug('SyncService', 'Local data keeps changing, rescheduling');
+						this.pendingDecisions = decisions;
+						this.scheduleSync();
+						return { pulled: false, pushed: false, resolvedCount: 0, conflicts: [] };
+					}
+					await provider.applyMergedData(result.merged);
+				}
+
+				// 存在未解决冲突（或用户取消）：不推送、不更新基准，等待下次同步处理
+				if (result.conflicts.length > 0) {
+					Logger.warn('SyncService', `${result.conflicts.length} unresolved conflicts`);
+					return { pulled: result.localChanged, pushed: false, resolvedCount: result.resolvedCount, conflicts: result.conflicts };
+				}
+
+				const shouldPush = direction === 'bidirectional' && result.remoteChanged;
+				if (shouldPush) {
+					await backend.push(result.merged, snapshot.version);
+				}
+				await provider.saveBase(direction === 'import-only' ? remote : result.merged);
+
+				Logger.info('SyncService', 'Sync complete', {
+					backend: backend.type,
+					pulled: result.localChanged,
+					pushed: shouldPush,
+					resolved: result.resolvedCount,
+				});
+				return { pulled: result.localChanged, pushed: shouldPush, resolvedCount: result.resolvedCount, conflicts: [] };
+			} catch (error) {
+				if (error instanceof RemoteChangedError && attempt < this.MAX_CONFLICT_RETRIES) {
+					Logger.warn('SyncService', 'Remote changed during push, pulling again...');
+					continue;
+				}
+				throw error;
+			}
+		}
+	}
+
+	/**
+	 * 刷新：立即执行待处理的同步
+	 */
+	async flush(): Promise<void> {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+			this.debounceTimer = null;
+		}
+		if (this.syncPending) {
+			await this.executeSync();
+		}
+	}
+
+	/**
+	 * 销毁服务
+	 */
+	destroy(): void {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+			this.debounceTimer = null;
+		}
+	}
+}
@@ -0,0 +1,46 @@
+/**
+ * 任务列表导出服务
+ *
+ * 将任务视图当前筛选出的任务（按当前排序）写入库内的 CSV / JSON 文件。
+ */
+
+import { App, normalizePath } from 'obsidian';
+import type { GCTask } from '../types';
+import { buildTasksCsv, buildTasksJson } from '../tasks/taskExport';
+import { Logger } from '../utils/logger';
+
+/** 导出格式 */
+export type TaskListExportFormat = 'csv' | 'json';
+
+/** 导出文件夹 */
+const EXPORT_FOLDER = 'GanttCalendar/exports';
+
+/**
+ * 导出任务列表到新文件
+ * @returns 导出文件路径
+ */
+export async function exportTaskList(
+	app: App,
+	tasks: GCTask[],
+	format: TaskListExportFormat,
+	now: Date = new Date()
+): Promise<string> {
+	const content = format === 'csv' ? buildTasksCsv(tasks) : buildTasksJson(tasks, now);
+
+	const pad = (n: number) => String(n).padStart(2, '0');
+	const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-` +
+		`${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+
+	const vault = app.vault;
+	if (!vault.getAbstractFileByPath(EXPORT_FOLDER)) {
+		await vault.createFolder(EXPORT_FOLDER);
+	}
+	let filePath = normalizePath(`${EXPORT_FOLDER}/tasks-${stamp}.${format}`);
+	for (let n = 2; vault.getAbstractFileByPath(filePath); n++) {
+		filePath = normalizePath(`${EXPORT_FOLDER}/tasks-${stamp}-${n}.${format}`);
+	}
+	await vault.create(filePath, content);
+
+	Logger.debug('TaskListExporter', `Exported ${tasks.length} task(s) to ${filePath}`);
+	return filePath;
+}
@@ -0,0 +1,106 @@
+/**
+ * 库内文件夹同步后端
+ *
+ * 将 tasks.json 写入库中的普通文件夹，由 Obsidian Sync、Syncthing 等文件同步工具在设备间传输；
+ * 以文件修改时间与大小作为版本标识。
+ */
+
+import { App, normalizePath } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type { TasksJsonFile } from '../data-layer/JsonDataSource';
+import type { VaultFolderBackendConfig } from '../data-layer/types';
+import {
+	REMOTE_TASKS_FILE,
+	RemoteChangedError,
+	parseTasksFile,
+	serializeForRemote,
+	type ISyncBackend,
+	type ISyncBackendFactory,
+	type RemoteSnapshot,
+	type SyncBackendStatus,
+} from '../data-layer/ISyncBackend';
+
+/**
+ * 库内文件夹同步后端工厂
+ */
+export function createVaultFolderSyncBackendFactory(app: App): ISyncBackendFactory {
+	return {
+		getType: () => 'vault-folder',
+		create: (config) => {
+			if (config.type !== 'vault-folder') throw new Error(`配置类型不匹配: ${config.type}`);
+			return new VaultFolderSyncBackend(app, config);
+		},
+	};
+}
+
+export class VaultFolderSyncBackend implements ISyncBackend {
+	readonly type = 'vault-folder' as const;
+	private app: App;
+	private config: VaultFolderBackendConfig;
+
+	constructor(app: App, config: VaultFolderBackendConfig) {
+		this.app = app;
+		this.config = config;
+	}
+
+	isConfigured(): boolean {
+		return !!this.config.folder.trim();
+	}
+
+	describeTarget(): string {
+		return this.getFilePath();
+	}
+
+	async pull(): Promise<RemoteSnapshot | null> {
+		const filePath = this.getFilePath();
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(filePath))) return null;
+
+		const text = await adapter.read(filePath);
+		return { data: parseTasksFile(text), version: await this.getVersion() };
+	}
+
+	async push(data: TasksJsonFile, expectedVersion: string | null): Promise<void> {
+		// 拉取后文件被同步工具更新：重新合并
+		if ((await this.getVersion()) !== expectedVersion) {
+			throw new RemoteChangedError(this.getFilePath());
+		}
+
+		const adapter = this.app.vault.adapter;
+		const folder = this.getFolderPath();
+		if (!(await adapter.exists(folder))) {
+			await adapter.mkdir(folder);
+		}
+		await adapter.write(this.getFilePath(), serializeForRemote(data));
+		Logger.info('VaultFolderSync', 'Push successful', { path: this.getFilePath() });
+	}
+
+	async getStatus(): Promise<SyncBackendStatus> {
+		try {
+			const hasRemoteData = await this.app.vault.adapter.exists(this.getFilePath());
+			return {
+				reachable: true,
+				hasRemoteData,
+				message: hasRemoteData ? undefined : '文件不存在，首次同步时自动创建',
+			};
+		} catch (error) {
+			return { reachable: false, hasRemoteData: false, message: (error as Error).message };
+		}
+	}
+
+	/**
+	 * 当前文件版本（文件不存在时为 null）
+	 */
+	private async getVersion(): Promise<string | null> {
+		const stat = await this.app.vault.adapter.stat(this.getFilePath());
+		return stat ? `${stat.mtime}-${stat.size}` : null;
+	}
+
+	private getFolderPath(): string {
+		return normalizePath(this.config.folder.trim());
+	}
+
+	private getFilePath(): string {
+		return normalizePath(`${this.getFolderPath()}/${REMOTE_TASKS_FILE}`);
+	}
+}
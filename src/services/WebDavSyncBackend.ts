@@ -0,0 +1,178 @@
+/**
+ * WebDAV 同步后端
+ *
+ * 读写 WebDAV 目录中的 tasks.json（坚果云、Nextcloud 等），
+ * 以 ETag 作为版本标识，推送时通过 If-Match / If-None-Match 检测并发写入。
+ * 服务器不返回 ETag 时退回 Last-Modified（If-Unmodified-Since），两者都没有时无条件覆盖。
+ */
+
+import { requestUrl, type RequestUrlResponse } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type { TasksJsonFile } from '../data-layer/JsonDataSource';
+import type { WebDavBackendConfig } from '../data-layer/types';
+import {
+	REMOTE_TASKS_FILE,
+	RemoteChangedError,
+	parseTasksFile,
+	serializeForRemote,
+	type ISyncBackend,
+	type ISyncBackendFactory,
+	type RemoteSnapshot,
+	type SyncBackendStatus,
+} from '../data-layer/ISyncBackend';
+
+/** 版本标识前缀：取自 Last-Modified 而非 ETag */
+const LAST_MODIFIED_PREFIX = 'last-modified:';
+/** 远端文件存在但服务器未提供任何版本信息 */
+const UNVERSIONED = 'unversioned';
+
+/**
+ * WebDAV 同步后端工厂
+ */
+export const webDavSyncBackendFactory: ISyncBackendFactory = {
+	getType: () => 'webdav',
+	create: (config) => {
+		if (config.type !== 'webdav') throw new Error(`配置类型不匹配: ${config.type}`);
+		return new WebDavSyncBackend(config);
+	},
+};
+
+export class WebDavSyncBackend implements ISyncBackend {
+	readonly type = 'webdav' as const;
+	private config: WebDavBackendConfig;
+
+	constructor(config: WebDavBackendConfig) {
+		this.config = config;
+	}
+
+	isConfigured(): boolean {
+		return !!this.config.url;
+	}
+
+	describeTarget(): string {
+		return this.getFolderUrl();
+	}
+
+	async pull(): Promise<RemoteSnapshot | null> {
+		const response = await requestUrl({
+			url: this.getFileUrl(),
+			method: 'GET',
+			headers: this.getHeaders(),
+			throw: false,
+		});
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`WebDAV error: ${response.status}`);
+		}
+		return { data: parseTasksFile(response.text), version: getVersion(response) };
+	}
+
+	async push(data: TasksJsonFile, expectedVersion: string | null): Promise<void> {
+		const put = () => requestUrl({
+			url: this.getFileUrl(),
+			method: 'PUT',
+			headers: {
+				...this.getHeaders(),
+				'Content-Type': 'application/json; charset=utf-8',
+				...getPreconditionHeaders(expectedVersion),
+			},
+			body: serializeForRemote(data),
+			throw: false,
+		});
+
+		let response = await put();
+		if (response.status === 409 && !expectedVersion) {
+			// 目录不存在：创建后重试
+			await this.createFolder();
+			response = await put();
+		}
+
+		if (response.status === 412) {
+			throw new RemoteChangedError('WebDAV 412');
+		}
+		if (response.status < 200 || response.status >= 300) {
+			throw new Error(`WebDAV error: ${response.status}`);
+		}
+		Logger.info('WebDavSync', 'Push successful', { etag: getHeader(response, 'etag') });
+	}
+
+	async getStatus(): Promise<SyncBackendStatus> {
+		try {
+			const response = await requestUrl({
+				url: this.getFolderUrl() + '/',
+				method: 'PROPFIND',
+				headers: { ...this.getHeaders(), 'Depth': '0' },
+				throw: false,
+			});
+			if (response.status === 401 || response.status === 403) {
+				return { reachable: false, hasRemoteData: false, message: '认证失败，请检查用户名和密码' };
+			}
+			if (response.status === 404) {
+				return { reachable: true, hasRemoteData: false, message: '目录不存在，首次同步时自动创建' };
+			}
+			if (response.status !== 207 && response.status !== 200) {
+				return { reachable: false, hasRemoteData: false, message: `服务器返回 ${response.status}` };
+			}
+			return { reachable: true, hasRemoteData: (await this.pull()) !== null };
+		} catch (error) {
+			return { reachable: false, hasRemoteData: false, message: (error as Error).message };
+		}
+	}
+
+	private async createFolder(): Promise<void> {
+		const response = await requestUrl({
+			url: this.getFolderUrl() + '/',
+			method: 'MKCOL',
+			headers: this.getHeaders(),
+			throw: false,
+		});
+		// 405：目录已存在
+		if (response.status !== 201 && response.status !== 405) {
+			throw new Error(`WebDAV 创建目录失败: ${response.status}`);
+		}
+	}
+
+	private getFolderUrl(): string {
+		return this.config.url.trim().replace(/\/+$/, '');
+	}
+
+	private getFileUrl(): string {
+		return `${this.getFolderUrl()}/${REMOTE_TASKS_FILE}`;
+	}
+
+	private getHeaders(): Record<string, string> {
+		if (!this.config.username) return {};
+		const credentials = `${this.config.username}:${this.config.password}`;
+		return { 'Authorization': `Basic ${btoa(unescape(encodeURIComponent(credentials)))}` };
+	}
+}
+
+/**
+ * 从 GET 响应中取版本标识：优先 ETag，其次 Last-Modified
+ */
+function getVersion(response: RequestUrlResponse): string {
+	const etag = getHeader(response, 'etag');
+	if (etag) return etag;
+	const lastModified = getHeader(response, 'last-modified');
+	return lastModified ? LAST_MODIFIED_PREFIX + lastModified : UNVERSIONED;
+}
+
+/**
+ * 推送的前置条件头：更新时要求版本未变，新建时要求文件仍不存在
+ */
+function getPreconditionHeaders(expectedVersion: string | null): Record<string, string> {
+	if (!expectedVersion) return { 'If-None-Match': '*' };
+	if (expectedVersion === UNVERSIONED) return {};
+	if (expectedVersion.startsWith(LAST_MODIFIED_PREFIX)) {
+		return { 'If-Unmodified-Since': expectedVersion.slice(LAST_MODIFIED_PREFIX.length) };
+	}
+	return { 'If-Match': expectedVersion };
+}
+
+/**
+ * 读取响应头（不区分大小写）
+ */
+function getHeader(response: RequestUrlResponse, name: string): string | null {
+	const key = Object.keys(response.headers ?? {}).find(k => k.toLowerCase() === name);
+	return key ? response.headers[key] : null;
+}
@@ -0,0 +1,34 @@
+/**
+ * 内置同步后端
+ */
+
+import type { App } from 'obsidian';
+import { SyncBackendRegistry } from '../data-layer/SyncBackendRegistry';
+import type { SyncBackendType } from '../data-layer/types';
+import { gitHubSyncBackendFactory } from './GitHubSyncService';
+import { giteaSyncBackendFactory } from './GiteaSyncBackend';
+import { gitLabSyncBackendFactory } from './GitLabSyncBackend';
+import { webDavSyncBackendFactory } from './WebDavSyncBackend';
+import { createVaultFolderSyncBackendFactory } from './VaultFolderSyncBackend';
+
+/** 同步后端显示名称 */
+export const SYNC_BACKEND_LABELS: Record<SyncBackendType, string> = {
+	'github': 'GitHub',
+	'gitea': 'Gitea / Forgejo',
+	'gitlab': 'GitLab',
+	'webdav': 'WebDAV',
+	'vault-folder': '库内文件夹',
+};
+
+/**
+ * 创建注册了全部内置后端的注册表
+ */
+export function createSyncBackendRegistry(app: App): SyncBackendRegistry {
+	const registry = new SyncBackendRegistry();
+	registry.register(gitHubSyncBackendFactory);
+	registry.register(giteaSyncBackendFactory);
+	registry.register(gitLabSyncBackendFactory);
+	registry.register(webDavSyncBackendFactory);
+	registry.register(createVaultFolderSyncBackendFactory(app));
+	return registry;
+}
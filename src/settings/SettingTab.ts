@@ -4,6 +4,12 @@ import { GeneralSettingsBuilder } from './builders/GeneralSettingsBuilder';
 import { WeekViewSettingsBuilder } from './builders/WeekViewSettingsBuilder';
 import { MonthViewSettingsBuilder } from './builders/MonthViewSettingsBuilder';
 import { GitHubSyncSettingsBuilder } from './builders/GitHubSyncSettingsBuilder';
+import { NotificationSettingsBuilder } from './builders/NotificationSettingsBuilder';
+import { MarkdownMirrorSettingsBuilder } from './builders/MarkdownMirrorSettingsBuilder';
+import { IcsExportSettingsBuilder } from './builders/IcsExportSettingsBuilder';
+import { IcsCalendarSettingsBuilder } from './builders/IcsCalendarSettingsBuilder';
+import { RemoteSyncSettingsBuilder } from './builders/RemoteSyncSettingsBuilder';
+import { BackupSettingsBuilder } from './builders/BackupSettingsBuilder';
 
 /**
  * Gantt Calendar Plugin Settings Tab
@@ -49,11 +55,53 @@ export class GanttCalendarSettingTab extends PluginSettingTab {
 			onRefreshSettings: refreshCallback,
 		}).render();
 
+		// ===== 提醒通知 =====
+		new NotificationSettingsBuilder({
+			containerEl,
+			plugin: this.plugin,
+			onRefreshSettings: refreshCallback,
+		}).render();
+
+		// ===== Markdown 镜像 =====
+		new MarkdownMirrorSettingsBuilder({
+			containerEl,
+			plugin: this.plugin,
+			onRefreshSettings: refreshCallback,
+		}).render();
+
+		// ===== iCalendar 导出 =====
+		new IcsExportSettingsBuilder({
+			containerEl,
+			plugin: this.plugin,
+			onRefreshSettings: refreshCallback,
+		}).render();
+
+		// ===== 订阅日历 =====
+		new IcsCalendarSettingsBuilder({
+			containerEl,
+			plugin: this.plugin,
+			onRefreshSettings: refreshCallback,
+		}).render();
+
 		// ===== GitHub 同步 =====
 		new GitHubSyncSettingsBuilder({
 			containerEl,
 			plugin: this.plugin,
 			onRefreshSettings: refreshCallback,
 		}).render();
+
+		// ===== 其他同步后端 =====
+		new RemoteSyncSettingsBuilder({
+			containerEl,
+			plugin: this.plugin,
+			onRefreshSettings: refreshCallback,
+		}).render();
+
+		// ===== 本地备份 =====
+		new BackupSettingsBuilder({
+			containerEl,
+			plugin: this.plugin,
+			onRefreshSettings: refreshCallback,
+		}).render();
 	}
 }
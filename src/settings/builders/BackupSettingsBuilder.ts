@@ -0,0 +1,112 @@
+import { Notice, Setting, SettingGroup } from 'obsidian';
+import { BaseBuilder } from './BaseBuilder';
+import type { BuilderConfig } from '../types';
+import { BACKUP_REASON_LABELS } from '../../data-layer/BackupService';
+import { formatDateTime } from '../../dateUtils/dateUtilsIndex';
+import { BackupDiffModal } from '../../modals/BackupDiffModal';
+import { Logger } from '../../utils/logger';
+
+/**
+ * 本地备份设置构建器
+ */
+export class BackupSettingsBuilder extends BaseBuilder {
+	constructor(config: BuilderConfig) {
+		super(config);
+	}
+
+	render(): void {
+		this.createSettingGroup('本地备份', (group) => {
+			// 备份列表异步加载，旧版本布局下需先占位以保持位置
+			const listEl = this.isSettingGroupAvailable() ? null : this.containerEl.createDiv();
+			const addSetting = (cb: (setting: Setting) => void) => {
+				if (this.isSettingGroupAvailable()) {
+					(group as SettingGroup).addSetting(cb);
+				} else {
+					cb(new Setting(listEl ?? this.containerEl));
+				}
+			};
+
+			const config = this.plugin.settings.backups;
+
+			addSetting(setting =>
+				setting.setName('每日自动备份')
+					.setDesc('每天首次保存任务前，将 tasks.json 备份到插件目录的 data/backups/')
+					.addToggle(toggle => toggle
+						.setValue(config.daily)
+						.onChange(async (value) => {
+							config.daily = value;
+							await this.saveAndApply();
+						}))
+			);
+
+			addSetting(setting =>
+				setting.setName('保留每日备份')
+					.setDesc('超出份数的最早的每日备份自动删除')
+					.addDropdown(drop => drop
+						.addOptions({ '3': '3 份', '7': '7 份', '14': '14 份', '30': '30 份' })
+						.setValue(String(config.keepDaily))
+						.onChange(async (value) => {
+							config.keepDaily = parseInt(value);
+							await this.saveAndApply();
+						}))
+			);
+
+			addSetting(setting =>
+				setting.setName('保留其他备份')
+					.setDesc('迁移前、导入前、恢复前自动创建的备份和手动备份')
+					.addDropdown(drop => drop
+						.addOptions({ '5': '5 份', '10': '10 份', '20': '20 份', '50': '50 份' })
+						.setValue(String(config.keepOther))
+						.onChange(async (value) => {
+							config.keepOther = parseInt(value);
+							await this.saveAndApply();
+						}))
+			);
+
+			addSetting(setting =>
+				setting.setName('立即备份')
+					.setDesc('备份当前的全部任务数据')
+					.addButton(button => button
+						.setButtonText('备份')
+						.onClick(async () => {
+							try {
+								await this.plugin.taskCache.backupNow();
+								new Notice('已备份任务数据');
+								this.refreshSettingsPanel();
+							} catch (error) {
+								new Notice('备份失败: ' + (error as Error).message);
+							}
+						}))
+			);
+
+			// 备份列表
+			this.plugin.taskCache.listBackups().then(backups => {
+				if (backups.length === 0) {
+					addSetting(setting => setting.setName('暂无备份'));
+					return;
+				}
+				for (const backup of backups) {
+					addSetting(setting =>
+						setting.setName(`${formatDateTime(backup.createdAt)} · ${BACKUP_REASON_LABELS[backup.reason]}`)
+							.setDesc(backup.path.split('/').pop() ?? backup.path)
+							.addButton(button => button
+								.setButtonText('比较 / 恢复')
+								.onClick(() => {
+									new BackupDiffModal(this.plugin.app, this.plugin, backup, () => this.refreshSettingsPanel()).open();
+								}))
+					);
+				}
+			}).catch(error => {
+				Logger.error('BackupSettings', 'Failed to list backups', error);
+			});
+		});
+	}
+
+	/**
+	 * 保存设置并应用到备份服务
+	 */
+	private async saveAndApply(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.taskCache.configureBackups(this.plugin.settings.backups);
+	}
+}
@@ -35,6 +35,7 @@ export class GeneralSettingsBuilder extends BaseBuilder {
 					.setDesc('打开插件时默认显示的视图')
 					.addDropdown(drop => drop
 						.addOptions({
+							'day': '日视图',
 							'rolling7': '今天起7天',
 							'week': '周视图',
 							'month': '月视图',
@@ -46,7 +47,7 @@ export class GeneralSettingsBuilder extends BaseBuilder {
 								this.plugin.settings.defaultView = 'week';
 								this.plugin.settings.defaultWeekMode = 'rolling7';
 							} else {
-								this.plugin.settings.defaultView = value as 'week' | 'month' | 'task';
+								this.plugin.settings.defaultView = value as 'day' | 'week' | 'month' | 'task';
 								this.plugin.settings.defaultWeekMode = 'standard';
 							}
 							await this.saveAndRefresh();
@@ -67,6 +68,20 @@ export class GeneralSettingsBuilder extends BaseBuilder {
 					})
 			);
 
+			// 回收站保留时间
+			addSetting(setting =>
+				setting.setName('回收站保留时间')
+					.setDesc('已删除的任务在回收站中保留的时长，超期后自动彻底删除')
+					.addDropdown(drop => drop
+						.addOptions({ '7': '7 天', '30': '30 天', '90': '90 天', '365': '1 年', '0': '永久保留' })
+						.setValue(String(this.plugin.settings.trashRetentionDays))
+						.onChange(async (value) => {
+							this.plugin.settings.trashRetentionDays = parseInt(value);
+							await this.plugin.saveSettings();
+							this.plugin.taskCache.configureTrash(this.plugin.settings.trashRetentionDays);
+						}))
+			);
+
 			// 开发者模式
 			addSetting(setting =>
 				setting.setName('开发者模式')
@@ -6,6 +6,8 @@ import { Setting, Notice } from 'obsidian';
 import type { BuilderConfig } from '../types';
 import { GitHubSetupWizard } from '../../modals/GitHubSetupWizard';
 import { GitHubSyncService } from '../../services/GitHubSyncService';
+import { describeSyncResult } from '../../services/SyncService';
+import type { ConflictResolution, SyncDirection } from '../../data-layer/types';
 import {
 	generateWorkflowTemplate,
 	EMAIL_SCRIPT_TEMPLATE,
@@ -251,7 +253,7 @@ export class GitHubSyncSettingsBuilder {
 		if (isConfigured) {
 			new Setting(containerEl)
 				.setName('启用自动同步')
-				.setDesc('任务变更后自动推送到 GitHub（30秒防抖）')
+				.setDesc('启动时拉取合并远端修改，任务变更后自动同步（30秒防抖）')
 				.addToggle(toggle => {
 					toggle.setValue(cfg!.enabled)
 						.onChange(async (value) => {
@@ -260,49 +262,74 @@ export class GitHubSyncSettingsBuilder {
 
 							if (value) {
 								// 重新启用同步
-								plugin.taskCache.configureGitHubSync(
-									{ token: cfg!.token, owner: cfg!.owner, repo: cfg!.repo },
-									(time) => {
-										plugin.settings.githubSync!.lastSyncTime = time;
-										plugin.settings.githubSync!.lastSyncStatus = 'success';
-										plugin.saveSettings();
-									},
-									(error) => {
-										plugin.settings.githubSync!.lastSyncStatus = 'error';
-										plugin.settings.githubSync!.lastSyncError = error;
-										plugin.saveSettings();
-									}
-								);
+								plugin.initGitHubSync();
 								new Notice('GitHub 同步已启用');
 							} else {
-								plugin.taskCache.disableGitHubSync();
+								plugin.taskCache.disableSync('github');
 								new Notice('GitHub 同步已禁用');
 							}
 						});
 				});
 
+			// 同步方向
+			new Setting(containerEl)
+				.setName('同步方向')
+				.setDesc('双向：拉取远端修改并推送本地修改；仅拉取/仅推送：只同步单一方向')
+				.addDropdown(dd => {
+					dd.addOptions({
+						'bidirectional': '双向同步',
+						'import-only': '仅拉取',
+						'export-only': '仅推送（覆盖远端）',
+					});
+					dd.setValue(cfg!.syncDirection ?? 'bidirectional');
+					dd.onChange(async (value) => {
+						plugin.settings.githubSync!.syncDirection = value as SyncDirection;
+						await plugin.saveSettings();
+						plugin.initGitHubSync();
+					});
+				});
+
+			// 冲突解决策略
+			new Setting(containerEl)
+				.setName('冲突处理')
+				.setDesc('同一任务在本地和远端都被修改时采用的版本')
+				.addDropdown(dd => {
+					dd.addOptions({
+						'newest-win': '较新的修改优先',
+						'local-win': '本地优先',
+						'remote-win': '远端优先',
+						'manual': '手动选择',
+					});
+					dd.setValue(cfg!.conflictResolution ?? 'newest-win');
+					dd.onChange(async (value) => {
+						plugin.settings.githubSync!.conflictResolution = value as ConflictResolution;
+						await plugin.saveSettings();
+						plugin.initGitHubSync();
+					});
+				});
+
 			// 手动同步按钮
 			new Setting(containerEl)
 				.setName('手动同步')
-				.setDesc('立即推送当前任务数据到 GitHub')
+				.setDesc('立即拉取远端修改、合并并推送当前任务数据')
 				.addButton(btn => {
-					btn.setButtonText('📤 立即推送')
+					btn.setButtonText('🔄 立即同步')
 						.onClick(async () => {
 							try {
 								btn.setDisabled(true);
-								btn.setButtonText('推送中...');
-								await plugin.taskCache.pushToGitHubNow();
-								new Notice('推送成功！');
-								btn.setButtonText('✅ 推送成功');
+								btn.setButtonText('同步中...');
+								const result = await plugin.taskCache.syncNow('github');
+								new Notice(describeSyncResult(result));
+								btn.setButtonText(result.conflicts.length > 0 ? '⚠️ 存在冲突' : '✅ 同步成功');
 								setTimeout(() => {
-									btn.setButtonText('📤 立即推送');
+									btn.setButtonText('🔄 立即同步');
 									btn.setDisabled(false);
 								}, 2000);
 							} catch (error) {
-								new Notice('推送失败: ' + (error as Error).message);
-								btn.setButtonText('❌ 推送失败');
+								new Notice('同步失败: ' + (error as Error).message);
+								btn.setButtonText('❌ 同步失败');
 								setTimeout(() => {
-									btn.setButtonText('📤 立即推送');
+									btn.setButtonText('🔄 立即同步');
 									btn.setDisabled(false);
 								}, 2000);
 							}
@@ -331,7 +358,7 @@ export class GitHubSyncSettingsBuilder {
 					btn.setButtonText('🗑️ 清除')
 						.setWarning()
 						.onClick(async () => {
-							plugin.taskCache.disableGitHubSync();
+							plugin.taskCache.disableSync('github');
 							plugin.settings.githubSync = undefined;
 							await plugin.saveSettings();
 							new Notice('GitHub 同步配置已清除');
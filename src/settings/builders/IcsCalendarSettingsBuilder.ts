@@ -0,0 +1,82 @@
+import { Setting, SettingGroup } from 'obsidian';
+import { BaseBuilder } from './BaseBuilder';
+import type { BuilderConfig } from '../types';
+
+/**
+ * 订阅日历设置构建器
+ */
+export class IcsCalendarSettingsBuilder extends BaseBuilder {
+	constructor(config: BuilderConfig) {
+		super(config);
+	}
+
+	render(): void {
+		this.createSettingGroup('订阅日历', (group) => {
+			const addSetting = (cb: (setting: Setting) => void) => {
+				if (this.isSettingGroupAvailable()) {
+					(group as SettingGroup).addSetting(cb);
+				} else {
+					cb(new Setting(this.containerEl));
+				}
+			};
+
+			const calendars = this.plugin.settings.icsCalendars;
+
+			// 已订阅的日历
+			for (const calendar of calendars) {
+				addSetting(setting =>
+					setting.setName(calendar.filePath)
+						.setDesc('只读显示在月视图和周视图中，文件变化时自动更新')
+						.addExtraButton(button => button
+							.setIcon('trash')
+							.setTooltip('取消订阅')
+							.onClick(async () => {
+								this.plugin.settings.icsCalendars = calendars.filter(c => c !== calendar);
+								await this.saveAndApply();
+								this.refreshSettingsPanel();
+							}))
+				);
+			}
+
+			// 添加库内的 .ics 文件
+			const subscribed = new Set(calendars.map(c => c.filePath));
+			const candidates = this.plugin.app.vault.getFiles()
+				.filter(file => file.extension.toLowerCase() === 'ics' && !subscribed.has(file.path))
+				.map(file => file.path)
+				.sort();
+
+			let selected = candidates[0] ?? '';
+			addSetting(setting =>
+				setting.setName('添加日历')
+					.setDesc(candidates.length
+						? '选择库内的 .ics 文件（如导出的工作日历），其中的事件和待办以只读方式显示'
+						: '库内没有可订阅的 .ics 文件，请先将日历文件放入库中')
+					.addDropdown(drop => {
+						for (const path of candidates) drop.addOption(path, path);
+						drop.setValue(selected)
+							.setDisabled(candidates.length === 0)
+							.onChange(value => {
+								selected = value;
+							});
+					})
+					.addButton(button => button
+						.setButtonText('订阅')
+						.setDisabled(candidates.length === 0)
+						.onClick(async () => {
+							if (!selected) return;
+							calendars.push({ filePath: selected });
+							await this.saveAndApply();
+							this.refreshSettingsPanel();
+						}))
+			);
+		});
+	}
+
+	/**
+	 * 保存设置并重新加载订阅日历
+	 */
+	private async saveAndApply(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.taskCache.configureIcsCalendars(this.plugin.settings.icsCalendars);
+	}
+}
@@ -0,0 +1,76 @@
+import { Notice, Setting, SettingGroup } from 'obsidian';
+import { BaseBuilder } from './BaseBuilder';
+import type { BuilderConfig } from '../types';
+
+/**
+ * iCalendar 导出设置构建器
+ */
+export class IcsExportSettingsBuilder extends BaseBuilder {
+	constructor(config: BuilderConfig) {
+		super(config);
+	}
+
+	render(): void {
+		this.createSettingGroup('iCalendar 导出', (group) => {
+			const addSetting = (cb: (setting: Setting) => void) => {
+				if (this.isSettingGroupAvailable()) {
+					(group as SettingGroup).addSetting(cb);
+				} else {
+					cb(new Setting(this.containerEl));
+				}
+			};
+
+			const config = this.plugin.settings.icsExport;
+
+			// 导出路径（失去焦点时生效）
+			addSetting(setting =>
+				setting.setName('导出文件')
+					.setDesc('相对库根目录的 .ics 文件路径，可配合同步工具供其他日历应用订阅')
+					.addText(text => {
+						text.setPlaceholder('GanttCalendar/tasks.ics')
+							.setValue(config.filePath)
+							.onChange(value => {
+								config.filePath = value.trim();
+							});
+						text.inputEl.addEventListener('blur', () => this.saveAndApply());
+					})
+			);
+
+			// 自动导出
+			addSetting(setting =>
+				setting.setName('自动导出')
+					.setDesc('任务变更后自动重写导出文件')
+					.addToggle(toggle => toggle
+						.setValue(config.autoExport)
+						.onChange(async (value) => {
+							config.autoExport = value;
+							await this.saveAndApply();
+						}))
+			);
+
+			// 立即导出
+			addSetting(setting =>
+				setting.setName('立即导出')
+					.setDesc('将全部任务和提醒写入导出文件')
+					.addButton(button => button
+						.setButtonText('导出')
+						.onClick(async () => {
+							try {
+								const filePath = await this.plugin.taskCache.exportIcs();
+								new Notice(`已导出到 ${filePath}`);
+							} catch (error) {
+								new Notice('导出失败: ' + (error as Error).message);
+							}
+						}))
+			);
+		});
+	}
+
+	/**
+	 * 保存设置并重新配置导出
+	 */
+	private async saveAndApply(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.taskCache.configureIcsExport(this.plugin.settings.icsExport);
+	}
+}
@@ -0,0 +1,111 @@
+import { Setting, SettingGroup } from 'obsidian';
+import { BaseBuilder } from './BaseBuilder';
+import type { BuilderConfig } from '../types';
+import type { MarkdownMirrorFilter } from '../../data-layer/types';
+
+/**
+ * Markdown 镜像设置构建器
+ */
+export class MarkdownMirrorSettingsBuilder extends BaseBuilder {
+	constructor(config: BuilderConfig) {
+		super(config);
+	}
+
+	render(): void {
+		this.createSettingGroup('Markdown 镜像', (group) => {
+			const addSetting = (cb: (setting: Setting) => void) => {
+				if (this.isSettingGroupAvailable()) {
+					(group as SettingGroup).addSetting(cb);
+				} else {
+					cb(new Setting(this.containerEl));
+				}
+			};
+
+			const config = this.plugin.settings.markdownMirror;
+
+			// 启用镜像
+			addSetting(setting =>
+				setting.setName('镜像到笔记')
+					.setDesc('将任务写入一篇笔记，便于搜索、反向链接和关系图谱；在笔记中勾选或编辑任务会同步回插件')
+					.addToggle(toggle => toggle
+						.setValue(config.enabled)
+						.onChange(async (value) => {
+							config.enabled = value;
+							await this.saveAndApply();
+							this.refreshSettingsPanel();
+						}))
+			);
+
+			if (!config.enabled) return;
+
+			// 笔记路径（失去焦点时生效，避免逐字创建文件）
+			addSetting(setting =>
+				setting.setName('镜像笔记')
+					.setDesc('相对库根目录的路径，不存在时自动创建；笔记内容由插件生成')
+					.addText(text => {
+						text.setPlaceholder('GanttCalendar/任务镜像.md')
+							.setValue(config.filePath)
+							.onChange(value => {
+								config.filePath = value.trim();
+							});
+						text.inputEl.addEventListener('blur', () => this.saveAndApply());
+					})
+			);
+
+			// 筛选方式
+			addSetting(setting =>
+				setting.setName('镜像范围')
+					.setDesc('选择写入笔记的任务，匹配的任务连同子任务一起镜像')
+					.addDropdown(drop => drop
+						.addOptions({ 'all': '全部任务', 'tag': '按标签', 'parent': '按父任务' })
+						.setValue(config.filter)
+						.onChange(async (value) => {
+							config.filter = value as MarkdownMirrorFilter['type'];
+							await this.saveAndApply();
+							this.refreshSettingsPanel();
+						}))
+			);
+
+			if (config.filter === 'tag') {
+				addSetting(setting =>
+					setting.setName('标签')
+						.setDesc('镜像带此标签的任务（不含 #）')
+						.addText(text => {
+							text.setPlaceholder('工作')
+								.setValue(config.tag)
+								.onChange(value => {
+									config.tag = value.trim().replace(/^#/, '');
+								});
+							text.inputEl.addEventListener('blur', () => this.saveAndApply());
+						})
+				);
+			}
+
+			if (config.filter === 'parent') {
+				addSetting(setting =>
+					setting.setName('父任务')
+						.setDesc('镜像该任务及其全部子任务')
+						.addDropdown(drop => {
+							drop.addOption('', '请选择');
+							for (const task of this.plugin.taskCache.getRootTasks()) {
+								if (task.childIds?.length) drop.addOption(task.id, task.description || '无标题');
+							}
+							drop.setValue(config.parentId)
+								.onChange(async (value) => {
+									config.parentId = value;
+									await this.saveAndApply();
+								});
+						})
+				);
+			}
+		});
+	}
+
+	/**
+	 * 保存设置并重新配置镜像
+	 */
+	private async saveAndApply(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.initMarkdownMirror();
+	}
+}
@@ -0,0 +1,101 @@
+import { Setting, SettingGroup } from 'obsidian';
+import { BaseBuilder } from './BaseBuilder';
+import type { BuilderConfig } from '../types';
+import { parseTime } from '../../dateUtils/dateUtilsIndex';
+
+/**
+ * 提醒通知设置构建器
+ */
+export class NotificationSettingsBuilder extends BaseBuilder {
+	constructor(config: BuilderConfig) {
+		super(config);
+	}
+
+	render(): void {
+		this.createSettingGroup('提醒通知', (group) => {
+			const addSetting = (cb: (setting: Setting) => void) => {
+				if (this.isSettingGroupAvailable()) {
+					(group as SettingGroup).addSetting(cb);
+				} else {
+					cb(new Setting(this.containerEl));
+				}
+			};
+
+			const config = this.plugin.settings.localNotifications;
+
+			// 启用本地提醒
+			addSetting(setting =>
+				setting.setName('本地提醒')
+					.setDesc('提醒到期时在 Obsidian 内弹出通知（需保持 Obsidian 打开）')
+					.addToggle(toggle => toggle
+						.setValue(config.enabled)
+						.onChange(async (value) => {
+							config.enabled = value;
+							await this.saveAndApply();
+							this.refreshSettingsPanel();
+						}))
+			);
+
+			if (!config.enabled) return;
+
+			// 系统通知
+			addSetting(setting =>
+				setting.setName('系统通知')
+					.setDesc('同时发送操作系统通知（首次启用时需授权）')
+					.addToggle(toggle => toggle
+						.setValue(config.systemNotification)
+						.onChange(async (value) => {
+							config.systemNotification = value;
+							await this.saveAndApply();
+						}))
+			);
+
+			// 到期待办
+			addSetting(setting =>
+				setting.setName('待办到期提醒')
+					.setDesc('待办到达截止时间时也发送通知')
+					.addToggle(toggle => toggle
+						.setValue(config.includeDueTodos)
+						.onChange(async (value) => {
+							config.includeDueTodos = value;
+							await this.saveAndApply();
+						}))
+			);
+
+			// 全天任务提醒时刻
+			addSetting(setting =>
+				setting.setName('全天任务提醒时间')
+					.setDesc('未设置具体时间的任务在当天此时刻提醒（HH:mm）')
+					.addText(text => text
+						.setPlaceholder('09:00')
+						.setValue(config.allDayTime)
+						.onChange(async (value) => {
+							if (!parseTime(value)) return;
+							config.allDayTime = value.trim();
+							await this.saveAndApply();
+						}))
+			);
+
+			// 稍后提醒间隔
+			addSetting(setting =>
+				setting.setName('稍后提醒间隔')
+					.setDesc('通知中「稍后」按钮再次提醒的间隔（分钟）')
+					.addDropdown(drop => drop
+						.addOptions({ '5': '5 分钟', '10': '10 分钟', '15': '15 分钟', '30': '30 分钟', '60': '1 小时' })
+						.setValue(String(config.snoozeMinutes))
+						.onChange(async (value) => {
+							config.snoozeMinutes = parseInt(value);
+							await this.saveAndApply();
+						}))
+			);
+		});
+	}
+
+	/**
+	 * 保存设置并重新配置提醒调度
+	 */
+	private async saveAndApply(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.taskCache.configureReminderNotifications(this.plugin.settings.localNotifications);
+	}
+}
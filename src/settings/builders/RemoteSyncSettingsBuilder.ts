@@ -0,0 +1,266 @@
+/**
+ * 其他同步后端设置区域（WebDAV、库内文件夹、Gitea、GitLab）
+ */
+
+import { Setting, Notice } from 'obsidian';
+import type { BuilderConfig, GanttCalendarSettings } from '../types';
+import type { ConflictResolution, SyncBackendType, SyncDirection } from '../../data-layer/types';
+import { SYNC_BACKEND_LABELS } from '../../services/syncBackends';
+
+type RemoteSyncSettings = NonNullable<GanttCalendarSettings['remoteSync']>;
+type RemoteBackendType = RemoteSyncSettings['backend'];
+
+/** 文本配置项 */
+interface TextField {
+	name: string;
+	desc: string;
+	placeholder: string;
+	get: () => string;
+	set: (value: string) => void;
+	password?: boolean;
+}
+
+/**
+ * 补全当前后端的默认配置
+ */
+function ensureBackendDefaults(cfg: RemoteSyncSettings): void {
+	switch (cfg.backend) {
+		case 'webdav':
+			if (!cfg.webdav) cfg.webdav = { url: '', username: '', password: '' };
+			break;
+		case 'vault-folder':
+			if (!cfg.vaultFolder) cfg.vaultFolder = { folder: 'GanttCalendar/sync' };
+			break;
+		case 'gitea':
+			if (!cfg.gitea) cfg.gitea = { baseUrl: '', token: '', owner: '', repo: 'obsidian-task-data', branch: '' };
+			break;
+		case 'gitlab':
+			if (!cfg.gitlab) cfg.gitlab = { baseUrl: 'https://gitlab.com', token: '', projectId: '', branch: 'main' };
+			break;
+	}
+}
+
+export class RemoteSyncSettingsBuilder {
+	private config: BuilderConfig;
+
+	constructor(config: BuilderConfig) {
+		this.config = config;
+	}
+
+	/**
+	 * 当前后端的连接配置项
+	 */
+	private getFields(cfg: RemoteSyncSettings): TextField[] {
+		switch (cfg.backend) {
+			case 'webdav': {
+				const webdav = cfg.webdav!;
+				return [
+					{ name: '服务器地址', desc: '存放 tasks.json 的目录地址', placeholder: 'https://dav.example.com/obsidian/tasks', get: () => webdav.url, set: v => webdav.url = v },
+					{ name: '用户名', desc: '留空表示无需认证', placeholder: 'user', get: () => webdav.username, set: v => webdav.username = v },
+					{ name: '密码', desc: '建议使用应用专用密码', placeholder: '', get: () => webdav.password, set: v => webdav.password = v, password: true },
+				];
+			}
+			case 'vault-folder': {
+				const vaultFolder = cfg.vaultFolder!;
+				return [
+					{ name: '文件夹', desc: '相对库根目录的路径，由 Obsidian Sync / Syncthing 等工具同步到其他设备', placeholder: 'GanttCalendar/sync', get: () => vaultFolder.folder, set: v => vaultFolder.folder = v },
+				];
+			}
+			case 'gitea': {
+				const gitea = cfg.gitea!;
+				return [
+					{ name: '实例地址', desc: 'Gitea / Forgejo 服务器地址', placeholder: 'https://gitea.example.com', get: () => gitea.baseUrl, set: v => gitea.baseUrl = v },
+					{ name: 'Access Token', desc: '需要仓库读写权限', placeholder: '', get: () => gitea.token, set: v => gitea.token = v, password: true },
+					{ name: '所有者', desc: '用户名或组织名', placeholder: 'user', get: () => gitea.owner, set: v => gitea.owner = v },
+					{ name: '仓库', desc: '需预先创建（建议私有）', placeholder: 'obsidian-task-data', get: () => gitea.repo, set: v => gitea.repo = v },
+					{ name: '分支', desc: '留空使用默认分支', placeholder: 'main', get: () => gitea.branch ?? '', set: v => gitea.branch = v },
+				];
+			}
+			case 'gitlab': {
+				const gitlab = cfg.gitlab!;
+				return [
+					{ name: '实例地址', desc: 'GitLab 服务器地址', placeholder: 'https://gitlab.com', get: () => gitlab.baseUrl, set: v => gitlab.baseUrl = v },
+					{ name: 'Access Token', desc: '需要 api 权限的个人或项目 Token', placeholder: '', get: () => gitlab.token, set: v => gitlab.token = v, password: true },
+					{ name: '项目', desc: '项目 ID 或完整路径（group/project）', placeholder: 'user/obsidian-task-data', get: () => gitlab.projectId, set: v => gitlab.projectId = v },
+					{ name: '分支', desc: '写入 tasks.json 的分支', placeholder: 'main', get: () => gitlab.branch, set: v => gitlab.branch = v },
+				];
+			}
+		}
+	}
+
+	render(): void {
+		const { containerEl, plugin } = this.config;
+
+		containerEl.createEl('h2', { text: '☁️ 其他同步后端' });
+		containerEl.createEl('p', {
+			text: '将任务数据同步到 WebDAV、库内文件夹、Gitea 或 GitLab，可与 GitHub 同步同时启用。',
+			cls: 'setting-item-description'
+		});
+
+		if (!plugin.settings.remoteSync) {
+			plugin.settings.remoteSync = { enabled: false, backend: 'webdav' };
+		}
+		const cfg = plugin.settings.remoteSync;
+		ensureBackendDefaults(cfg);
+
+		const label = SYNC_BACKEND_LABELS[cfg.backend];
+		const isActive = cfg.enabled && plugin.taskCache.isSyncConfigured(cfg.backend);
+
+		// 状态显示
+		if (isActive) {
+			const statusDiv = containerEl.createDiv();
+			statusDiv.style.padding = '12px';
+			statusDiv.style.backgroundColor = 'var(--background-secondary)';
+			statusDiv.style.borderRadius = '8px';
+			statusDiv.style.marginBottom = '16px';
+
+			const statusIcon = cfg.lastSyncStatus === 'error' ? '⚠️' : '✅';
+			const statusText = cfg.lastSyncStatus === 'error'
+				? `同步错误: ${cfg.lastSyncError || '未知'}`
+				: '同步正常';
+			statusDiv.createEl('p', { text: `${statusIcon} ${label} — ${statusText}` });
+
+			if (cfg.lastSyncTime) {
+				statusDiv.createEl('p', {
+					text: `🕐 上次同步: ${new Date(cfg.lastSyncTime).toLocaleString()}`,
+					cls: 'setting-item-description'
+				});
+			}
+		}
+
+		// 启用/禁用开关
+		new Setting(containerEl)
+			.setName('启用同步')
+			.setDesc('启动时拉取合并远端修改，任务变更后自动同步（30秒防抖）')
+			.addToggle(toggle => {
+				toggle.setValue(cfg.enabled)
+					.onChange(async (value) => {
+						cfg.enabled = value;
+						await plugin.saveSettings();
+						plugin.initRemoteSync();
+						new Notice(value ? `${label} 同步已启用` : `${label} 同步已禁用`);
+						this.config.onRefreshSettings?.();
+					});
+			});
+
+		// 后端类型
+		new Setting(containerEl)
+			.setName('同步后端')
+			.setDesc('切换后端会停用原后端的同步，各后端的连接配置会保留')
+			.addDropdown(dd => {
+				for (const type of plugin.taskCache.getSyncBackendRegistry().getTypes()) {
+					if (type !== 'github') dd.addOption(type, SYNC_BACKEND_LABELS[type as SyncBackendType]);
+				}
+				dd.setValue(cfg.backend);
+				dd.onChange(async (value) => {
+					cfg.backend = value as RemoteBackendType;
+					cfg.lastSyncStatus = undefined;
+					cfg.lastSyncError = undefined;
+					ensureBackendDefaults(cfg);
+					await plugin.saveSettings();
+					plugin.initRemoteSync();
+					this.config.onRefreshSettings?.();
+				});
+			});
+
+		// 连接配置（修改后点击「保存并同步」生效）
+		for (const field of this.getFields(cfg)) {
+			new Setting(containerEl)
+				.setName(field.name)
+				.setDesc(field.desc)
+				.addText(text => {
+					text.setPlaceholder(field.placeholder)
+						.setValue(field.get())
+						.onChange(async (value) => {
+							field.set(value.trim());
+							await plugin.saveSettings();
+						});
+					if (field.password) text.inputEl.type = 'password';
+				});
+		}
+
+		// 同步方向
+		new Setting(containerEl)
+			.setName('同步方向')
+			.setDesc('双向：拉取远端修改并推送本地修改；仅拉取/仅推送：只同步单一方向')
+			.addDropdown(dd => {
+				dd.addOptions({
+					'bidirectional': '双向同步',
+					'import-only': '仅拉取',
+					'export-only': '仅推送（覆盖远端）',
+				});
+				dd.setValue(cfg.syncDirection ?? 'bidirectional');
+				dd.onChange(async (value) => {
+					cfg.syncDirection = value as SyncDirection;
+					await plugin.saveSettings();
+					plugin.initRemoteSync();
+				});
+			});
+
+		// 冲突解决策略
+		new Setting(containerEl)
+			.setName('冲突处理')
+			.setDesc('同一任务在本地和远端都被修改时采用的版本')
+			.addDropdown(dd => {
+				dd.addOptions({
+					'newest-win': '较新的修改优先',
+					'local-win': '本地优先',
+					'remote-win': '远端优先',
+					'manual': '手动选择',
+				});
+				dd.setValue(cfg.conflictResolution ?? 'newest-win');
+				dd.onChange(async (value) => {
+					cfg.conflictResolution = value as ConflictResolution;
+					await plugin.saveSettings();
+					plugin.initRemoteSync();
+				});
+			});
+
+		// 测试连接
+		new Setting(containerEl)
+			.setName('测试连接')
+			.setDesc('检查地址与认证信息，并确认远端是否已有 tasks.json')
+			.addButton(btn => {
+				btn.setButtonText('🔌 测试连接')
+					.onClick(async () => {
+						const backendConfig = plugin.getRemoteSyncBackendConfig();
+						if (!backendConfig) return;
+						const backend = plugin.taskCache.getSyncBackendRegistry().create(backendConfig);
+						if (!backend.isConfigured()) {
+							new Notice('请先填写完整的连接配置');
+							return;
+						}
+						btn.setDisabled(true);
+						btn.setButtonText('检查中...');
+						const status = await backend.getStatus();
+						const summary = status.reachable
+							? `✅ 连接成功（${status.hasRemoteData ? '远端已有任务数据' : '远端暂无任务数据'}）`
+							: '❌ 连接失败';
+						new Notice(status.message ? `${summary}: ${status.message}` : summary);
+						btn.setButtonText('🔌 测试连接');
+						btn.setDisabled(false);
+					});
+			});
+
+		// 保存并同步
+		new Setting(containerEl)
+			.setName('应用配置')
+			.setDesc(cfg.enabled
+				? '修改连接配置后点击，按新配置立即同步一次（结果以通知显示）'
+				: '启用同步后可用')
+			.addButton(btn => {
+				btn.setButtonText('🔄 保存并同步')
+					.setCta()
+					.setDisabled(!cfg.enabled)
+					.onClick(() => {
+						if (!plugin.getRemoteSyncBackendConfig()) return;
+						plugin.initRemoteSync();
+						if (!plugin.taskCache.isSyncConfigured(cfg.backend)) {
+							new Notice('请先填写完整的连接配置');
+							return;
+						}
+						new Notice(`正在与 ${label} 同步...`);
+					});
+			});
+	}
+}
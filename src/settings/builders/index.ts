@@ -2,3 +2,8 @@ export * from './BaseBuilder';
 export * from './GeneralSettingsBuilder';
 export * from './WeekViewSettingsBuilder';
 export * from './MonthViewSettingsBuilder';
+export * from './NotificationSettingsBuilder';
+export * from './MarkdownMirrorSettingsBuilder';
+export * from './IcsExportSettingsBuilder';
+export * from './IcsCalendarSettingsBuilder';
+export * from './BackupSettingsBuilder';
@@ -41,6 +41,7 @@ export const DEFAULT_SETTINGS: GanttCalendarSettings = {
 	taskViewSelectedStatuses: ['todo'],
 	taskViewSelectedTags: [],
 	taskViewTagOperator: 'OR',
+	taskViewQuery: '',
 	taskViewTimeFieldFilter: 'dueDate',
 	taskViewDateRangeMode: 'week',
 
@@ -52,6 +53,7 @@ export const DEFAULT_SETTINGS: GanttCalendarSettings = {
 	weekViewSelectedStatuses: ['todo'],
 	weekViewSelectedTags: [],
 	weekViewTagOperator: 'OR',
+	weekViewQuery: '',
 
 	// MonthView（月视图中同一天的任务日期相同，应以优先级为主排序）
 	monthViewSortField: 'priority',
@@ -61,6 +63,13 @@ export const DEFAULT_SETTINGS: GanttCalendarSettings = {
 	monthViewSelectedStatuses: ['todo'],
 	monthViewSelectedTags: [],
 	monthViewTagOperator: 'OR',
+	monthViewQuery: '',
+
+	// DayView
+	dayViewSelectedStatuses: ['todo'],
+	dayViewSelectedTags: [],
+	dayViewTagOperator: 'OR',
+	dayViewQuery: '',
 
 	// 快捷预设
 	viewPresets: [
@@ -73,7 +82,8 @@ export const DEFAULT_SETTINGS: GanttCalendarSettings = {
 				statuses: ['todo'],
 				sortField: 'dueDate',
 				sortOrder: 'asc',
-				dateRangeMode: 'week',
+				dateRangeMode: 'all',
+				query: 'due<=+3d',
 			},
 		},
 		{
@@ -84,6 +94,7 @@ export const DEFAULT_SETTINGS: GanttCalendarSettings = {
 			filters: {
 				statuses: [],
 				dateRangeMode: 'week',
+				query: '',
 			},
 		},
 		{
@@ -95,7 +106,41 @@ export const DEFAULT_SETTINGS: GanttCalendarSettings = {
 				statuses: ['done'],
 				sortField: 'completionDate',
 				sortOrder: 'desc',
+				query: '',
 			},
 		},
 	],
+
+	// 本地提醒通知
+	localNotifications: {
+		enabled: true,
+		systemNotification: false,
+		includeDueTodos: true,
+		allDayTime: '09:00',
+		snoozeMinutes: 10,
+	},
+
+	// 回收站
+	trashRetentionDays: 30,
+
+	// 本地备份
+	backups: {
+		daily: true,
+		keepDaily: 7,
+		keepOther: 10,
+	},
+
+	// Markdown 镜像
+	markdownMirror: {
+		enabled: false,
+		filePath: 'GanttCalendar/任务镜像.md',
+		filter: 'all',
+		tag: '',
+		parentId: '',
+	},
+	icsExport: {
+		autoExport: false,
+		filePath: 'GanttCalendar/tasks.ics',
+	},
+	icsCalendars: [],
 };
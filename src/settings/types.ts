@@ -1,5 +1,17 @@
 import type GanttCalendarPlugin from '../../main';
 import type { SortField, SortOrder, TagFilterOperator } from '../types';
+import type {
+	BackupConfig,
+	ConflictResolution,
+	GiteaBackendConfig,
+	MarkdownMirrorFilter,
+	GitLabBackendConfig,
+	IcsCalendarConfig,
+	SyncBackendType,
+	SyncDirection,
+	VaultFolderBackendConfig,
+	WebDavBackendConfig,
+} from '../data-layer/types';
 
 /**
  * 日期字段类型
@@ -40,6 +52,8 @@ export interface ViewPreset {
 		sortOrder?: SortOrder;
 		dateRangeMode?: string;
 		timeFieldFilter?: string;
+		/** 查询语句（语法见 tasks/taskQuery） */
+		query?: string;
 	};
 }
 
@@ -50,7 +64,7 @@ export interface GanttCalendarSettings {
 	startOnMonday: boolean;
 	/** 学期起始日期列表（YYYY-MM-DD 格式） */
 	semesterStartDates: string[];
-	defaultView: 'week' | 'month' | 'task';
+	defaultView: 'day' | 'week' | 'month' | 'task';
 	/** 默认周视图模式：标准周 或 今天起7天 */
 	defaultWeekMode: 'standard' | 'rolling7';
 	enableDebugMode: boolean;
@@ -73,6 +87,7 @@ export interface GanttCalendarSettings {
 	taskViewSelectedStatuses: string[];
 	taskViewSelectedTags: string[];
 	taskViewTagOperator: TagFilterOperator;
+	taskViewQuery: string;
 	taskViewTimeFieldFilter: DateFieldType;
 	taskViewDateRangeMode: 'all' | 'day' | 'week' | 'month' | 'custom';
 
@@ -84,6 +99,7 @@ export interface GanttCalendarSettings {
 	weekViewSelectedStatuses: string[];
 	weekViewSelectedTags: string[];
 	weekViewTagOperator: TagFilterOperator;
+	weekViewQuery: string;
 
 	// MonthView 状态
 	monthViewSortField: SortField;
@@ -93,10 +109,62 @@ export interface GanttCalendarSettings {
 	monthViewSelectedStatuses: string[];
 	monthViewSelectedTags: string[];
 	monthViewTagOperator: TagFilterOperator;
+	monthViewQuery: string;
+
+	// DayView 状态
+	dayViewSelectedStatuses: string[];
+	dayViewSelectedTags: string[];
+	dayViewTagOperator: TagFilterOperator;
+	dayViewQuery: string;
 
 	// ========== 快捷预设 ==========
 	viewPresets: ViewPreset[];
 
+	// ========== 本地提醒通知 ==========
+	localNotifications: {
+		enabled: boolean;
+		/** 同时发送系统通知 */
+		systemNotification: boolean;
+		/** 待办到期时也提醒 */
+		includeDueTodos: boolean;
+		/** 全天任务的提醒时刻（HH:mm） */
+		allDayTime: string;
+		/** 「稍后提醒」间隔（分钟） */
+		snoozeMinutes: number;
+	};
+
+	// ========== 回收站 ==========
+	/** 回收站保留天数（0 = 永久保留） */
+	trashRetentionDays: number;
+
+	// ========== 本地备份 ==========
+	backups: BackupConfig;
+
+	// ========== Markdown 镜像 ==========
+	markdownMirror: {
+		enabled: boolean;
+		/** 镜像笔记路径（相对库根目录） */
+		filePath: string;
+		/** 筛选方式 */
+		filter: MarkdownMirrorFilter['type'];
+		/** 按标签筛选时的标签（不含 #） */
+		tag: string;
+		/** 按父任务筛选时的任务 ID */
+		parentId: string;
+	};
+
+	// ========== iCalendar 导出 ==========
+	icsExport: {
+		/** 任务变更时自动导出 */
+		autoExport: boolean;
+		/** 导出文件路径（相对库根目录） */
+		filePath: string;
+	};
+
+	// ========== 订阅日历 ==========
+	/** 以只读任务显示的 .ics 文件 */
+	icsCalendars: IcsCalendarConfig[];
+
 	// ========== GitHub 数据同步设置 ==========
 	githubSync?: {
 		enabled: boolean;
@@ -106,6 +174,10 @@ export interface GanttCalendarSettings {
 		lastSyncTime?: string;
 		lastSyncStatus?: 'success' | 'error';
 		lastSyncError?: string;
+		/** 同步方向（默认双向） */
+		syncDirection?: SyncDirection;
+		/** 冲突解决策略（默认较新者优先） */
+		conflictResolution?: ConflictResolution;
 		reminderSchedule?: {
 			morning:  { enabled: boolean; time: string };
 			noon:     { enabled: boolean; time: string };
@@ -113,6 +185,29 @@ export interface GanttCalendarSettings {
 		};
 		timezone?: number;
 	};
+
+	// ========== 其他同步后端 ==========
+	remoteSync?: {
+		enabled: boolean;
+		/** 当前使用的后端 */
+		backend: Exclude<SyncBackendType, 'github'>;
+		/** 同步方向（默认双向） */
+		syncDirection?: SyncDirection;
+		/** 冲突解决策略（默认较新者优先） */
+		conflictResolution?: ConflictResolution;
+		/** 各后端的连接配置（切换后端时保留） */
+		webdav?: Omit<WebDavBackendConfig, 'type'>;
+		vaultFolder?: Omit<VaultFolderBackendConfig, 'type'>;
+		gitea?: Omit<GiteaBackendConfig, 'type'>;
+		gitlab?: Omit<GitLabBackendConfig, 'type'>;
+		lastSyncTime?: string;
+		lastSyncStatus?: 'success' | 'error';
+		lastSyncError?: string;
+	};
+
+	// ========== Markdown 导入 ==========
+	/** 上次从笔记导入任务时选择的文件夹 */
+	markdownImportFolders?: string[];
 }
 
 /**
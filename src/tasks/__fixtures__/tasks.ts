@@ -0,0 +1,20 @@
+/**
+ * 单元测试共用的任务构造函数
+ */
+
+import type { GCTask } from '../../types';
+
+/**
+ * 构造完整的 GCTask，未给出的必填字段使用默认值；未指定 id 时以描述作为 id
+ */
+export function makeTask(overrides: Partial<GCTask>): GCTask {
+	return {
+		id: overrides.description ?? 'task',
+		type: 'todo',
+		description: 'task',
+		completed: false,
+		priority: 'normal',
+		archived: false,
+		...overrides,
+	};
+}
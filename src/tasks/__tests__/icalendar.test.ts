@@ -0,0 +1,129 @@
+/**
+ * icalendar 单元测试
+ */
+
+import type { GCTask } from '../../types';
+import { buildICalendar, fromRRule, parseICalendar, toRRule } from '../icalendar';
+import { makeTask } from '../__fixtures__/tasks';
+
+const NOW = new Date(Date.UTC(2025, 0, 1, 8, 0, 0));
+
+function icsTask(overrides: Partial<GCTask>): GCTask {
+	return makeTask({ id: 't1', description: '撰写周报', ...overrides });
+}
+
+describe('toRRule', () => {
+	it('should convert recurrence rules', () => {
+		expect(toRRule('every 2 weeks on Monday, Friday')).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+		expect(toRRule('every month on the last')).toBe('FREQ=MONTHLY;BYMONTHDAY=-1');
+		expect(toRRule('every day when done')).toBeNull();
+		expect(toRRule(undefined)).toBeNull();
+	});
+});
+
+describe('buildICalendar', () => {
+	it('should export todos as VTODO', () => {
+		const ics = buildICalendar([icsTask({
+			priority: 'high',
+			tags: ['工作', 'a,b'],
+			startDate: new Date(2025, 0, 6),
+			dueDate: new Date(2025, 0, 10),
+			repeat: 'every week',
+			parentId: 'p1',
+		})], { now: NOW });
+
+		expect(ics).toContain('BEGIN:VTODO\r\n');
+		expect(ics).toContain('UID:t1@obsidian-gantt-calendar\r\n');
+		expect(ics).toContain('DTSTART;VALUE=DATE:20250106\r\n');
+		expect(ics).toContain('DUE;VALUE=DATE:20250110\r\n');
+		expect(ics).toContain('PRIORITY:1\r\n');
+		expect(ics).toContain('CATEGORIES:工作,a\\,b\r\n');
+		expect(ics).toContain('RRULE:FREQ=WEEKLY\r\n');
+		expect(ics).toContain('RELATED-TO;RELTYPE=PARENT:p1@obsidian-gantt-calendar\r\n');
+		expect(ics).toContain('STATUS:NEEDS-ACTION\r\n');
+	});
+
+	it('should export reminders as all-day VEVENT', () => {
+		const ics = buildICalendar([icsTask({ type: 'reminder', dueDate: new Date(2025, 0, 31) })], { now: NOW });
+
+		expect(ics).toContain('BEGIN:VEVENT\r\n');
+		expect(ics).toContain('DTSTART;VALUE=DATE:20250131\r\n');
+		expect(ics).toContain('DTEND;VALUE=DATE:20250201\r\n');
+	});
+
+	it('should fold long lines at 75 octets', () => {
+		const ics = buildICalendar([icsTask({ description: '长'.repeat(40) })], { now: NOW });
+		const lines = ics.split('\r\n');
+
+		expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+		expect(lines.some(line => line.startsWith(' '))).toBe(true);
+	});
+});
+
+describe('fromRRule', () => {
+	it('should convert RRULE values to recurrence rules', () => {
+		expect(fromRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR', NOW)).toBe('every 2 weeks on Monday, Friday');
+		expect(fromRRule('FREQ=MONTHLY;BYMONTHDAY=-1', NOW)).toBe('every month on the last');
+		expect(fromRRule('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=1', NOW)).toBe('every March on the 1st');
+	});
+
+	it('should reject rules that cannot be expressed', () => {
+		expect(fromRRule('FREQ=MONTHLY;BYDAY=1MO', NOW)).toBeNull();
+		expect(fromRRule('FREQ=DAILY;COUNT=5', NOW)).toBeNull();
+		expect(fromRRule('FREQ=DAILY;UNTIL=20240101T000000Z', NOW)).toBeNull();
+	});
+});
+
+describe('parseICalendar', () => {
+	it('should parse events and todos', () => {
+		const calendar = parseICalendar([
+			'BEGIN:VCALENDAR',
+			'X-WR-CALNAME:工作',
+			'BEGIN:VEVENT',
+			'UID:e1',
+			'SUMMARY:周会\\, 第一季度',
+			'DTSTART:20250106T020000Z',
+			'RRULE:FREQ=WEEKLY;BYDAY=MO',
+			'CATEGORIES:会议,团队',
+			'BEGIN:VALARM',
+			'DESCRIPTION:提醒',
+			'END:VALARM',
+			'END:VEVENT',
+			'BEGIN:VTODO',
+			'UID:t1',
+			'SUMMARY:提交报',
+			' 告',
+			'DUE;VALUE=DATE:20250110',
+			'PRIORITY:1',
+			'STATUS:COMPLETED',
+			'END:VTODO',
+			'END:VCALENDAR',
+		].join('\r\n'), NOW);
+
+		expect(calendar.name).toBe('工作');
+		const [event, todo] = calendar.items;
+		expect(event.kind).toBe('event');
+		expect(event.summary).toBe('周会, 第一季度');
+		expect(event.start).toEqual(new Date(Date.UTC(2025, 0, 6, 2)));
+		expect(event.hasStartTime).toBe(true);
+		expect(event.repeat).toBe('every week on Monday');
+		expect(event.categories).toEqual(['会议', '团队']);
+		expect(event.description).toBeUndefined();
+		expect(todo.kind).toBe('todo');
+		expect(todo.summary).toBe('提交报告');
+		expect(todo.due).toEqual(new Date(2025, 0, 10));
+		expect(todo.hasDueTime).toBe(false);
+		expect(todo.priority).toBe(1);
+		expect(todo.status).toBe('COMPLETED');
+	});
+
+	it('should round-trip exported tasks', () => {
+		const ics = buildICalendar([icsTask({ dueDate: new Date(2025, 0, 10), tags: ['工作'] })], { now: NOW });
+		const [item] = parseICalendar(ics, NOW).items;
+
+		expect(item.uid).toBe('t1@obsidian-gantt-calendar');
+		expect(item.summary).toBe('撰写周报');
+		expect(item.due).toEqual(new Date(2025, 0, 10));
+		expect(item.categories).toEqual(['工作']);
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * markdownTaskParser 单元测试
+ */
+
+import { parseMarkdownTasks, toGCTask } from '../markdownTaskParser';
+
+describe('parseMarkdownTasks', () => {
+	it('should parse Tasks emoji fields', () => {
+		const [task] = parseMarkdownTasks('- [ ] 撰写周报 📅 2025-01-10 🛫 2025-01-06 ⏫ 🔁 every week #工作 ^abc', 'a.md');
+
+		expect(task.description).toBe('撰写周报');
+		expect(task.status).toBe('todo');
+		expect(task.priority).toBe('high');
+		expect(task.tags).toEqual(['工作']);
+		expect(task.repeat).toBe('every week');
+		expect(task.blockId).toBe('abc');
+		expect(task.dueDate).toEqual(new Date(2025, 0, 10));
+		expect(task.startDate).toEqual(new Date(2025, 0, 6));
+	});
+
+	it('should parse Dataview fields and checkbox status', () => {
+		const tasks = parseMarkdownTasks([
+			'- [/] 整理书单 [due:: 2025-02-01] [priority:: lowest]',
+			'- [X] 已完成 [completion:: 2025-01-03]',
+			'- [-] 已取消',
+		].join('\n'), 'a.md');
+
+		expect(tasks.map(t => t.status)).toEqual(['in_progress', 'done', 'canceled']);
+		expect(tasks[0].description).toBe('整理书单');
+		expect(tasks[0].priority).toBe('low');
+		expect(tasks[0].dueDate).toEqual(new Date(2025, 1, 1));
+		expect(tasks[1].completionDate).toEqual(new Date(2025, 0, 3));
+	});
+
+	it('should build subtasks from indentation and cap depth at 2', () => {
+		const tasks = parseMarkdownTasks([
+			'- [ ] A',
+			'\t- [ ] B',
+			'\t\t- [ ] C',
+			'\t\t\t- [ ] D',
+			'- [ ] E',
+		].join('\n'), 'a.md');
+
+		expect(tasks.map(t => t.parentIndex)).toEqual([null, 0, 1, 1, null]);
+		expect(tasks.map(t => t.depth)).toEqual([0, 1, 2, 2, 0]);
+	});
+
+	it('should skip fenced code blocks', () => {
+		const tasks = parseMarkdownTasks(['```', '- [ ] 代码', '```', '- [ ] 正文'].join('\n'), 'a.md');
+
+		expect(tasks.map(t => t.description)).toEqual(['正文']);
+	});
+
+	it('should give repeated descriptions distinct import keys', () => {
+		const tasks = parseMarkdownTasks('- [ ] 同名\n- [ ] 同名', 'notes/a.md');
+
+		expect(tasks.map(t => t.importKey)).toEqual(['md:notes/a.md#同名', 'md:notes/a.md#同名#2']);
+	});
+});
+
+describe('toGCTask', () => {
+	it('should fall back to the scheduled date as start date', () => {
+		const [parsed] = parseMarkdownTasks('- [x] 任务 ⏳ 2025-01-05 ✅ 2025-01-07', 'a.md');
+		const task = toGCTask(parsed, 'parent');
+
+		expect(task.startDate).toEqual(new Date(2025, 0, 5));
+		expect(task.completed).toBe(true);
+		expect(task.completionDate).toEqual(new Date(2025, 0, 7));
+		expect(task.parentId).toBe('parent');
+		expect(task.sourceId).toBe(parsed.importKey);
+	});
+});
@@ -0,0 +1,50 @@
+/**
+ * taskBulkEdit 单元测试
+ */
+
+import { buildBulkUpdates } from '../taskBulkEdit';
+import { makeTask } from '../__fixtures__/tasks';
+
+const NOW = new Date(2025, 2, 5, 10, 0);
+
+describe('buildBulkUpdates', () => {
+	it('should skip tasks that need no change', () => {
+		const tasks = [makeTask({ description: 'a', priority: 'high' }), makeTask({ description: 'b' })];
+		const result = buildBulkUpdates(tasks, { kind: 'priority', priority: 'high' }, NOW);
+		expect(result.map(r => r.task.id)).toEqual(['b']);
+		expect(result[0].updates).toEqual({ priority: 'high' });
+	});
+
+	it('should sync completion fields when setting status', () => {
+		const tasks = [makeTask({ description: 'a', status: 'done', completed: true, completionDate: NOW })];
+		const [result] = buildBulkUpdates(tasks, { kind: 'status', status: 'canceled' }, NOW);
+		expect(result.updates).toEqual({
+			status: 'canceled', cancelled: true, cancelledDate: NOW, completed: false, completionDate: null,
+		});
+	});
+
+	it('should add and remove tags without duplicates', () => {
+		const tasks = [
+			makeTask({ description: 'a', tags: ['work', 'old'] }),
+			makeTask({ description: 'b', tags: ['work'] }),
+		];
+		const result = buildBulkUpdates(tasks, { kind: 'tags', add: ['work', 'new'], remove: ['old'] }, NOW);
+		expect(result.map(r => r.updates.tags)).toEqual([['work', 'new'], ['work', 'new']]);
+	});
+
+	it('should shift both dates and keep times when setting a date', () => {
+		const tasks = [
+			makeTask({ description: 'span', startDate: new Date(2025, 2, 1), dueDate: new Date(2025, 2, 3, 9, 30), hasDueTime: true }),
+			makeTask({ description: 'undated' }),
+		];
+		const shifted = buildBulkUpdates(tasks, { kind: 'shift-dates', days: 7 }, NOW);
+		expect(shifted).toHaveLength(1);
+		expect(shifted[0].updates).toEqual({ startDate: new Date(2025, 2, 8), dueDate: new Date(2025, 2, 10, 9, 30) });
+
+		const set = buildBulkUpdates(tasks, { kind: 'set-date', field: 'dueDate', date: new Date(2025, 3, 1) }, NOW);
+		expect(set.map(r => r.updates.dueDate)).toEqual([new Date(2025, 3, 1, 9, 30), new Date(2025, 3, 1)]);
+
+		const cleared = buildBulkUpdates(tasks, { kind: 'set-date', field: 'startDate', date: null }, NOW);
+		expect(cleared.map(r => r.updates)).toEqual([{ startDate: null }]);
+	});
+});
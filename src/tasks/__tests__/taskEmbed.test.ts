@@ -0,0 +1,74 @@
+/**
+ * taskEmbed 单元测试
+ */
+
+import { getTaskSpan, parseTaskEmbedSpec, selectEmbedTasks, TaskEmbedSpecError } from '../taskEmbed';
+import { makeTask } from '../__fixtures__/tasks';
+
+// 2025-03-05 是周三
+const NOW = new Date(2025, 2, 5, 10, 0);
+
+describe('parseTaskEmbedSpec', () => {
+	it('should default to a list sorted by due date', () => {
+		const spec = parseTaskEmbedSpec('', { now: NOW });
+		expect(spec.view).toBe('list');
+		expect(spec.sort).toEqual({ field: 'dueDate', order: 'asc' });
+		expect(spec.range).toBe(null);
+	});
+
+	it('should resolve month and gantt ranges', () => {
+		const month = parseTaskEmbedSpec('view: month\nfrom: next-month', { now: NOW });
+		expect(month.range).toEqual({ start: new Date(2025, 3, 1), end: new Date(2025, 3, 30) });
+
+		const week = parseTaskEmbedSpec('view: gantt', { now: NOW });
+		expect(week.range).toEqual({ start: new Date(2025, 2, 3), end: new Date(2025, 2, 9) });
+
+		const custom = parseTaskEmbedSpec('view: gantt\nfrom: 2025-03-10\nto: next-month', { now: NOW });
+		expect(custom.range).toEqual({ start: new Date(2025, 2, 10), end: new Date(2025, 3, 30) });
+	});
+
+	it('should report the offending line', () => {
+		const cases: Array<[string, number]> = [
+			['view: list\nquery: (#a', 2],
+			['// 注释\nsort: urgency', 2],
+			['limit: 0', 1],
+			['colour: red', 1],
+			['view: gantt\nfrom: 2025-03-10\nto: 2025-03-01', 3],
+		];
+		for (const [source, line] of cases) {
+			let error: unknown = null;
+			try {
+				parseTaskEmbedSpec(source, { now: NOW });
+			} catch (e) {
+				error = e;
+			}
+			expect(error instanceof TaskEmbedSpecError).toBe(true);
+			expect((error as TaskEmbedSpecError).line).toBe(line);
+		}
+	});
+});
+
+describe('selectEmbedTasks', () => {
+	const tasks = [
+		makeTask({ description: 'b', tags: ['work'], dueDate: new Date(2025, 2, 8) }),
+		makeTask({ description: 'a', tags: ['work'], dueDate: new Date(2025, 2, 6) }),
+		makeTask({ description: 'archived', tags: ['work'], dueDate: new Date(2025, 2, 6), archived: true }),
+		makeTask({ description: 'span', startDate: new Date(2025, 1, 20), dueDate: new Date(2025, 2, 3) }),
+		makeTask({ description: 'undated' }),
+	];
+
+	it('should filter, sort and limit list tasks', () => {
+		const spec = parseTaskEmbedSpec('query: #work\nsort: dueDate desc\nlimit: 1', { now: NOW });
+		expect(selectEmbedTasks(tasks, spec, { now: NOW }).map(t => t.id)).toEqual(['b']);
+	});
+
+	it('should keep tasks overlapping the range', () => {
+		const spec = parseTaskEmbedSpec('view: gantt\narchived: true', { now: NOW });
+		expect(selectEmbedTasks(tasks, spec, { now: NOW }).map(t => t.id)).toEqual(['span', 'a', 'archived', 'b']);
+	});
+
+	it('should place reminders on their due date only', () => {
+		const reminder = makeTask({ type: 'reminder', startDate: new Date(2025, 2, 1), dueDate: new Date(2025, 2, 4, 9, 30) });
+		expect(getTaskSpan(reminder)).toEqual({ start: new Date(2025, 2, 4), end: new Date(2025, 2, 4) });
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * taskImport 单元测试
+ */
+
+import type { GCTask } from '../../types';
+import { buildTasksCsv } from '../taskExport';
+import {
+	buildImportTasks,
+	detectDateFormat,
+	guessFieldMapping,
+	parseCsv,
+	parseImportDate,
+	readImportTable,
+	summarizeImport,
+} from '../taskImport';
+
+describe('parseCsv', () => {
+	it('should handle quotes, escaped quotes and line breaks in cells', () => {
+		expect(parseCsv('a,b\r\n"x, y","say ""hi""\nagain"\r\n')).toEqual([
+			['a', 'b'],
+			['x, y', 'say "hi"\nagain'],
+		]);
+	});
+});
+
+describe('readImportTable', () => {
+	it('should detect the delimiter and strip the BOM', () => {
+		const table = readImportTable('\ufeff标题;截止日期\n买菜;2025-01-10\n', 'tasks.csv');
+		expect(table.headers).toEqual(['标题', '截止日期']);
+		expect(table.rows).toEqual([['买菜', '2025-01-10']]);
+	});
+
+	it('should read exported JSON files', () => {
+		const json = JSON.stringify({ format: 'gantt-calendar-tasks', version: 1, tasks: [{ description: 'A', tags: ['x', 'y'] }] });
+		const table = readImportTable(json, 'tasks.json');
+		expect(table.headers).toEqual(['description', 'tags']);
+		expect(table.rows).toEqual([['A', 'x y']]);
+	});
+});
+
+describe('dates', () => {
+	it('should parse dates with the chosen format', () => {
+		expect(parseImportDate('10/01/2025', 'DD/MM/YYYY')!.date).toEqual(new Date(2025, 0, 10));
+		expect(parseImportDate('01/10/2025', 'MM/DD/YYYY')!.date).toEqual(new Date(2025, 0, 10));
+		expect(parseImportDate('2025-01-10 09:30', 'YYYY-MM-DD')).toEqual({ date: new Date(2025, 0, 10, 9, 30), hasTime: true });
+		expect(parseImportDate('2025-01-10T09:30:00Z', 'YYYY-MM-DD')!.date).toEqual(new Date(Date.UTC(2025, 0, 10, 9, 30)));
+		expect(parseImportDate('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+	});
+
+	it('should detect the format that parses the most values', () => {
+		const table = { headers: ['title', 'due'], rows: [['a', '03/04/2025'], ['b', '25/12/2025']] };
+		expect(detectDateFormat(table, guessFieldMapping(table.headers))).toBe('DD/MM/YYYY');
+	});
+});
+
+describe('buildImportTasks', () => {
+	it('should validate rows and order parents first', () => {
+		const table = {
+			headers: ['ID', 'Parent', 'Title', 'Type', 'Status', 'Due', 'Tags'],
+			rows: [
+				['2', '1', '子任务', '', '', '', ''],
+				['1', '', '父任务', 'todo', '已完成', '2025-01-10', '#工作, 周报'],
+				['3', '', '', '', '', '', ''],
+				['4', '', '会议', '提醒', '', '', ''],
+				['5', '99', '孤儿', '', 'unknown', '', ''],
+			],
+		};
+		const mapping = guessFieldMapping(table.headers);
+		expect(mapping).toEqual(['id', 'parentId', 'description', 'type', 'status', 'dueDate', 'tags']);
+
+		const results = buildImportTasks(table, mapping, 'YYYY-MM-DD');
+		expect(results.map(r => r.rowNumber)).toEqual([2, 5, 1, 3, 4]);
+
+		const parent = results[0].task!;
+		expect(parent).toMatchObject({ id: '1', status: 'done', completed: true, tags: ['工作', '周报'] });
+		expect(results[1].task!.parentId).toBeUndefined();
+		expect(results[1].warnings).toHaveLength(2);
+		expect(results[2].task!.parentId).toBe('1');
+		expect(results[3].errors).toEqual(['缺少标题']);
+		expect(results[4].errors).toEqual(['提醒缺少截止日期']);
+
+		expect(summarizeImport(results)).toEqual({
+			total: 5, valid: 3, invalid: 2, withWarnings: 1, todos: 3, reminders: 0, subtasks: 1,
+		});
+	});
+
+	it('should round-trip exported CSV', () => {
+		const task = {
+			id: 'a', type: 'todo', description: '写报告, 草稿', completed: false, status: 'in_progress',
+			priority: 'high', tags: ['work'], dueDate: new Date(2025, 0, 10, 14, 0), hasDueTime: true,
+		} as GCTask;
+		const table = readImportTable(buildTasksCsv([task]), 'tasks.csv');
+		const [result] = buildImportTasks(table, guessFieldMapping(table.headers), 'YYYY-MM-DD');
+		expect(result.task).toMatchObject({
+			description: '写报告, 草稿', status: 'in_progress', priority: 'high', tags: ['work'],
+			dueDate: new Date(2025, 0, 10, 14, 0), hasDueTime: true,
+		});
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * taskQuery 单元测试
+ */
+
+import type { GCTask } from '../../types';
+import { evaluateTaskQuery, filterTasksByQuery, parseTaskQuery, TaskQueryError } from '../taskQuery';
+import { makeTask } from '../__fixtures__/tasks';
+
+// 2025-03-05 是周三
+const NOW = new Date(2025, 2, 5, 10, 0);
+
+function ids(tasks: GCTask[], query: string): string[] {
+	return filterTasksByQuery(tasks, query, { now: NOW }).map(t => t.id);
+}
+
+describe('parseTaskQuery', () => {
+	it('should return null for an empty query', () => {
+		expect(parseTaskQuery('  ')).toBe(null);
+	});
+
+	it('should bind AND tighter than OR and support implicit AND', () => {
+		expect(parseTaskQuery('#a OR #b #c')).toEqual({
+			kind: 'or',
+			children: [
+				{ kind: 'term', field: 'tag', op: ':', value: 'a' },
+				{
+					kind: 'and',
+					children: [
+						{ kind: 'term', field: 'tag', op: ':', value: 'b' },
+						{ kind: 'term', field: 'tag', op: ':', value: 'c' },
+					],
+				},
+			],
+		});
+	});
+
+	it('should parse negation, grouping and quoted values', () => {
+		expect(parseTaskQuery('-is:archived NOT (text:"weekly report")')).toEqual({
+			kind: 'and',
+			children: [
+				{ kind: 'not', child: { kind: 'term', field: 'is', op: ':', value: 'archived' } },
+				{ kind: 'not', child: { kind: 'term', field: 'text', op: ':', value: 'weekly report' } },
+			],
+		});
+	});
+
+	it('should report errors with their position', () => {
+		const cases: Array<[string, number]> = [
+			['(#a OR #b', 9],
+			['#a OR', 5],
+			['foo:bar', 0],
+			['priority:urgent', 9],
+			['due<someday', 4],
+			['tag>x', 3],
+			['text:"open', 5],
+		];
+		for (const [query, position] of cases) {
+			let error: unknown = null;
+			try {
+				parseTaskQuery(query);
+			} catch (e) {
+				error = e;
+			}
+			expect(error instanceof TaskQueryError).toBe(true);
+			expect((error as TaskQueryError).position).toBe(position);
+		}
+	});
+});
+
+describe('evaluateTaskQuery', () => {
+	const tasks = [
+		makeTask({ description: 'report', priority: 'high', tags: ['Work'], dueDate: new Date(2025, 2, 12) }),
+		makeTask({ description: 'groceries', priority: 'high', tags: ['home'], dueDate: new Date(2025, 2, 6) }),
+		makeTask({ description: 'old', priority: 'high', tags: ['work'], dueDate: new Date(2025, 2, 1), archived: true }),
+		makeTask({ description: 'later', priority: 'high', tags: ['work'], dueDate: new Date(2025, 2, 20) }),
+		makeTask({ description: 'low', priority: 'low', tags: ['home'], dueDate: new Date(2025, 2, 6) }),
+		makeTask({ description: 'undated', priority: 'normal', detail: 'call the bank' }),
+	];
+
+	it('should evaluate the combined example query', () => {
+		const query = 'priority:high AND (tag:work OR tag:home) AND due<"next friday" AND NOT is:archived';
+		expect(ids(tasks, query)).toEqual(['report', 'groceries']);
+	});
+
+	it('should compare priorities and search text in details', () => {
+		expect(ids(tasks, 'priority<normal')).toEqual(['low']);
+		expect(ids(tasks, 'bank')).toEqual(['undated']);
+	});
+
+	it('should resolve relative and named dates', () => {
+		expect(ids(tasks, 'due:tomorrow')).toEqual(['groceries', 'low']);
+		expect(ids(tasks, 'due<=+3d -is:archived')).toEqual(['groceries', 'low']);
+		expect(ids(tasks, 'due:next-week')).toEqual(['report']);
+		expect(ids(tasks, 'due:none')).toEqual(['undated']);
+		expect(ids(tasks, 'is:overdue')).toEqual(['old']);
+	});
+
+	it('should use the week start from the context', () => {
+		const node = parseTaskQuery('due:sunday');
+		const sunday = makeTask({ dueDate: new Date(2025, 2, 2) });
+		expect(evaluateTaskQuery(node, sunday, { now: NOW, startOnMonday: false })).toBe(true);
+		expect(evaluateTaskQuery(node, sunday, { now: NOW, startOnMonday: true })).toBe(false);
+	});
+});
@@ -0,0 +1,225 @@
+/**
+ * taskRecurrence 单元测试
+ */
+
+import type { GCTask } from '../../types';
+import type { NextOccurrenceDates, RecurrenceRule } from '../taskRecurrence';
+import {
+	computeNextOccurrence,
+	getNextRecurrenceDate,
+	getOccurrenceKey,
+	getSeriesId,
+	isRecurring,
+	materializeOccurrence,
+	needsNextOccurrence,
+	parseRecurrenceRule,
+	projectOccurrences,
+	shiftDate,
+} from '../taskRecurrence';
+import { makeTask } from '../__fixtures__/tasks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('parseRecurrenceRule', () => {
+	it('should parse the supported syntax', () => {
+		const cases: Array<[string, RecurrenceRule]> = [
+			['every day', { frequency: 'daily', interval: 1, whenDone: false }],
+			['Every 3  Days when done', { frequency: 'daily', interval: 3, whenDone: true }],
+			['every weekday', { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5], whenDone: false }],
+			['every weekend', { frequency: 'weekly', interval: 1, weekdays: [0, 6], whenDone: false }],
+			['every 2 weeks', { frequency: 'weekly', interval: 2, whenDone: false }],
+			['every week on Friday, Monday, friday', { frequency: 'weekly', interval: 1, weekdays: [1, 5], whenDone: false }],
+			['every month', { frequency: 'monthly', interval: 1, whenDone: false }],
+			['every month on the last', { frequency: 'monthly', interval: 1, monthDay: 'last', whenDone: false }],
+			['every 2 months on the 15th when done', { frequency: 'monthly', interval: 2, monthDay: 15, whenDone: true }],
+			['every 2 years', { frequency: 'yearly', interval: 2, whenDone: false }],
+			['every march', { frequency: 'yearly', interval: 1, month: 2, whenDone: false }],
+			['every January on the 1st', { frequency: 'yearly', interval: 1, month: 0, monthDay: 1, whenDone: false }],
+		];
+		for (const [rule, expected] of cases) {
+			expect(parseRecurrenceRule(rule)).toEqual(expected);
+		}
+	});
+
+	it('should reject unknown or invalid rules', () => {
+		const cases: Array<string | undefined> = [
+			undefined,
+			'',
+			'daily',
+			'every 0 days',
+			'every day on monday',
+			'every week on funday',
+			'every month on the 32nd',
+			'every year on the 1st',
+			'every smarch',
+		];
+		for (const rule of cases) {
+			expect(parseRecurrenceRule(rule)).toBe(null);
+		}
+		expect(isRecurring({ repeat: 'every day' })).toBe(true);
+		expect(isRecurring({ repeat: 'every 0 days' })).toBe(false);
+	});
+});
+
+describe('getNextRecurrenceDate', () => {
+	it('should follow the rule and keep the time of day', () => {
+		const cases: Array<[string, Date, Date]> = [
+			// 间隔
+			['every day', new Date(2025, 0, 31, 9, 30), new Date(2025, 1, 1, 9, 30)],
+			['every 3 days', new Date(2025, 1, 27), new Date(2025, 2, 2)],
+			['every 2 weeks', new Date(2025, 2, 5), new Date(2025, 2, 19)],
+			// 星期
+			['every week on Monday, Friday', new Date(2025, 2, 5), new Date(2025, 2, 7)],
+			['every week on Monday, Friday', new Date(2025, 2, 7), new Date(2025, 2, 10)],
+			['every 2 weeks on Monday', new Date(2025, 2, 3), new Date(2025, 2, 17)],
+			['every weekday', new Date(2025, 2, 7, 18, 0), new Date(2025, 2, 10, 18, 0)],
+			// 月末截断与闰日
+			['every month', new Date(2025, 0, 31), new Date(2025, 1, 28)],
+			['every month', new Date(2024, 0, 31), new Date(2024, 1, 29)],
+			['every month', new Date(2025, 11, 15), new Date(2026, 0, 15)],
+			['every month on the last', new Date(2025, 0, 15), new Date(2025, 0, 31)],
+			['every month on the last', new Date(2025, 1, 28), new Date(2025, 2, 31)],
+			['every month on the 15th', new Date(2025, 0, 10), new Date(2025, 0, 15)],
+			['every month on the 15th', new Date(2025, 0, 20), new Date(2025, 1, 15)],
+			['every 2 months on the 31st', new Date(2025, 0, 31), new Date(2025, 2, 31)],
+			['every year', new Date(2024, 1, 29), new Date(2025, 1, 28)],
+			['every 4 years', new Date(2024, 1, 29), new Date(2028, 1, 29)],
+			['every January on the 15th', new Date(2025, 0, 10), new Date(2025, 0, 15)],
+			['every January on the 15th', new Date(2025, 2, 1), new Date(2026, 0, 15)],
+		];
+		for (const [rule, from, expected] of cases) {
+			expect(getNextRecurrenceDate(parseRecurrenceRule(rule)!, from)).toEqual(expected);
+		}
+	});
+});
+
+describe('computeNextOccurrence', () => {
+	it('should shift start and due dates together', () => {
+		const cases: Array<[Partial<GCTask>, NextOccurrenceDates | null]> = [
+			[
+				{ repeat: 'every week', startDate: new Date(2025, 2, 3), dueDate: new Date(2025, 2, 5, 9, 0) },
+				{ startDate: new Date(2025, 2, 10), dueDate: new Date(2025, 2, 12, 9, 0) },
+			],
+			[{ repeat: 'every month', startDate: new Date(2025, 2, 5) }, { startDate: new Date(2025, 3, 5), dueDate: undefined }],
+			[{ repeat: 'every month', dueDate: new Date(2025, 0, 31) }, { startDate: undefined, dueDate: new Date(2025, 1, 28) }],
+			[{ repeat: 'sometimes', dueDate: new Date(2025, 2, 5) }, null],
+			[{ repeat: 'every day' }, null],
+		];
+		for (const [overrides, expected] of cases) {
+			expect(computeNextOccurrence(makeTask(overrides), new Date(2025, 2, 5))).toEqual(expected);
+		}
+	});
+
+	it('should count when-done rules from the completion date', () => {
+		const task = makeTask({ repeat: 'every 3 days when done', dueDate: new Date(2025, 2, 5, 9, 0) });
+
+		expect(computeNextOccurrence(task, new Date(2025, 2, 10, 18, 45))).toEqual({
+			startDate: undefined,
+			dueDate: new Date(2025, 2, 13, 9, 0),
+		});
+	});
+
+	it('should catch up past occurrences and skip taken dates', () => {
+		const task = makeTask({ repeat: 'every day', dueDate: new Date(2025, 0, 1) });
+		const notBefore = new Date(2025, 2, 5);
+
+		expect(computeNextOccurrence(task, notBefore, notBefore)?.dueDate).toEqual(new Date(2025, 2, 5));
+
+		const taken = (date: Date) => date.getTime() === new Date(2025, 2, 5).getTime();
+		expect(computeNextOccurrence(task, notBefore, notBefore, taken)?.dueDate).toEqual(new Date(2025, 2, 6));
+	});
+});
+
+describe('series helpers', () => {
+	it('should shift by calendar days and build occurrence keys', () => {
+		expect(shiftDate(new Date(2025, 2, 5, 9, 30), 2 * DAY_MS)).toEqual(new Date(2025, 2, 7, 9, 30));
+		expect(shiftDate(new Date(2025, 2, 5), -DAY_MS)).toEqual(new Date(2025, 2, 4));
+		expect(getSeriesId({ id: 'a' })).toBe('a');
+		expect(getSeriesId({ id: 'b', seriesId: 'a' })).toBe('a');
+		expect(getOccurrenceKey('a', new Date(2025, 2, 5, 23, 0))).toBe('a@2025-03-05');
+	});
+});
+
+describe('projectOccurrences', () => {
+	it('should project occurrences of series anchored long before the range', () => {
+		const rangeStart = new Date(2025, 2, 1);
+		const rangeEnd = new Date(2025, 2, 31, 23, 59);
+		const cases: Array<[string, Date]> = [
+			['every day', new Date(2020, 0, 1, 9, 0)],
+			['every 3 days', new Date(2015, 5, 10)],
+			['every 2 weeks on Monday, Thursday', new Date(2001, 0, 3)],
+			['every month on the last', new Date(1960, 0, 31)],
+		];
+		for (const [repeat, dueDate] of cases) {
+			// 逐次推算（不设迭代上限）得到的期望结果
+			const rule = parseRecurrenceRule(repeat)!;
+			const expected: string[] = [];
+			for (let date = getNextRecurrenceDate(rule, dueDate); date <= rangeEnd; date = getNextRecurrenceDate(rule, date)) {
+				if (date >= rangeStart) expected.push(getOccurrenceKey('s', date));
+			}
+
+			const ghosts = projectOccurrences(makeTask({ id: 's', repeat, dueDate }), rangeStart, rangeEnd);
+
+			expect(expected.length).toBeGreaterThan(0);
+			expect(ghosts.map(ghost => ghost.id)).toEqual(expected);
+		}
+	});
+
+	it('should skip materialized occurrences', () => {
+		const task = makeTask({ id: 's', repeat: 'every day', dueDate: new Date(2025, 2, 1) });
+		const ghosts = projectOccurrences(task, new Date(2025, 2, 1), new Date(2025, 2, 4), key => key === 's@2025-03-03');
+
+		expect(ghosts.map(ghost => ghost.id)).toEqual(['s@2025-03-02', 's@2025-03-04']);
+		expect(ghosts[0]).toMatchObject({ ghostOf: 's', seriesId: 's', status: 'todo', dueDate: new Date(2025, 2, 2) });
+	});
+});
+
+describe('materializeOccurrence', () => {
+	it('should detach the ghost from the series rule', () => {
+		const ghost = makeTask({
+			id: 'a@2025-03-05',
+			ghostOf: 'a',
+			seriesId: 'a',
+			repeat: 'every day',
+			nextOccurrenceId: 'b',
+			tags: ['work'],
+			dueDate: new Date(2025, 2, 5),
+			lastModified: new Date(2025, 2, 1),
+		});
+
+		const task = materializeOccurrence(ghost);
+
+		expect(task).toMatchObject({ id: '', seriesId: 'a', description: ghost.description, dueDate: ghost.dueDate });
+		expect(task.ghostOf).toBe(undefined);
+		expect(task.repeat).toBe(undefined);
+		expect(task.nextOccurrenceId).toBe(undefined);
+		expect(task.lastModified).toBe(undefined);
+		expect(task.tags).toEqual(['work']);
+		expect(task.tags === ghost.tags).toBe(false);
+	});
+});
+
+describe('needsNextOccurrence', () => {
+	it('should not spawn again when a completed instance is re-toggled', () => {
+		const existing = new Set<string>();
+		const exists = (id: string) => existing.has(id);
+		const instance: { repeat: string; nextOccurrenceId?: string } = { repeat: 'every day' };
+
+		// 首次完成：生成下一次实例
+		expect(needsNextOccurrence(instance, exists)).toBe(true);
+		instance.nextOccurrenceId = 'next';
+		existing.add('next');
+
+		// done → todo → done：下一次实例仍存在，不再生成
+		expect(needsNextOccurrence(instance, exists)).toBe(false);
+
+		// 下一次实例被删除后再次完成：重新生成
+		existing.delete('next');
+		expect(needsNextOccurrence(instance, exists)).toBe(true);
+	});
+
+	it('should ignore tasks without a valid rule', () => {
+		expect(needsNextOccurrence({ repeat: undefined }, () => false)).toBe(false);
+		expect(needsNextOccurrence({ repeat: 'sometimes' }, () => false)).toBe(false);
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * taskSearch 单元测试
+ */
+
+import { fuzzyMatch, fuzzySearchTasks } from '../taskSearch';
+import { makeTask } from '../__fixtures__/tasks';
+
+describe('fuzzyMatch', () => {
+	it('should prefer contiguous matches at word starts', () => {
+		const prefix = fuzzyMatch('rep', 'weekly report');
+		const inner = fuzzyMatch('por', 'weekly report');
+		const scattered = fuzzyMatch('wkrp', 'weekly report');
+		expect(prefix!.matches).toEqual([[7, 10]]);
+		expect(prefix!.score).toBeGreaterThan(inner!.score);
+		expect(inner!.score).toBeGreaterThan(scattered!.score);
+		expect(scattered!.matches).toEqual([[0, 1], [3, 4], [7, 8], [9, 10]]);
+	});
+
+	it('should reject missing or widely scattered characters', () => {
+		expect(fuzzyMatch('xyz', 'weekly report')).toBe(null);
+		expect(fuzzyMatch('ab', 'a................................b')).toBe(null);
+	});
+});
+
+describe('fuzzySearchTasks', () => {
+	const tasks = [
+		makeTask({ description: '整理周报', tags: ['work'] }),
+		makeTask({ description: '买菜', detail: '周末去超市，顺便取快递' }),
+		makeTask({ description: '周报模板', tags: ['work'], completed: true }),
+		makeTask({ description: '看电影', tags: ['周末'] }),
+	];
+
+	it('should require every keyword and weight titles above tags and details', () => {
+		expect(fuzzySearchTasks(tasks, '周').map(r => r.task.id)).toEqual(['周报模板', '整理周报', '看电影', '买菜']);
+		expect(fuzzySearchTasks(tasks, '周报 #work').map(r => r.task.id)).toEqual(['周报模板', '整理周报']);
+	});
+
+	it('should report matches in details and tags', () => {
+		const [result] = fuzzySearchTasks(tasks, '快递');
+		expect(result.task.id).toBe('买菜');
+		expect(result.detailMatches).toEqual([[9, 11]]);
+
+		const [tagged] = fuzzySearchTasks(tasks, '周末 电影');
+		expect(tagged.matchedTags).toEqual(['周末']);
+		expect(tagged.descriptionMatches).toEqual([[1, 3]]);
+	});
+});
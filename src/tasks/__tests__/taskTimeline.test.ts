@@ -0,0 +1,64 @@
+/**
+ * taskTimeline 单元测试
+ */
+
+import { buildTimelineDropUpdates, canDropOnTimeline, getTimeBlockRange, isTimedOnDay } from '../taskTimeline';
+import { makeTask } from '../__fixtures__/tasks';
+
+// 2025-03-05 是周三
+const DAY = new Date(2025, 2, 5);
+
+describe('getTimeBlockRange', () => {
+	it('should span from start to due on the same day, else default to 30 minutes', () => {
+		const ranged = makeTask({
+			startDate: new Date(2025, 2, 5, 9, 0), hasStartTime: true,
+			dueDate: new Date(2025, 2, 5, 10, 30), hasDueTime: true,
+		});
+		const pointInTime = makeTask({ dueDate: new Date(2025, 2, 5, 23, 45), hasDueTime: true });
+
+		expect(getTimeBlockRange(ranged)).toEqual({ startMinutes: 540, endMinutes: 630 });
+		expect(getTimeBlockRange(pointInTime)).toEqual({ startMinutes: 1425, endMinutes: 1440 });
+		expect(isTimedOnDay(pointInTime, DAY)).toBe(true);
+		expect(isTimedOnDay(pointInTime, new Date(2025, 2, 6))).toBe(false);
+	});
+});
+
+describe('buildTimelineDropUpdates', () => {
+	it('should move time blocks together with their start time', () => {
+		const task = makeTask({
+			startDate: new Date(2025, 2, 5, 9, 0), hasStartTime: true,
+			dueDate: new Date(2025, 2, 5, 10, 0), hasDueTime: true,
+		});
+
+		expect(buildTimelineDropUpdates(task, DAY, 14 * 60)).toEqual({
+			dueDate: new Date(2025, 2, 5, 15, 0),
+			hasDueTime: true,
+			startDate: new Date(2025, 2, 5, 14, 0),
+		});
+		expect(buildTimelineDropUpdates(task, DAY, 9 * 60)).toBe(null);
+	});
+
+	it('should give single-day all-day tasks a due time on the viewed day', () => {
+		const cases = [
+			makeTask({ dueDate: new Date(2025, 2, 5) }),
+			makeTask({ dueDate: new Date(2025, 2, 3) }),
+			makeTask({ startDate: new Date(2025, 2, 5) }),
+			// 跨天任务在截止当天拖入
+			makeTask({ startDate: new Date(2025, 2, 1), dueDate: new Date(2025, 2, 5) }),
+		];
+		for (const task of cases) {
+			expect(buildTimelineDropUpdates(task, DAY, 8 * 60 + 15)).toEqual({
+				dueDate: new Date(2025, 2, 5, 8, 15),
+				hasDueTime: true,
+			});
+		}
+	});
+
+	it('should refuse to shorten a multi-day task viewed on one of its middle days', () => {
+		const task = makeTask({ startDate: new Date(2025, 2, 3), dueDate: new Date(2025, 2, 7) });
+
+		expect(canDropOnTimeline(task, DAY)).toBe(false);
+		expect(buildTimelineDropUpdates(task, DAY, 8 * 60)).toBe(null);
+		expect(canDropOnTimeline(task, new Date(2025, 2, 7))).toBe(true);
+	});
+});
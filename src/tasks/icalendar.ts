@@ -0,0 +1,512 @@
+/**
+ * iCalendar（RFC 5545）序列化与解析
+ *
+ * 导出：将 GCTask 转换为 .ics 文本：待办输出为 VTODO，提醒输出为 VEVENT。
+ * 不带时间的日期输出为 DATE 值，带时间的日期统一输出为 UTC 时间。
+ *
+ * 解析：读取 .ics 文本中的 VEVENT / VTODO（忽略 VALARM 等嵌套组件和
+ * 单次修改的重复实例）；带 TZID 的时间按本地时间处理。
+ *
+ * @fileoverview iCalendar 导出
+ * @module tasks/icalendar
+ */
+
+import type { GCTask, TaskPriority } from '../types';
+import { parseRecurrenceRule } from './taskRecurrence';
+
+// ==================== 常量 ====================
+
+/** 产品标识 */
+const PRODID = '-//Obsidian Gantt Calendar//ZH';
+
+/** UID 后缀（任务 ID 本身全局唯一，后缀标明来源） */
+export const ICS_UID_SUFFIX = '@obsidian-gantt-calendar';
+
+/** 优先级映射（RFC 5545：1-4 高，5 中，6-9 低） */
+const PRIORITY_VALUES: Record<TaskPriority, number> = {
+	high: 1,
+	normal: 5,
+	low: 9,
+};
+
+/** VTODO 状态映射 */
+const TODO_STATUS_VALUES: Record<string, string> = {
+	todo: 'NEEDS-ACTION',
+	in_progress: 'IN-PROCESS',
+	done: 'COMPLETED',
+	canceled: 'CANCELLED',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTH_NAMES = [
+	'January', 'February', 'March', 'April', 'May', 'June',
+	'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** 单行最大字节数（超出后折行） */
+const MAX_LINE_OCTETS = 75;
+
+// ==================== 类型定义 ====================
+
+/**
+ * 导出选项
+ */
+export interface ICalendarExportOptions {
+	/** 日历名称（X-WR-CALNAME） */
+	calendarName?: string;
+	/** 生成时间（DTSTAMP，默认当前时间） */
+	now?: Date;
+}
+
+/**
+ * 解析出的日历项（VEVENT / VTODO）
+ */
+export interface ICalendarItem {
+	kind: 'event' | 'todo';
+	uid: string;
+	summary: string;
+	description?: string;
+	/** DTSTART */
+	start?: Date;
+	hasStartTime: boolean;
+	/** VEVENT 的 DTEND */
+	end?: Date;
+	/** VTODO 的 DUE */
+	due?: Date;
+	hasDueTime: boolean;
+	/** STATUS 原始值（大写） */
+	status?: string;
+	/** PRIORITY（0 表示未定义） */
+	priority: number;
+	categories: string[];
+	/** 转换后的周期规则（无法表达时为 undefined） */
+	repeat?: string;
+	completed?: Date;
+	created?: Date;
+	lastModified?: Date;
+}
+
+/**
+ * 解析结果
+ */
+export interface ParsedICalendar {
+	/** 日历名称（X-WR-CALNAME） */
+	name?: string;
+	items: ICalendarItem[];
+}
+
+/** 内容行 */
+interface ContentLine {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
+
+// ==================== 导出 ====================
+
+/**
+ * 将任务列表序列化为 iCalendar 文本
+ */
+export function buildICalendar(tasks: GCTask[], options: ICalendarExportOptions = {}): string {
+	const now = options.now ?? new Date();
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODID}`,
+		'CALSCALE:GREGORIAN',
+	];
+	if (options.calendarName) {
+		lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+	}
+
+	for (const task of tasks) {
+		lines.push(...(task.type === 'reminder' ? buildEvent(task, now) : buildTodo(task, now)));
+	}
+
+	lines.push('END:VCALENDAR');
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * 将周期规则字符串转换为 RRULE 值
+ *
+ * 「when done」规则依赖完成时间，无法用 RRULE 表达，返回 null。
+ */
+export function toRRule(repeat: string | undefined): string | null {
+	const rule = parseRecurrenceRule(repeat);
+	if (!rule || rule.whenDone) return null;
+
+	const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+	if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+	if (rule.weekdays?.length) parts.push(`BYDAY=${rule.weekdays.map(day => WEEKDAY_CODES[day]).join(',')}`);
+	if (rule.month !== undefined) parts.push(`BYMONTH=${rule.month + 1}`);
+	if (rule.monthDay !== undefined) parts.push(`BYMONTHDAY=${rule.monthDay === 'last' ? -1 : rule.monthDay}`);
+	return parts.join(';');
+}
+
+/**
+ * 将 RRULE 值转换为周期规则字符串
+ *
+ * 仅支持可用周期规则表达的形式；带序号的 BYDAY（如 1MO）、多个 BYMONTHDAY、
+ * COUNT 以及已结束的 UNTIL 返回 null。
+ */
+export function fromRRule(value: string, now: Date = new Date()): string | null {
+	const parts: Record<string, string> = {};
+	for (const part of value.split(';')) {
+		const [key, val] = part.split('=');
+		if (key && val !== undefined) parts[key.toUpperCase()] = val.toUpperCase();
+	}
+
+	if (parts.COUNT) return null;
+	if (parts.UNTIL) {
+		const until = parseDateValue(parts.UNTIL, {});
+		if (!until || until.date.getTime() < now.getTime()) return null;
+	}
+
+	const interval = parts.INTERVAL ? parseInt(parts.INTERVAL) : 1;
+	if (!(interval >= 1)) return null;
+
+	let weekdays: number[] | undefined;
+	if (parts.BYDAY) {
+		weekdays = parts.BYDAY.split(',').map(code => WEEKDAY_CODES.indexOf(code));
+		if (weekdays.some(day => day < 0)) return null;
+	}
+	let monthDay: number | 'last' | undefined;
+	if (parts.BYMONTHDAY) {
+		const day = parseInt(parts.BYMONTHDAY);
+		if (day === -1) monthDay = 'last';
+		else if (day >= 1 && day <= 31 && String(day) === parts.BYMONTHDAY) monthDay = day;
+		else return null;
+	}
+	const month = parts.BYMONTH ? parseInt(parts.BYMONTH) - 1 : undefined;
+	if (month !== undefined && !(month >= 0 && month <= 11 && String(month + 1) === parts.BYMONTH)) return null;
+
+	const every = (unit: string) => interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+	const onDays = weekdays ? ` on ${weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}` : '';
+	const onMonthDay = monthDay !== undefined ? ` on the ${formatOrdinal(monthDay)}` : '';
+
+	let repeat: string | null = null;
+	switch (parts.FREQ) {
+		case 'DAILY':
+			// 每天且限定星期等同于每周的这几天
+			repeat = weekdays ? (interval === 1 ? `every week${onDays}` : null) : every('day');
+			break;
+		case 'WEEKLY':
+			repeat = every('week') + onDays;
+			break;
+		case 'MONTHLY':
+			repeat = weekdays ? null : every('month') + onMonthDay;
+			break;
+		case 'YEARLY':
+			if (weekdays) break;
+			if (month !== undefined) {
+				repeat = interval === 1 ? `every ${MONTH_NAMES[month]}${onMonthDay}` : null;
+			} else {
+				repeat = monthDay === undefined ? every('year') : null;
+			}
+			break;
+	}
+
+	return repeat && parseRecurrenceRule(repeat) ? repeat : null;
+}
+
+/**
+ * 解析 iCalendar 文本
+ */
+export function parseICalendar(text: string, now: Date = new Date()): ParsedICalendar {
+	const result: ParsedICalendar = { items: [] };
+	const stack: string[] = [];
+	let current: ContentLine[] | null = null;
+
+	// 展开折行（CRLF/LF 后紧跟空格或制表符）
+	const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+	for (const raw of lines) {
+		const line = parseContentLine(raw);
+		if (!line) continue;
+
+		if (line.name === 'BEGIN') {
+			const component = line.value.toUpperCase();
+			stack.push(component);
+			if ((component === 'VEVENT' || component === 'VTODO') && stack.length === 2) {
+				current = [];
+			}
+			continue;
+		}
+		if (line.name === 'END') {
+			const component = stack.pop();
+			if (current && stack.length === 1 && (component === 'VEVENT' || component === 'VTODO')) {
+				const item = buildItem(component === 'VEVENT' ? 'event' : 'todo', current, now);
+				if (item) result.items.push(item);
+				current = null;
+			}
+			continue;
+		}
+
+		if (current && stack.length === 2) {
+			current.push(line);
+		} else if (stack.length === 1 && line.name === 'X-WR-CALNAME') {
+			result.name = unescapeText(line.value);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * 由组件属性构建日历项（单次修改的重复实例返回 null）
+ */
+function buildItem(kind: ICalendarItem['kind'], lines: ContentLine[], now: Date): ICalendarItem | null {
+	const get = (name: string) => lines.find(line => line.name === name);
+	if (get('RECURRENCE-ID')) return null;
+
+	const uid = get('UID')?.value.trim();
+	if (!uid) return null;
+
+	const start = parseDateProperty(get('DTSTART'));
+	const due = parseDateProperty(get('DUE'));
+	const end = parseDateProperty(get('DTEND'));
+	const rrule = get('RRULE');
+	const priority = parseInt(get('PRIORITY')?.value ?? '');
+
+	return {
+		kind,
+		uid,
+		summary: unescapeText(get('SUMMARY')?.value ?? ''),
+		description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : undefined,
+		start: start?.date,
+		hasStartTime: !!start?.hasTime,
+		end: end?.date,
+		due: due?.date,
+		hasDueTime: !!due?.hasTime,
+		status: get('STATUS')?.value.trim().toUpperCase(),
+		priority: isNaN(priority) ? 0 : priority,
+		categories: lines
+			.filter(line => line.name === 'CATEGORIES')
+			.flatMap(line => splitTextList(line.value))
+			.map(category => category.trim())
+			.filter(Boolean),
+		repeat: rrule ? fromRRule(rrule.value, now) ?? undefined : undefined,
+		completed: parseDateProperty(get('COMPLETED'))?.date,
+		created: parseDateProperty(get('CREATED'))?.date,
+		lastModified: parseDateProperty(get('LAST-MODIFIED'))?.date,
+	};
+}
+
+/**
+ * 待办 → VTODO
+ */
+function buildTodo(task: GCTask, now: Date): string[] {
+	const lines = ['BEGIN:VTODO', ...buildCommonProperties(task, now)];
+
+	// DTSTART 与 DUE 的值类型需一致：任一带时间时两者都输出为时间
+	const withTime = !!(task.hasStartTime || task.hasDueTime);
+	const startValid = task.startDate && (!task.dueDate || task.startDate.getTime() <= task.dueDate.getTime());
+	if (task.startDate && startValid) lines.push(formatDateProperty('DTSTART', task.startDate, withTime));
+	if (task.dueDate) lines.push(formatDateProperty('DUE', task.dueDate, withTime));
+
+	const status = task.status ?? (task.completed ? 'done' : 'todo');
+	lines.push(`STATUS:${TODO_STATUS_VALUES[status] ?? 'NEEDS-ACTION'}`);
+	if (status === 'done') {
+		lines.push(`COMPLETED:${formatUtcDateTime(task.completionDate ?? task.lastModified ?? now)}`);
+	}
+
+	lines.push('END:VTODO');
+	return lines;
+}
+
+/**
+ * 提醒 → VEVENT（全天提醒占满当天）
+ */
+function buildEvent(task: GCTask, now: Date): string[] {
+	const lines = ['BEGIN:VEVENT', ...buildCommonProperties(task, now)];
+
+	const date = task.dueDate ?? task.startDate;
+	const withTime = task.dueDate ? !!task.hasDueTime : !!task.hasStartTime;
+	if (date) {
+		lines.push(formatDateProperty('DTSTART', date, withTime));
+		if (!withTime) {
+			const nextDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+			lines.push(formatDateProperty('DTEND', nextDay, false));
+		}
+	}
+	if (task.status === 'canceled') lines.push('STATUS:CANCELLED');
+
+	lines.push('END:VEVENT');
+	return lines;
+}
+
+/**
+ * VTODO / VEVENT 共有属性
+ */
+function buildCommonProperties(task: GCTask, now: Date): string[] {
+	const lines = [
+		`UID:${task.id}${ICS_UID_SUFFIX}`,
+		`DTSTAMP:${formatUtcDateTime(now)}`,
+	];
+	if (task.createdDate) lines.push(`CREATED:${formatUtcDateTime(task.createdDate)}`);
+	if (task.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(task.lastModified)}`);
+
+	lines.push(`SUMMARY:${escapeText(task.description)}`);
+	if (task.detail) lines.push(`DESCRIPTION:${escapeText(task.detail)}`);
+	lines.push(`PRIORITY:${PRIORITY_VALUES[task.priority] ?? PRIORITY_VALUES.normal}`);
+	if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+
+	const rrule = toRRule(task.repeat);
+	if (rrule) lines.push(`RRULE:${rrule}`);
+	if (task.parentId) lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parentId}${ICS_UID_SUFFIX}`);
+
+	return lines;
+}
+
+// ==================== 解析辅助 ====================
+
+/**
+ * 解析内容行 NAME;PARAM=VALUE:VALUE（参数值可用双引号包含冒号）
+ */
+function parseContentLine(raw: string): ContentLine | null {
+	let inQuotes = false;
+	let colon = -1;
+	for (let i = 0; i < raw.length; i++) {
+		const ch = raw[i];
+		if (ch === '"') inQuotes = !inQuotes;
+		else if (ch === ':' && !inQuotes) {
+			colon = i;
+			break;
+		}
+	}
+	if (colon <= 0) return null;
+
+	const [name, ...paramParts] = raw.slice(0, colon).split(';');
+	const params: Record<string, string> = {};
+	for (const part of paramParts) {
+		const eq = part.indexOf('=');
+		if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+	}
+	return { name: name.toUpperCase(), params, value: raw.slice(colon + 1) };
+}
+
+function parseDateProperty(line: ContentLine | undefined): { date: Date; hasTime: boolean } | null {
+	return line ? parseDateValue(line.value.trim(), line.params) : null;
+}
+
+/**
+ * 解析 DATE / DATE-TIME 值：UTC（Z 结尾）按 UTC，其余（含 TZID）按本地时间
+ */
+function parseDateValue(value: string, params: Record<string, string>): { date: Date; hasTime: boolean } | null {
+	const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+	if (!match) return null;
+
+	const [, y, mo, d, h, mi, sec, utc] = match;
+	if (h === undefined || params.VALUE === 'DATE') {
+		return { date: new Date(+y, +mo - 1, +d), hasTime: false };
+	}
+	const date = utc
+		? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +sec))
+		: new Date(+y, +mo - 1, +d, +h, +mi, +sec);
+	return { date, hasTime: true };
+}
+
+/**
+ * 按未转义的逗号拆分多值 TEXT
+ */
+function splitTextList(value: string): string[] {
+	const values: string[] = [];
+	let current = '';
+	for (let i = 0; i < value.length; i++) {
+		if (value[i] === '\\' && i + 1 < value.length) {
+			current += value[i] + value[++i];
+		} else if (value[i] === ',') {
+			values.push(current);
+			current = '';
+		} else {
+			current += value[i];
+		}
+	}
+	values.push(current);
+	return values.map(unescapeText);
+}
+
+/**
+ * 还原 TEXT 转义
+ */
+function unescapeText(text: string): string {
+	return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function formatOrdinal(day: number | 'last'): string {
+	if (day === 'last') return 'last';
+	const suffix = day % 10 === 1 && day !== 11 ? 'st'
+		: day % 10 === 2 && day !== 12 ? 'nd'
+			: day % 10 === 3 && day !== 13 ? 'rd'
+				: 'th';
+	return `${day}${suffix}`;
+}
+
+// ==================== 格式化 ====================
+
+/**
+ * 日期属性：全天为 DATE 值（本地日期），带时间为 UTC 时间
+ */
+function formatDateProperty(name: string, date: Date, withTime: boolean): string {
+	return withTime
+		? `${name}:${formatUtcDateTime(date)}`
+		: `${name};VALUE=DATE:${formatLocalDate(date)}`;
+}
+
+function formatLocalDate(date: Date): string {
+	return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatUtcDateTime(date: Date): string {
+	return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+		`T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+/**
+ * 转义 TEXT 值（反斜杠、分号、逗号、换行）
+ */
+function escapeText(text: string): string {
+	return text
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 按 75 字节折行（续行以空格开头，不拆分多字节字符）
+ */
+function foldLine(line: string): string {
+	const chunks: string[] = [];
+	let current = '';
+	let octets = 0;
+	for (const ch of line) {
+		const size = utf8Length(ch);
+		// 续行开头的空格占 1 字节
+		const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (octets + size > limit) {
+			chunks.push(current);
+			current = '';
+			octets = 0;
+		}
+		current += ch;
+		octets += size;
+	}
+	chunks.push(current);
+	return chunks.join('\r\n ');
+}
+
+function utf8Length(ch: string): number {
+	const code = ch.codePointAt(0) ?? 0;
+	if (code < 0x80) return 1;
+	if (code < 0x800) return 2;
+	if (code < 0x10000) return 3;
+	return 4;
+}
@@ -0,0 +1,300 @@
+/**
+ * Markdown 任务解析
+ *
+ * 从笔记内容中解析 Tasks（emoji）/ Dataview（[field:: value]）格式的任务行，
+ * 供「从笔记导入任务」使用。按缩进识别子任务，最多保留两级嵌套。
+ *
+ * @fileoverview Markdown 任务行解析
+ * @module tasks/markdownTaskParser
+ */
+
+import type { GCTask, TaskPriority } from '../types';
+import { RegularExpressions } from '../utils/RegularExpressions';
+import { migratePriority } from '../utils/priorityUtils';
+import { parseStatusFromCheckbox, type TaskStatusType } from './taskStatus';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 解析出的 Markdown 任务
+ */
+export interface ParsedMarkdownTask {
+	/** 所在文件路径 */
+	filePath: string;
+	/** 行号（从 0 开始） */
+	line: number;
+	/** 父任务在解析结果中的下标（顶层任务为 null） */
+	parentIndex: number | null;
+	/** 嵌套深度：0=顶层, 1=子任务, 2=子子任务 */
+	depth: number;
+	description: string;
+	status: TaskStatusType;
+	priority: TaskPriority;
+	tags: string[];
+	createdDate?: Date;
+	startDate?: Date;
+	scheduledDate?: Date;
+	dueDate?: Date;
+	cancelledDate?: Date;
+	completionDate?: Date;
+	repeat?: string;
+	/** 行尾块 ID（^block-id，不含 ^） */
+	blockId?: string;
+	/** 导入标识（写入 GCTask.sourceId，用于重复导入检测） */
+	importKey: string;
+}
+
+/** 栈中的祖先任务 */
+interface AncestorEntry {
+	indent: number;
+	index: number;
+	depth: number;
+}
+
+// ==================== 常量 ====================
+
+/** 导入标识前缀 */
+export const MARKDOWN_IMPORT_PREFIX = 'md:';
+
+/** 最大嵌套深度（与 GCTask.depth 一致） */
+const MAX_DEPTH = 2;
+
+/** Tab 折算的空格数 */
+const TAB_WIDTH = 4;
+
+/** Tasks 优先级 emoji 对应的 Tasks 优先级名称 */
+const TASKS_PRIORITY_NAMES: Record<string, string> = {
+	'🔺': 'highest',
+	'⏫': 'high',
+	'🔼': 'medium',
+	'🔽': 'low',
+	'⏬': 'lowest',
+};
+
+/** 围栏代码块起止行 */
+const FENCE_REGEX = /^[\s>]*(```|~~~)/;
+
+/** 行尾块 ID（^block-id） */
+const BLOCK_ID_REGEX = /\s+\^([\w-]+)\s*$/;
+
+// ==================== 解析 ====================
+
+/**
+ * 解析笔记内容中的全部任务行
+ *
+ * 跳过围栏代码块；子任务按缩进挂到最近的上级任务下，
+ * 超过最大深度的任务挂到第二层祖先下。
+ */
+export function parseMarkdownTasks(content: string, filePath: string): ParsedMarkdownTask[] {
+	const result: ParsedMarkdownTask[] = [];
+	const stack: AncestorEntry[] = [];
+	const occurrences = new Map<string, number>();
+	let inCodeBlock = false;
+
+	const lines = content.split(/\r?\n/);
+	for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+		const text = lines[lineNumber];
+
+		if (FENCE_REGEX.test(text)) {
+			inCodeBlock = !inCodeBlock;
+			continue;
+		}
+		if (inCodeBlock || !text.trim()) continue;
+
+		const match = text.match(RegularExpressions.taskRegex);
+		if (!match) {
+			// 普通列表项结束同级及更深的任务；顶格正文结束整个列表
+			const listItem = text.match(RegularExpressions.nonTaskRegex);
+			const indent = measureIndent(listItem?.[1] ?? '');
+			if (indent === 0 && !listItem?.[2]) {
+				stack.length = 0;
+			} else {
+				popSiblings(stack, indent);
+			}
+			continue;
+		}
+
+		const [, indentText, , checkbox, body] = match;
+		const indent = measureIndent(indentText);
+		popSiblings(stack, indent);
+
+		let parent = stack.length > 0 ? stack[stack.length - 1] : null;
+		while (parent && parent.depth >= MAX_DEPTH) {
+			const parentIndex = result[parent.index].parentIndex;
+			parent = stack.find(entry => entry.index === parentIndex) ?? null;
+		}
+
+		const description = extractDescription(body);
+		if (!description) continue;
+
+		const baseKey = `${MARKDOWN_IMPORT_PREFIX}${filePath}#${description}`;
+		const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+		occurrences.set(baseKey, occurrence);
+
+		const task: ParsedMarkdownTask = {
+			filePath,
+			line: lineNumber,
+			parentIndex: parent ? parent.index : null,
+			depth: parent ? parent.depth + 1 : 0,
+			description,
+			status: parseStatusFromCheckbox(checkbox.toLowerCase()) as TaskStatusType,
+			priority: parsePriority(body),
+			tags: parseTags(body),
+			createdDate: parseDateField(body, RegularExpressions.Tasks.createdDateRegex, RegularExpressions.Dataview.createdDateRegex),
+			startDate: parseDateField(body, RegularExpressions.Tasks.startDateRegex, RegularExpressions.Dataview.startDateRegex),
+			scheduledDate: parseDateField(body, RegularExpressions.Tasks.scheduledDateRegex, RegularExpressions.Dataview.scheduledDateRegex),
+			dueDate: parseDateField(body, RegularExpressions.Tasks.dueDateRegex, RegularExpressions.Dataview.dueDateRegex),
+			cancelledDate: parseDateField(body, RegularExpressions.Tasks.cancelledDateRegex, RegularExpressions.Dataview.cancelledDateRegex),
+			completionDate: parseDateField(body, RegularExpressions.Tasks.completionDateRegex, RegularExpressions.Dataview.completionDateRegex),
+			repeat: parseRepeat(body),
+			blockId: body.match(BLOCK_ID_REGEX)?.[1],
+			importKey: occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey,
+		};
+
+		stack.push({ indent, index: result.length, depth: task.depth });
+		result.push(task);
+	}
+
+	return result;
+}
+
+/**
+ * 将解析结果转换为 GCTask
+ *
+ * 未标注开始日期时依次使用计划日期、创建日期；
+ * 仅有过去的截止日期时以截止日期作为开始日期，避免甘特条倒置。
+ */
+export function toGCTask(parsed: ParsedMarkdownTask, parentId?: string): GCTask {
+	const completed = parsed.status === 'done';
+	const cancelled = parsed.status === 'canceled';
+	let startDate = parsed.startDate ?? parsed.scheduledDate ?? parsed.createdDate;
+	if (!startDate && parsed.dueDate && parsed.dueDate.getTime() < Date.now()) {
+		startDate = parsed.dueDate;
+	}
+
+	return {
+		id: '',
+		type: 'todo',
+		description: parsed.description,
+		completed,
+		cancelled,
+		status: parsed.status,
+		priority: parsed.priority,
+		tags: parsed.tags.length > 0 ? parsed.tags : undefined,
+		createdDate: parsed.createdDate,
+		startDate,
+		dueDate: parsed.dueDate,
+		cancelledDate: cancelled ? parsed.cancelledDate : undefined,
+		completionDate: completed ? parsed.completionDate : undefined,
+		repeat: parsed.repeat,
+		archived: false,
+		parentId,
+		sourceId: parsed.importKey,
+	};
+}
+
+// ==================== 辅助函数 ====================
+
+/**
+ * 计算缩进宽度（Tab 按 4 个空格计，忽略引用标记）
+ */
+function measureIndent(indentText: string): number {
+	let width = 0;
+	for (const ch of indentText) {
+		if (ch === '\t') width += TAB_WIDTH;
+		else if (ch !== '>') width += 1;
+	}
+	return width;
+}
+
+/**
+ * 弹出缩进不小于当前行的祖先
+ */
+function popSiblings(stack: AncestorEntry[], indent: number): void {
+	while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+		stack.pop();
+	}
+}
+
+/**
+ * 提取纯文本描述（移除元数据、标签和块 ID）
+ */
+export function extractDescription(body: string): string {
+	const rules = RegularExpressions.DescriptionExtraction;
+	return body
+		.replace(rules.removeTasksRepeat, ' ')
+		.replace(rules.removeDataviewRepeat, ' ')
+		.replace(rules.removePriorityEmoji, ' ')
+		.replace(rules.removeTasksDate, ' ')
+		.replace(rules.removeDataviewField, ' ')
+		.replace(rules.removeTags, '')
+		.replace(BLOCK_ID_REGEX, '')
+		.replace(rules.collapseWhitespace, ' ')
+		.trim();
+}
+
+/**
+ * 解析优先级（Tasks emoji 优先，其次 Dataview 字段）
+ */
+function parsePriority(body: string): TaskPriority {
+	const emoji = firstCapture(body, RegularExpressions.Tasks.priorityRegex);
+	if (emoji) return migratePriority(TASKS_PRIORITY_NAMES[emoji]);
+
+	const fieldRegex = RegularExpressions.Dataview.anyFieldRegex;
+	fieldRegex.lastIndex = 0;
+	let field: RegExpExecArray | null;
+	while ((field = fieldRegex.exec(body)) !== null) {
+		if (field[1].toLowerCase() === 'priority') {
+			fieldRegex.lastIndex = 0;
+			return migratePriority(field[2].trim().toLowerCase());
+		}
+	}
+	return 'normal';
+}
+
+/**
+ * 解析周期规则（Tasks 规则延伸到行尾时去掉其后的标签和块 ID）
+ */
+function parseRepeat(body: string): string | undefined {
+	const rule = firstCapture(body, RegularExpressions.Tasks.repeatRegex)
+		?? firstCapture(body, RegularExpressions.Dataview.repeatRegex);
+	if (!rule) return undefined;
+	return rule
+		.replace(BLOCK_ID_REGEX, '')
+		.replace(RegularExpressions.DescriptionExtraction.removeTags, '')
+		.trim() || undefined;
+}
+
+/**
+ * 解析标签（去重，不含 #）
+ */
+function parseTags(body: string): string[] {
+	const tagRegex = new RegExp(RegularExpressions.DescriptionExtraction.matchTags.source, 'g');
+	const tags = new Set<string>();
+	let match: RegExpExecArray | null;
+	while ((match = tagRegex.exec(body)) !== null) {
+		tags.add(match[1]);
+	}
+	return [...tags];
+}
+
+/**
+ * 解析日期字段（Tasks 格式优先）
+ */
+function parseDateField(body: string, tasksRegex: RegExp, dataviewRegex: RegExp): Date | undefined {
+	const value = firstCapture(body, tasksRegex) ?? firstCapture(body, dataviewRegex);
+	if (!value) return undefined;
+	const [year, month, day] = value.split('-').map(part => parseInt(part));
+	const date = new Date(year, month - 1, day);
+	return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * 取第一个匹配的捕获组 1（兼容带 g 标志的共享正则）
+ */
+function firstCapture(body: string, regex: RegExp): string | undefined {
+	regex.lastIndex = 0;
+	const match = regex.exec(body);
+	regex.lastIndex = 0;
+	return match?.[1]?.trim();
+}
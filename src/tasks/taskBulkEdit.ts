@@ -0,0 +1,121 @@
+/**
+ * 批量编辑
+ *
+ * 将多选工具栏和多任务右键菜单中的操作转换为每个任务的 TaskUpdates，
+ * 由 taskUpdater.updateTasksProperties 作为一次批量更新提交。
+ */
+
+import type { GCTask } from '../types';
+import type { TaskUpdates } from './taskUpdater';
+
+export type BulkTaskStatus = 'todo' | 'in_progress' | 'done' | 'canceled';
+
+export type BulkEditAction =
+	| { kind: 'priority'; priority: 'high' | 'normal' | 'low' }
+	| { kind: 'status'; status: BulkTaskStatus }
+	| { kind: 'type'; type: GCTask['type'] }
+	| { kind: 'tags'; add: string[]; remove: string[] }
+	/** 开始日期和截止日期一起平移 */
+	| { kind: 'shift-dates'; days: number }
+	/** 设置或清除（date 为 null）某个日期字段，原日期带时间时保留时分 */
+	| { kind: 'set-date'; field: 'startDate' | 'dueDate'; date: Date | null }
+	| { kind: 'archive' };
+
+/**
+ * 批量操作的撤销记录名称
+ */
+export function getBulkEditLabel(action: BulkEditAction): string {
+	switch (action.kind) {
+		case 'priority': return '批量设置优先级';
+		case 'status': return '批量更改状态';
+		case 'type': return '批量更改类型';
+		case 'tags': return '批量修改标签';
+		case 'shift-dates': return '批量平移日期';
+		case 'set-date': return '批量设置日期';
+		case 'archive': return '批量归档';
+	}
+}
+
+/**
+ * 计算每个任务需要的更新；无需改动的任务不会出现在结果中
+ */
+export function buildBulkUpdates(
+	tasks: GCTask[],
+	action: BulkEditAction,
+	now: Date = new Date(),
+): Array<{ task: GCTask; updates: TaskUpdates }> {
+	const result: Array<{ task: GCTask; updates: TaskUpdates }> = [];
+	for (const task of tasks) {
+		const updates = buildTaskUpdates(task, action, now);
+		if (updates) result.push({ task, updates });
+	}
+	return result;
+}
+
+function buildTaskUpdates(task: GCTask, action: BulkEditAction, now: Date): TaskUpdates | null {
+	switch (action.kind) {
+		case 'priority':
+			return task.priority === action.priority ? null : { priority: action.priority };
+
+		case 'status':
+			return (task.status || 'todo') === action.status ? null : getStatusUpdates(action.status, now);
+
+		case 'type':
+			return task.type === action.type ? null : { type: action.type };
+
+		case 'tags': {
+			const remove = new Set(action.remove);
+			const tags = (task.tags ?? []).filter(tag => !remove.has(tag));
+			for (const tag of action.add) {
+				if (!tags.includes(tag)) tags.push(tag);
+			}
+			const unchanged = tags.length === (task.tags ?? []).length
+				&& tags.every((tag, i) => task.tags?.[i] === tag);
+			return unchanged ? null : { tags };
+		}
+
+		case 'shift-dates': {
+			if (action.days === 0 || (!task.startDate && !task.dueDate)) return null;
+			const updates: TaskUpdates = {};
+			if (task.startDate) updates.startDate = addDays(task.startDate, action.days);
+			if (task.dueDate) updates.dueDate = addDays(task.dueDate, action.days);
+			return updates;
+		}
+
+		case 'set-date': {
+			const current = task[action.field];
+			if (!action.date) {
+				return current ? { [action.field]: null } : null;
+			}
+			const hasTime = action.field === 'dueDate' ? task.hasDueTime : task.hasStartTime;
+			const date = new Date(action.date);
+			if (hasTime && current) {
+				date.setHours(current.getHours(), current.getMinutes(), 0, 0);
+			}
+			return current?.getTime() === date.getTime() ? null : { [action.field]: date };
+		}
+
+		case 'archive':
+			return task.archived ? null : { archived: true };
+	}
+}
+
+/**
+ * 状态变更需要同步的完成/取消字段
+ */
+function getStatusUpdates(status: BulkTaskStatus, now: Date): TaskUpdates {
+	switch (status) {
+		case 'done':
+			return { status, completed: true, completionDate: now, cancelled: false, cancelledDate: null };
+		case 'canceled':
+			return { status, cancelled: true, cancelledDate: now, completed: false, completionDate: null };
+		default:
+			return { status, completed: false, completionDate: null, cancelled: false, cancelledDate: null };
+	}
+}
+
+function addDays(date: Date, days: number): Date {
+	const d = new Date(date);
+	d.setDate(d.getDate() + days);
+	return d;
+}
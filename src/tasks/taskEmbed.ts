@@ -0,0 +1,222 @@
+/**
+ * @fileoverview 笔记内嵌任务块（```gantt-tasks```）的配置解析与任务选取
+ * @module tasks/taskEmbed
+ *
+ * 代码块内容为逐行的 `键: 值`：
+ * - view: list | month | gantt（默认 list）
+ * - query: 查询语句（语法见 tasks/taskQuery）
+ * - sort: 排序字段 [asc|desc]，如 `dueDate asc`
+ * - limit: 列表最多显示的任务数
+ * - title: 标题
+ * - from / to: 日期范围（日期值语法同查询）。月历显示 from 所在月份（默认本月），
+ *   甘特条显示 from 至 to（默认本周，最多 62 天）
+ * - archived: true 时包含已归档任务
+ *
+ * 空行与 `//` 开头的行会被忽略。
+ */
+
+import type { GCTask, SortField, SortState } from '../types';
+import { SORT_OPTIONS, sortTasks } from './taskSorter';
+import { startOfWeek } from '../dateUtils/week';
+import { evaluateTaskQuery, parseTaskQuery, resolveQueryDate, TaskQueryError, type TaskQueryContext, type TaskQueryNode } from './taskQuery';
+
+/** 代码块语言名 */
+export const TASK_EMBED_LANGUAGE = 'gantt-tasks';
+
+/** 甘特条最多显示的天数 */
+export const MAX_GANTT_DAYS = 62;
+
+/**
+ * 内嵌块显示方式
+ */
+export type TaskEmbedView = 'list' | 'month' | 'gantt';
+
+/**
+ * 内嵌块配置
+ */
+export interface TaskEmbedSpec {
+	view: TaskEmbedView;
+	title: string;
+	query: TaskQueryNode | null;
+	sort: SortState;
+	limit: number | null;
+	includeArchived: boolean;
+	/** 显示范围（零点，含首尾），列表视图为 null */
+	range: { start: Date; end: Date } | null;
+}
+
+/**
+ * 内嵌块配置错误
+ */
+export class TaskEmbedSpecError extends Error {
+	/** 出错行号（从 1 开始） */
+	readonly line: number;
+
+	constructor(message: string, line: number) {
+		super(message);
+		this.name = 'TaskEmbedSpecError';
+		this.line = line;
+	}
+}
+
+const VIEWS: TaskEmbedView[] = ['list', 'month', 'gantt'];
+
+/**
+ * 解析代码块内容
+ * @throws TaskEmbedSpecError 配置无效时
+ */
+export function parseTaskEmbedSpec(source: string, context: TaskQueryContext = {}): TaskEmbedSpec {
+	const spec: TaskEmbedSpec = {
+		view: 'list',
+		title: '',
+		query: null,
+		sort: { field: 'dueDate', order: 'asc' },
+		limit: null,
+		includeArchived: false,
+		range: null,
+	};
+	let from: { start: Date; end: Date } | null = null;
+	let to: { start: Date; end: Date } | null = null;
+	let toLine = 0;
+
+	const lines = source.split('\n');
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index].trim();
+		const lineNumber = index + 1;
+		if (!line || line.startsWith('//')) continue;
+
+		const colon = line.indexOf(':');
+		if (colon <= 0) {
+			throw new TaskEmbedSpecError('应为 "键: 值" 格式', lineNumber);
+		}
+		const key = line.slice(0, colon).trim().toLowerCase();
+		const value = line.slice(colon + 1).trim();
+
+		switch (key) {
+			case 'view':
+				if (!VIEWS.includes(value as TaskEmbedView)) {
+					throw new TaskEmbedSpecError(`view 应为 ${VIEWS.join(' / ')}`, lineNumber);
+				}
+				spec.view = value as TaskEmbedView;
+				break;
+			case 'title':
+				spec.title = value;
+				break;
+			case 'query':
+				try {
+					spec.query = parseTaskQuery(value, context);
+				} catch (error) {
+					if (error instanceof TaskQueryError) {
+						throw new TaskEmbedSpecError(`查询无效：${error.message}`, lineNumber);
+					}
+					throw error;
+				}
+				break;
+			case 'sort': {
+				const [field, order = 'asc'] = value.split(/\s+/);
+				if (!SORT_OPTIONS.some(opt => opt.field === field) || (order !== 'asc' && order !== 'desc')) {
+					const fields = SORT_OPTIONS.map(opt => opt.field).join(' / ');
+					throw new TaskEmbedSpecError(`sort 应为 "<${fields}> [asc|desc]"`, lineNumber);
+				}
+				spec.sort = { field: field as SortField, order };
+				break;
+			}
+			case 'limit': {
+				const limit = Number(value);
+				if (!Number.isInteger(limit) || limit <= 0) {
+					throw new TaskEmbedSpecError('limit 应为正整数', lineNumber);
+				}
+				spec.limit = limit;
+				break;
+			}
+			case 'from':
+			case 'to': {
+				const range = resolveQueryDate(value, context);
+				if (!range) {
+					throw new TaskEmbedSpecError(`无效的日期 "${value}"`, lineNumber);
+				}
+				if (key === 'from') {
+					from = range;
+				} else {
+					to = range;
+					toLine = lineNumber;
+				}
+				break;
+			}
+			case 'archived':
+				spec.includeArchived = value.toLowerCase() === 'true';
+				break;
+			default:
+				throw new TaskEmbedSpecError(`未知的键 "${key}"`, lineNumber);
+		}
+	}
+
+	const today = startOfDay(context.now ?? new Date());
+	if (spec.view === 'month') {
+		const anchor = from?.start ?? today;
+		spec.range = {
+			start: new Date(anchor.getFullYear(), anchor.getMonth(), 1),
+			end: new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0),
+		};
+	} else if (spec.view === 'gantt') {
+		const start = from?.start ?? startOfWeek(today, context.startOnMonday ?? true);
+		let end = to?.end ?? addDays(start, from ? 13 : 6);
+		if (end < start) {
+			throw new TaskEmbedSpecError('to 不能早于 from', toLine);
+		}
+		if (end > addDays(start, MAX_GANTT_DAYS - 1)) {
+			end = addDays(start, MAX_GANTT_DAYS - 1);
+		}
+		spec.range = { start, end };
+	}
+
+	return spec;
+}
+
+/**
+ * 按配置筛选并排序任务（列表视图应用 limit）
+ */
+export function selectEmbedTasks(tasks: GCTask[], spec: TaskEmbedSpec, context: TaskQueryContext = {}): GCTask[] {
+	const queryContext = { ...context, now: context.now ?? new Date() };
+	let selected = tasks.filter(task =>
+		(spec.includeArchived || !task.archived)
+		&& evaluateTaskQuery(spec.query, task, queryContext));
+
+	if (spec.range) {
+		const { start, end } = spec.range;
+		selected = selected.filter(task => {
+			const span = getTaskSpan(task);
+			return !!span && span.start <= end && span.end >= start;
+		});
+	}
+
+	selected = sortTasks(selected, spec.sort);
+	if (spec.view === 'list' && spec.limit !== null) {
+		selected = selected.slice(0, spec.limit);
+	}
+	return selected;
+}
+
+/**
+ * 任务在日历上占据的日期范围（零点，含首尾）
+ * 提醒只占截止日；待办从开始日期到截止日期，缺少其一时只占另一天
+ */
+export function getTaskSpan(task: GCTask): { start: Date; end: Date } | null {
+	const due = task.dueDate ? startOfDay(task.dueDate) : null;
+	const start = task.type === 'reminder' ? due : (task.startDate ? startOfDay(task.startDate) : due);
+	const end = due ?? start;
+	if (!start || !end) return null;
+	return end < start ? { start: end, end: start } : { start, end };
+}
+
+function startOfDay(date: Date): Date {
+	const d = new Date(date);
+	d.setHours(0, 0, 0, 0);
+	return d;
+}
+
+function addDays(date: Date, days: number): Date {
+	const d = new Date(date);
+	d.setDate(d.getDate() + days);
+	return d;
+}
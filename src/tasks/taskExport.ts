@@ -0,0 +1,135 @@
+/**
+ * 任务导出（CSV / JSON）
+ *
+ * 将任务列表序列化为 CSV 表格或带版本号的 JSON 文件，用于报表和在库之间迁移。
+ * 两种格式的字段相同；日期为本地时间，全天日期为 YYYY-MM-DD，带时间为 YYYY-MM-DD HH:mm。
+ *
+ * @fileoverview 任务导出
+ * @module tasks/taskExport
+ */
+
+import type { GCTask, TaskPriority, TaskType } from '../types';
+import type { TaskStatusType } from './taskStatus';
+import { formatTaskDate } from '../dateUtils/dateUtilsIndex';
+
+// ==================== 常量 ====================
+
+/** JSON 导出文件的格式标识 */
+export const TASK_EXPORT_FORMAT = 'gantt-calendar-tasks';
+
+/** JSON 导出文件的格式版本 */
+export const TASK_EXPORT_VERSION = 1;
+
+/** 导出字段（CSV 列顺序） */
+export const EXPORT_FIELDS = [
+	'id',
+	'type',
+	'description',
+	'detail',
+	'status',
+	'priority',
+	'tags',
+	'createdDate',
+	'startDate',
+	'dueDate',
+	'completionDate',
+	'cancelledDate',
+	'repeat',
+	'parentId',
+] as const;
+
+// ==================== 类型定义 ====================
+
+/**
+ * 导出的单个任务
+ */
+export interface ExportedTask {
+	/** 任务 ID（导入时仅用于关联 parentId，不会沿用） */
+	id: string;
+	type: TaskType;
+	description: string;
+	detail?: string;
+	status: TaskStatusType;
+	priority: TaskPriority;
+	/** 标签（不含 #） */
+	tags?: string[];
+	createdDate?: string;
+	startDate?: string;
+	dueDate?: string;
+	completionDate?: string;
+	cancelledDate?: string;
+	/** 周期规则，如 every week on Monday */
+	repeat?: string;
+	/** 父任务 ID（引用同一文件中的任务） */
+	parentId?: string;
+}
+
+/**
+ * JSON 导出文件
+ */
+export interface TaskExportFile {
+	format: typeof TASK_EXPORT_FORMAT;
+	version: number;
+	/** 导出时间（ISO 8601） */
+	exportedAt: string;
+	tasks: ExportedTask[];
+}
+
+// ==================== 导出 ====================
+
+/**
+ * GCTask → 导出格式
+ */
+export function toExportedTask(task: GCTask): ExportedTask {
+	return {
+		id: task.id,
+		type: task.type,
+		description: task.description,
+		detail: task.detail || undefined,
+		status: task.status ?? (task.completed ? 'done' : task.cancelled ? 'canceled' : 'todo'),
+		priority: task.priority,
+		tags: task.tags?.length ? [...task.tags] : undefined,
+		createdDate: task.createdDate ? formatTaskDate(task.createdDate) : undefined,
+		startDate: task.startDate ? formatTaskDate(task.startDate, task.hasStartTime) : undefined,
+		dueDate: task.dueDate ? formatTaskDate(task.dueDate, task.hasDueTime) : undefined,
+		completionDate: task.completionDate ? formatTaskDate(task.completionDate) : undefined,
+		cancelledDate: task.cancelledDate ? formatTaskDate(task.cancelledDate) : undefined,
+		repeat: task.repeat || undefined,
+		parentId: task.parentId,
+	};
+}
+
+/**
+ * 序列化为 JSON 导出文件
+ */
+export function buildTasksJson(tasks: GCTask[], now: Date = new Date()): string {
+	const file: TaskExportFile = {
+		format: TASK_EXPORT_FORMAT,
+		version: TASK_EXPORT_VERSION,
+		exportedAt: now.toISOString(),
+		tasks: tasks.map(toExportedTask),
+	};
+	return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 序列化为 CSV（首行为字段名，标签以空格分隔；带 BOM 以便表格软件识别 UTF-8）
+ */
+export function buildTasksCsv(tasks: GCTask[]): string {
+	const rows: string[][] = [Array.from(EXPORT_FIELDS)];
+	for (const task of tasks) {
+		const exported = toExportedTask(task);
+		rows.push(EXPORT_FIELDS.map(field => {
+			const value = exported[field];
+			return Array.isArray(value) ? value.join(' ') : (value ?? '');
+		}));
+	}
+	return '\ufeff' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * 转义 CSV 单元格（含逗号、引号或换行时加引号）
+ */
+function escapeCsvCell(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,516 @@
+/**
+ * 任务导入（CSV / JSON）
+ *
+ * 将 CSV 表格或 JSON 数组读取为表格，按列映射到 GCTask 字段，
+ * 检测日期格式并逐行校验，生成可直接批量创建的任务（父任务在前）。
+ *
+ * - JSON 支持本插件的导出文件（{ format, version, tasks }）和任意对象数组
+ * - id / parentId 列仅用于在导入文件内关联父子任务，创建时生成新 ID
+ *
+ * @fileoverview 任务导入
+ * @module tasks/taskImport
+ */
+
+import type { GCTask, TaskPriority, TaskType } from '../types';
+import { getStatusByKey, getStatusBySymbol, DEFAULT_TASK_STATUSES, type TaskStatusType } from './taskStatus';
+import { parseRecurrenceRule } from './taskRecurrence';
+
+// ==================== 字段 ====================
+
+/**
+ * 可映射的任务字段
+ */
+export type ImportField =
+	| 'id'
+	| 'parentId'
+	| 'description'
+	| 'detail'
+	| 'type'
+	| 'status'
+	| 'priority'
+	| 'tags'
+	| 'createdDate'
+	| 'startDate'
+	| 'dueDate'
+	| 'completionDate'
+	| 'cancelledDate'
+	| 'repeat';
+
+/** 日期字段 */
+export type ImportDateField = 'createdDate' | 'startDate' | 'dueDate' | 'completionDate' | 'cancelledDate';
+
+/** 可映射字段、显示名称及自动识别用的列名（小写，不含空格和连字符） */
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; aliases: string[] }> = [
+	{ field: 'description', label: '标题', aliases: ['description', 'title', 'name', 'summary', 'task', '标题', '任务', '名称', '描述', '内容'] },
+	{ field: 'detail', label: '详细说明', aliases: ['detail', 'details', 'notes', 'note', 'body', '详情', '详细说明', '备注'] },
+	{ field: 'type', label: '类型', aliases: ['type', 'kind', '类型'] },
+	{ field: 'status', label: '状态', aliases: ['status', 'state', '状态'] },
+	{ field: 'priority', label: '优先级', aliases: ['priority', '优先级'] },
+	{ field: 'tags', label: '标签', aliases: ['tags', 'tag', 'labels', 'categories', '标签', '分类'] },
+	{ field: 'createdDate', label: '创建日期', aliases: ['createddate', 'created', 'creationdate', '创建日期', '创建时间'] },
+	{ field: 'startDate', label: '开始日期', aliases: ['startdate', 'start', 'scheduled', '开始日期', '开始时间'] },
+	{ field: 'dueDate', label: '截止日期', aliases: ['duedate', 'due', 'deadline', 'date', '截止日期', '截止时间', '到期日期', '日期'] },
+	{ field: 'completionDate', label: '完成日期', aliases: ['completiondate', 'completed', 'donedate', '完成日期', '完成时间'] },
+	{ field: 'cancelledDate', label: '取消日期', aliases: ['cancelleddate', 'canceleddate', 'cancelled', '取消日期'] },
+	{ field: 'repeat', label: '重复规则', aliases: ['repeat', 'recurrence', 'rrule', '重复', '重复规则'] },
+	{ field: 'id', label: 'ID（关联父任务用）', aliases: ['id', 'uid', '任务id', '编号'] },
+	{ field: 'parentId', label: '父任务 ID', aliases: ['parentid', 'parent', '父任务', '父任务id'] },
+];
+
+/** 子任务最大嵌套层级（与数据源一致） */
+const MAX_SUBTASK_DEPTH = 2;
+
+const DATE_FIELDS: ImportDateField[] = ['createdDate', 'startDate', 'dueDate', 'completionDate', 'cancelledDate'];
+
+// ==================== 日期格式 ====================
+
+/**
+ * 支持的日期格式（日期后可跟 HH:mm[:ss]，ISO 时间可带 Z 或时区偏移）
+ */
+export type ImportDateFormat = 'YYYY-MM-DD' | 'YYYY/MM/DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+
+/** 日期格式（检测时按此顺序优先） */
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'YYYYMMDD'];
+
+/** 各格式的日期部分：正则及年、月、日所在的捕获组 */
+const DATE_PATTERNS: Record<ImportDateFormat, { regex: RegExp; year: number; month: number; day: number }> = {
+	'YYYY-MM-DD': { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})/, year: 1, month: 2, day: 3 },
+	'YYYY/MM/DD': { regex: /^(\d{4})\/(\d{1,2})\/(\d{1,2})/, year: 1, month: 2, day: 3 },
+	'MM/DD/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, year: 3, month: 1, day: 2 },
+	'DD/MM/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, year: 3, month: 2, day: 1 },
+	'DD.MM.YYYY': { regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, year: 3, month: 2, day: 1 },
+	'YYYYMMDD': { regex: /^(\d{4})(\d{2})(\d{2})/, year: 1, month: 2, day: 3 },
+};
+
+const TIME_REGEX = /^T?(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// ==================== 类型定义 ====================
+
+/**
+ * 读取出的表格
+ */
+export interface ImportTable {
+	headers: string[];
+	rows: string[][];
+}
+
+/**
+ * 单行的校验结果
+ */
+export interface ImportRowResult {
+	/** 记录序号（从 1 开始，不含表头） */
+	rowNumber: number;
+	/** 校验通过时的任务（id 为临时 ID） */
+	task: GCTask | null;
+	errors: string[];
+	warnings: string[];
+}
+
+/**
+ * 试运行汇总
+ */
+export interface ImportSummary {
+	total: number;
+	valid: number;
+	invalid: number;
+	withWarnings: number;
+	todos: number;
+	reminders: number;
+	subtasks: number;
+}
+
+// ==================== 读取 ====================
+
+/**
+ * 读取 CSV / JSON 文本为表格
+ * @throws JSON 无法解析或不含任务数组时抛出
+ */
+export function readImportTable(text: string, fileName: string): ImportTable {
+	const content = text.replace(/^\ufeff/, '');
+	const trimmed = content.trim();
+	const isJson = /\.json$/i.test(fileName) || trimmed.startsWith('[') || trimmed.startsWith('{');
+	return isJson ? readJsonTable(trimmed) : readCsvTable(content);
+}
+
+function readJsonTable(text: string): ImportTable {
+	const data = JSON.parse(text);
+	const list: unknown = Array.isArray(data) ? data : data?.tasks;
+	if (!Array.isArray(list) || !list.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+		throw new Error('JSON 文件中没有任务列表');
+	}
+
+	const headers: string[] = [];
+	for (const item of list as Record<string, unknown>[]) {
+		for (const key of Object.keys(item)) {
+			if (!headers.includes(key)) headers.push(key);
+		}
+	}
+
+	const rows = (list as Record<string, unknown>[]).map(item => headers.map(key => {
+		const value = item[key];
+		if (value === null || value === undefined) return '';
+		if (Array.isArray(value)) return value.join(' ');
+		if (typeof value === 'object') return JSON.stringify(value);
+		return String(value);
+	}));
+	return { headers, rows };
+}
+
+function readCsvTable(text: string): ImportTable {
+	const firstLine = text.slice(0, text.search(/\r?\n|$/));
+	const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+		firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+	);
+
+	const records = parseCsv(text, delimiter).filter(record => record.some(cell => cell.trim() !== ''));
+	if (records.length === 0) return { headers: [], rows: [] };
+
+	const headers = records[0].map(header => header.trim());
+	const rows = records.slice(1).map(record => headers.map((_, i) => record[i] ?? ''));
+	return { headers, rows };
+}
+
+/**
+ * 解析 CSV（RFC 4180：双引号包含的单元格可含分隔符、换行，"" 表示引号）
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (inQuotes) {
+			if (ch === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (ch === '"') {
+				inQuotes = false;
+			} else {
+				cell += ch;
+			}
+		} else if (ch === '"' && cell === '') {
+			inQuotes = true;
+		} else if (ch === delimiter) {
+			record.push(cell);
+			cell = '';
+		} else if (ch === '\n' || ch === '\r') {
+			if (ch === '\r' && text[i + 1] === '\n') i++;
+			record.push(cell);
+			records.push(record);
+			record = [];
+			cell = '';
+		} else {
+			cell += ch;
+		}
+	}
+	if (cell !== '' || record.length > 0) {
+		record.push(cell);
+		records.push(record);
+	}
+	return records;
+}
+
+// ==================== 映射与日期检测 ====================
+
+/**
+ * 按列名猜测字段映射（每个字段最多映射一列，无法识别的列为 null）
+ */
+export function guessFieldMapping(headers: string[]): Array<ImportField | null> {
+	const used = new Set<ImportField>();
+	return headers.map(header => {
+		const key = header.toLowerCase().replace(/[\s_-]/g, '');
+		const match = IMPORT_FIELDS.find(({ field, aliases }) => !used.has(field) && aliases.includes(key));
+		if (!match) return null;
+		used.add(match.field);
+		return match.field;
+	});
+}
+
+/**
+ * 检测映射到日期字段的列所用的日期格式（取能解析最多值的格式，无日期值时返回 null）
+ */
+export function detectDateFormat(table: ImportTable, mapping: Array<ImportField | null>): ImportDateFormat | null {
+	const values: string[] = [];
+	mapping.forEach((field, col) => {
+		if (!field || !DATE_FIELDS.includes(field as ImportDateField)) return;
+		for (const row of table.rows) {
+			if (row[col]?.trim()) values.push(row[col].trim());
+		}
+	});
+	if (values.length === 0) return null;
+
+	let best: ImportDateFormat | null = null;
+	let bestCount = 0;
+	for (const format of IMPORT_DATE_FORMATS) {
+		const count = values.filter(value => parseImportDate(value, format)).length;
+		if (count > bestCount) {
+			best = format;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+/**
+ * 按指定格式解析日期（无时区的时间按本地时间）
+ */
+export function parseImportDate(value: string, format: ImportDateFormat): { date: Date; hasTime: boolean } | null {
+	const text = value.trim();
+	const pattern = DATE_PATTERNS[format];
+	const match = text.match(pattern.regex);
+	if (!match) return null;
+
+	const year = parseInt(match[pattern.year]);
+	const month = parseInt(match[pattern.month]) - 1;
+	const day = parseInt(match[pattern.day]);
+	const date = new Date(year, month, day);
+	if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) return null;
+
+	const rest = text.slice(match[0].length).trim();
+	if (!rest) return { date, hasTime: false };
+
+	const time = rest.match(TIME_REGEX);
+	if (!time) return null;
+	const hours = parseInt(time[1]);
+	const minutes = parseInt(time[2]);
+	const seconds = time[3] ? parseInt(time[3]) : 0;
+	if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+	if (time[4]) {
+		const offset = time[4] === 'Z' ? 0 : parseOffsetMinutes(time[4]);
+		const utc = Date.UTC(year, month, day, hours, minutes, seconds) - offset * 60000;
+		return { date: new Date(utc), hasTime: true };
+	}
+	date.setHours(hours, minutes, seconds);
+	return { date, hasTime: true };
+}
+
+function parseOffsetMinutes(offset: string): number {
+	const sign = offset.startsWith('-') ? -1 : 1;
+	const digits = offset.slice(1).replace(':', '');
+	return sign * (parseInt(digits.slice(0, 2)) * 60 + parseInt(digits.slice(2)));
+}
+
+// ==================== 校验与构建 ====================
+
+/**
+ * 按映射逐行构建任务并校验
+ *
+ * 通过校验的任务按父任务在前排序；parentId 仅保留对同一文件中有效行的引用。
+ */
+export function buildImportTasks(
+	table: ImportTable,
+	mapping: Array<ImportField | null>,
+	dateFormat: ImportDateFormat
+): ImportRowResult[] {
+	const results = table.rows.map((row, index) => buildRow(row, mapping, dateFormat, index + 1));
+
+	// 临时 ID 去重
+	const ids = new Set<string>();
+	for (const result of results) {
+		if (!result.task) continue;
+		if (ids.has(result.task.id)) {
+			result.warnings.push(`ID 重复（${result.task.id}），子任务无法关联到该行`);
+			result.task.id = `row:${result.rowNumber}`;
+		}
+		ids.add(result.task.id);
+	}
+
+	// 父任务必须是同一文件中的有效行
+	for (const result of results) {
+		const task = result.task;
+		if (!task?.parentId) continue;
+		if (!ids.has(task.parentId) || task.parentId === task.id) {
+			result.warnings.push('父任务不在导入文件中，作为顶层任务导入');
+			task.parentId = undefined;
+		}
+	}
+
+	return orderParentsFirst(results);
+}
+
+/**
+ * 汇总校验结果（试运行）
+ */
+export function summarizeImport(results: ImportRowResult[]): ImportSummary {
+	const valid = results.filter(result => result.task);
+	return {
+		total: results.length,
+		valid: valid.length,
+		invalid: results.length - valid.length,
+		withWarnings: results.filter(result => result.warnings.length > 0).length,
+		todos: valid.filter(result => result.task!.type === 'todo').length,
+		reminders: valid.filter(result => result.task!.type === 'reminder').length,
+		subtasks: valid.filter(result => result.task!.parentId).length,
+	};
+}
+
+function buildRow(
+	row: string[],
+	mapping: Array<ImportField | null>,
+	dateFormat: ImportDateFormat,
+	rowNumber: number
+): ImportRowResult {
+	const result: ImportRowResult = { rowNumber, task: null, errors: [], warnings: [] };
+	const get = (field: ImportField): string => {
+		const col = mapping.indexOf(field);
+		return col >= 0 ? (row[col] ?? '').trim() : '';
+	};
+
+	const description = get('description');
+	if (!description) result.errors.push('缺少标题');
+
+	const type = parseType(get('type'), result);
+	const status = parseStatus(get('status'), result);
+	const task: GCTask = {
+		id: get('id') || `row:${rowNumber}`,
+		type,
+		description,
+		detail: get('detail') || undefined,
+		completed: status === 'done',
+		cancelled: status === 'canceled',
+		status,
+		priority: parsePriority(get('priority'), result),
+		tags: parseTags(get('tags')),
+		archived: false,
+		parentId: get('parentId') || undefined,
+	};
+
+	for (const field of DATE_FIELDS) {
+		const value = get(field);
+		if (!value) continue;
+		const parsed = parseImportDate(value, dateFormat);
+		if (!parsed) {
+			const label = IMPORT_FIELDS.find(f => f.field === field)!.label;
+			result.errors.push(`${label}无法按 ${dateFormat} 解析：${value}`);
+			continue;
+		}
+		task[field] = parsed.date;
+		if (field === 'startDate') task.hasStartTime = parsed.hasTime || undefined;
+		if (field === 'dueDate') task.hasDueTime = parsed.hasTime || undefined;
+	}
+	if (type === 'reminder' && !task.dueDate) {
+		result.errors.push('提醒缺少截止日期');
+	}
+
+	const repeat = get('repeat');
+	if (repeat) {
+		if (parseRecurrenceRule(repeat)) task.repeat = repeat;
+		else result.warnings.push(`无法识别的重复规则，已忽略：${repeat}`);
+	}
+
+	if (result.errors.length === 0) result.task = task;
+	return result;
+}
+
+function parseType(value: string, result: ImportRowResult): TaskType {
+	switch (value.toLowerCase()) {
+		case '':
+		case 'todo':
+		case 'task':
+		case '待办':
+		case '任务':
+			return 'todo';
+		case 'reminder':
+		case 'event':
+		case '提醒':
+		case '事件':
+			return 'reminder';
+		default:
+			result.warnings.push(`无法识别的类型，按待办导入：${value}`);
+			return 'todo';
+	}
+}
+
+function parseStatus(value: string, result: ImportRowResult): TaskStatusType {
+	if (!value) return 'todo';
+	const lower = value.toLowerCase();
+	const status = getStatusByKey(lower)
+		?? DEFAULT_TASK_STATUSES.find(s => s.name === value)
+		?? (value.length === 1 ? getStatusBySymbol(lower) : undefined);
+	if (status) return status.key as TaskStatusType;
+
+	switch (lower) {
+		case 'completed':
+		case 'complete':
+			return 'done';
+		case 'cancelled':
+		case 'cancel':
+			return 'canceled';
+		case 'in progress':
+		case 'doing':
+			return 'in_progress';
+		default:
+			result.warnings.push(`无法识别的状态，按待办导入：${value}`);
+			return 'todo';
+	}
+}
+
+function parsePriority(value: string, result: ImportRowResult): TaskPriority {
+	switch (value.toLowerCase()) {
+		case 'highest':
+		case 'high':
+		case '高':
+		case '🔺':
+		case '⏫':
+			return 'high';
+		case '':
+		case 'normal':
+		case 'medium':
+		case '中':
+		case '普通':
+		case '🔼':
+			return 'normal';
+		case 'low':
+		case 'lowest':
+		case '低':
+		case '🔽':
+		case '⏬':
+			return 'low';
+		default:
+			result.warnings.push(`无法识别的优先级，按普通导入：${value}`);
+			return 'normal';
+	}
+}
+
+function parseTags(value: string): string[] | undefined {
+	const tags = value
+		.split(/[\s,;，；]+/)
+		.map(tag => tag.replace(/^#/, ''))
+		.filter(Boolean);
+	return tags.length ? Array.from(new Set(tags)) : undefined;
+}
+
+/**
+ * 排序：父任务在前（有效行保持文件内相对顺序，无效行放在最后），超出嵌套层级的子任务改为顶层任务
+ */
+function orderParentsFirst(results: ImportRowResult[]): ImportRowResult[] {
+	const ordered: ImportRowResult[] = [];
+	const depths = new Map<string, number>();
+	let pending = results.filter(result => result.task);
+
+	while (pending.length > 0) {
+		const ready = pending.filter(result => !result.task!.parentId || depths.has(result.task!.parentId));
+		// 循环引用：断开第一个任务的父子关系后继续
+		if (ready.length === 0) {
+			pending[0].warnings.push('父子关系存在循环，作为顶层任务导入');
+			pending[0].task!.parentId = undefined;
+			continue;
+		}
+		for (const result of ready) {
+			const task = result.task!;
+			const depth = task.parentId ? depths.get(task.parentId)! + 1 : 0;
+			if (depth > MAX_SUBTASK_DEPTH) {
+				result.warnings.push('超过最大嵌套层级，作为顶层任务导入');
+				task.parentId = undefined;
+			}
+			ordered.push(result);
+			depths.set(task.id, task.parentId ? depth : 0);
+		}
+		pending = pending.filter(result => !ready.includes(result));
+	}
+
+	return [...ordered, ...results.filter(result => !result.task)];
+}
@@ -0,0 +1,459 @@
+/**
+ * @fileoverview 任务查询语言
+ * @module tasks/taskQuery
+ *
+ * 语法：
+ * - 条件：`字段:值`，日期与优先级还支持 `<` `<=` `>` `>=`
+ * - 组合：`AND`（可省略，空格即为 AND）、`OR`、`NOT` / `-` 前缀、括号
+ * - `#标签` 等同于 `tag:标签`；其他单词或带引号的字符串按标题与详情全文匹配
+ *
+ * 字段：
+ * - priority: high | normal | low（可比较，low < normal < high）
+ * - status: todo | in_progress | done | canceled
+ * - type: todo | reminder
+ * - tag: 标签（不区分大小写）
+ * - is: archived | completed | cancelled | recurring | subtask | overdue | readonly
+ * - due / start / created / completed / cancelled: 日期
+ * - text: 全文匹配
+ *
+ * 日期值：YYYY-MM-DD、today、tomorrow、yesterday、+3d / -1w / +2m（相对今天）、
+ * monday…sunday（本周）、next-monday…（下周）、this-week、next-week、last-week、
+ * this-month、next-month、last-month、none（无日期）、any（有日期）。
+ * 每个日期值对应一个日期范围：`:` 表示在范围内，`<` 早于范围开始，`<=` 不晚于范围结束，
+ * `>` 晚于范围结束，`>=` 不早于范围开始。
+ *
+ * 示例：`priority:high (tag:work OR tag:home) due<next-friday -is:archived`
+ */
+
+import type { GCTask } from '../types';
+import { getPriorityWeight } from '../utils/priorityUtils';
+import { startOfWeek } from '../dateUtils/week';
+
+/**
+ * 查询字段
+ */
+export type TaskQueryField =
+	| 'priority'
+	| 'status'
+	| 'type'
+	| 'tag'
+	| 'is'
+	| 'due'
+	| 'start'
+	| 'created'
+	| 'completed'
+	| 'cancelled'
+	| 'text';
+
+/**
+ * 比较运算符（`=` 等同于 `:`）
+ */
+export type TaskQueryOperator = ':' | '<' | '<=' | '>' | '>=';
+
+/**
+ * 查询语法树
+ */
+export type TaskQueryNode =
+	| { kind: 'and'; children: TaskQueryNode[] }
+	| { kind: 'or'; children: TaskQueryNode[] }
+	| { kind: 'not'; child: TaskQueryNode }
+	| { kind: 'term'; field: TaskQueryField; op: TaskQueryOperator; value: string };
+
+/**
+ * 求值选项
+ */
+export interface TaskQueryContext {
+	/** 相对日期的基准（默认当前时间） */
+	now?: Date;
+	/** 每周从周一开始（默认 true） */
+	startOnMonday?: boolean;
+}
+
+/**
+ * 查询语法错误
+ */
+export class TaskQueryError extends Error {
+	/** 出错位置（字符偏移） */
+	readonly position: number;
+
+	constructor(message: string, position: number) {
+		super(message);
+		this.name = 'TaskQueryError';
+		this.position = position;
+	}
+}
+
+const DATE_FIELDS: Record<string, keyof GCTask> = {
+	due: 'dueDate',
+	start: 'startDate',
+	created: 'createdDate',
+	completed: 'completionDate',
+	cancelled: 'cancelledDate',
+};
+
+const FIELD_ALIASES: Record<string, TaskQueryField> = {
+	tags: 'tag',
+	canceled: 'cancelled',
+	done: 'completed',
+};
+
+const ENUM_VALUES: Partial<Record<TaskQueryField, string[]>> = {
+	priority: ['high', 'normal', 'low'],
+	status: ['todo', 'in_progress', 'done', 'canceled'],
+	type: ['todo', 'reminder'],
+	is: ['archived', 'completed', 'cancelled', 'recurring', 'subtask', 'overdue', 'readonly'],
+};
+
+const VALUE_ALIASES: Record<string, string> = {
+	cancelled: 'canceled',
+	'in-progress': 'in_progress',
+	medium: 'normal',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const TERM_REGEX = /^([a-zA-Z]+)(<=|>=|:|=|<|>)/;
+
+// ==================== 词法分析 ====================
+
+interface Token {
+	type: 'lparen' | 'rparen' | 'word';
+	text: string;
+	/** 首个引号在 text 中的位置（无引号为 -1） */
+	quoteAt: number;
+	position: number;
+}
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < input.length) {
+		const ch = input[i];
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (ch === '(' || ch === ')') {
+			tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', text: ch, quoteAt: -1, position: i });
+			i++;
+		} else {
+			const position = i;
+			let text = '';
+			let quoteAt = -1;
+			while (i < input.length && !/[\s()]/.test(input[i])) {
+				if (input[i] === '"') {
+					const end = input.indexOf('"', i + 1);
+					if (end === -1) throw new TaskQueryError('引号未闭合', i);
+					if (quoteAt === -1) quoteAt = text.length;
+					text += input.slice(i + 1, end);
+					i = end + 1;
+				} else {
+					text += input[i++];
+				}
+			}
+			tokens.push({ type: 'word', text, quoteAt, position });
+		}
+	}
+	return tokens;
+}
+
+// ==================== 语法分析 ====================
+
+/**
+ * 解析查询
+ * @returns 语法树；空查询返回 null（匹配全部任务）
+ * @throws TaskQueryError 语法错误或无效的字段、值
+ */
+export function parseTaskQuery(input: string, context: TaskQueryContext = {}): TaskQueryNode | null {
+	const tokens = tokenize(input);
+	if (tokens.length === 0) return null;
+
+	let index = 0;
+	const peek = (): Token | undefined => tokens[index];
+	const isKeyword = (token: Token | undefined, keyword: string) =>
+		token?.type === 'word' && token.quoteAt === -1 && token.text.toUpperCase() === keyword;
+
+	const parseOr = (): TaskQueryNode => {
+		const children = [parseAnd()];
+		while (isKeyword(peek(), 'OR')) {
+			index++;
+			children.push(parseAnd());
+		}
+		return children.length === 1 ? children[0] : { kind: 'or', children };
+	};
+
+	const parseAnd = (): TaskQueryNode => {
+		const children = [parseNot()];
+		for (;;) {
+			const token = peek();
+			if (!token || token.type === 'rparen' || isKeyword(token, 'OR')) break;
+			if (isKeyword(token, 'AND')) index++;
+			children.push(parseNot());
+		}
+		return children.length === 1 ? children[0] : { kind: 'and', children };
+	};
+
+	const parseNot = (): TaskQueryNode => {
+		const token = peek();
+		if (!token) {
+			throw new TaskQueryError('查询不完整', input.length);
+		}
+		if (isKeyword(token, 'NOT')) {
+			index++;
+			return { kind: 'not', child: parseNot() };
+		}
+		if (token.type === 'lparen') {
+			index++;
+			const node = parseOr();
+			if (peek()?.type !== 'rparen') {
+				throw new TaskQueryError('缺少右括号', peek()?.position ?? input.length);
+			}
+			index++;
+			return node;
+		}
+		if (token.type === 'rparen') {
+			throw new TaskQueryError('多余的右括号', token.position);
+		}
+		if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+			throw new TaskQueryError(`${token.text.toUpperCase()} 前后缺少条件`, token.position);
+		}
+
+		index++;
+		if (token.text.startsWith('-') && token.text.length > 1 && token.quoteAt !== 0) {
+			const rest: Token = {
+				...token,
+				text: token.text.slice(1),
+				quoteAt: token.quoteAt > 0 ? token.quoteAt - 1 : -1,
+				position: token.position + 1,
+			};
+			return { kind: 'not', child: parseTerm(rest, context) };
+		}
+		return parseTerm(token, context);
+	};
+
+	const node = parseOr();
+	const rest = peek();
+	if (rest) {
+		throw new TaskQueryError(rest.type === 'rparen' ? '多余的右括号' : '无法解析的内容', rest.position);
+	}
+	return node;
+}
+
+function parseTerm(token: Token, context: TaskQueryContext): TaskQueryNode {
+	const { text, quoteAt, position } = token;
+
+	if (text.startsWith('#') && text.length > 1 && quoteAt !== 0) {
+		return { kind: 'term', field: 'tag', op: ':', value: text.slice(1) };
+	}
+
+	const match = text.match(TERM_REGEX);
+	if (!match || (quoteAt !== -1 && quoteAt < match[0].length)) {
+		return { kind: 'term', field: 'text', op: ':', value: text };
+	}
+
+	const name = match[1].toLowerCase();
+	const field = (FIELD_ALIASES[name] ?? name) as TaskQueryField;
+	const op = (match[2] === '=' ? ':' : match[2]) as TaskQueryOperator;
+	let value = text.slice(match[0].length).trim();
+	const valuePosition = position + match[0].length;
+
+	const allowed = ENUM_VALUES[field];
+	if (!(field in DATE_FIELDS) && !allowed && field !== 'tag' && field !== 'text') {
+		throw new TaskQueryError(`未知字段 "${match[1]}"`, position);
+	}
+	if (!value) {
+		throw new TaskQueryError(`${match[1]} 缺少值`, valuePosition);
+	}
+
+	if (field in DATE_FIELDS) {
+		value = value.toLowerCase().replace(/\s+/g, '-');
+		if (!resolveDateValue(value, context)) {
+			throw new TaskQueryError(`无效的日期 "${value}"`, valuePosition);
+		}
+	} else if (allowed) {
+		value = value.toLowerCase();
+		if (!allowed.includes(value) && allowed.includes(VALUE_ALIASES[value])) {
+			value = VALUE_ALIASES[value];
+		}
+		if (!allowed.includes(value)) {
+			throw new TaskQueryError(`${field} 的值应为 ${allowed.join(' / ')}`, valuePosition);
+		}
+	}
+
+	if (op !== ':' && field !== 'priority' && !(field in DATE_FIELDS)) {
+		throw new TaskQueryError(`${field} 只支持 ":"`, position + match[1].length);
+	}
+	return { kind: 'term', field, op, value };
+}
+
+// ==================== 日期值 ====================
+
+type DateRange = { start: Date; end: Date } | 'none' | 'any';
+
+function startOfDay(date: Date): Date {
+	const d = new Date(date);
+	d.setHours(0, 0, 0, 0);
+	return d;
+}
+
+function addDays(date: Date, days: number): Date {
+	const d = new Date(date);
+	d.setDate(d.getDate() + days);
+	return d;
+}
+
+function dayRange(date: Date): DateRange {
+	return { start: date, end: date };
+}
+
+/**
+ * 将日期值解析为日期范围（按天，start/end 均为当天零点）；无效时返回 null
+ */
+function resolveDateValue(value: string, context: TaskQueryContext): DateRange | null {
+	const today = startOfDay(context.now ?? new Date());
+	const startOnMonday = context.startOnMonday ?? true;
+
+	if (value === 'none' || value === 'any') return value;
+	if (value === 'today') return dayRange(today);
+	if (value === 'tomorrow') return dayRange(addDays(today, 1));
+	if (value === 'yesterday') return dayRange(addDays(today, -1));
+
+	const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (absolute) {
+		const date = new Date(+absolute[1], +absolute[2] - 1, +absolute[3]);
+		return date.getMonth() === +absolute[2] - 1 ? dayRange(date) : null;
+	}
+
+	const relative = value.match(/^([+-])(\d+)([dwm])$/);
+	if (relative) {
+		const amount = (relative[1] === '-' ? -1 : 1) * parseInt(relative[2]);
+		if (relative[3] === 'm') {
+			const date = new Date(today);
+			date.setMonth(date.getMonth() + amount);
+			return dayRange(date);
+		}
+		return dayRange(addDays(today, relative[3] === 'w' ? amount * 7 : amount));
+	}
+
+	const weekday = value.match(/^(next-|last-)?([a-z]+)$/);
+	if (weekday && WEEKDAYS.includes(weekday[2])) {
+		const weekStart = startOfWeek(today, startOnMonday);
+		const offset = (WEEKDAYS.indexOf(weekday[2]) - weekStart.getDay() + 7) % 7;
+		const shift = weekday[1] === 'next-' ? 7 : weekday[1] === 'last-' ? -7 : 0;
+		return dayRange(addDays(weekStart, offset + shift));
+	}
+
+	const period = value.match(/^(this|next|last)-(week|month)$/);
+	if (period) {
+		const shift = period[1] === 'next' ? 1 : period[1] === 'last' ? -1 : 0;
+		if (period[2] === 'week') {
+			const start = addDays(startOfWeek(today, startOnMonday), shift * 7);
+			return { start, end: addDays(start, 6) };
+		}
+		const start = new Date(today.getFullYear(), today.getMonth() + shift, 1);
+		return { start, end: new Date(start.getFullYear(), start.getMonth() + 1, 0) };
+	}
+
+	return null;
+}
+
+/**
+ * 解析日期值（语法同查询中的日期值，不含 none / any）
+ * @returns 日期范围（按天，start/end 均为当天零点）；无效时返回 null
+ */
+export function resolveQueryDate(value: string, context: TaskQueryContext = {}): { start: Date; end: Date } | null {
+	const range = resolveDateValue(value.trim().toLowerCase().replace(/\s+/g, '-'), context);
+	return range && typeof range === 'object' ? range : null;
+}
+
+// ==================== 求值 ====================
+
+function getStatus(task: GCTask): string {
+	if (task.status) return task.status;
+	if (task.completed) return 'done';
+	if (task.cancelled) return 'canceled';
+	return 'todo';
+}
+
+function matchesFlag(task: GCTask, flag: string, today: Date): boolean {
+	switch (flag) {
+		case 'archived': return !!task.archived;
+		case 'completed': return getStatus(task) === 'done';
+		case 'cancelled': return getStatus(task) === 'canceled';
+		case 'recurring': return !!task.repeat;
+		case 'subtask': return !!task.parentId;
+		case 'readonly': return !!task.source;
+		case 'overdue': {
+			const status = getStatus(task);
+			return !!task.dueDate && status !== 'done' && status !== 'canceled'
+				&& startOfDay(task.dueDate) < today;
+		}
+		default: return false;
+	}
+}
+
+function compare(value: number, start: number, end: number, op: TaskQueryOperator): boolean {
+	switch (op) {
+		case ':': return value >= start && value <= end;
+		case '<': return value < start;
+		case '<=': return value <= end;
+		case '>': return value > end;
+		case '>=': return value >= start;
+	}
+}
+
+function matchesTerm(task: GCTask, node: Extract<TaskQueryNode, { kind: 'term' }>, context: TaskQueryContext): boolean {
+	const { field, op, value } = node;
+	switch (field) {
+		case 'priority': {
+			const weight = getPriorityWeight(value);
+			return compare(getPriorityWeight(task.priority), weight, weight, op);
+		}
+		case 'status':
+			return getStatus(task) === value;
+		case 'type':
+			return task.type === value;
+		case 'tag': {
+			const tag = value.replace(/^#/, '').toLowerCase();
+			return !!task.tags?.some(t => t.toLowerCase() === tag);
+		}
+		case 'is':
+			return matchesFlag(task, value, startOfDay(context.now ?? new Date()));
+		case 'text': {
+			const text = value.toLowerCase();
+			return task.description.toLowerCase().includes(text)
+				|| !!task.detail?.toLowerCase().includes(text);
+		}
+		default: {
+			const date = task[DATE_FIELDS[field]] as Date | undefined;
+			const range = resolveDateValue(value, context);
+			if (!range) return false;
+			if (range === 'none') return !date;
+			if (range === 'any') return !!date;
+			if (!date) return false;
+			return compare(startOfDay(date).getTime(), range.start.getTime(), range.end.getTime(), op);
+		}
+	}
+}
+
+/**
+ * 判断任务是否满足查询（语法树为 null 时匹配全部）
+ */
+export function evaluateTaskQuery(node: TaskQueryNode | null, task: GCTask, context: TaskQueryContext = {}): boolean {
+	if (!node) return true;
+	switch (node.kind) {
+		case 'and': return node.children.every(child => evaluateTaskQuery(child, task, context));
+		case 'or': return node.children.some(child => evaluateTaskQuery(child, task, context));
+		case 'not': return !evaluateTaskQuery(node.child, task, context);
+		case 'term': return matchesTerm(task, node, context);
+	}
+}
+
+/**
+ * 按查询筛选任务
+ * @throws TaskQueryError 查询无效时
+ */
+export function filterTasksByQuery(tasks: GCTask[], query: string, context: TaskQueryContext = {}): GCTask[] {
+	const node = parseTaskQuery(query, context);
+	if (!node) return tasks;
+	const now = context.now ?? new Date();
+	return tasks.filter(task => evaluateTaskQuery(node, task, { ...context, now }));
+}
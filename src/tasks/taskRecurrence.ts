@@ -0,0 +1,472 @@
+/**
+ * @fileoverview 周期任务规则解析与下一次实例计算
+ * @module tasks/taskRecurrence
+ *
+ * 解析 BaseTaskModal.buildRepeatRule 生成的规则字符串（如 "every week on Monday"），
+ * 并根据规则计算下一次实例的开始/截止日期。
+ *
+ * 两种调度方式：
+ * - 固定周期：基于原截止日期（无截止日期时为开始日期）推算
+ * - when done：基于完成日期推算
+ *
+ * 同一规则生成的实例通过 seriesId 关联；视图可将未来实例投影为只读的虚拟实例（ghost）。
+ */
+
+import type { GCTask } from '../types';
+import { formatDate } from '../dateUtils/dateUtilsIndex';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 周期频率
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * 解析后的周期规则
+ */
+export interface RecurrenceRule {
+	frequency: RecurrenceFrequency;
+	/** 间隔（每 N 天/周/月/年） */
+	interval: number;
+	/** 每周的指定星期（0=周日 ... 6=周六） */
+	weekdays?: number[];
+	/** 每月的指定日期（1-31 或 'last'） */
+	monthDay?: number | 'last';
+	/** 每年的指定月份（0-11） */
+	month?: number;
+	/** 是否基于完成日期计算 */
+	whenDone: boolean;
+}
+
+/**
+ * 下一次实例的日期
+ */
+export interface NextOccurrenceDates {
+	startDate?: Date;
+	dueDate?: Date;
+}
+
+// ==================== 常量 ====================
+
+const DAY_NAME_TO_INDEX: Record<string, number> = {
+	sunday: 0,
+	monday: 1,
+	tuesday: 2,
+	wednesday: 3,
+	thursday: 4,
+	friday: 5,
+	saturday: 6,
+};
+
+const MONTH_NAME_TO_INDEX: Record<string, number> = {
+	january: 0,
+	february: 1,
+	march: 2,
+	april: 3,
+	may: 4,
+	june: 5,
+	july: 6,
+	august: 7,
+	september: 8,
+	october: 9,
+	november: 10,
+	december: 11,
+};
+
+/** 追赶过期实例时的最大迭代次数（防止异常规则导致死循环） */
+const MAX_CATCH_UP_ITERATIONS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== 规则解析 ====================
+
+/**
+ * 解析星期列表（如 "monday, friday"）
+ */
+function parseWeekdays(text: string): number[] | null {
+	const days = text
+		.split(',')
+		.map(name => DAY_NAME_TO_INDEX[name.trim()])
+		.filter((d): d is number => d !== undefined);
+	if (days.length === 0) return null;
+	return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * 解析月内日期（"the 15th" / "the last"）
+ */
+function parseMonthDay(text: string): number | 'last' | null {
+	const match = text.match(/^the\s+(last|\d{1,2})(?:st|nd|rd|th)?$/);
+	if (!match) return null;
+	if (match[1] === 'last') return 'last';
+	const day = parseInt(match[1]);
+	return day >= 1 && day <= 31 ? day : null;
+}
+
+/**
+ * 解析周期规则字符串
+ *
+ * 支持的语法：
+ * - every day / every 3 days / every weekday / every weekend
+ * - every week / every 2 weeks / every week on Monday, Friday
+ * - every month / every month on the 15th / every 2 months on the last
+ * - every year / every 2 years / every January on the 15th
+ * - 以上任意规则末尾追加 "when done"
+ *
+ * @param rule 规则字符串
+ * @returns 解析结果，无法识别时返回 null
+ */
+export function parseRecurrenceRule(rule: string | undefined | null): RecurrenceRule | null {
+	if (!rule) return null;
+
+	const lower = rule.toLowerCase().trim().replace(/\s+/g, ' ');
+	const whenDone = /\swhen done$/.test(lower);
+	const base = lower.replace(/\s*when done$/, '').trim();
+
+	if (!base.startsWith('every ')) return null;
+	const body = base.slice('every '.length);
+
+	// daily
+	if (body === 'day') {
+		return { frequency: 'daily', interval: 1, whenDone };
+	}
+	if (body === 'weekday') {
+		return { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5], whenDone };
+	}
+	if (body === 'weekend') {
+		return { frequency: 'weekly', interval: 1, weekdays: [0, 6], whenDone };
+	}
+
+	// every N days / weeks / months / years [on ...]
+	const unitMatch = body.match(/^(?:(\d+) )?(day|week|month|year)s?(?: on (.+))?$/);
+	if (unitMatch) {
+		const interval = unitMatch[1] ? parseInt(unitMatch[1]) : 1;
+		if (interval < 1) return null;
+		const unit = unitMatch[2];
+		const onPart = unitMatch[3]?.trim();
+
+		switch (unit) {
+			case 'day':
+				return onPart ? null : { frequency: 'daily', interval, whenDone };
+			case 'week': {
+				if (!onPart) return { frequency: 'weekly', interval, whenDone };
+				const weekdays = parseWeekdays(onPart);
+				return weekdays ? { frequency: 'weekly', interval, weekdays, whenDone } : null;
+			}
+			case 'month': {
+				if (!onPart) return { frequency: 'monthly', interval, whenDone };
+				const monthDay = parseMonthDay(onPart);
+				return monthDay !== null ? { frequency: 'monthly', interval, monthDay, whenDone } : null;
+			}
+			case 'year':
+				return onPart ? null : { frequency: 'yearly', interval, whenDone };
+		}
+	}
+
+	// every January on the 15th
+	const yearlyMatch = body.match(/^(\w+)(?: on (.+))?$/);
+	if (yearlyMatch && MONTH_NAME_TO_INDEX[yearlyMatch[1]] !== undefined) {
+		const month = MONTH_NAME_TO_INDEX[yearlyMatch[1]];
+		if (!yearlyMatch[2]) {
+			return { frequency: 'yearly', interval: 1, month, whenDone };
+		}
+		const monthDay = parseMonthDay(yearlyMatch[2].trim());
+		return monthDay !== null ? { frequency: 'yearly', interval: 1, month, monthDay, whenDone } : null;
+	}
+
+	return null;
+}
+
+/**
+ * 规则字符串是否为可识别的周期规则
+ */
+export function isRecurring(task: Pick<GCTask, 'repeat'>): boolean {
+	return parseRecurrenceRule(task.repeat) !== null;
+}
+
+/**
+ * 完成或归档当前实例时是否需要生成下一次实例
+ *
+ * 已生成过且仍存在（活跃或已归档）的下一次实例不再重复生成，
+ * 避免反复切换完成状态时每次都多出一个实例。
+ * @param exists 判断任务 ID 是否仍存在（不含回收站）
+ */
+export function needsNextOccurrence(
+	task: Pick<GCTask, 'repeat' | 'nextOccurrenceId'>,
+	exists: (taskId: string) => boolean
+): boolean {
+	if (!isRecurring(task)) return false;
+	return !task.nextOccurrenceId || !exists(task.nextOccurrenceId);
+}
+
+// ==================== 日期计算 ====================
+
+/**
+ * 获取指定月份的天数
+ */
+function daysInMonth(year: number, month: number): number {
+	return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * 在保留时分秒的前提下构造日期，日期超出当月天数时截断到月末
+ */
+function buildDate(template: Date, year: number, month: number, day: number | 'last'): Date {
+	const normalizedYear = year + Math.floor(month / 12);
+	const normalizedMonth = ((month % 12) + 12) % 12;
+	const maxDay = daysInMonth(normalizedYear, normalizedMonth);
+	const actualDay = day === 'last' ? maxDay : Math.min(day, maxDay);
+	const result = new Date(template);
+	result.setFullYear(normalizedYear, normalizedMonth, actualDay);
+	return result;
+}
+
+/**
+ * 获取日期所在周的周日（本地时间零点）
+ */
+function startOfWeek(date: Date): Date {
+	const result = new Date(date);
+	result.setHours(0, 0, 0, 0);
+	result.setDate(result.getDate() - result.getDay());
+	return result;
+}
+
+/**
+ * 计算规则在指定日期之后的下一个匹配日期
+ *
+ * 结果保留 from 的时分秒，且严格晚于 from。
+ *
+ * @param rule 周期规则
+ * @param from 基准日期
+ */
+export function getNextRecurrenceDate(rule: RecurrenceRule, from: Date): Date {
+	const interval = Math.max(1, rule.interval);
+
+	switch (rule.frequency) {
+		case 'daily': {
+			const result = new Date(from);
+			result.setDate(result.getDate() + interval);
+			return result;
+		}
+
+		case 'weekly': {
+			if (!rule.weekdays || rule.weekdays.length === 0) {
+				const result = new Date(from);
+				result.setDate(result.getDate() + 7 * interval);
+				return result;
+			}
+			// 逐日查找：星期匹配，且与基准日期相隔的周数是间隔的整数倍
+			const baseWeek = startOfWeek(from).getTime();
+			for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+				const candidate = new Date(from);
+				candidate.setDate(candidate.getDate() + offset);
+				const weekDiff = Math.round((startOfWeek(candidate).getTime() - baseWeek) / (7 * DAY_MS));
+				if (weekDiff % interval === 0 && rule.weekdays.includes(candidate.getDay())) {
+					return candidate;
+				}
+			}
+			// 理论上不可达
+			const fallback = new Date(from);
+			fallback.setDate(fallback.getDate() + 7 * interval);
+			return fallback;
+		}
+
+		case 'monthly': {
+			if (rule.monthDay === undefined) {
+				return buildDate(from, from.getFullYear(), from.getMonth() + interval, from.getDate());
+			}
+			// 指定日期：本月的目标日期如果还没过则直接使用
+			for (let k = 0; k <= 2; k++) {
+				const candidate = buildDate(from, from.getFullYear(), from.getMonth() + k * interval, rule.monthDay);
+				if (candidate.getTime() > from.getTime()) {
+					return candidate;
+				}
+			}
+			return buildDate(from, from.getFullYear(), from.getMonth() + interval, rule.monthDay);
+		}
+
+		case 'yearly': {
+			if (rule.month === undefined) {
+				return buildDate(from, from.getFullYear() + interval, from.getMonth(), from.getDate());
+			}
+			const day = rule.monthDay ?? from.getDate();
+			for (let k = 0; k <= 2; k++) {
+				const candidate = buildDate(from, from.getFullYear() + k * interval, rule.month, day);
+				if (candidate.getTime() > from.getTime()) {
+					return candidate;
+				}
+			}
+			return buildDate(from, from.getFullYear() + interval, rule.month, day);
+		}
+	}
+}
+
+/**
+ * 计算周期任务下一次实例的开始/截止日期
+ *
+ * - 固定周期：以截止日期（无则开始日期）为锚点推算
+ * - when done：以完成日期为锚点推算，保留原锚点的时分
+ * - 开始日期与截止日期保持原有间隔
+ *
+ * @param task 当前实例
+ * @param completionDate 完成日期（when done 规则使用）
+ * @param notBefore 下一次实例不得早于该日期（用于跳过已过期的实例）
+ * @param isTaken 判断某个日期的实例是否已存在（已存在则继续向后推算）
+ * @returns 下一次实例的日期，任务无有效规则或无日期时返回 null
+ */
+export function computeNextOccurrence(
+	task: GCTask,
+	completionDate: Date = new Date(),
+	notBefore?: Date,
+	isTaken?: (date: Date) => boolean
+): NextOccurrenceDates | null {
+	const rule = parseRecurrenceRule(task.repeat);
+	if (!rule) return null;
+
+	const anchor = task.dueDate ?? task.startDate;
+	if (!anchor) return null;
+
+	let from = new Date(anchor);
+	if (rule.whenDone) {
+		from = new Date(completionDate);
+		from.setHours(anchor.getHours(), anchor.getMinutes(), anchor.getSeconds(), anchor.getMilliseconds());
+	}
+
+	let next = getNextRecurrenceDate(rule, from);
+	let iterations = 0;
+	while (
+		((notBefore && next.getTime() < notBefore.getTime()) || isTaken?.(next))
+		&& iterations < MAX_CATCH_UP_ITERATIONS
+	) {
+		next = getNextRecurrenceDate(rule, next);
+		iterations++;
+	}
+
+	const delta = next.getTime() - anchor.getTime();
+	return {
+		startDate: task.startDate ? shiftDate(task.startDate, delta) : undefined,
+		dueDate: task.dueDate ? shiftDate(task.dueDate, delta) : undefined,
+	};
+}
+
+/**
+ * 按毫秒偏移日期（按本地日历天数偏移，避免夏令时导致的时分漂移）
+ */
+export function shiftDate(date: Date, deltaMs: number): Date {
+	const days = Math.round(deltaMs / DAY_MS);
+	const result = new Date(date);
+	result.setDate(result.getDate() + days);
+	return result;
+}
+
+// ==================== 系列与虚拟实例 ====================
+
+/**
+ * 获取任务所属的周期系列 ID
+ */
+export function getSeriesId(task: Pick<GCTask, 'id' | 'seriesId'>): string {
+	return task.seriesId ?? task.id;
+}
+
+/**
+ * 获取系列中某一天实例的唯一键（同时用作虚拟实例的 ID）
+ */
+export function getOccurrenceKey(seriesId: string, date: Date): string {
+	return `${seriesId}@${formatDate(date, 'yyyy-MM-dd')}`;
+}
+
+/**
+ * 将周期任务的未来实例投影为虚拟任务（ghost）
+ *
+ * 以当前实例的锚点日期为起点依次推算（锚点远早于范围时先快进），返回锚点落在 [rangeStart, rangeEnd] 内的实例。
+ * when done 规则按准时完成推算。虚拟实例不含子任务，状态统一为 todo。
+ *
+ * @param task 系列当前的活跃实例
+ * @param rangeStart 范围开始（含）
+ * @param rangeEnd 范围结束（含）
+ * @param isTaken 判断某个实例键是否已被真实任务占用（已物化的实例不再投影）
+ */
+export function projectOccurrences(
+	task: GCTask,
+	rangeStart: Date,
+	rangeEnd: Date,
+	isTaken?: (key: string) => boolean
+): GCTask[] {
+	const rule = parseRecurrenceRule(task.repeat);
+	const anchor = task.dueDate ?? task.startDate;
+	if (!rule || !anchor) return [];
+
+	const seriesId = getSeriesId(task);
+	const startTime = rangeStart.getTime();
+	const endTime = rangeEnd.getTime();
+	const ghosts: GCTask[] = [];
+
+	let next = getNextRecurrenceDate(rule, skipToRange(rule, anchor, rangeStart));
+	let iterations = 0;
+	while (next.getTime() <= endTime && iterations < MAX_CATCH_UP_ITERATIONS) {
+		if (next.getTime() >= startTime) {
+			const key = getOccurrenceKey(seriesId, next);
+			if (!isTaken?.(key)) {
+				const delta = next.getTime() - anchor.getTime();
+				ghosts.push({
+					...task,
+					id: key,
+					ghostOf: task.id,
+					seriesId,
+					nextOccurrenceId: undefined,
+					status: 'todo',
+					completed: false,
+					cancelled: false,
+					startDate: task.startDate ? shiftDate(task.startDate, delta) : undefined,
+					dueDate: task.dueDate ? shiftDate(task.dueDate, delta) : undefined,
+					completionDate: undefined,
+					cancelledDate: undefined,
+					childIds: undefined,
+					lastModified: undefined,
+				});
+			}
+		}
+		next = getNextRecurrenceDate(rule, next);
+		iterations++;
+	}
+
+	return ghosts;
+}
+
+/**
+ * 将系列起点快进到目标日期之前（至少一个周期）的同相位日期
+ *
+ * 仅用于按天/周的规则：整周期平移不改变星期与隔周的相位，结果与逐次推算一致。
+ * 按月/年的规则存在月末截断，逐次推算在迭代上限内即可覆盖数十年，不做快进。
+ */
+function skipToRange(rule: RecurrenceRule, anchor: Date, target: Date): Date {
+	if (rule.frequency !== 'daily' && rule.frequency !== 'weekly') return anchor;
+
+	const periodDays = (rule.frequency === 'daily' ? 1 : 7) * Math.max(1, rule.interval);
+	const periods = Math.floor((target.getTime() - anchor.getTime()) / DAY_MS / periodDays) - 1;
+	if (periods <= 0) return anchor;
+
+	const result = new Date(anchor);
+	result.setDate(result.getDate() + periods * periodDays);
+	return result;
+}
+
+/**
+ * 将虚拟实例转换为可持久化的独立任务
+ *
+ * 物化后的任务不再携带周期规则（规则仍由系列当前实例持有），
+ * 通过 seriesId 与系列关联，以便投影和生成下一次实例时跳过该日期。
+ */
+export function materializeOccurrence(ghost: GCTask): GCTask {
+	return {
+		...ghost,
+		id: '',
+		ghostOf: undefined,
+		repeat: undefined,
+		nextOccurrenceId: undefined,
+		tags: ghost.tags ? [...ghost.tags] : undefined,
+		createdDate: new Date(),
+		lastModified: undefined,
+	};
+}
@@ -1,7 +1,8 @@
 /**
- * 任务搜索模块（适配器）
+ * 任务搜索模块
  *
- * 从插件的 TaskStore 获取任务，不再扫描 Markdown 文件。
+ * - searchTasks：从 TaskStore 获取任务（适配器，不再扫描 Markdown 文件）
+ * - fuzzySearchTasks：按标题、详情和标签模糊搜索，供搜索面板使用
  */
 import { App } from 'obsidian';
 import { GCTask } from '../types';
@@ -14,3 +15,131 @@ export async function searchTasks(app: App): Promise<GCTask[]> {
 	if (!plugin?.taskCache) return [];
 	return plugin.taskCache.getAllTasks();
 }
+
+/** 命中区间 [start, end)，与 Obsidian renderMatches 的格式一致 */
+export type TextMatches = Array<[number, number]>;
+
+/**
+ * 模糊搜索结果
+ */
+export interface TaskSearchResult {
+	task: GCTask;
+	score: number;
+	/** 标题中的命中区间 */
+	descriptionMatches: TextMatches;
+	/** 详情中的命中区间 */
+	detailMatches: TextMatches;
+	/** 命中的标签 */
+	matchedTags: string[];
+}
+
+/** 各字段的得分权重 */
+const FIELD_WEIGHTS = { description: 1, tags: 0.8, detail: 0.6 };
+
+/**
+ * 在文本中模糊匹配单个关键词（不区分大小写）
+ *
+ * 连续出现的子串得分最高，其次是按顺序出现的字符（字符间隔越小、越靠前得分越高）。
+ * @returns 得分与命中区间；未命中返回 null
+ */
+export function fuzzyMatch(keyword: string, text: string): { score: number; matches: TextMatches } | null {
+	const needle = keyword.toLowerCase();
+	const haystack = text.toLowerCase();
+	if (!needle) return { score: 0, matches: [] };
+
+	const index = haystack.indexOf(needle);
+	if (index !== -1) {
+		const atWordStart = index === 0 || /[\s\-_/#([]/.test(haystack[index - 1]);
+		return {
+			score: 100 + (atWordStart ? 20 : 0) - Math.min(index, 40) * 0.5,
+			matches: [[index, index + needle.length]],
+		};
+	}
+
+	const matches: TextMatches = [];
+	let gaps = 0;
+	let pos = 0;
+	for (const ch of needle) {
+		const found = haystack.indexOf(ch, pos);
+		if (found === -1) return null;
+		if (matches.length > 0 && matches[matches.length - 1][1] === found) {
+			matches[matches.length - 1][1] = found + 1;
+		} else {
+			if (matches.length > 0) gaps += found - pos;
+			matches.push([found, found + 1]);
+		}
+		pos = found + 1;
+	}
+	// 过于分散的匹配视为未命中
+	if (gaps > needle.length * 4) return null;
+	return { score: 60 - gaps * 2 - matches.length * 3 - Math.min(matches[0][0], 40) * 0.5, matches };
+}
+
+/**
+ * 按空格分隔的关键词模糊搜索任务（每个关键词需命中标题、详情或标签之一）
+ * @param limit 最多返回的结果数
+ * @returns 按得分降序排列的结果；关键词为空时返回空列表
+ */
+export function fuzzySearchTasks(tasks: GCTask[], query: string, limit = 50): TaskSearchResult[] {
+	const keywords = query.trim().split(/\s+/).filter(Boolean);
+	if (keywords.length === 0) return [];
+
+	const results: TaskSearchResult[] = [];
+	for (const task of tasks) {
+		const result: TaskSearchResult = { task, score: 0, descriptionMatches: [], detailMatches: [], matchedTags: [] };
+		const matched = keywords.every(rawKeyword => {
+			const keyword = rawKeyword.replace(/^#/, '');
+			const description = fuzzyMatch(keyword, task.description);
+			const detail = task.detail ? fuzzyMatch(keyword, task.detail) : null;
+			let bestTag: { tag: string; score: number } | null = null;
+			for (const tag of task.tags ?? []) {
+				const match = fuzzyMatch(keyword, tag);
+				if (match && (!bestTag || match.score > bestTag.score)) {
+					bestTag = { tag, score: match.score };
+				}
+			}
+
+			const scores = [
+				description ? description.score * FIELD_WEIGHTS.description : -1,
+				bestTag ? bestTag.score * FIELD_WEIGHTS.tags : -1,
+				detail ? detail.score * FIELD_WEIGHTS.detail : -1,
+			];
+			const best = Math.max(...scores);
+			if (best < 0) return false;
+
+			result.score += best;
+			if (description) result.descriptionMatches.push(...description.matches);
+			if (detail) result.detailMatches.push(...detail.matches);
+			if (bestTag && !result.matchedTags.includes(bestTag.tag)) result.matchedTags.push(bestTag.tag);
+			return true;
+		});
+		if (!matched) continue;
+
+		// 未完成的任务略微靠前
+		if (!task.completed && !task.cancelled && !task.archived) result.score += 5;
+		result.descriptionMatches = mergeMatches(result.descriptionMatches);
+		result.detailMatches = mergeMatches(result.detailMatches);
+		results.push(result);
+	}
+
+	return results
+		.sort((a, b) => b.score - a.score || a.task.description.localeCompare(b.task.description, 'zh-CN'))
+		.slice(0, limit);
+}
+
+/**
+ * 合并重叠或相邻的命中区间
+ */
+function mergeMatches(matches: TextMatches): TextMatches {
+	const sorted = [...matches].sort((a, b) => a[0] - b[0]);
+	const merged: TextMatches = [];
+	for (const [start, end] of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && start <= last[1]) {
+			last[1] = Math.max(last[1], end);
+		} else {
+			merged.push([start, end]);
+		}
+	}
+	return merged;
+}
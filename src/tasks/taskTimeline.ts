@@ -0,0 +1,92 @@
+/**
+ * @fileoverview 日视图时间轴的任务时间计算
+ * @module tasks/taskTimeline
+ *
+ * 判断任务是否以时间块显示、计算时间块起止，并生成拖放到时间轴后的时间更新。
+ */
+
+import type { GCTask } from '../types';
+import type { TaskUpdates } from './taskUpdater';
+import { withTime } from '../dateUtils/dateUtilsIndex';
+
+/** 一天的分钟数 */
+export const DAY_MINUTES = 24 * 60;
+/** 无开始时间的时间块默认时长（分钟） */
+const DEFAULT_BLOCK_MINUTES = 30;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 时间块在当天的起止分钟
+ */
+export interface TimeBlockRange {
+	startMinutes: number;
+	/** 不含 */
+	endMinutes: number;
+}
+
+/**
+ * 任务是否以时间块显示：截止日期带时间且落在当天
+ * @param day 当天零点
+ */
+export function isTimedOnDay(task: GCTask, day: Date): boolean {
+	if (!task.dueDate || !task.hasDueTime) return false;
+	return isSameDay(task.dueDate, day);
+}
+
+/**
+ * 计算时间块的起止分钟
+ *
+ * - 开始日期带时间且在当天、早于截止：开始 → 截止
+ * - 否则：从截止时刻起默认 30 分钟
+ */
+export function getTimeBlockRange(task: GCTask): TimeBlockRange {
+	const due = task.dueDate!;
+	const dueMinutes = due.getHours() * 60 + due.getMinutes();
+
+	if (task.type !== 'reminder' && task.startDate && task.hasStartTime
+		&& isSameDay(task.startDate, due) && task.startDate.getTime() < due.getTime()) {
+		const startMinutes = task.startDate.getHours() * 60 + task.startDate.getMinutes();
+		return { startMinutes, endMinutes: dueMinutes };
+	}
+	return { startMinutes: dueMinutes, endMinutes: Math.min(DAY_MINUTES, dueMinutes + DEFAULT_BLOCK_MINUTES) };
+}
+
+/**
+ * 全天条目能否拖入当天的时间轴
+ *
+ * 跨多天的任务只能在截止当天加上时间，在中间某天拖入会把截止日期提前、缩短任务。
+ */
+export function canDropOnTimeline(task: GCTask, day: Date): boolean {
+	if (isTimedOnDay(task, day) || !task.startDate || !task.dueDate) return true;
+	return isSameDay(task.startDate, task.dueDate) || isSameDay(task.dueDate, day);
+}
+
+/**
+ * 生成拖放到指定分钟后的时间更新
+ *
+ * 时间块整体平移（开始时间同步移动）；全天条目拖入时间轴后获得截止时间。
+ * @param day 当天零点
+ * @returns 无需修改或不允许拖入时返回 null
+ */
+export function buildTimelineDropUpdates(task: GCTask, day: Date, minutes: number): TaskUpdates | null {
+	const newDue = withTime(day, Math.floor(minutes / 60), minutes % 60);
+
+	if (!isTimedOnDay(task, day)) {
+		if (!canDropOnTimeline(task, day)) return null;
+		return { dueDate: newDue, hasDueTime: true };
+	}
+
+	const { startMinutes } = getTimeBlockRange(task);
+	if (startMinutes === minutes) return null;
+
+	const deltaMs = (minutes - startMinutes) * MINUTE_MS;
+	const updates: TaskUpdates = { dueDate: new Date(task.dueDate!.getTime() + deltaMs), hasDueTime: true };
+	if (task.startDate && task.hasStartTime && isSameDay(task.startDate, task.dueDate!)) {
+		updates.startDate = new Date(task.startDate.getTime() + deltaMs);
+	}
+	return updates;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+	return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
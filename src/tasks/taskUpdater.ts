@@ -5,7 +5,7 @@
  * 不再操作 Markdown 文件。
  */
 import { App } from 'obsidian';
-import { GCTask } from '../types';
+import { GCTask, TaskType } from '../types';
 import { TaskChanges } from '../data-layer/types';
 import { Logger } from '../utils/logger';
 
@@ -14,6 +14,7 @@ import { Logger } from '../utils/logger';
  * null 值表示清除该字段
  */
 export interface TaskUpdates {
+	type?: TaskType;
 	description?: string;
 	detail?: string;
 	completed?: boolean;
@@ -24,6 +25,8 @@ export interface TaskUpdates {
 	createdDate?: Date | null;
 	startDate?: Date | null;
 	dueDate?: Date | null;
+	hasStartTime?: boolean;
+	hasDueTime?: boolean;
 	cancelledDate?: Date | null;
 	completionDate?: Date | null;
 	repeat?: string | null;
@@ -40,6 +43,7 @@ export interface TaskUpdates {
 function updatesToChanges(updates: TaskUpdates): TaskChanges {
 	const changes: TaskChanges = {};
 
+	if (updates.type !== undefined) changes.type = updates.type;
 	if (updates.description !== undefined) changes.description = updates.description;
 	if (updates.detail !== undefined) changes.detail = updates.detail;
 	if (updates.completed !== undefined) changes.completed = updates.completed;
@@ -49,6 +53,8 @@ function updatesToChanges(updates: TaskUpdates): TaskChanges {
 	if (updates.tags !== undefined) changes.tags = updates.tags;
 	if (updates.repeat !== undefined) changes.repeat = updates.repeat ?? undefined;
 	if (updates.archived !== undefined) changes.archived = updates.archived;
+	if (updates.hasStartTime !== undefined) changes.hasStartTime = updates.hasStartTime;
+	if (updates.hasDueTime !== undefined) changes.hasDueTime = updates.hasDueTime;
 
 	// 日期字段：null 表示清除
 	if (updates.createdDate !== undefined) {
@@ -152,6 +158,7 @@ export async function cycleTaskStatus(
 
 /**
  * 更新任务的日期字段
+ * 原日期带具体时间时，仅替换日期部分并保留时分
  */
 export async function updateTaskDateField(
 	app: App,
@@ -159,8 +166,17 @@ export async function updateTaskDateField(
 	dateFieldName: string,
 	newDate: Date,
 ): Promise<void> {
+	let targetDate = newDate;
+	const hasTime = (dateFieldName === 'dueDate' && task.hasDueTime)
+		|| (dateFieldName === 'startDate' && task.hasStartTime);
+	const oldDate = task[dateFieldName as keyof GCTask];
+	if (hasTime && oldDate instanceof Date) {
+		targetDate = new Date(newDate);
+		targetDate.setHours(oldDate.getHours(), oldDate.getMinutes(), 0, 0);
+	}
+
 	const updates: TaskUpdates = {
-		[dateFieldName]: newDate
+		[dateFieldName]: targetDate
 	};
 
 	await updateTaskProperties(app, task, updates);
@@ -194,3 +210,27 @@ export async function updateTaskProperties(
 	const elapsed = performance.now() - startTime;
 	Logger.debug('taskUpdater', `Task updated in ${elapsed.toFixed(2)}ms`);
 }
+
+/**
+ * 批量更新多个任务（一次撤销、一次保存、一次刷新）
+ * @param label 撤销记录名称
+ */
+export async function updateTasksProperties(
+	app: App,
+	items: Array<{ task: GCTask; updates: TaskUpdates }>,
+	label?: string,
+): Promise<void> {
+	if (items.length === 0) return;
+
+	const plugin = (app as any).plugins?.plugins?.['gantt-calendar'];
+	if (!plugin?.taskCache) {
+		Logger.error('taskUpdater', 'TaskStore not available');
+		return;
+	}
+
+	await plugin.taskCache.updateTasks(
+		items.map(({ task, updates }) => ({ taskId: task.id, changes: updatesToChanges(updates) })),
+		label,
+	);
+	Logger.debug('taskUpdater', `Batch updated ${items.length} tasks`);
+}
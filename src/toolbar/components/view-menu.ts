@@ -3,10 +3,13 @@
  * @module toolbar/components/view-menu
  *
  * 绑定到已有按钮上，单击弹出面板，包含：
+ * - 查询（语法见 tasks/taskQuery，回车或失焦时生效）
  * - 状态筛选（checkbox 列表）
  * - 标签筛选（checkbox 列表）
  * - 排序（字段 + 方向）
  * - 日期范围（仅任务视图）
+ * - 任务类型（仅任务视图，含已归档/已删除）
+ * - 任务来源（仅月视图/周视图，存在订阅日历时）
  * 任何修改立即生效。点击面板外部或按 Esc 关闭。
  */
 
@@ -15,6 +18,7 @@ import type { SortState, SortField, SortOrder, StatusFilterState, TagFilterState
 import { SORT_OPTIONS } from '../../tasks/taskSorter';
 import { ToolbarClasses } from '../../utils/bem';
 import type { TaskStatus } from '../../tasks/taskStatus';
+import { parseTaskQuery, TaskQueryError } from '../../tasks/taskQuery';
 
 /**
  * 视图菜单配置
@@ -23,6 +27,10 @@ export interface ViewMenuOptions {
 	viewType: CalendarViewType;
 	plugin: any;
 
+	// 查询
+	getQuery: () => string;
+	onQueryChange: (query: string) => void;
+
 	// 状态筛选
 	getStatusFilterState: () => StatusFilterState;
 	onStatusFilterChange: (state: StatusFilterState) => void;
@@ -42,6 +50,15 @@ export interface ViewMenuOptions {
 	onDateRangeChange?: (mode: string) => void;
 	getTimeFieldFilter?: () => string;
 	onTimeFieldChange?: (field: string) => void;
+
+	// 任务类型（仅任务视图）
+	getTaskTypeFilter?: () => string;
+	onTaskTypeChange?: (filter: string) => void;
+
+	// 任务来源（仅月视图/周视图）
+	getTaskSources?: () => Array<{ id: string; name: string }>;
+	getHiddenSources?: () => string[];
+	onHiddenSourcesChange?: (hidden: string[]) => void;
 }
 
 /**
@@ -133,6 +150,107 @@ function renderPanelContent(
 ): void {
 	const classes = ToolbarClasses.components.viewMenu;
 
+	// === 查询 ===
+	const querySection = panel.createDiv(classes.section);
+	querySection.createDiv({ text: '查询', cls: classes.sectionTitle });
+
+	const queryInput = querySection.createEl('input', {
+		type: 'text',
+		cls: `${classes.select} ${classes.queryInput}`,
+		attr: { placeholder: 'priority:high (#work OR #home) due<next-friday' },
+	});
+	queryInput.value = options.getQuery();
+	const queryError = querySection.createDiv(classes.queryError);
+
+	const validateQuery = (): boolean => {
+		let message = '';
+		try {
+			parseTaskQuery(queryInput.value);
+		} catch (error) {
+			message = error instanceof TaskQueryError
+				? `${error.message}（第 ${error.position + 1} 个字符）`
+				: String(error);
+		}
+		queryError.setText(message);
+		queryError.toggle(!!message);
+		queryInput.toggleClass(classes.queryInputInvalid, !!message);
+		return !message;
+	};
+	validateQuery();
+
+	queryInput.addEventListener('input', () => validateQuery());
+	queryInput.addEventListener('change', () => {
+		const query = queryInput.value.trim();
+		if (validateQuery() && query !== options.getQuery()) {
+			options.onQueryChange(query);
+		}
+	});
+	queryInput.addEventListener('keydown', (e) => {
+		if (e.key === 'Enter') {
+			e.preventDefault();
+			queryInput.blur();
+		}
+	});
+
+	// === 任务类型（仅任务视图） ===
+	if (options.viewType === 'task' && options.getTaskTypeFilter && options.onTaskTypeChange) {
+		const typeSection = panel.createDiv(classes.section);
+		typeSection.createDiv({ text: '任务类型', cls: classes.sectionTitle });
+
+		const currentType = options.getTaskTypeFilter();
+		const types = [
+			{ value: 'all', label: '全部' },
+			{ value: 'todo', label: '待办' },
+			{ value: 'reminder', label: '提醒' },
+			{ value: 'archived', label: '已归档' },
+			{ value: 'deleted', label: '已删除' },
+		];
+
+		const typeRow = typeSection.createDiv(classes.row);
+		types.forEach(t => {
+			const typeBtn = typeRow.createEl('button', {
+				text: t.label,
+				cls: classes.sortOrderBtn,
+			});
+			if (currentType === t.value) {
+				typeBtn.style.fontWeight = 'bold';
+			}
+			typeBtn.addEventListener('click', () => {
+				options.onTaskTypeChange!(t.value);
+				refresh();
+			});
+		});
+	}
+
+	// === 任务来源（有订阅日历时） ===
+	const sources = options.getTaskSources?.() ?? [];
+	if (sources.length > 1 && options.getHiddenSources && options.onHiddenSourcesChange) {
+		const sourceSection = panel.createDiv(classes.section);
+		sourceSection.createDiv({ text: '任务来源', cls: classes.sectionTitle });
+
+		const hidden = options.getHiddenSources();
+		sources.forEach(source => {
+			const item = sourceSection.createDiv(classes.checkboxItem);
+			const checkbox = item.createEl('input', { type: 'checkbox', cls: classes.checkbox });
+			checkbox.checked = !hidden.includes(source.id);
+			item.createEl('span', { text: source.name });
+
+			checkbox.addEventListener('change', () => {
+				const newHidden = checkbox.checked
+					? hidden.filter(id => id !== source.id)
+					: [...hidden, source.id];
+				options.onHiddenSourcesChange!(newHidden);
+				refresh();
+			});
+			item.addEventListener('click', (e) => {
+				if (e.target !== checkbox) {
+					checkbox.checked = !checkbox.checked;
+					checkbox.dispatchEvent(new Event('change'));
+				}
+			});
+		});
+	}
+
 	// === 状态筛选 ===
 	const statusSection = panel.createDiv(classes.section);
 	statusSection.createDiv({ text: '状态筛选', cls: classes.sectionTitle });
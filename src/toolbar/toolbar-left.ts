@@ -12,8 +12,9 @@ interface ViewButtonConfig {
 	ariaLabel: string;
 }
 
-/** 3个视图按钮的配置 */
+/** 4个视图按钮的配置 */
 const VIEW_BUTTONS: ViewButtonConfig[] = [
+	{ type: 'day', label: '日', icon: 'clock', ariaLabel: '日视图' },
 	{ type: 'week', label: '周', icon: 'layout', ariaLabel: '周视图' },
 	{ type: 'month', label: '月', icon: 'grid', ariaLabel: '月视图' },
 	{ type: 'task', label: '任务', icon: 'list-checks', ariaLabel: '任务视图' },
@@ -21,7 +22,7 @@ const VIEW_BUTTONS: ViewButtonConfig[] = [
 
 /**
  * 工具栏左侧区域 - 视图选择器
- * 负责渲染 周|月|任务 3个平级按钮
+ * 负责渲染 日|周|月|任务 4个平级按钮
  */
 export class ToolbarLeft {
 	/**
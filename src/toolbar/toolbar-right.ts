@@ -9,7 +9,8 @@ import { setIcon } from 'obsidian';
 import type { CalendarViewType } from '../types';
 import type { WeekViewRenderer } from '../views/WeekView';
 import type { MonthViewRenderer } from '../views/MonthView';
-import type { TaskViewRenderer } from '../views/TaskView';
+import type { DayViewRenderer } from '../views/DayView';
+import type { TaskViewRenderer, TaskTypeFilter } from '../views/TaskView';
 import { renderViewMenuButton, type ViewMenuOptions } from './components/view-menu';
 import { renderPresetButton, type PresetButtonOptions } from './components/preset-button';
 import { ToolbarClasses } from '../utils/bem';
@@ -47,14 +48,17 @@ const RIGHT_BUTTONS: RightButtonConfig[] = [
 export class ToolbarRight {
 	private weekRenderer?: WeekViewRenderer;
 	private monthRenderer?: MonthViewRenderer;
+	private dayRenderer?: DayViewRenderer;
 	private cleanups: Array<{ cleanup: () => void }> = [];
 
 	setRenderers(
 		weekRenderer: WeekViewRenderer,
 		monthRenderer: MonthViewRenderer,
+		dayRenderer?: DayViewRenderer,
 	): void {
 		this.weekRenderer = weekRenderer;
 		this.monthRenderer = monthRenderer;
+		this.dayRenderer = dayRenderer;
 	}
 
 	render(container: HTMLElement, config: ToolbarRightConfig): void {
@@ -67,6 +71,7 @@ export class ToolbarRight {
 		const getRenderer = () => {
 			if (viewType === 'week') return this.weekRenderer;
 			if (viewType === 'month') return this.monthRenderer;
+			if (viewType === 'day') return this.dayRenderer;
 			if (viewType === 'task') return taskRenderer;
 			return undefined;
 		};
@@ -136,6 +141,11 @@ export class ToolbarRight {
 		const options: ViewMenuOptions = {
 			viewType,
 			plugin,
+			getQuery: () => renderer.getQueryFilter(),
+			onQueryChange: (query) => {
+				renderer.setQueryFilter(query);
+				viewType === 'task' ? onFilterChange() : onRender();
+			},
 			getStatusFilterState: () => renderer.getStatusFilterState(),
 			onStatusFilterChange: (state) => {
 				renderer.setStatusFilterState(state);
@@ -166,6 +176,19 @@ export class ToolbarRight {
 				taskRenderer.setTimeFilterField(field as any);
 				onFilterChange();
 			};
+			options.getTaskTypeFilter = () => taskRenderer.getTaskTypeFilter();
+			options.onTaskTypeChange = (filter: string) => {
+				taskRenderer.setTaskTypeFilter(filter as TaskTypeFilter);
+			};
+		}
+
+		if (viewType === 'month' || viewType === 'week') {
+			options.getTaskSources = () => plugin.taskCache?.getTaskSources() || [];
+			options.getHiddenSources = () => renderer.getHiddenSources();
+			options.onHiddenSourcesChange = (hidden: string[]) => {
+				renderer.setHiddenSources(hidden);
+				onRender();
+			};
 		}
 
 		this.cleanups.push(renderViewMenuButton(btn, options));
@@ -232,6 +255,9 @@ export class ToolbarRight {
 				operator: filters.tagOperator ?? currentTag.operator,
 			});
 		}
+		if (filters.query !== undefined) {
+			renderer.setQueryFilter(filters.query);
+		}
 		if (filters.sortField !== undefined || filters.sortOrder !== undefined) {
 			const currentSort = renderer.getSortState();
 			renderer.setSortState({
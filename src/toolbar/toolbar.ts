@@ -2,6 +2,7 @@ import type { CalendarViewType } from '../types';
 import type { TaskViewRenderer } from '../views/TaskView';
 import type { WeekViewRenderer } from '../views/WeekView';
 import type { MonthViewRenderer } from '../views/MonthView';
+import type { DayViewRenderer } from '../views/DayView';
 import { ToolbarLeft } from './toolbar-left';
 import { ToolbarCenter, type ToolbarCenterConfig } from './toolbar-center';
 import { ToolbarRight } from './toolbar-right';
@@ -13,7 +14,7 @@ import { ToolbarClasses } from '../utils/bem';
  * 负责整体布局和协调左中右三个区域
  *
  * 布局：
- *   左侧 [周 | 月 | 任务]
+ *   左侧 [日 | 周 | 月 | 任务]
  *   中间 [◀  第5周 (2.3-2.9)  ▶]
  *   右侧 [筛选 | 预设 | 新建]
  */
@@ -36,8 +37,9 @@ export class Toolbar {
 	setCalendarRenderers(
 		weekRenderer: WeekViewRenderer,
 		monthRenderer: MonthViewRenderer,
+		dayRenderer?: DayViewRenderer,
 	): void {
-		this.rightSection.setRenderers(weekRenderer, monthRenderer);
+		this.rightSection.setRenderers(weekRenderer, monthRenderer, dayRenderer);
 	}
 
 	/**
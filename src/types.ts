@@ -1,7 +1,7 @@
 // 日历视图类型定义
 import { TaskStatusType } from './tasks/taskStatus';
 
-export type CalendarViewType = 'month' | 'week' | 'task';
+export type CalendarViewType = 'month' | 'week' | 'day' | 'task';
 
 /**
  * 任务类型
@@ -100,16 +100,23 @@ export interface GCTask {
 	createdDate?: Date;            // 创建日期
 	startDate?: Date;              // 开始日期（默认为创建时间）
 	dueDate?: Date;                // 截止日期 / 提醒日期
+	hasStartTime?: boolean;        // 开始日期是否带具体时间（否则按全天处理）
+	hasDueTime?: boolean;          // 截止/提醒日期是否带具体时间（否则按全天处理）
 	cancelledDate?: Date;          // 取消日期
 	completionDate?: Date;         // 完成日期
 	repeat?: string;               // 周期规则，如 "every day", "every week on Monday"
+	seriesId?: string;             // 周期系列 ID（同一周期规则生成的实例共享，首个实例为自身 ID）
+	nextOccurrenceId?: string;     // 已由本实例生成的下一次实例 ID（防止重复生成）
+	ghostOf?: string;              // 虚拟周期实例所属的任务 ID（仅视图投影使用，不持久化）
 	archived: boolean;             // 归档标记（提醒到期后自动归档）
+	deletedAt?: Date;              // 删除时间（仅回收站中的任务有此字段）
 	// 子任务关系
 	parentId?: string;             // 父任务 ID（顶层任务无此字段）
 	childIds?: string[];           // 子任务 ID 列表（有序，控制显示顺序）
 	depth?: number;                // 嵌套深度：0=顶层, 1=子任务, 2=子子任务
 	// 元数据
 	sourceId?: string;             // 数据源特定 ID
+	source?: string;               // 只读外部数据源 ID（订阅日历的任务有此字段，不持久化）
 	lastModified?: Date;           // 最后修改时间
 }
 
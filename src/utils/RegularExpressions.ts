@@ -11,6 +11,18 @@ export class RegularExpressions {
     /** 日期时间格式：YYYY-MM-DD HH:mm */
     public static readonly dateTimeFormat = 'YYYY-MM-DD HH:mm';
 
+    /**
+     * 时间正则（24 小时制 HH:mm）
+     * 匹配示例：09:30, 23:05
+     */
+    public static readonly timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+    /**
+     * 日期时间正则（对应 dateTimeFormat，日期与时间之间允许空格或 T）
+     * 匹配示例：2025-01-15 09:30, 2025-01-15T09:30
+     */
+    public static readonly dateTimeRegex = /^(\d{4})-(\d{2})-(\d{2})[ T]([01]\d|2[0-3]):([0-5]\d)$/;
+
     // ==================== 基础正则表达式 ====================
 
     /**
@@ -25,6 +25,8 @@ export const BLOCKS = {
 	WEEK_VIEW: 'week-view',
 	/** 月视图 */
 	MONTH_VIEW: 'month-view',
+	/** 日视图（时间轴） */
+	DAY_VIEW: 'day-view',
 	/** 工具栏 */
 	TOOLBAR: 'toolbar',
 
@@ -48,6 +50,27 @@ export const BLOCKS = {
 	CREATE_TASK_BUTTON: 'create-task-btn',
 	/** 编辑任务弹窗 */
 	EDIT_TASK_MODAL: 'edit-task-modal',
+	/** 同步冲突弹窗 */
+	SYNC_CONFLICT_MODAL: 'sync-conflict-modal',
+	/** Markdown 导入弹窗 */
+	MARKDOWN_IMPORT_MODAL: 'markdown-import-modal',
+	/** CSV / JSON 导入弹窗 */
+	TASK_IMPORT_MODAL: 'task-import-modal',
+	/** 备份差异弹窗 */
+	BACKUP_DIFF_MODAL: 'backup-diff-modal',
+	/** 任务搜索面板 */
+	TASK_SEARCH_MODAL: 'task-search-modal',
+	/** 批量编辑弹窗（标签、日期） */
+	BULK_EDIT_MODAL: 'bulk-edit-modal',
+
+	/** 本地提醒通知 */
+	REMINDER_NOTICE: 'reminder-notice',
+	/** 撤销提示 */
+	UNDO_NOTICE: 'undo-notice',
+	/** 笔记内嵌任务块 */
+	TASK_EMBED: 'task-embed',
+	/** 多选工具栏 */
+	TASK_SELECTION: 'task-selection',
 
 } as const;
 
@@ -131,6 +154,8 @@ export const TaskCardClasses = {
 		priorityLow: bem(BLOCKS.TASK_CARD, undefined, 'priority-low'),
 		// 提醒类型斜体修饰符
 		reminderItalic: bem(BLOCKS.TASK_CARD, undefined, 'reminder-italic'),
+		// 搜索定位后的高亮
+		revealed: bem(BLOCKS.TASK_CARD, undefined, 'revealed'),
 	},
 
 	/** Task view specific elements */
@@ -176,6 +201,20 @@ export const TaskTreeClasses = {
 	children: 'gc-task-tree-children',
 };
 
+/**
+ * 任务视图回收站类名常量
+ */
+export const TaskTrashClasses = {
+	header: 'gc-task-trash__header',
+	count: 'gc-task-trash__count',
+	item: 'gc-task-trash__item',
+	title: 'gc-task-trash__title',
+	meta: 'gc-task-trash__meta',
+	actions: 'gc-task-trash__actions',
+	action: 'gc-task-trash__action',
+	actionDanger: 'gc-task-trash__action--danger',
+};
+
 /**
  * Tooltip类名常量
  */
@@ -231,8 +270,17 @@ export const ViewClasses = {
 	modifiers: {
 		month: bem(BLOCKS.VIEW, undefined, 'month'),
 		week: bem(BLOCKS.VIEW, undefined, 'week'),
+		day: bem(BLOCKS.VIEW, undefined, 'day'),
 		task: bem(BLOCKS.VIEW, undefined, 'task'),
 	},
+
+	/** 叠加在各视图日期格和任务元素上的状态：键盘光标、多选 */
+	elements: {
+		cursorDay: bem(BLOCKS.VIEW, 'cursor-day'),
+		cursorTask: bem(BLOCKS.VIEW, 'cursor-task'),
+		/** 多选中的任务元素（见 views/TaskSelection） */
+		selected: bem(BLOCKS.VIEW, 'selected'),
+	},
 };
 
 /**
@@ -428,6 +476,9 @@ export const ToolbarClasses = {
 			sortRow: bem(BLOCKS.TOOLBAR, 'view-menu-sort-row'),
 			sortFieldSelect: bem(BLOCKS.TOOLBAR, 'view-menu-sort-field'),
 			sortOrderBtn: bem(BLOCKS.TOOLBAR, 'view-menu-sort-order'),
+			queryInput: bem(BLOCKS.TOOLBAR, 'view-menu-query'),
+			queryInputInvalid: bem(BLOCKS.TOOLBAR, 'view-menu-query', 'invalid'),
+			queryError: bem(BLOCKS.TOOLBAR, 'view-menu-query-error'),
 		},
 
 		/** 快捷预设按钮 */
@@ -505,6 +556,7 @@ export const EditTaskModalClasses = {
 		dateLabel: bem(BLOCKS.EDIT_TASK_MODAL, 'date-label'),
 		dateInputContainer: bem(BLOCKS.EDIT_TASK_MODAL, 'date-input-container'),
 		dateInput: bem(BLOCKS.EDIT_TASK_MODAL, 'date-input'),
+		timeInput: bem(BLOCKS.EDIT_TASK_MODAL, 'time-input'),
 		dateClear: bem(BLOCKS.EDIT_TASK_MODAL, 'date-clear'),
 
 		// 标签选择器板块
@@ -577,6 +629,130 @@ export const EditTaskModalClasses = {
 	},
 };
 
+/**
+ * 同步冲突弹窗类名常量
+ */
+export const SyncConflictModalClasses = {
+	block: bem(BLOCKS.SYNC_CONFLICT_MODAL),
+
+	elements: {
+		summary: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'summary'),
+		bulkActions: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'bulk-actions'),
+		list: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'list'),
+		card: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'card'),
+		cardHeader: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'card-header'),
+		cardTitle: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'card-title'),
+		sideToggle: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'side-toggle'),
+		sideButton: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'side-button'),
+		sideButtonActive: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'side-button', 'active'),
+		table: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'table'),
+		row: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'row'),
+		rowConflict: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'row', 'conflict'),
+		fieldName: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'field-name'),
+		value: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'value'),
+		valueSelected: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'value', 'selected'),
+		valueEmpty: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'value', 'empty'),
+		buttons: bem(BLOCKS.SYNC_CONFLICT_MODAL, 'buttons'),
+	},
+};
+
+/**
+ * Markdown 导入弹窗类名常量
+ */
+export const MarkdownImportModalClasses = {
+	block: bem(BLOCKS.MARKDOWN_IMPORT_MODAL),
+
+	elements: {
+		summary: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'summary'),
+		filter: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'filter'),
+		bulkActions: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'bulk-actions'),
+		list: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'list'),
+		folder: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'folder'),
+		file: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'file'),
+		fileName: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'file-name'),
+		task: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'task'),
+		taskDuplicate: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'task', 'duplicate'),
+		taskText: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'task-text'),
+		taskMeta: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'task-meta'),
+		empty: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'empty'),
+		buttons: bem(BLOCKS.MARKDOWN_IMPORT_MODAL, 'buttons'),
+	},
+};
+
+/**
+ * CSV / JSON 导入弹窗类名常量
+ */
+export const TaskImportModalClasses = {
+	block: bem(BLOCKS.TASK_IMPORT_MODAL),
+
+	elements: {
+		summary: bem(BLOCKS.TASK_IMPORT_MODAL, 'summary'),
+		fileInput: bem(BLOCKS.TASK_IMPORT_MODAL, 'file-input'),
+		list: bem(BLOCKS.TASK_IMPORT_MODAL, 'list'),
+		mappingHeader: bem(BLOCKS.TASK_IMPORT_MODAL, 'mapping-header'),
+		mappingRow: bem(BLOCKS.TASK_IMPORT_MODAL, 'mapping-row'),
+		column: bem(BLOCKS.TASK_IMPORT_MODAL, 'column'),
+		sample: bem(BLOCKS.TASK_IMPORT_MODAL, 'sample'),
+		dateFormat: bem(BLOCKS.TASK_IMPORT_MODAL, 'date-format'),
+		row: bem(BLOCKS.TASK_IMPORT_MODAL, 'row'),
+		rowInvalid: bem(BLOCKS.TASK_IMPORT_MODAL, 'row', 'invalid'),
+		rowLine: bem(BLOCKS.TASK_IMPORT_MODAL, 'row-line'),
+		rowNumber: bem(BLOCKS.TASK_IMPORT_MODAL, 'row-number'),
+		rowText: bem(BLOCKS.TASK_IMPORT_MODAL, 'row-text'),
+		rowMeta: bem(BLOCKS.TASK_IMPORT_MODAL, 'row-meta'),
+		error: bem(BLOCKS.TASK_IMPORT_MODAL, 'error'),
+		warning: bem(BLOCKS.TASK_IMPORT_MODAL, 'warning'),
+		empty: bem(BLOCKS.TASK_IMPORT_MODAL, 'empty'),
+		buttons: bem(BLOCKS.TASK_IMPORT_MODAL, 'buttons'),
+	},
+};
+
+/**
+ * 备份差异弹窗类名常量
+ */
+export const BackupDiffModalClasses = {
+	block: bem(BLOCKS.BACKUP_DIFF_MODAL),
+
+	elements: {
+		summary: bem(BLOCKS.BACKUP_DIFF_MODAL, 'summary'),
+		list: bem(BLOCKS.BACKUP_DIFF_MODAL, 'list'),
+		card: bem(BLOCKS.BACKUP_DIFF_MODAL, 'card'),
+		cardHeader: bem(BLOCKS.BACKUP_DIFF_MODAL, 'card-header'),
+		cardTitle: bem(BLOCKS.BACKUP_DIFF_MODAL, 'card-title'),
+		badge: bem(BLOCKS.BACKUP_DIFF_MODAL, 'badge'),
+		badgeAdded: bem(BLOCKS.BACKUP_DIFF_MODAL, 'badge', 'added'),
+		badgeRemoved: bem(BLOCKS.BACKUP_DIFF_MODAL, 'badge', 'removed'),
+		table: bem(BLOCKS.BACKUP_DIFF_MODAL, 'table'),
+		row: bem(BLOCKS.BACKUP_DIFF_MODAL, 'row'),
+		fieldName: bem(BLOCKS.BACKUP_DIFF_MODAL, 'field-name'),
+		value: bem(BLOCKS.BACKUP_DIFF_MODAL, 'value'),
+		valueEmpty: bem(BLOCKS.BACKUP_DIFF_MODAL, 'value', 'empty'),
+		more: bem(BLOCKS.BACKUP_DIFF_MODAL, 'more'),
+		buttons: bem(BLOCKS.BACKUP_DIFF_MODAL, 'buttons'),
+	},
+};
+
+/**
+ * 任务搜索面板类名常量
+ */
+export const TaskSearchModalClasses = {
+	block: bem(BLOCKS.TASK_SEARCH_MODAL),
+
+	elements: {
+		item: bem(BLOCKS.TASK_SEARCH_MODAL, 'item'),
+		content: bem(BLOCKS.TASK_SEARCH_MODAL, 'content'),
+		title: bem(BLOCKS.TASK_SEARCH_MODAL, 'title'),
+		meta: bem(BLOCKS.TASK_SEARCH_MODAL, 'meta'),
+		badge: bem(BLOCKS.TASK_SEARCH_MODAL, 'badge'),
+		path: bem(BLOCKS.TASK_SEARCH_MODAL, 'path'),
+		detail: bem(BLOCKS.TASK_SEARCH_MODAL, 'detail'),
+		tag: bem(BLOCKS.TASK_SEARCH_MODAL, 'tag'),
+		tagMatched: bem(BLOCKS.TASK_SEARCH_MODAL, 'tag', 'matched'),
+		actions: bem(BLOCKS.TASK_SEARCH_MODAL, 'actions'),
+		action: bem(BLOCKS.TASK_SEARCH_MODAL, 'action'),
+	},
+};
+
 /**
  * 月视图类名常量
  */
@@ -654,6 +830,10 @@ export const WeekViewClasses = {
 		ganttBarTodo: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'todo'),
 		ganttBarReminder: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'reminder'),
 		ganttBarCompleted: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'completed'),
+		// 周期任务虚拟实例
+		ganttBarGhost: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'ghost'),
+		// 订阅日历的只读任务
+		ganttBarSubscribed: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'subscribed'),
 		// 甘特条优先级修饰（与类型修饰组合使用）
 		ganttBarPriorityHigh: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'priority-high'),
 		ganttBarPriorityNormal: bem(BLOCKS.WEEK_VIEW, 'gantt-bar', 'priority-normal'),
@@ -687,6 +867,47 @@ export const WeekViewClasses = {
 	},
 };
 
+/**
+ * 日视图类名常量
+ */
+export const DayViewClasses = {
+	block: bem(BLOCKS.DAY_VIEW),
+
+	/** Elements */
+	elements: {
+		header: bem(BLOCKS.DAY_VIEW, 'header'),
+		allDayLane: bem(BLOCKS.DAY_VIEW, 'all-day-lane'),
+		allDayLabel: bem(BLOCKS.DAY_VIEW, 'all-day-label'),
+		allDayItems: bem(BLOCKS.DAY_VIEW, 'all-day-items'),
+		allDayItem: bem(BLOCKS.DAY_VIEW, 'all-day-item'),
+		scroller: bem(BLOCKS.DAY_VIEW, 'scroller'),
+		timeline: bem(BLOCKS.DAY_VIEW, 'timeline'),
+		hourRow: bem(BLOCKS.DAY_VIEW, 'hour-row'),
+		hourLabel: bem(BLOCKS.DAY_VIEW, 'hour-label'),
+		blocks: bem(BLOCKS.DAY_VIEW, 'blocks'),
+		block: bem(BLOCKS.DAY_VIEW, 'block'),
+		blockTime: bem(BLOCKS.DAY_VIEW, 'block-time'),
+		blockLabel: bem(BLOCKS.DAY_VIEW, 'block-label'),
+		nowLine: bem(BLOCKS.DAY_VIEW, 'now-line'),
+		empty: bem(BLOCKS.DAY_VIEW, 'empty'),
+	},
+
+	/** Modifiers */
+	modifiers: {
+		headerToday: bem(BLOCKS.DAY_VIEW, 'header', 'today'),
+		dropTarget: bem(BLOCKS.DAY_VIEW, 'all-day-lane', 'drop-target'),
+		blockDragging: bem(BLOCKS.DAY_VIEW, 'block', 'dragging'),
+		blockCompleted: bem(BLOCKS.DAY_VIEW, 'block', 'completed'),
+		blockReminder: bem(BLOCKS.DAY_VIEW, 'block', 'reminder'),
+		blockGhost: bem(BLOCKS.DAY_VIEW, 'block', 'ghost'),
+		blockPriorityHigh: bem(BLOCKS.DAY_VIEW, 'block', 'priority-high'),
+		blockPriorityNormal: bem(BLOCKS.DAY_VIEW, 'block', 'priority-normal'),
+		blockPriorityLow: bem(BLOCKS.DAY_VIEW, 'block', 'priority-low'),
+		allDayItemCompleted: bem(BLOCKS.DAY_VIEW, 'all-day-item', 'completed'),
+		allDayItemGhost: bem(BLOCKS.DAY_VIEW, 'all-day-item', 'ghost'),
+	},
+};
+
 /**
  * 状态图标类名常量
  */
@@ -725,6 +946,8 @@ export const MonthTaskClasses = {
 		overdue: bem(BLOCKS.MONTH_TASK, undefined, 'overdue'),
 		completed: bem(BLOCKS.MONTH_TASK, undefined, 'completed'),
 		canceled: bem(BLOCKS.MONTH_TASK, undefined, 'canceled'),
+		ghost: bem(BLOCKS.MONTH_TASK, undefined, 'ghost'),
+		subscribed: bem(BLOCKS.MONTH_TASK, undefined, 'subscribed'),
 	},
 };
 
@@ -743,3 +966,95 @@ export function withModifiers(baseClass: string, ...modifiers: (string | undefin
 	}
 	return classes.join(' ');
 }
+
+/**
+ * 本地提醒通知类名常量
+ */
+export const ReminderNoticeClasses = {
+	block: bem(BLOCKS.REMINDER_NOTICE),
+
+	elements: {
+		title: bem(BLOCKS.REMINDER_NOTICE, 'title'),
+		meta: bem(BLOCKS.REMINDER_NOTICE, 'meta'),
+		actions: bem(BLOCKS.REMINDER_NOTICE, 'actions'),
+		action: bem(BLOCKS.REMINDER_NOTICE, 'action'),
+	},
+};
+
+/**
+ * 撤销提示类名常量
+ */
+export const UndoNoticeClasses = {
+	block: bem(BLOCKS.UNDO_NOTICE),
+
+	elements: {
+		message: bem(BLOCKS.UNDO_NOTICE, 'message'),
+		action: bem(BLOCKS.UNDO_NOTICE, 'action'),
+	},
+};
+
+/**
+ * 笔记内嵌任务块类名常量
+ */
+export const TaskEmbedClasses = {
+	block: bem(BLOCKS.TASK_EMBED),
+
+	elements: {
+		header: bem(BLOCKS.TASK_EMBED, 'header'),
+		title: bem(BLOCKS.TASK_EMBED, 'title'),
+		count: bem(BLOCKS.TASK_EMBED, 'count'),
+		message: bem(BLOCKS.TASK_EMBED, 'message'),
+		error: bem(BLOCKS.TASK_EMBED, 'error'),
+		list: bem(BLOCKS.TASK_EMBED, 'list'),
+		item: bem(BLOCKS.TASK_EMBED, 'item'),
+		month: bem(BLOCKS.TASK_EMBED, 'month'),
+		weekday: bem(BLOCKS.TASK_EMBED, 'weekday'),
+		day: bem(BLOCKS.TASK_EMBED, 'day'),
+		dayNumber: bem(BLOCKS.TASK_EMBED, 'day-number'),
+		dayTask: bem(BLOCKS.TASK_EMBED, 'day-task'),
+		more: bem(BLOCKS.TASK_EMBED, 'more'),
+		gantt: bem(BLOCKS.TASK_EMBED, 'gantt'),
+		ganttDate: bem(BLOCKS.TASK_EMBED, 'gantt-date'),
+		ganttLabel: bem(BLOCKS.TASK_EMBED, 'gantt-label'),
+		ganttBar: bem(BLOCKS.TASK_EMBED, 'gantt-bar'),
+	},
+
+	modifiers: {
+		dayOutside: bem(BLOCKS.TASK_EMBED, 'day', 'outside'),
+		dayToday: bem(BLOCKS.TASK_EMBED, 'day', 'today'),
+		ganttDateToday: bem(BLOCKS.TASK_EMBED, 'gantt-date', 'today'),
+		taskDone: bem(BLOCKS.TASK_EMBED, 'day-task', 'done'),
+		barDone: bem(BLOCKS.TASK_EMBED, 'gantt-bar', 'done'),
+	},
+};
+
+/**
+ * 多选工具栏类名常量
+ */
+export const TaskSelectionClasses = {
+	block: bem(BLOCKS.TASK_SELECTION),
+
+	elements: {
+		count: bem(BLOCKS.TASK_SELECTION, 'count'),
+		actions: bem(BLOCKS.TASK_SELECTION, 'actions'),
+		action: bem(BLOCKS.TASK_SELECTION, 'action'),
+		lasso: bem(BLOCKS.TASK_SELECTION, 'lasso'),
+	},
+
+	modifiers: {
+		/** 框选进行中（加在视图内容区域上，禁止选中文字） */
+		lassoing: bem(BLOCKS.TASK_SELECTION, undefined, 'lassoing'),
+	},
+};
+
+/**
+ * 批量编辑弹窗类名常量
+ */
+export const BulkEditModalClasses = {
+	block: bem(BLOCKS.BULK_EDIT_MODAL),
+
+	elements: {
+		section: bem(BLOCKS.BULK_EDIT_MODAL, 'section'),
+		hint: bem(BLOCKS.BULK_EDIT_MODAL, 'hint'),
+	},
+};
@@ -1,5 +1,5 @@
 import type { GCTask } from '../types';
-import { formatDate } from '../dateUtils/dateUtilsIndex';
+import { formatDate, formatTaskDate } from '../dateUtils/dateUtilsIndex';
 import { TagPill } from '../components/tagPill';
 import { getPriorityIcon as getPriorityIconUtil, getPriorityLabel as getPriorityLabelUtil } from './priorityUtils';
 
@@ -205,14 +205,14 @@ export class TooltipManager {
 					timeHtml.push(`<div class="gc-task-tooltip__time-item">➕ 创建: ${formatDate(task.createdDate, 'yyyy-MM-dd')}</div>`);
 				}
 				if (task.startDate) {
-					timeHtml.push(`<div class="gc-task-tooltip__time-item">🛫 开始: ${formatDate(task.startDate, 'yyyy-MM-dd')}</div>`);
+					timeHtml.push(`<div class="gc-task-tooltip__time-item">🛫 开始: ${formatTaskDate(task.startDate, task.hasStartTime)}</div>`);
 				}
 				if (task.dueDate) {
 					const dueLabel = task.type === 'reminder' ? '📅 提醒' : '📅 截止';
 					const overdueClass = task.dueDate < new Date() && !task.completed
 						? ' gc-task-tooltip__time-item--overdue'
 						: '';
-					timeHtml.push(`<div class="gc-task-tooltip__time-item${overdueClass}">${dueLabel}: ${formatDate(task.dueDate, 'yyyy-MM-dd')}</div>`);
+					timeHtml.push(`<div class="gc-task-tooltip__time-item${overdueClass}">${dueLabel}: ${formatTaskDate(task.dueDate, task.hasDueTime)}</div>`);
 				}
 				if (task.cancelledDate) {
 					timeHtml.push(`<div class="gc-task-tooltip__time-item">❌ 取消: ${formatDate(task.cancelledDate, 'yyyy-MM-dd')}</div>`);
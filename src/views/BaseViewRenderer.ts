@@ -8,6 +8,8 @@ import { Logger } from '../utils/logger';
 import { TooltipClasses } from '../utils/bem';
 import { LinkRenderer } from '../utils/linkRenderer';
 import { getPriorityIcon, getPriorityClass } from '../utils/priorityUtils';
+import { projectOccurrences, materializeOccurrence, getOccurrenceKey } from '../tasks/taskRecurrence';
+import { parseTaskQuery, evaluateTaskQuery, type TaskQueryNode } from '../tasks/taskQuery';
 
 /**
  * 日历渲染器基类
@@ -24,6 +26,13 @@ export abstract class BaseViewRenderer {
 	// 状态筛选状态
 	protected statusFilterState: StatusFilterState = DEFAULT_STATUS_FILTER_STATE;
 
+	// 查询筛选（见 tasks/taskQuery）
+	protected queryFilter = '';
+	private parsedQuery: { text: string; node: TaskQueryNode | null } | null = null;
+
+	// 隐藏的任务来源（数据源 ID）
+	protected hiddenSources: string[] = [];
+
 	constructor(app: App, plugin: any) {
 		this.app = app;
 		this.plugin = plugin;
@@ -130,6 +139,45 @@ export abstract class BaseViewRenderer {
 		this.statusFilterState = state;
 	}
 
+	/**
+	 * 获取查询筛选
+	 */
+	public getQueryFilter(): string {
+		return this.queryFilter;
+	}
+
+	/**
+	 * 设置查询筛选
+	 * 子类可重写此方法以实现持久化
+	 */
+	public setQueryFilter(query: string): void {
+		this.queryFilter = query;
+	}
+
+	/**
+	 * 获取隐藏的任务来源
+	 */
+	public getHiddenSources(): string[] {
+		return this.hiddenSources;
+	}
+
+	/**
+	 * 设置隐藏的任务来源
+	 */
+	public setHiddenSources(sources: string[]): void {
+		this.hiddenSources = sources;
+	}
+
+	/**
+	 * 获取本地任务及未隐藏的订阅日历任务
+	 */
+	protected getSourceFilteredTasks(): GCTask[] {
+		const sources: string[] = this.plugin.taskCache.getTaskSources()
+			.map((source: { id: string }) => source.id)
+			.filter((id: string) => !this.hiddenSources.includes(id));
+		return this.plugin.taskCache.queryTasks({ sources });
+	}
+
 	/**
 	 * 从插件设置初始化筛选状态
 	 * @param settingsPrefix 设置字段前缀（如 'taskView', 'weekView'）
@@ -153,6 +201,12 @@ export abstract class BaseViewRenderer {
 				operator: savedOperator || 'OR'
 			};
 		}
+
+		// 加载查询筛选
+		const savedQuery = settings[`${settingsPrefix}Query`];
+		if (typeof savedQuery === 'string') {
+			this.queryFilter = savedQuery;
+		}
 	}
 
 	/**
@@ -177,6 +231,15 @@ export abstract class BaseViewRenderer {
 		await this.plugin.saveSettings();
 	}
 
+	/**
+	 * 保存查询筛选到设置
+	 */
+	protected async saveQueryFilter(settingsPrefix: string): Promise<void> {
+		if (!this.plugin?.settings) return;
+		this.plugin.settings[`${settingsPrefix}Query`] = this.queryFilter;
+		await this.plugin.saveSettings();
+	}
+
 	/**
 	 * 应用状态筛选到任务列表
 	 * @param tasks 原始任务列表
@@ -251,6 +314,31 @@ export abstract class BaseViewRenderer {
 		});
 	}
 
+	/**
+	 * 应用查询筛选到任务列表（查询无效时不筛选，错误由视图菜单提示）
+	 * @param tasks 原始任务列表
+	 * @returns 筛选后的任务列表
+	 */
+	protected applyQueryFilter(tasks: GCTask[]): GCTask[] {
+		if (!this.queryFilter.trim()) return tasks;
+
+		const startOnMonday = !!(this.plugin?.settings?.startOnMonday);
+		if (this.parsedQuery?.text !== this.queryFilter) {
+			let node: TaskQueryNode | null = null;
+			try {
+				node = parseTaskQuery(this.queryFilter, { startOnMonday });
+			} catch (error) {
+				Logger.debug('BaseViewRenderer', 'Invalid query', error);
+			}
+			this.parsedQuery = { text: this.queryFilter, node };
+		}
+
+		const node = this.parsedQuery.node;
+		if (!node) return tasks;
+		const context = { now: new Date(), startOnMonday };
+		return tasks.filter(task => evaluateTaskQuery(node, task, context));
+	}
+
 	/**
 	 * 按任务类型过滤指定日期应显示的任务
 	 *
@@ -326,6 +414,75 @@ export abstract class BaseViewRenderer {
 		});
 	}
 
+	/**
+	 * 投影周期任务在指定范围内的虚拟实例（ghost）
+	 *
+	 * - 仅投影未完成/未取消的顶层周期任务（系列当前实例）
+	 * - 仅投影今天及以后的实例
+	 * - 已物化的实例（同系列、同日期的真实任务）不再投影
+	 *
+	 * @param tasks 当前活跃任务（未筛选）
+	 * @param rangeStart 范围开始
+	 * @param rangeEnd 范围结束
+	 */
+	protected getRecurrenceGhosts(tasks: GCTask[], rangeStart: Date, rangeEnd: Date): GCTask[] {
+		const today = new Date();
+		today.setHours(0, 0, 0, 0);
+		const start = rangeStart.getTime() < today.getTime() ? today : rangeStart;
+		if (start.getTime() > rangeEnd.getTime()) return [];
+
+		const heads = tasks.filter(task =>
+			task.repeat && !task.parentId && !task.archived && !task.completed && !task.cancelled
+			&& task.status !== 'done' && task.status !== 'canceled'
+		);
+		if (heads.length === 0) return [];
+
+		// 已被真实任务占用的实例键
+		const archived: GCTask[] = this.plugin.taskCache.getArchivedTasks?.() || [];
+		const takenKeys = new Set<string>();
+		for (const task of [...tasks, ...archived]) {
+			const anchor = task.dueDate ?? task.startDate;
+			if (task.seriesId && anchor) {
+				takenKeys.add(getOccurrenceKey(task.seriesId, anchor));
+			}
+		}
+
+		return heads.flatMap(task => projectOccurrences(task, start, rangeEnd, key => takenKeys.has(key)));
+	}
+
+	/**
+	 * 将虚拟实例物化为真实任务
+	 * @returns 新建的真实任务，失败时返回 undefined
+	 */
+	protected async materializeGhost(ghost: GCTask): Promise<GCTask | undefined> {
+		try {
+			const task = materializeOccurrence(ghost);
+			const newId = await this.plugin.taskCache.createTask(task);
+			if (!newId) return undefined;
+			return this.plugin.taskCache.getTaskById(newId) ?? { ...task, id: newId };
+		} catch (error) {
+			Logger.error('BaseViewRenderer', 'Failed to materialize recurring occurrence', error);
+			new Notice('创建周期任务实例失败');
+			return undefined;
+		}
+	}
+
+	/**
+	 * 标记键盘光标可停留的日期格（见 views/ViewCursor）
+	 */
+	protected markCursorDay(el: HTMLElement, date: Date): void {
+		el.dataset.day = formatDate(date, 'yyyy-MM-dd');
+	}
+
+	/**
+	 * 标记键盘光标可选中的任务元素（周期任务的虚拟实例不可选中）
+	 */
+	protected markCursorTask(el: HTMLElement, task: GCTask): void {
+		if (!task.ghostOf) {
+			el.dataset.taskId = task.id;
+		}
+	}
+
 	/**
 	 * 清理悬浮提示
 	 */
@@ -0,0 +1,433 @@
+import { Notice, App } from 'obsidian';
+import { BaseViewRenderer } from './BaseViewRenderer';
+import type { GCTask, StatusFilterState, TagFilterState } from '../types';
+import { DEFAULT_SORT_STATE } from '../types';
+import { sortTasks } from '../tasks/taskSorter';
+import { Logger } from '../utils/logger';
+import { TooltipManager } from '../utils/tooltipManager';
+import { DayViewClasses } from '../utils/bem';
+import { openEditTaskModal } from '../modals/EditTaskModal';
+import { showCreateTaskMenu, registerTaskContextMenu } from '../contextMenu/contextMenuIndex';
+import { cycleTaskStatus, updateTaskProperties, type TaskUpdates } from '../tasks/taskUpdater';
+import { StatusIcon } from '../components/StatusIcon';
+import { formatTime, withTime } from '../dateUtils/dateUtilsIndex';
+import { DAY_MINUTES, buildTimelineDropUpdates, canDropOnTimeline, getTimeBlockRange, isTimedOnDay } from '../tasks/taskTimeline';
+
+/** 每小时行高（px） */
+const HOUR_HEIGHT = 48;
+/** 拖拽吸附粒度（分钟） */
+const SNAP_MINUTES = 15;
+
+/** 时间轴上一个时间块的布局 */
+interface TimeBlockLayout {
+	task: GCTask;
+	/** 当天起始分钟 */
+	startMinutes: number;
+	/** 当天结束分钟（不含） */
+	endMinutes: number;
+	/** 重叠簇内的列索引 */
+	column: number;
+	/** 重叠簇的总列数 */
+	columns: number;
+}
+
+/**
+ * 日视图渲染器 — 纵向小时时间轴
+ *
+ * 布局：
+ * - Header: 日期
+ * - 全天通道: 无具体时间的任务
+ * - Timeline: 24 小时刻度，带截止时间的任务渲染为时间块
+ *
+ * 拖拽时间块可修改时间（吸附到 15 分钟）；拖入全天通道则清除时间。
+ */
+export class DayViewRenderer extends BaseViewRenderer {
+	private readonly SETTINGS_PREFIX = 'dayView';
+
+	// 缓存当前日期，用于 refreshTasks
+	private currentDay: Date | null = null;
+	// 当前渲染的任务（含周期任务虚拟实例），用于拖放时查找
+	private renderedTasks: Map<string, GCTask> = new Map();
+	// 拖拽时鼠标相对时间块顶部的分钟偏移
+	private dragOffsetMinutes = 0;
+
+	constructor(app: App, plugin: any) {
+		super(app, plugin);
+		this.initializeFilterStates(this.SETTINGS_PREFIX);
+	}
+
+	public setStatusFilterState(state: StatusFilterState): void {
+		super.setStatusFilterState(state);
+		this.saveStatusFilterState(this.SETTINGS_PREFIX).catch(err =>
+			Logger.error('DayView', 'Failed to save status filter', err));
+	}
+
+	public setTagFilterState(state: TagFilterState): void {
+		super.setTagFilterState(state);
+		this.saveTagFilterState(this.SETTINGS_PREFIX).catch(err =>
+			Logger.error('DayView', 'Failed to save tag filter', err));
+	}
+
+	public setQueryFilter(query: string): void {
+		super.setQueryFilter(query);
+		this.saveQueryFilter(this.SETTINGS_PREFIX).catch(err =>
+			Logger.error('DayView', 'Failed to save query filter', err));
+	}
+
+	// ==================== 主渲染 ====================
+
+	render(container: HTMLElement, currentDate: Date): void {
+		this.currentDay = new Date(currentDate);
+		this.currentDay.setHours(0, 0, 0, 0);
+
+		container.empty();
+		const dayContainer = container.createDiv('gc-view gc-view--day');
+		this.markCursorDay(dayContainer, this.currentDay);
+		this.renderDay(dayContainer, null);
+	}
+
+	/**
+	 * 渲染日视图内容
+	 * @param scrollTop 保留的滚动位置，为 null 时滚动到当前时间（今天）或 8:00
+	 */
+	private renderDay(dayContainer: HTMLElement, scrollTop: number | null): void {
+		if (!this.currentDay) return;
+		const day = this.currentDay;
+		const isToday = day.getTime() === this.getTodayStart().getTime();
+
+		// Header
+		const dayNames = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+		const header = dayContainer.createDiv(DayViewClasses.elements.header);
+		header.setText(`${day.getMonth() + 1}月${day.getDate()}日 ${dayNames[day.getDay()]}`);
+		if (isToday) header.addClass(DayViewClasses.modifiers.headerToday);
+
+		const tasks = this.collectDayTasks();
+		this.renderedTasks = new Map(tasks.map(t => [t.id, t]));
+
+		const timed = tasks.filter(t => isTimedOnDay(t, day));
+		const allDay = sortTasks(tasks.filter(t => !isTimedOnDay(t, day)), DEFAULT_SORT_STATE);
+
+		this.renderAllDayLane(dayContainer, allDay);
+
+		const scroller = dayContainer.createDiv(DayViewClasses.elements.scroller);
+		const timeline = scroller.createDiv(DayViewClasses.elements.timeline);
+		timeline.style.height = `${24 * HOUR_HEIGHT}px`;
+
+		for (let hour = 0; hour < 24; hour++) {
+			const row = timeline.createDiv(DayViewClasses.elements.hourRow);
+			row.style.top = `${hour * HOUR_HEIGHT}px`;
+			row.style.height = `${HOUR_HEIGHT}px`;
+			row.createSpan({ text: `${String(hour).padStart(2, '0')}:00`, cls: DayViewClasses.elements.hourLabel });
+		}
+
+		const blocksContainer = timeline.createDiv(DayViewClasses.elements.blocks);
+		this.setupTimelineInteractions(blocksContainer);
+
+		this.layoutTimeBlocks(timed).forEach(layout => this.renderTimeBlock(blocksContainer, layout));
+
+		if (isToday) {
+			const now = new Date();
+			const nowLine = blocksContainer.createDiv(DayViewClasses.elements.nowLine);
+			nowLine.style.top = `${(now.getHours() * 60 + now.getMinutes()) / 60 * HOUR_HEIGHT}px`;
+		}
+
+		if (tasks.length === 0) {
+			dayContainer.createDiv({ cls: DayViewClasses.elements.empty, text: '今日暂无任务' });
+		}
+
+		if (scrollTop !== null) {
+			scroller.scrollTop = scrollTop;
+		} else {
+			const anchorHour = isToday ? Math.max(0, new Date().getHours() - 1) : 8;
+			scroller.scrollTop = anchorHour * HOUR_HEIGHT;
+		}
+	}
+
+	/**
+	 * 渲染全天通道（可作为拖放目标，拖入后清除时间）
+	 */
+	private renderAllDayLane(dayContainer: HTMLElement, tasks: GCTask[]): void {
+		const lane = dayContainer.createDiv(DayViewClasses.elements.allDayLane);
+		lane.createSpan({ text: '全天', cls: DayViewClasses.elements.allDayLabel });
+		const items = lane.createDiv(DayViewClasses.elements.allDayItems);
+
+		tasks.forEach(task => {
+			const item = items.createDiv(DayViewClasses.elements.allDayItem);
+			if (task.completed || task.status === 'done' || task.cancelled || task.status === 'canceled') {
+				item.addClass(DayViewClasses.modifiers.allDayItemCompleted);
+			}
+			if (task.ghostOf) {
+				item.addClass(DayViewClasses.modifiers.allDayItemGhost);
+			}
+			this.renderTaskContent(item, task);
+			this.bindTaskInteractions(item, task);
+		});
+
+		lane.addEventListener('dragover', (e: DragEvent) => {
+			e.preventDefault();
+			if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+			lane.addClass(DayViewClasses.modifiers.dropTarget);
+		});
+		lane.addEventListener('dragleave', (e: DragEvent) => {
+			if (e.target === lane) lane.removeClass(DayViewClasses.modifiers.dropTarget);
+		});
+		lane.addEventListener('drop', async (e: DragEvent) => {
+			e.preventDefault();
+			lane.removeClass(DayViewClasses.modifiers.dropTarget);
+			const task = this.findDraggedTask(e);
+			if (!task || !task.hasDueTime || !this.currentDay) return;
+			await this.applyTimeChange(task, { dueDate: new Date(this.currentDay), hasDueTime: false });
+		});
+	}
+
+	/**
+	 * 时间轴交互：拖放修改时间 + 空白处右键创建任务
+	 */
+	private setupTimelineInteractions(blocksContainer: HTMLElement): void {
+		blocksContainer.addEventListener('dragover', (e: DragEvent) => {
+			e.preventDefault();
+			if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+		});
+
+		blocksContainer.addEventListener('drop', async (e: DragEvent) => {
+			e.preventDefault();
+			const task = this.findDraggedTask(e);
+			if (!task || !this.currentDay) return;
+
+			if (!canDropOnTimeline(task, this.currentDay)) {
+				new Notice('跨天任务只能在截止当天设置时间');
+				return;
+			}
+			const minutes = this.getMinutesAtPointer(blocksContainer, e.clientY, this.dragOffsetMinutes);
+			const updates = buildTimelineDropUpdates(task, this.currentDay, minutes);
+			if (updates) await this.applyTimeChange(task, updates);
+		});
+
+		blocksContainer.addEventListener('contextmenu', (e: MouseEvent) => {
+			if ((e.target as HTMLElement).closest(`.${DayViewClasses.elements.block}`)) return;
+			if (!this.currentDay) return;
+			const minutes = this.getMinutesAtPointer(blocksContainer, e.clientY, 0);
+			const target = withTime(this.currentDay, Math.floor(minutes / 60), minutes % 60);
+			showCreateTaskMenu(e, this.app, this.plugin, target, () => this.refreshTasks(), true);
+		});
+	}
+
+	/**
+	 * 渲染单个时间块
+	 */
+	private renderTimeBlock(container: HTMLElement, layout: TimeBlockLayout): void {
+		const { task } = layout;
+		const block = container.createDiv(DayViewClasses.elements.block);
+		block.style.top = `${layout.startMinutes / 60 * HOUR_HEIGHT}px`;
+		block.style.height = `${Math.max(SNAP_MINUTES, layout.endMinutes - layout.startMinutes) / 60 * HOUR_HEIGHT}px`;
+		block.style.left = `${layout.column / layout.columns * 100}%`;
+		block.style.width = `${100 / layout.columns}%`;
+
+		if (task.completed || task.status === 'done' || task.cancelled || task.status === 'canceled') {
+			block.addClass(DayViewClasses.modifiers.blockCompleted);
+		} else {
+			switch (task.priority) {
+				case 'high': block.addClass(DayViewClasses.modifiers.blockPriorityHigh); break;
+				case 'low': block.addClass(DayViewClasses.modifiers.blockPriorityLow); break;
+				default: block.addClass(DayViewClasses.modifiers.blockPriorityNormal); break;
+			}
+		}
+		if (task.type === 'reminder') {
+			block.addClass(DayViewClasses.modifiers.blockReminder);
+		}
+		if (task.ghostOf) {
+			block.addClass(DayViewClasses.modifiers.blockGhost);
+		}
+
+		// 有开始时间的时间块显示起止时间，否则仅显示截止时刻
+		const startLabel = this.formatMinutes(layout.startMinutes);
+		const dueMinutes = task.dueDate!.getHours() * 60 + task.dueDate!.getMinutes();
+		const timeText = layout.startMinutes === dueMinutes
+			? startLabel
+			: `${startLabel}–${this.formatMinutes(layout.endMinutes)}`;
+		block.createSpan({ text: timeText, cls: DayViewClasses.elements.blockTime });
+		this.renderTaskContent(block, task);
+		this.bindTaskInteractions(block, task, layout.startMinutes);
+	}
+
+	/**
+	 * 渲染任务内容：StatusIcon + 标题
+	 */
+	private renderTaskContent(el: HTMLElement, task: GCTask): void {
+		const icon = new StatusIcon({
+			status: (task.status || 'todo') as any,
+			priority: task.priority || 'normal',
+			isReminder: task.type === 'reminder',
+			size: 'compact',
+			disabled: false,
+		});
+		icon.render(el);
+		icon.onClick(async () => {
+			TooltipManager.getInstance(this.plugin).hide();
+			// 虚拟实例先物化再切换状态
+			const target = task.ghostOf ? await this.materializeGhost(task) : task;
+			if (!target) return;
+			await cycleTaskStatus(this.app, target);
+			this.refreshTasks();
+		});
+		el.createSpan({ text: task.description || '无标题', cls: DayViewClasses.elements.blockLabel });
+	}
+
+	/**
+	 * 绑定任务条目交互：拖拽、tooltip、点击编辑、右键菜单
+	 * @param startMinutes 时间块起始分钟（全天条目不传）
+	 */
+	private bindTaskInteractions(el: HTMLElement, task: GCTask, startMinutes?: number): void {
+		this.markCursorTask(el, task);
+		const tooltipManager = TooltipManager.getInstance(this.plugin);
+
+		el.draggable = true;
+		el.addEventListener('dragstart', (e: DragEvent) => {
+			tooltipManager.hide();
+			if (e.dataTransfer) {
+				e.dataTransfer.setData('taskId', task.id);
+				e.dataTransfer.effectAllowed = 'move';
+			}
+			// 记录抓取点相对时间块顶部的偏移，全天条目以指针位置为开始时间
+			this.dragOffsetMinutes = startMinutes !== undefined
+				? (e.clientY - el.getBoundingClientRect().top) / HOUR_HEIGHT * 60
+				: 0;
+			el.addClass(DayViewClasses.modifiers.blockDragging);
+		});
+		el.addEventListener('dragend', () => {
+			el.removeClass(DayViewClasses.modifiers.blockDragging);
+		});
+
+		el.addEventListener('mouseenter', () => tooltipManager.show(task, el));
+		el.addEventListener('mouseleave', () => tooltipManager.hide());
+
+		el.addEventListener('click', (e: MouseEvent) => {
+			if ((e.target as HTMLElement).closest('.gc-status-icon')) return;
+			e.stopPropagation();
+			tooltipManager.hide();
+			// 虚拟实例在编辑弹窗保存时才创建
+			openEditTaskModal(this.app, this.plugin, task, () => this.refreshTasks());
+		});
+
+		if (!task.ghostOf) {
+			registerTaskContextMenu(el, task, this.app, this.plugin, '', () => this.refreshTasks());
+		}
+	}
+
+	// ==================== 数据与布局 ====================
+
+	/**
+	 * 收集当天需要显示的所有任务
+	 */
+	private collectDayTasks(): GCTask[] {
+		if (!this.currentDay) return [];
+		const dayEnd = new Date(this.currentDay);
+		dayEnd.setHours(23, 59, 59, 999);
+
+		let tasks: GCTask[] = this.plugin.taskCache.getAllTasks();
+		// 追加周期任务在当天的虚拟实例
+		tasks = [...tasks, ...this.getRecurrenceGhosts(tasks, this.currentDay, dayEnd)];
+		tasks = this.applyStatusFilter(tasks);
+		tasks = this.applyTagFilter(tasks);
+		tasks = this.applyQueryFilter(tasks);
+		return this.deduplicateParentChild(this.filterTasksForDate(tasks, this.currentDay));
+	}
+
+	/**
+	 * 时间块布局：按开始时间排序，重叠的时间块分列并排显示
+	 */
+	private layoutTimeBlocks(tasks: GCTask[]): TimeBlockLayout[] {
+		const layouts: TimeBlockLayout[] = tasks
+			.map(task => ({ task, ...getTimeBlockRange(task), column: 0, columns: 1 }))
+			.sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+
+		let cluster: TimeBlockLayout[] = [];
+		let columnEnds: number[] = [];
+		let clusterEnd = -1;
+
+		const closeCluster = () => {
+			cluster.forEach(l => l.columns = columnEnds.length);
+			cluster = [];
+			columnEnds = [];
+		};
+
+		for (const layout of layouts) {
+			// 与当前簇不再重叠，结束当前簇
+			if (layout.startMinutes >= clusterEnd && cluster.length > 0) {
+				closeCluster();
+			}
+			const end = Math.max(layout.endMinutes, layout.startMinutes + SNAP_MINUTES);
+			let column = columnEnds.findIndex(colEnd => colEnd <= layout.startMinutes);
+			if (column === -1) {
+				column = columnEnds.length;
+				columnEnds.push(end);
+			} else {
+				columnEnds[column] = end;
+			}
+			layout.column = column;
+			cluster.push(layout);
+			clusterEnd = Math.max(cluster.length === 1 ? 0 : clusterEnd, end);
+		}
+		closeCluster();
+
+		return layouts;
+	}
+
+	/**
+	 * 应用时间变更（虚拟实例先物化）
+	 */
+	private async applyTimeChange(task: GCTask, updates: TaskUpdates): Promise<void> {
+		try {
+			this.clearTaskTooltips();
+			const target = task.ghostOf ? await this.materializeGhost(task) : task;
+			if (!target) return;
+			await updateTaskProperties(this.app, target, updates);
+			Logger.debug('DayView', 'Task time updated', { taskId: target.id, updates });
+		} catch (error) {
+			Logger.error('DayView', 'Error updating task time:', error);
+			new Notice('更新任务时间失败');
+		}
+	}
+
+	private findDraggedTask(e: DragEvent): GCTask | undefined {
+		const taskId = e.dataTransfer?.getData('taskId');
+		if (!taskId) return undefined;
+		return this.renderedTasks.get(taskId) ?? this.plugin.taskCache.getTaskById(taskId);
+	}
+
+	/**
+	 * 根据指针位置计算当天分钟数（吸附到 15 分钟）
+	 */
+	private getMinutesAtPointer(container: HTMLElement, clientY: number, offsetMinutes: number): number {
+		const rect = container.getBoundingClientRect();
+		const raw = (clientY - rect.top) / HOUR_HEIGHT * 60 - offsetMinutes;
+		const snapped = Math.round(raw / SNAP_MINUTES) * SNAP_MINUTES;
+		return Math.max(0, Math.min(DAY_MINUTES - SNAP_MINUTES, snapped));
+	}
+
+	private formatMinutes(minutes: number): string {
+		if (minutes >= DAY_MINUTES) return '24:00';
+		const date = new Date(0);
+		date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+		return formatTime(date);
+	}
+
+	private getTodayStart(): Date {
+		const today = new Date();
+		today.setHours(0, 0, 0, 0);
+		return today;
+	}
+
+	// ==================== 增量刷新 ====================
+
+	public refreshTasks(): void {
+		const container = document.querySelector('.gc-view.gc-view--day') as HTMLElement;
+		if (!container) return;
+
+		const scroller = container.querySelector(`.${DayViewClasses.elements.scroller}`) as HTMLElement | null;
+		const scrollTop = scroller ? scroller.scrollTop : null;
+
+		container.empty();
+		this.renderDay(container, scrollTop);
+	}
+}
@@ -88,6 +88,16 @@ export class MonthViewRenderer extends BaseViewRenderer {
 			Logger.error('MonthView', 'Failed to save tag filter', err);
 		});
 	}
+
+	/**
+	 * 重写查询筛选 setter 以支持持久化
+	 */
+	public setQueryFilter(query: string): void {
+		super.setQueryFilter(query);
+		this.saveQueryFilter(this.SETTINGS_PREFIX).catch(err => {
+			Logger.error('MonthView', 'Failed to save query filter', err);
+		});
+	}
 	/**
 	 * 设置日期格子的拖放功能
 	 */
@@ -175,6 +185,7 @@ export class MonthViewRenderer extends BaseViewRenderer {
 				dayEl.addClass(MonthViewClasses.elements.dayCell);
 				// 添加日期标识，用于增量刷新时定位
 				dayEl.dataset.date = day.date.toISOString();
+				this.markCursorDay(dayEl, day.date);
 				// 设置grid位置：第(weekIndex + 2)行，第(dayIndex + 2)列
 				dayEl.style.gridRow = `${weekIndex + 2}`;
 				dayEl.style.gridColumn = `${dayIndex + 2}`;
@@ -273,11 +284,19 @@ export class MonthViewRenderer extends BaseViewRenderer {
 		container.empty();
 
 		try {
-			let tasks: GCTask[] = this.plugin.taskCache.getAllTasks();
+			let tasks: GCTask[] = this.getSourceFilteredTasks();
+			// 追加周期任务在当天的虚拟实例
+			const dayStart = new Date(targetDate);
+			dayStart.setHours(0, 0, 0, 0);
+			const dayEnd = new Date(targetDate);
+			dayEnd.setHours(23, 59, 59, 999);
+			tasks = [...tasks, ...this.getRecurrenceGhosts(tasks, dayStart, dayEnd)];
 			// 应用状态筛选
 			tasks = this.applyStatusFilter(tasks);
 			// 应用标签筛选
 			tasks = this.applyTagFilter(tasks);
+			// 应用查询筛选
+			tasks = this.applyQueryFilter(tasks);
 
 			// 使用类型感知的日期过滤：待办从 startDate 到完成，提醒仅 dueDate 当天
 			let currentDayTasks = this.filterTasksForDate(tasks, targetDate);
@@ -304,6 +323,7 @@ export class MonthViewRenderer extends BaseViewRenderer {
 	 */
 	private renderTaskItem(task: GCTask, container: HTMLElement): void {
 		const item = container.createDiv(MonthTaskClasses.block);
+		this.markCursorTask(item, task);
 
 		// 色带修饰符
 		const bandClass = this.getBandModifier(task);
@@ -326,6 +346,18 @@ export class MonthViewRenderer extends BaseViewRenderer {
 			item.addClass(MonthTaskClasses.modifiers.canceled);
 		}
 
+		// 订阅日历的任务：只读
+		if (task.source) {
+			this.renderSubscribedTaskItem(task, item);
+			return;
+		}
+
+		// 周期任务虚拟实例：只读，交互时先物化
+		if (task.ghostOf) {
+			this.renderGhostTaskItem(task, item);
+			return;
+		}
+
 		// StatusIcon（14px compact）
 		const isParentCanceled = this.checkParentCanceled(task);
 		const statusIcon = new StatusIcon({
@@ -392,6 +424,81 @@ export class MonthViewRenderer extends BaseViewRenderer {
 		});
 	}
 
+	/**
+	 * 渲染订阅日历的只读任务（仅显示和悬浮提示，不可编辑、拖拽或切换状态）
+	 */
+	private renderSubscribedTaskItem(task: GCTask, item: HTMLElement): void {
+		item.addClass(MonthTaskClasses.modifiers.subscribed);
+
+		const statusIcon = new StatusIcon({
+			status: (task.status || 'todo') as any,
+			priority: task.priority || 'normal',
+			isReminder: task.type === 'reminder',
+			size: 'compact',
+			disabled: true,
+		});
+		statusIcon.render(item);
+
+		item.createSpan({
+			text: task.description,
+			cls: MonthTaskClasses.elements.title,
+		});
+
+		const tooltipManager = TooltipManager.getInstance(this.plugin);
+		item.addEventListener('mouseenter', () => {
+			tooltipManager.show(task, item);
+		});
+		item.addEventListener('mouseleave', () => {
+			tooltipManager.hide();
+		});
+	}
+
+	/**
+	 * 渲染周期任务的虚拟实例（不可拖拽，无右键菜单）
+	 * 切换状态或点击编辑时先物化为真实任务
+	 */
+	private renderGhostTaskItem(ghost: GCTask, item: HTMLElement): void {
+		item.addClass(MonthTaskClasses.modifiers.ghost);
+		item.setAttribute('aria-label', `周期任务预览：${ghost.repeat ?? ''}`);
+
+		const statusIcon = new StatusIcon({
+			status: 'todo',
+			priority: ghost.priority || 'normal',
+			isReminder: ghost.type === 'reminder',
+			size: 'compact',
+		});
+		statusIcon.render(item);
+		statusIcon.onClick(async () => {
+			const task = await this.materializeGhost(ghost);
+			if (!task) return;
+			await cycleTaskStatus(this.app, task);
+			this.refreshTasks();
+		});
+
+		item.createSpan({
+			text: ghost.description,
+			cls: MonthTaskClasses.elements.title,
+		});
+
+		const tooltipManager = TooltipManager.getInstance(this.plugin);
+		item.addEventListener('mouseenter', () => {
+			tooltipManager.show(ghost, item);
+		});
+		item.addEventListener('mouseleave', () => {
+			tooltipManager.hide();
+		});
+
+		// 编辑弹窗直接使用虚拟实例，保存时才创建真实任务
+		item.addEventListener('click', (e: MouseEvent) => {
+			if ((e.target as HTMLElement).closest('.gc-status-icon')) return;
+			e.stopPropagation();
+			tooltipManager.hide();
+			openEditTaskModal(this.app, this.plugin, ghost, () => {
+				this.refreshTasks();
+			});
+		});
+	}
+
 	/**
 	 * 获取色带修饰符
 	 */
@@ -0,0 +1,413 @@
+/**
+ * 任务多选
+ *
+ * 在日历视图内选择多个任务并批量操作：
+ * - Ctrl/⌘ + 单击：加入 / 移出选择
+ * - Shift + 单击：选中与上次点击之间（按显示顺序）的全部任务
+ * - 从空白处拖动：框选（按住 Ctrl/⌘ 或 Shift 时追加到现有选择）
+ * - 普通单击或 Esc：取消选择
+ *
+ * 选中任务后视图底部显示工具栏，在已选任务上右键显示多任务菜单。
+ * 与键盘光标相同，依赖视图渲染时标记的 data-task-id（见 BaseViewRenderer.markCursorTask），
+ * 重新渲染后按任务 ID 恢复高亮。
+ */
+
+import { App, Component, Keymap, Menu, Notice, setIcon } from 'obsidian';
+import type { GCTask } from '../types';
+import { buildBulkUpdates, getBulkEditLabel, type BulkEditAction, type BulkTaskStatus } from '../tasks/taskBulkEdit';
+import { updateTasksProperties } from '../tasks/taskUpdater';
+import { BulkDateModal, BulkTagsModal } from '../modals/BulkEditModals';
+import { showUndoNotice } from '../commands/history';
+import { TaskSelectionClasses, ViewClasses } from '../utils/bem';
+import { Logger } from '../utils/logger';
+
+/** 拖动超过该距离（像素）才开始框选 */
+const LASSO_THRESHOLD = 5;
+
+const PRIORITIES: Array<{ value: 'high' | 'normal' | 'low'; label: string; icon: string }> = [
+	{ value: 'high', label: '重要', icon: '🔴' },
+	{ value: 'normal', label: '正常', icon: '⚪' },
+	{ value: 'low', label: '不重要', icon: '🔵' },
+];
+
+const STATUSES: Array<{ value: BulkTaskStatus; label: string; icon: string }> = [
+	{ value: 'todo', label: '待办', icon: 'circle' },
+	{ value: 'in_progress', label: '进行中', icon: 'circle-dot' },
+	{ value: 'done', label: '已完成', icon: 'check-circle' },
+	{ value: 'canceled', label: '已取消', icon: 'x-circle' },
+];
+
+const SHIFT_OPTIONS = [-7, -1, 1, 3, 7];
+
+export class TaskSelection extends Component {
+	private app: App;
+	private plugin: any;
+	/** 视图内容区域（containerEl.children[1]，包含工具栏和日历内容） */
+	private rootEl: HTMLElement;
+
+	private selected = new Set<string>();
+	/** Shift + 单击的起点 */
+	private anchorId: string | null = null;
+	private barEl: HTMLElement | null = null;
+
+	// 框选
+	private lassoStart: { x: number; y: number } | null = null;
+	private lassoEl: HTMLElement | null = null;
+	private lassoBase = new Set<string>();
+	private suppressClick = false;
+
+	constructor(app: App, plugin: any, rootEl: HTMLElement) {
+		super();
+		this.app = app;
+		this.plugin = plugin;
+		this.rootEl = rootEl;
+	}
+
+	onload(): void {
+		// 捕获阶段处理，先于任务元素自身的点击和右键菜单
+		this.registerDomEvent(this.rootEl, 'click', (evt) => this.handleClick(evt), { capture: true });
+		this.registerDomEvent(this.rootEl, 'contextmenu', (evt) => this.handleContextMenu(evt), { capture: true });
+		this.registerDomEvent(this.rootEl, 'mousedown', (evt) => this.handleMouseDown(evt));
+		this.registerDomEvent(document, 'mousemove', (evt) => this.handleMouseMove(evt));
+		this.registerDomEvent(document, 'mouseup', (evt) => this.handleMouseUp(evt));
+	}
+
+	onunload(): void {
+		this.lassoEl?.remove();
+		this.lassoEl = null;
+	}
+
+	get size(): number {
+		return this.selected.size;
+	}
+
+	clear(): void {
+		this.selected.clear();
+		this.anchorId = null;
+		this.apply();
+	}
+
+	/**
+	 * 按选择状态更新任务高亮和底部工具栏（视图重新渲染后调用）
+	 */
+	apply(): void {
+		const content = this.getContentEl();
+		const selectedClass = ViewClasses.elements.selected;
+		content?.querySelectorAll<HTMLElement>('[data-task-id]').forEach(el => {
+			el.toggleClass(selectedClass, this.selected.has(el.dataset.taskId ?? ''));
+		});
+
+		if (this.selected.size === 0) {
+			this.barEl?.remove();
+			this.barEl = null;
+			return;
+		}
+		if (!this.barEl || !this.barEl.isConnected) {
+			this.barEl = this.renderBar();
+		}
+		const countEl = this.barEl.querySelector(`.${TaskSelectionClasses.elements.count}`);
+		const text = `已选择 ${this.selected.size} 个任务`;
+		// 仅在文字变化时更新，避免触发视图的 DOM 变化监听
+		if (countEl && countEl.textContent !== text) {
+			countEl.textContent = text;
+		}
+	}
+
+	// ==================== 鼠标交互 ====================
+
+	private handleClick(evt: MouseEvent): void {
+		if (this.suppressClick) {
+			this.suppressClick = false;
+			evt.preventDefault();
+			evt.stopPropagation();
+			return;
+		}
+
+		const target = evt.target as HTMLElement;
+		if (target.closest(`.${TaskSelectionClasses.block}`)) return;
+
+		const taskEl = target.closest<HTMLElement>('[data-task-id]');
+		const toggle = Keymap.isModifier(evt, 'Mod');
+		const range = evt.shiftKey;
+		if (!taskEl?.dataset.taskId || !this.getContentEl()?.contains(taskEl) || (!toggle && !range)) {
+			// 普通单击：取消选择，不影响原有行为
+			if (this.selected.size > 0) this.clear();
+			return;
+		}
+
+		evt.preventDefault();
+		evt.stopPropagation();
+		const taskId = taskEl.dataset.taskId;
+		if (range && this.anchorId) {
+			this.selectRange(this.anchorId, taskId);
+		} else if (this.selected.has(taskId)) {
+			this.selected.delete(taskId);
+			this.anchorId = taskId;
+		} else {
+			this.selected.add(taskId);
+			this.anchorId = taskId;
+		}
+		this.apply();
+	}
+
+	private handleContextMenu(evt: MouseEvent): void {
+		const taskId = (evt.target as HTMLElement).closest<HTMLElement>('[data-task-id]')?.dataset.taskId;
+		if (!taskId || this.selected.size === 0) return;
+
+		if (!this.selected.has(taskId)) {
+			// 在未选中的任务上右键：取消选择，显示单任务菜单
+			this.clear();
+			return;
+		}
+		if (this.selected.size === 1) return;
+
+		evt.preventDefault();
+		evt.stopPropagation();
+		const menu = new Menu();
+		this.addBulkMenuItems(menu);
+		menu.showAtMouseEvent(evt);
+	}
+
+	private handleMouseDown(evt: MouseEvent): void {
+		if (evt.button !== 0) return;
+		const target = evt.target as HTMLElement;
+		const content = this.getContentEl();
+		// 只从日历内容的空白处开始框选
+		if (!content?.contains(target) || target.closest('[data-task-id], input, textarea, select, button, a')) return;
+
+		this.lassoStart = { x: evt.clientX, y: evt.clientY };
+		this.lassoBase = Keymap.isModifier(evt, 'Mod') || evt.shiftKey ? new Set(this.selected) : new Set();
+	}
+
+	private handleMouseMove(evt: MouseEvent): void {
+		const start = this.lassoStart;
+		if (!start) return;
+		if (!this.lassoEl) {
+			if (Math.abs(evt.clientX - start.x) < LASSO_THRESHOLD && Math.abs(evt.clientY - start.y) < LASSO_THRESHOLD) return;
+			this.lassoEl = document.body.createDiv(TaskSelectionClasses.elements.lasso);
+			this.rootEl.addClass(TaskSelectionClasses.modifiers.lassoing);
+		}
+
+		const rect = {
+			left: Math.min(start.x, evt.clientX),
+			top: Math.min(start.y, evt.clientY),
+			right: Math.max(start.x, evt.clientX),
+			bottom: Math.max(start.y, evt.clientY),
+		};
+		this.lassoEl.style.left = `${rect.left}px`;
+		this.lassoEl.style.top = `${rect.top}px`;
+		this.lassoEl.style.width = `${rect.right - rect.left}px`;
+		this.lassoEl.style.height = `${rect.bottom - rect.top}px`;
+
+		this.selected = new Set(this.lassoBase);
+		this.getContentEl()?.querySelectorAll<HTMLElement>('[data-task-id]').forEach(el => {
+			const box = el.getBoundingClientRect();
+			if (box.width === 0 && box.height === 0) return;
+			if (box.left < rect.right && box.right > rect.left && box.top < rect.bottom && box.bottom > rect.top) {
+				this.selected.add(el.dataset.taskId ?? '');
+			}
+		});
+		this.selected.delete('');
+		this.apply();
+	}
+
+	private handleMouseUp(evt: MouseEvent): void {
+		if (!this.lassoStart) return;
+		this.lassoStart = null;
+		if (!this.lassoEl) return;
+
+		this.lassoEl.remove();
+		this.lassoEl = null;
+		this.rootEl.removeClass(TaskSelectionClasses.modifiers.lassoing);
+		this.anchorId = null;
+
+		// 框选结束时的 click 不应触发日期格的点击（如月视图跳转到周视图）
+		if (this.rootEl.contains(evt.target as Node)) {
+			this.suppressClick = true;
+			window.setTimeout(() => {
+				this.suppressClick = false;
+			}, 0);
+		}
+	}
+
+	/**
+	 * 选中两个任务之间（按显示顺序）的全部任务
+	 */
+	private selectRange(fromId: string, toId: string): void {
+		const ids = this.getVisibleTaskIds();
+		const from = ids.indexOf(fromId);
+		const to = ids.indexOf(toId);
+		if (from === -1 || to === -1) {
+			this.selected.add(toId);
+			return;
+		}
+		for (let i = Math.min(from, to); i <= Math.max(from, to); i++) {
+			this.selected.add(ids[i]);
+		}
+	}
+
+	private getVisibleTaskIds(): string[] {
+		const ids: string[] = [];
+		this.getContentEl()?.querySelectorAll<HTMLElement>('[data-task-id]').forEach(el => {
+			const id = el.dataset.taskId;
+			if (id && !ids.includes(id)) ids.push(id);
+		});
+		return ids;
+	}
+
+	private getContentEl(): HTMLElement | null {
+		return this.rootEl.querySelector<HTMLElement>('.calendar-content');
+	}
+
+	// ==================== 工具栏与菜单 ====================
+
+	private renderBar(): HTMLElement {
+		const classes = TaskSelectionClasses.elements;
+		const bar = this.rootEl.createDiv(TaskSelectionClasses.block);
+		bar.createSpan({ cls: classes.count });
+		const actions = bar.createDiv(classes.actions);
+
+		const addAction = (icon: string, label: string, onClick: (evt: MouseEvent) => void): void => {
+			const btn = actions.createEl('button', { cls: `clickable-icon ${classes.action}` });
+			setIcon(btn, icon);
+			btn.setAttribute('aria-label', label);
+			btn.addEventListener('click', (evt) => {
+				evt.stopPropagation();
+				onClick(evt);
+			});
+		};
+		const showMenu = (evt: MouseEvent, build: (menu: Menu) => void): void => {
+			const menu = new Menu();
+			build(menu);
+			menu.showAtMouseEvent(evt);
+		};
+
+		addAction('flag', '设置优先级', evt => showMenu(evt, menu => this.addPriorityItems(menu)));
+		addAction('check-circle', '设置状态', evt => showMenu(evt, menu => this.addStatusItems(menu)));
+		addAction('shapes', '设置类型', evt => showMenu(evt, menu => this.addTypeItems(menu)));
+		addAction('tag', '修改标签', () => this.openTagsModal());
+		addAction('calendar-clock', '调整日期', evt => showMenu(evt, menu => this.addDateItems(menu)));
+		addAction('archive', '归档', () => void this.runBulkEdit({ kind: 'archive' }));
+		addAction('trash', '删除', () => void this.deleteSelected());
+		addAction('x', '取消选择', () => this.clear());
+		return bar;
+	}
+
+	/**
+	 * 多任务右键菜单
+	 */
+	private addBulkMenuItems(menu: Menu): void {
+		menu.addItem(item => item.setTitle(`已选择 ${this.selected.size} 个任务`).setIsLabel(true));
+		menu.addSeparator();
+		this.addPriorityItems(menu);
+		menu.addSeparator();
+		this.addStatusItems(menu);
+		menu.addSeparator();
+		this.addTypeItems(menu);
+		menu.addItem(item => item.setTitle('修改标签…').setIcon('tag').onClick(() => this.openTagsModal()));
+		menu.addSeparator();
+		this.addDateItems(menu);
+		menu.addSeparator();
+		menu.addItem(item => item.setTitle('归档').setIcon('archive')
+			.onClick(() => void this.runBulkEdit({ kind: 'archive' })));
+		menu.addItem(item => item.setTitle('删除').setIcon('trash').onClick(() => void this.deleteSelected()));
+		menu.addItem(item => item.setTitle('取消选择').setIcon('x').onClick(() => this.clear()));
+	}
+
+	private addPriorityItems(menu: Menu): void {
+		PRIORITIES.forEach(p => {
+			menu.addItem(item => item.setTitle(`${p.icon} ${p.label}`)
+				.onClick(() => void this.runBulkEdit({ kind: 'priority', priority: p.value })));
+		});
+	}
+
+	private addStatusItems(menu: Menu): void {
+		STATUSES.forEach(s => {
+			menu.addItem(item => item.setTitle(s.label).setIcon(s.icon)
+				.onClick(() => void this.runBulkEdit({ kind: 'status', status: s.value })));
+		});
+	}
+
+	private addTypeItems(menu: Menu): void {
+		menu.addItem(item => item.setTitle('设为待办').setIcon('list-todo')
+			.onClick(() => void this.runBulkEdit({ kind: 'type', type: 'todo' })));
+		menu.addItem(item => item.setTitle('设为提醒').setIcon('bell')
+			.onClick(() => void this.runBulkEdit({ kind: 'type', type: 'reminder' })));
+	}
+
+	private addDateItems(menu: Menu): void {
+		SHIFT_OPTIONS.forEach(days => {
+			menu.addItem(item => item
+				.setTitle(days > 0 ? `推迟 ${days} 天` : `提前 ${-days} 天`)
+				.setIcon('calendar-clock')
+				.onClick(() => void this.runBulkEdit({ kind: 'shift-dates', days })));
+		});
+		menu.addItem(item => item.setTitle('设置日期…').setIcon('calendar-check').onClick(() => {
+			new BulkDateModal(this.app, this.selected.size, (field, date) => {
+				void this.runBulkEdit({ kind: 'set-date', field, date });
+			}).open();
+		}));
+	}
+
+	private openTagsModal(): void {
+		const tasks = this.getEditableTasks(false);
+		if (tasks.length === 0) return;
+		new BulkTagsModal(this.app, tasks, this.plugin.taskCache.getAllTasks(), (add, remove) => {
+			if (add.length === 0 && remove.length === 0) return;
+			void this.runBulkEdit({ kind: 'tags', add, remove });
+		}).open();
+	}
+
+	// ==================== 批量操作 ====================
+
+	/**
+	 * 所选任务中可编辑的任务（订阅日历的只读任务除外）
+	 */
+	private getEditableTasks(notify = true): GCTask[] {
+		const tasks: GCTask[] = [];
+		let skipped = 0;
+		for (const id of this.selected) {
+			const task: GCTask | undefined = this.plugin.taskCache.getTaskById(id);
+			if (task && !task.source) tasks.push(task);
+			else skipped++;
+		}
+		if (skipped > 0 && (notify || tasks.length === 0)) {
+			new Notice(`已跳过 ${skipped} 个只读任务`);
+		}
+		return tasks;
+	}
+
+	/**
+	 * 作为一次批量更新提交（一次撤销、一次保存、一次刷新）
+	 */
+	private async runBulkEdit(action: BulkEditAction): Promise<void> {
+		const items = buildBulkUpdates(this.getEditableTasks(), action);
+		if (items.length === 0) {
+			new Notice('所选任务无需修改');
+			return;
+		}
+
+		try {
+			await updateTasksProperties(this.app, items, getBulkEditLabel(action));
+			showUndoNotice(this.plugin.taskCache, `已更新 ${items.length} 个任务`);
+			if (action.kind === 'archive') this.clear();
+		} catch (error) {
+			Logger.error('TaskSelection', `Bulk ${action.kind} failed`, error);
+			new Notice('批量修改失败');
+		}
+	}
+
+	private async deleteSelected(): Promise<void> {
+		const tasks = this.getEditableTasks();
+		if (tasks.length === 0) return;
+
+		try {
+			await this.plugin.taskCache.deleteTasks(tasks.map(task => task.id));
+			showUndoNotice(this.plugin.taskCache, `已将 ${tasks.length} 个任务移至回收站`);
+			this.clear();
+		} catch (error) {
+			Logger.error('TaskSelection', 'Bulk delete failed', error);
+			new Notice('批量删除失败');
+		}
+	}
+}
@@ -1,11 +1,11 @@
-import { App } from 'obsidian';
+import { App, Notice } from 'obsidian';
 import { BaseViewRenderer } from './BaseViewRenderer';
-import { isToday, isThisWeek, isThisMonth } from '../dateUtils/dateUtilsIndex';
+import { isToday, isThisWeek, isThisMonth, formatDateTime } from '../dateUtils/dateUtilsIndex';
 import type { GCTask, SortState, StatusFilterState, TagFilterState } from '../types';
 import { registerTaskContextMenu, showCreateTaskMenu } from '../contextMenu/contextMenuIndex';
 import { sortTasks } from '../tasks/taskSorter';
 import { DEFAULT_SORT_STATE } from '../types';
-import { ViewClasses, TaskCardClasses, TaskTreeClasses, withModifiers } from '../utils/bem';
+import { ViewClasses, TaskCardClasses, TaskTreeClasses, TaskTrashClasses, withModifiers } from '../utils/bem';
 import { Logger } from '../utils/logger';
 import { StatusIcon } from '../components/StatusIcon';
 import { cycleTaskStatus } from '../tasks/taskUpdater';
@@ -14,6 +14,11 @@ import { formatCountdown, formatDueDateShort } from '../dateUtils/countdown';
 import { openEditTaskModal } from '../modals/EditTaskModal';
 import { TagPill } from '../components/tagPill';
 
+/**
+ * 任务类型筛选：全部/待办/提醒/已归档/已删除（回收站）
+ */
+export type TaskTypeFilter = 'all' | 'todo' | 'reminder' | 'archived' | 'deleted';
+
 /**
  * 任务视图渲染器
  */
@@ -32,8 +37,8 @@ export class TaskViewRenderer extends BaseViewRenderer {
 	// 日期范围模式：全部/当天/当周/当月/自定义日期
 	private dateRangeMode: 'all' | 'day' | 'week' | 'month' | 'custom' = 'week';
 
-	// 任务类型筛选：全部/待办/提醒/已归档
-	private taskTypeFilter: 'all' | 'todo' | 'reminder' | 'archived' = 'all';
+	// 任务类型筛选
+	private taskTypeFilter: TaskTypeFilter = 'all';
 
 	// 排序状态
 	private sortState: SortState = DEFAULT_SORT_STATE;
@@ -41,6 +46,9 @@ export class TaskViewRenderer extends BaseViewRenderer {
 	// 任务列表容器缓存
 	private taskListContainer: HTMLElement | null = null;
 
+	// 待定位的任务（下次渲染列表后滚动到该任务并高亮）
+	private revealTaskId: string | null = null;
+
 	// 设置前缀
 	private readonly SETTINGS_PREFIX = 'taskView';
 
@@ -146,15 +154,37 @@ export class TaskViewRenderer extends BaseViewRenderer {
 		});
 	}
 
-	public getTaskTypeFilter(): 'all' | 'todo' | 'reminder' | 'archived' {
+	public getTaskTypeFilter(): TaskTypeFilter {
 		return this.taskTypeFilter;
 	}
 
-	public setTaskTypeFilter(filter: 'all' | 'todo' | 'reminder' | 'archived'): void {
+	public setTaskTypeFilter(filter: TaskTypeFilter): void {
 		this.taskTypeFilter = filter;
 		this.refreshTaskList();
 	}
 
+	/**
+	 * 在列表中定位任务：切换到包含该任务的类型筛选并展开其父任务，
+	 * 下次渲染后滚动到该任务并高亮（被其他筛选条件隐藏时给出提示）
+	 */
+	public revealTask(taskId: string): void {
+		const task: GCTask | undefined = this.plugin.taskCache.getTaskById(taskId);
+		if (!task) return;
+
+		if (task.archived) {
+			this.taskTypeFilter = 'archived';
+		} else if (this.taskTypeFilter !== 'all' && this.taskTypeFilter !== task.type) {
+			this.taskTypeFilter = 'all';
+		}
+
+		let parentId = task.parentId;
+		while (parentId) {
+			this.expandedTasks.add(parentId);
+			parentId = this.plugin.taskCache.getTaskById(parentId)?.parentId;
+		}
+		this.revealTaskId = taskId;
+	}
+
 	public getSortState(): SortState {
 		return this.sortState;
 	}
@@ -186,6 +216,16 @@ export class TaskViewRenderer extends BaseViewRenderer {
 		});
 	}
 
+	/**
+	 * 重写查询筛选 setter 以支持持久化
+	 */
+	public setQueryFilter(query: string): void {
+		super.setQueryFilter(query);
+		this.saveQueryFilter(this.SETTINGS_PREFIX).catch(err => {
+			Logger.error('TaskView', 'Failed to save query filter', err);
+		});
+	}
+
 	render(container: HTMLElement, currentDate: Date): void {
 		// 创建任务视图容器
 		const taskRoot = container.createDiv(withModifiers(ViewClasses.block, ViewClasses.modifiers.task));
@@ -226,63 +266,17 @@ export class TaskViewRenderer extends BaseViewRenderer {
 	 */
 	private async loadTaskList(listContainer: HTMLElement): Promise<void> {
 		listContainer.empty();
-		listContainer.createEl('div', { text: '加载中...', cls: 'gantt-task-empty' });
 
-		try {
-			let tasks: GCTask[] = this.plugin.taskCache.getAllTasks();
-
-			// 按任务类型筛选
-			if (this.taskTypeFilter === 'archived') {
-				// 仅显示已归档任务
-				tasks = tasks.filter(t => t.archived);
-			} else {
-				// 默认排除已归档任务
-				tasks = tasks.filter(t => !t.archived);
-				if (this.taskTypeFilter === 'todo') {
-					tasks = tasks.filter(t => t.type === 'todo');
-				} else if (this.taskTypeFilter === 'reminder') {
-					tasks = tasks.filter(t => t.type === 'reminder');
-				}
-			}
-
-			// 应用状态筛选（使用基类方法）
-			tasks = this.applyStatusFilter(tasks);
-
-			// 日期范围筛选
-			const mode = this.getDateRangeMode();
-			if (mode !== 'all') {
-				const ref = this.timeValueFilter ?? new Date();
-				const startOfDay = (d: Date) => { const x = new Date(d); x.setHours(0,0,0,0); return x; };
-				const endOfDay = (d: Date) => { const x = new Date(d); x.setHours(23,59,59,999); return x; };
-				const startOfWeek = (d: Date) => { const x = startOfDay(d); const day = x.getDay(); const diff = (day + 6) % 7; x.setDate(x.getDate() - diff); return x; };
-				const endOfWeek = (d: Date) => { const s = startOfWeek(d); const e = new Date(s); e.setDate(s.getDate() + 6); e.setHours(23,59,59,999); return e; };
-				const startOfMonth = (d: Date) => { const x = startOfDay(d); x.setDate(1); return x; };
-				const endOfMonth = (d: Date) => { const x = startOfDay(d); x.setMonth(x.getMonth()+1, 0); x.setHours(23,59,59,999); return x; };
-
-				let rangeStart: Date;
-				let rangeEnd: Date;
-				if (mode === 'day' || mode === 'custom') {
-					rangeStart = startOfDay(ref);
-					rangeEnd = endOfDay(ref);
-				} else if (mode === 'week') {
-					rangeStart = startOfWeek(ref);
-					rangeEnd = endOfWeek(ref);
-				} else { // month
-					rangeStart = startOfMonth(ref);
-					rangeEnd = endOfMonth(ref);
-				}
+		// 回收站单独渲染（不参与状态/日期/标签筛选）
+		if (this.taskTypeFilter === 'deleted') {
+			this.renderTrashList(listContainer);
+			return;
+		}
 
-				tasks = tasks.filter(task => {
-					const dateValue = (task as any)[this.timeFieldFilter];
-					if (!dateValue) return false;
-					const taskDate = new Date(dateValue);
-					if (isNaN(taskDate.getTime())) return false;
-					return taskDate >= rangeStart && taskDate <= rangeEnd;
-				});
-			}
+		listContainer.createEl('div', { text: '加载中...', cls: 'gantt-task-empty' });
 
-			// 应用标签筛选
-			tasks = this.applyTagFilter(tasks);
+		try {
+			const tasks = this.getFilteredTasks();
 
 			// 仅保留根任务用于顶层渲染（子任务通过树形递归展示）
 			const rootTasks = tasks.filter(t => !t.parentId);
@@ -294,6 +288,7 @@ export class TaskViewRenderer extends BaseViewRenderer {
 
 			if (sortedRootTasks.length === 0) {
 				listContainer.createEl('div', { text: '未找到符合条件的任务', cls: 'gantt-task-empty' });
+				this.scrollToRevealedTask(listContainer);
 				return;
 			}
 
@@ -301,6 +296,7 @@ export class TaskViewRenderer extends BaseViewRenderer {
 			this.initDefaultExpanded(sortedRootTasks);
 
 			sortedRootTasks.forEach(task => this.renderTaskTree(task, listContainer, 0));
+			this.scrollToRevealedTask(listContainer);
 		} catch (error) {
 			Logger.error('TaskView', 'Error rendering task view', error);
 			listContainer.empty();
@@ -308,6 +304,93 @@ export class TaskViewRenderer extends BaseViewRenderer {
 		}
 	}
 
+	/**
+	 * 获取当前筛选条件（任务类型、状态、日期范围、标签）下的任务（含子任务，未排序）
+	 *
+	 * 回收站模式不适用，返回空列表。
+	 */
+	public getFilteredTasks(): GCTask[] {
+		if (this.taskTypeFilter === 'deleted') return [];
+
+		let tasks: GCTask[] = this.plugin.taskCache.getAllTasks();
+
+		// 按任务类型筛选
+		if (this.taskTypeFilter === 'archived') {
+			// 仅显示已归档任务
+			tasks = tasks.filter(t => t.archived);
+		} else {
+			// 默认排除已归档任务
+			tasks = tasks.filter(t => !t.archived);
+			if (this.taskTypeFilter === 'todo') {
+				tasks = tasks.filter(t => t.type === 'todo');
+			} else if (this.taskTypeFilter === 'reminder') {
+				tasks = tasks.filter(t => t.type === 'reminder');
+			}
+		}
+
+		// 应用状态筛选（使用基类方法）
+		tasks = this.applyStatusFilter(tasks);
+
+		// 日期范围筛选
+		const mode = this.getDateRangeMode();
+		if (mode !== 'all') {
+			const ref = this.timeValueFilter ?? new Date();
+			const startOfDay = (d: Date) => { const x = new Date(d); x.setHours(0,0,0,0); return x; };
+			const endOfDay = (d: Date) => { const x = new Date(d); x.setHours(23,59,59,999); return x; };
+			const startOfWeek = (d: Date) => { const x = startOfDay(d); const day = x.getDay(); const diff = (day + 6) % 7; x.setDate(x.getDate() - diff); return x; };
+			const endOfWeek = (d: Date) => { const s = startOfWeek(d); const e = new Date(s); e.setDate(s.getDate() + 6); e.setHours(23,59,59,999); return e; };
+			const startOfMonth = (d: Date) => { const x = startOfDay(d); x.setDate(1); return x; };
+			const endOfMonth = (d: Date) => { const x = startOfDay(d); x.setMonth(x.getMonth()+1, 0); x.setHours(23,59,59,999); return x; };
+
+			let rangeStart: Date;
+			let rangeEnd: Date;
+			if (mode === 'day' || mode === 'custom') {
+				rangeStart = startOfDay(ref);
+				rangeEnd = endOfDay(ref);
+			} else if (mode === 'week') {
+				rangeStart = startOfWeek(ref);
+				rangeEnd = endOfWeek(ref);
+			} else { // month
+				rangeStart = startOfMonth(ref);
+				rangeEnd = endOfMonth(ref);
+			}
+
+			tasks = tasks.filter(task => {
+				const dateValue = (task as any)[this.timeFieldFilter];
+				if (!dateValue) return false;
+				const taskDate = new Date(dateValue);
+				if (isNaN(taskDate.getTime())) return false;
+				return taskDate >= rangeStart && taskDate <= rangeEnd;
+			});
+		}
+
+		// 应用标签筛选
+		tasks = this.applyTagFilter(tasks);
+		// 应用查询筛选
+		tasks = this.applyQueryFilter(tasks);
+
+		return tasks;
+	}
+
+	/**
+	 * 滚动到待定位的任务并短暂高亮
+	 */
+	private scrollToRevealedTask(listContainer: HTMLElement): void {
+		const taskId = this.revealTaskId;
+		if (!taskId) return;
+		this.revealTaskId = null;
+
+		const card = Array.from(listContainer.querySelectorAll<HTMLElement>(`.${TaskCardClasses.block}`))
+			.find(el => el.dataset.taskId === taskId);
+		if (!card) {
+			new Notice('该任务被当前筛选条件隐藏（状态、日期范围、标签或查询）');
+			return;
+		}
+		card.scrollIntoView({ block: 'center' });
+		card.addClass(TaskCardClasses.modifiers.revealed);
+		window.setTimeout(() => card.removeClass(TaskCardClasses.modifiers.revealed), 2000);
+	}
+
 	/**
 	 * 初始化默认展开状态：首次加载时展开根任务的一级子任务
 	 */
@@ -366,6 +449,7 @@ export class TaskViewRenderer extends BaseViewRenderer {
 	 */
 	private renderTaskItem(task: GCTask, listContainer: HTMLElement): void {
 		const card = listContainer.createDiv({ cls: 'gc-task-card gc-task-card--task' });
+		card.dataset.taskId = task.id;
 
 		// 色带修饰符
 		const bandClass = this.getTaskBandModifier(task);
@@ -457,6 +541,94 @@ export class TaskViewRenderer extends BaseViewRenderer {
 		});
 	}
 
+	/**
+	 * 渲染回收站列表（按删除时间倒序，子任务随父任务一起显示与恢复）
+	 */
+	private renderTrashList(listContainer: HTMLElement): void {
+		const trashed: GCTask[] = this.plugin.taskCache.getTrashedTasks();
+		const trashedIds = new Set(trashed.map(t => t.id));
+		const roots = trashed
+			.filter(t => !t.parentId || !trashedIds.has(t.parentId))
+			.sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+
+		if (roots.length === 0) {
+			listContainer.createEl('div', { text: '回收站为空', cls: 'gantt-task-empty' });
+			return;
+		}
+
+		// 头部：数量 + 清空（需二次点击确认）
+		const header = listContainer.createDiv(TaskTrashClasses.header);
+		const retention = this.plugin.settings?.trashRetentionDays ?? 0;
+		header.createSpan({
+			text: retention > 0
+				? `${trashed.length} 个已删除任务，${retention} 天后自动清除`
+				: `${trashed.length} 个已删除任务`,
+			cls: TaskTrashClasses.count,
+		});
+		const emptyBtn = header.createEl('button', {
+			text: '清空回收站',
+			cls: `${TaskTrashClasses.action} ${TaskTrashClasses.actionDanger}`,
+		});
+		let confirmEmpty = false;
+		emptyBtn.addEventListener('click', async () => {
+			if (!confirmEmpty) {
+				confirmEmpty = true;
+				emptyBtn.setText('再次点击确认清空');
+				return;
+			}
+			await this.plugin.taskCache.emptyTrash();
+			this.refreshTaskList();
+		});
+
+		const countDescendants = (task: GCTask): number =>
+			(task.childIds || []).reduce((sum, id) => {
+				const child = trashed.find(t => t.id === id);
+				return child ? sum + 1 + countDescendants(child) : sum;
+			}, 0);
+
+		roots.forEach(task => {
+			const item = listContainer.createDiv({ cls: `gc-task-card gc-task-card--task ${TaskTrashClasses.item}` });
+			const mainRow = item.createDiv({ cls: 'gc-task-card__main' });
+			mainRow.createSpan({ text: task.description, cls: TaskTrashClasses.title });
+
+			const metaParts: string[] = [];
+			const descendants = countDescendants(task);
+			if (descendants > 0) {
+				metaParts.push(`含 ${descendants} 个子任务`);
+			}
+			if (task.deletedAt) {
+				metaParts.push(`删除于 ${formatDateTime(task.deletedAt)}`);
+			}
+			if (metaParts.length > 0) {
+				mainRow.createSpan({ text: metaParts.join(' · '), cls: TaskTrashClasses.meta });
+			}
+
+			const actions = mainRow.createDiv(TaskTrashClasses.actions);
+			const restoreBtn = actions.createEl('button', { text: '恢复', cls: TaskTrashClasses.action });
+			restoreBtn.addEventListener('click', async (e) => {
+				e.stopPropagation();
+				try {
+					await this.plugin.taskCache.restoreTask(task.id);
+					new Notice('任务已恢复');
+				} catch (error) {
+					Logger.error('TaskView', 'Failed to restore task', error);
+					new Notice('恢复任务失败');
+				}
+				this.refreshTaskList();
+			});
+
+			const purgeBtn = actions.createEl('button', {
+				text: '彻底删除',
+				cls: `${TaskTrashClasses.action} ${TaskTrashClasses.actionDanger}`,
+			});
+			purgeBtn.addEventListener('click', async (e) => {
+				e.stopPropagation();
+				await this.plugin.taskCache.purgeTask(task.id);
+				this.refreshTaskList();
+			});
+		});
+	}
+
 	/**
 	 * 获取色带修饰符
 	 */
@@ -0,0 +1,338 @@
+/**
+ * 键盘光标
+ *
+ * 在月/周/日/任务视图中维护一个「当前日期 + 当前任务」的游标，
+ * 由视图内快捷键和可重新绑定的 Obsidian 命令驱动（见 commands/keyboard）。
+ *
+ * 视图渲染时通过 BaseViewRenderer.markCursorDay / markCursorTask 标记可停留的元素：
+ * - 日期格：data-day="yyyy-MM-dd"
+ * - 任务元素：data-task-id
+ * 光标只保存日期和任务 ID，重新渲染后按标记重新高亮。
+ */
+
+import { App, Notice } from 'obsidian';
+import type { CalendarViewType, GCTask } from '../types';
+import { formatDate, getTodayDate } from '../dateUtils/dateUtilsIndex';
+import { cycleTaskStatus, updateTaskProperties, type TaskUpdates } from '../tasks/taskUpdater';
+import { getTaskSpan } from '../tasks/taskEmbed';
+import { openEditTaskModal } from '../modals/EditTaskModal';
+import { CreateTaskModal } from '../modals/CreateTaskModal';
+import { ViewClasses } from '../utils/bem';
+import { Logger } from '../utils/logger';
+
+export type ViewCursorAction =
+	| 'left' | 'right' | 'up' | 'down'
+	| 'next-task' | 'previous-task'
+	| 'cycle-status'
+	| 'priority-high' | 'priority-normal' | 'priority-low'
+	| 'postpone-1' | 'postpone-7'
+	| 'edit' | 'create' | 'today' | 'clear';
+
+type HotkeyModifier = 'Mod' | 'Shift' | 'Alt';
+
+export interface ViewCursorActionDefinition {
+	action: ViewCursorAction;
+	/** 命令名称 */
+	name: string;
+	/** 视图获得焦点时的默认按键 */
+	keys: Array<{ modifiers: HotkeyModifier[]; key: string }>;
+}
+
+/**
+ * 光标操作列表（同时用于注册命令和视图内默认按键）
+ */
+export const VIEW_CURSOR_ACTIONS: ViewCursorActionDefinition[] = [
+	{ action: 'left', name: '光标：前一天', keys: [{ modifiers: [], key: 'ArrowLeft' }, { modifiers: [], key: 'h' }] },
+	{ action: 'right', name: '光标：后一天', keys: [{ modifiers: [], key: 'ArrowRight' }, { modifiers: [], key: 'l' }] },
+	{ action: 'up', name: '光标：上移', keys: [{ modifiers: [], key: 'ArrowUp' }] },
+	{ action: 'down', name: '光标：下移', keys: [{ modifiers: [], key: 'ArrowDown' }] },
+	{ action: 'next-task', name: '光标：下一个任务', keys: [{ modifiers: [], key: 'j' }] },
+	{ action: 'previous-task', name: '光标：上一个任务', keys: [{ modifiers: [], key: 'k' }] },
+	{ action: 'cycle-status', name: '光标任务：切换状态', keys: [{ modifiers: [], key: 'x' }] },
+	{ action: 'priority-high', name: '光标任务：设为高优先级', keys: [{ modifiers: [], key: '1' }] },
+	{ action: 'priority-normal', name: '光标任务：设为普通优先级', keys: [{ modifiers: [], key: '2' }] },
+	{ action: 'priority-low', name: '光标任务：设为低优先级', keys: [{ modifiers: [], key: '3' }] },
+	{ action: 'postpone-1', name: '光标任务：推迟 1 天', keys: [{ modifiers: [], key: 'd' }] },
+	{ action: 'postpone-7', name: '光标任务：推迟 7 天', keys: [{ modifiers: ['Shift'], key: 'd' }] },
+	{ action: 'edit', name: '光标任务：编辑', keys: [{ modifiers: [], key: 'Enter' }, { modifiers: [], key: 'e' }] },
+	{ action: 'create', name: '在光标日期创建任务', keys: [{ modifiers: [], key: 'n' }] },
+	{ action: 'today', name: '光标：回到今天', keys: [{ modifiers: [], key: 't' }] },
+	{ action: 'clear', name: '隐藏光标', keys: [{ modifiers: [], key: 'Escape' }] },
+];
+
+/**
+ * 光标所在视图需要提供的能力（由 GCMainView 实现）
+ */
+export interface ViewCursorHost {
+	getViewType(): CalendarViewType;
+	/** 视图当前定位的日期（光标尚未放置时作为起点） */
+	getCurrentDate(): Date;
+	/** 视图内容容器（不含工具栏） */
+	getContentEl(): HTMLElement | null;
+	/** 在当前视图类型中定位到指定日期（重新渲染） */
+	showDate(date: Date): void;
+}
+
+export class ViewCursor {
+	private app: App;
+	private plugin: any;
+	private host: ViewCursorHost;
+
+	private date: Date | null = null;
+	private taskId: string | null = null;
+	/** 使用过键盘后才显示光标 */
+	private visible = false;
+	private pendingScroll = false;
+
+	constructor(app: App, plugin: any, host: ViewCursorHost) {
+		this.app = app;
+		this.plugin = plugin;
+		this.host = host;
+	}
+
+	/**
+	 * 鼠标点击时同步光标位置（不改变光标是否可见）
+	 */
+	syncFromClick(target: HTMLElement): void {
+		const taskEl = target.closest<HTMLElement>('[data-task-id]');
+		const dayEl = target.closest<HTMLElement>('[data-day]');
+		if (!taskEl && !dayEl) return;
+		if (dayEl?.dataset.day) {
+			this.date = parseDayKey(dayEl.dataset.day);
+		}
+		this.taskId = taskEl?.dataset.taskId ?? null;
+		this.apply();
+	}
+
+	/**
+	 * 重新渲染后按日期和任务 ID 恢复高亮
+	 */
+	apply(): void {
+		const content = this.host.getContentEl();
+		if (!content) return;
+		const { cursorDay, cursorTask } = ViewClasses.elements;
+		content.querySelectorAll(`.${cursorDay}, .${cursorTask}`).forEach(el => {
+			el.removeClass(cursorDay);
+			el.removeClass(cursorTask);
+		});
+		if (!this.visible) return;
+
+		const dayEl = this.findDayEl(content);
+		const taskEl = this.findTaskEl(content, dayEl);
+		dayEl?.addClass(cursorDay);
+		taskEl?.addClass(cursorTask);
+
+		if (this.pendingScroll) {
+			this.pendingScroll = false;
+			(taskEl ?? dayEl)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+		}
+	}
+
+	/**
+	 * 执行光标操作
+	 */
+	async run(action: ViewCursorAction): Promise<void> {
+		if (action === 'clear') {
+			this.visible = false;
+			this.apply();
+			return;
+		}
+		this.visible = true;
+		this.pendingScroll = true;
+		const viewType = this.host.getViewType();
+
+		switch (action) {
+			case 'left':
+			case 'right':
+				if (viewType !== 'task') this.moveDate(action === 'left' ? -1 : 1);
+				break;
+			case 'up':
+			case 'down':
+				// 月视图上下移动一周；其他视图中任务按行排列，上下切换任务
+				if (viewType === 'month') this.moveDate(action === 'up' ? -7 : 7);
+				else this.moveTask(action === 'up' ? -1 : 1);
+				break;
+			case 'next-task':
+			case 'previous-task':
+				this.moveTask(action === 'next-task' ? 1 : -1);
+				break;
+			case 'today':
+				this.taskId = null;
+				if (viewType !== 'task') this.showDate(getTodayDate());
+				break;
+			case 'create':
+				new CreateTaskModal({
+					app: this.app,
+					plugin: this.plugin,
+					targetDate: viewType === 'task' ? getTodayDate() : this.getCursorDate(),
+					onSuccess: () => this.plugin.refreshCalendarViews(),
+				}).open();
+				break;
+			default:
+				await this.runTaskAction(action);
+				break;
+		}
+		this.apply();
+	}
+
+	/**
+	 * 作用于光标所在任务的操作
+	 */
+	private async runTaskAction(action: ViewCursorAction): Promise<void> {
+		const task = this.getFocusedTask();
+		if (!task) return;
+
+		try {
+			switch (action) {
+				case 'cycle-status':
+					await cycleTaskStatus(this.app, task);
+					break;
+				case 'priority-high':
+				case 'priority-normal':
+				case 'priority-low':
+					await updateTaskProperties(this.app, task, { priority: action.slice('priority-'.length) });
+					break;
+				case 'postpone-1':
+					await this.postpone(task, 1);
+					break;
+				case 'postpone-7':
+					await this.postpone(task, 7);
+					break;
+				case 'edit':
+					openEditTaskModal(this.app, this.plugin, task, () => this.plugin.refreshCalendarViews());
+					break;
+			}
+		} catch (error) {
+			Logger.error('ViewCursor', `Failed to run ${action}`, error);
+			new Notice('更新任务失败');
+		}
+	}
+
+	/**
+	 * 开始日期和截止日期同时推迟（保留时分），光标跟随任务移动
+	 */
+	private async postpone(task: GCTask, days: number): Promise<void> {
+		const updates: TaskUpdates = {};
+		if (task.startDate) updates.startDate = addDays(task.startDate, days);
+		if (task.dueDate) updates.dueDate = addDays(task.dueDate, days);
+		if (!updates.startDate && !updates.dueDate) {
+			new Notice('该任务没有日期，无法推迟');
+			return;
+		}
+		await updateTaskProperties(this.app, task, updates);
+		if (this.host.getViewType() !== 'task') {
+			this.showDate(addDays(this.getCursorDate(), days));
+		}
+	}
+
+	private getFocusedTask(): GCTask | null {
+		if (!this.taskId) {
+			new Notice('请先用 J / K 选中任务');
+			return null;
+		}
+		const task: GCTask | undefined = this.plugin.taskCache.getTaskById(this.taskId);
+		if (!task || task.source) {
+			new Notice('该任务为只读');
+			return null;
+		}
+		return task;
+	}
+
+	/**
+	 * 按天移动光标；目标日期不在当前视图中时翻页
+	 */
+	private moveDate(days: number): void {
+		this.taskId = null;
+		this.showDate(addDays(this.getCursorDate(), days));
+	}
+
+	/**
+	 * 在光标日期的任务（任务视图中为全部任务）之间移动
+	 */
+	private moveTask(step: number): void {
+		const candidates = this.getTaskCandidates();
+		if (candidates.length === 0) {
+			this.taskId = null;
+			return;
+		}
+		const index = this.taskId ? candidates.indexOf(this.taskId) : -1;
+		const next = index === -1
+			? (step > 0 ? 0 : candidates.length - 1)
+			: Math.min(candidates.length - 1, Math.max(0, index + step));
+		this.taskId = candidates[next];
+	}
+
+	/**
+	 * 可选中的任务 ID（按 DOM 顺序去重）
+	 */
+	private getTaskCandidates(): string[] {
+		const content = this.host.getContentEl();
+		if (!content) return [];
+		const elements = Array.from(content.querySelectorAll<HTMLElement>('[data-task-id]'));
+		const dayKey = formatDate(this.getCursorDate(), 'yyyy-MM-dd');
+		const viewType = this.host.getViewType();
+
+		const ids: string[] = [];
+		for (const el of elements) {
+			const id = el.dataset.taskId;
+			if (!id || ids.includes(id)) continue;
+			if (viewType === 'month' || viewType === 'week') {
+				// 月视图任务位于日期格内；周视图任务条跨越多天，按任务日期判断
+				const owner = el.closest<HTMLElement>('[data-day]');
+				if (owner ? owner.dataset.day !== dayKey : !this.taskCoversDay(id, dayKey)) continue;
+			}
+			ids.push(id);
+		}
+		return ids;
+	}
+
+	private taskCoversDay(taskId: string, dayKey: string): boolean {
+		const task: GCTask | undefined = this.plugin.taskCache.getTaskById(taskId);
+		const span = task ? getTaskSpan(task) : null;
+		if (!span) return false;
+		return formatDate(span.start, 'yyyy-MM-dd') <= dayKey && dayKey <= formatDate(span.end, 'yyyy-MM-dd');
+	}
+
+	private showDate(date: Date): void {
+		this.date = date;
+		const content = this.host.getContentEl();
+		if (!content || !this.findDayEl(content)) {
+			this.host.showDate(date);
+		}
+	}
+
+	private getCursorDate(): Date {
+		if (this.date) return this.date;
+		// 首次使用：今天在视图中时从今天开始，否则从视图定位日期开始
+		const today = getTodayDate();
+		const content = this.host.getContentEl();
+		if (content?.querySelector(`[data-day="${formatDate(today, 'yyyy-MM-dd')}"]`)) {
+			return today;
+		}
+		const current = new Date(this.host.getCurrentDate());
+		current.setHours(0, 0, 0, 0);
+		return current;
+	}
+
+	private findDayEl(content: HTMLElement): HTMLElement | null {
+		if (this.host.getViewType() === 'task' || !this.date) return null;
+		return content.querySelector<HTMLElement>(`[data-day="${formatDate(this.date, 'yyyy-MM-dd')}"]`);
+	}
+
+	private findTaskEl(content: HTMLElement, dayEl: HTMLElement | null): HTMLElement | null {
+		if (!this.taskId) return null;
+		const selector = `[data-task-id="${CSS.escape(this.taskId)}"]`;
+		return dayEl?.querySelector<HTMLElement>(selector) ?? content.querySelector<HTMLElement>(selector);
+	}
+}
+
+function addDays(date: Date, days: number): Date {
+	const d = new Date(date);
+	d.setDate(d.getDate() + days);
+	return d;
+}
+
+function parseDayKey(key: string): Date {
+	const [year, month, day] = key.split('-').map(Number);
+	return new Date(year, month - 1, day);
+}
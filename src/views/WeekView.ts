@@ -87,6 +87,12 @@ export class WeekViewRenderer extends BaseViewRenderer {
 			Logger.error('WeekView', 'Failed to save tag filter', err));
 	}
 
+	public setQueryFilter(query: string): void {
+		super.setQueryFilter(query);
+		this.saveQueryFilter(this.SETTINGS_PREFIX).catch(err =>
+			Logger.error('WeekView', 'Failed to save query filter', err));
+	}
+
 	// ==================== 主渲染 ====================
 
 	render(container: HTMLElement, currentDate: Date, weekMode: WeekMode = 'standard'): void {
@@ -121,6 +127,7 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		const dayNames = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
 		days.forEach((day) => {
 			const dayHeader = headerRow.createDiv(WeekViewClasses.elements.headerCell);
+			this.markCursorDay(dayHeader, day.date);
 			dayHeader.createEl('div', { text: dayNames[day.weekday], cls: WeekViewClasses.elements.dayName });
 			dayHeader.createEl('div', { text: day.day.toString(), cls: WeekViewClasses.elements.dayNumber });
 			// 周视图不显示农历信息，保持简洁
@@ -242,6 +249,7 @@ export class WeekViewRenderer extends BaseViewRenderer {
 
 		// 创建单个分组 bar（使用 marginLeft 定位，保持文档流以撑开行高）
 		const bar = row.createDiv(WeekViewClasses.elements.ganttBar);
+		this.markCursorTask(bar, parentTask);
 		bar.style.marginLeft = `${leftPercent}%`;
 		bar.style.width = `${widthPercent}%`;
 		bar.addClass(WeekViewClasses.modifiers.ganttBarGroup);
@@ -349,6 +357,7 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		const hasGrandChildren = grandChildren.length > 0;
 
 		const childItem = container.createDiv(WeekViewClasses.elements.ganttBarChildItem);
+		this.markCursorTask(childItem, child);
 
 		// 按日期定位（相对于父 bar）
 		const { leftPercent, widthPercent, overflowLeft, overflowRight } = this.calculateChildBarPosition(rootParent, child);
@@ -468,6 +477,7 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		tooltipManager: TooltipManager,
 	): void {
 		const gcItem = container.createDiv(WeekViewClasses.elements.ganttBarGrandchildItem);
+		this.markCursorTask(gcItem, gc);
 
 		// 按日期定位
 		const { leftPercent, widthPercent, overflowLeft, overflowRight } = this.calculateChildBarPosition(rootParent, gc);
@@ -702,9 +712,12 @@ export class WeekViewRenderer extends BaseViewRenderer {
 	private collectWeekTasks(): GCTask[] {
 		if (!this.currentWeekStart || !this.currentWeekEnd) return [];
 
-		let tasks: GCTask[] = this.plugin.taskCache.getAllTasks();
+		let tasks: GCTask[] = this.getSourceFilteredTasks();
+		// 追加周期任务在本周的虚拟实例
+		tasks = [...tasks, ...this.getRecurrenceGhosts(tasks, this.currentWeekStart, this.currentWeekEnd)];
 		tasks = this.applyStatusFilter(tasks);
 		tasks = this.applyTagFilter(tasks);
+		tasks = this.applyQueryFilter(tasks);
 
 		const weekStartTime = this.currentWeekStart.getTime();
 		const weekEndTime = this.currentWeekEnd.getTime();
@@ -764,6 +777,7 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		const { leftPercent, widthPercent, overflowLeft, overflowRight } = this.calculateBarPosition(task);
 
 		const bar = row.createDiv(WeekViewClasses.elements.ganttBar);
+		this.markCursorTask(bar, task);
 		bar.style.left = `${leftPercent}%`;
 		if (overflowLeft) bar.addClass(WeekViewClasses.modifiers.ganttBarOverflowLeft);
 		if (overflowRight) bar.addClass(WeekViewClasses.modifiers.ganttBarOverflowRight);
@@ -785,6 +799,15 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		if (task.type === 'reminder') {
 			bar.addClass(WeekViewClasses.modifiers.ganttBarReminder);
 		}
+		// 周期任务虚拟实例标记
+		if (task.ghostOf) {
+			bar.addClass(WeekViewClasses.modifiers.ganttBarGhost);
+		}
+		// 订阅日历的只读任务
+		const readOnly = !!task.source;
+		if (readOnly) {
+			bar.addClass(WeekViewClasses.modifiers.ganttBarSubscribed);
+		}
 
 		// 展开/折叠三角（如果有子任务）
 		if (options?.showToggle) {
@@ -805,13 +828,16 @@ export class WeekViewRenderer extends BaseViewRenderer {
 				priority: task.priority || 'normal',
 				isReminder: task.type === 'reminder',
 				size: 'compact',
-				disabled: false,
+				disabled: readOnly,
 			});
 			barIcon.render(bar);
 			barIcon.onClick(async () => {
 				const tooltipManager = TooltipManager.getInstance(this.plugin);
 				tooltipManager.hide();
-				await cycleTaskStatus(this.app, task);
+				// 虚拟实例先物化再切换状态
+				const target = task.ghostOf ? await this.materializeGhost(task) : task;
+				if (!target) return;
+				await cycleTaskStatus(this.app, target);
 				this.refreshTasks();
 			});
 		}
@@ -831,9 +857,10 @@ export class WeekViewRenderer extends BaseViewRenderer {
 			tooltipManager.hide();
 		});
 
-		// 点击事件 — 打开任务编辑
+		// 点击事件 — 打开任务编辑（虚拟实例在保存时才创建）
 		bar.addEventListener('click', () => {
 			tooltipManager.hide();
+			if (readOnly) return;
 			openEditTaskModal(this.app, this.plugin, task, () => {
 				this.refreshTasks();
 			});
@@ -842,6 +869,8 @@ export class WeekViewRenderer extends BaseViewRenderer {
 
 	/**
 	 * 计算任务 bar 在 7 列中的位置
+	 *
+	 * 带具体时间（hasStartTime / hasDueTime）的日期按分钟精度定位，否则按整天计算。
 	 * @returns leftPercent, widthPercent, overflowLeft (开始在本周之前), overflowRight (结束在本周之后)
 	 */
 	private calculateBarPosition(task: GCTask): { leftPercent: number; widthPercent: number; overflowLeft: boolean; overflowRight: boolean } {
@@ -850,15 +879,22 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		const weekStartTime = this.currentWeekStart.getTime();
 		const dayMs = 24 * 60 * 60 * 1000;
 		const colWidth = 100 / 7; // ~14.2857%
+		const minTimedWidth = colWidth / 4; // 带时间的 bar 最小宽度（约 6 小时）
 
 		if (task.type === 'reminder') {
-			// 提醒：单天标记
+			// 提醒：单天标记，带时间时从当天对应时刻开始
 			if (!task.dueDate) return { leftPercent: 0, widthPercent: colWidth, overflowLeft: false, overflowRight: false };
 			const due = new Date(task.dueDate);
 			due.setHours(0, 0, 0, 0);
 			const dayIndex = Math.round((due.getTime() - weekStartTime) / dayMs);
 			const clampedIndex = Math.max(0, Math.min(6, dayIndex));
-			return { leftPercent: clampedIndex * colWidth, widthPercent: colWidth, overflowLeft: false, overflowRight: false };
+			if (!task.hasDueTime) {
+				return { leftPercent: clampedIndex * colWidth, widthPercent: colWidth, overflowLeft: false, overflowRight: false };
+			}
+			const fraction = (task.dueDate.getHours() * 60 + task.dueDate.getMinutes()) / (24 * 60);
+			const widthPercent = Math.max(minTimedWidth, colWidth * (1 - fraction));
+			const leftPercent = Math.min(clampedIndex * colWidth + fraction * colWidth, 100 - widthPercent);
+			return { leftPercent, widthPercent, overflowLeft: false, overflowRight: false };
 		}
 
 		// 待办
@@ -871,38 +907,52 @@ export class WeekViewRenderer extends BaseViewRenderer {
 		}
 
 		const start = task.startDate ? new Date(task.startDate) : (task.createdDate ? new Date(task.createdDate) : null);
-		const due = task.dueDate ? new Date(task.dueDate) : null;
-
-		if (start) start.setHours(0, 0, 0, 0);
-		if (due) due.setHours(0, 0, 0, 0);
-
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-
+		const hasStartTime = !!(task.startDate && task.hasStartTime);
+		const hasDueTime = !!(task.dueDate && task.hasDueTime);
+
+		// 全天的日期取当天 0 点
+		if (start && !hasStartTime) start.setHours(0, 0, 0, 0);
+
+		const now = new Date();
+		const todayEnd = new Date(now);
+		todayEnd.setHours(0, 0, 0, 0);
+		todayEnd.setDate(todayEnd.getDate() + 1);
+
+		// 结束时间（不含）：带时间取截止时刻，否则取截止日次日 0 点；已逾期则延伸到今天结束
+		let taskEndTime = todayEnd.getTime();
+		if (task.dueDate) {
+			const dueEnd = new Date(task.dueDate);
+			if (!hasDueTime) {
+				dueEnd.setHours(0, 0, 0, 0);
+				dueEnd.setDate(dueEnd.getDate() + 1);
+			}
+			taskEndTime = task.dueDate.getTime() < now.getTime()
+				? Math.max(dueEnd.getTime(), todayEnd.getTime())
+				: dueEnd.getTime();
+		}
 		const taskStartTime = start ? start.getTime() : weekStartTime;
-		const taskEndTime = due ? Math.max(due.getTime(), today.getTime()) : today.getTime();
 
-		// Clamp to week boundaries（weekEndTime 为周最后一天的 23:59:59.999）
+		// Clamp to week boundaries（weekEndTime 为下周第一天 0 点，不含）
+		const weekEndTime = this.currentWeekEnd ? this.currentWeekEnd.getTime() + 1 : weekStartTime + 7 * dayMs;
 		const barStartTime = Math.max(taskStartTime, weekStartTime);
-		const weekEndTime = this.currentWeekEnd ? this.currentWeekEnd.getTime() : weekStartTime + 6 * dayMs;
 		const barEndTime = Math.min(taskEndTime, weekEndTime);
 
 		// 检测溢出：任务实际范围超出当前周
 		const overflowLeft = taskStartTime < weekStartTime;
 		const overflowRight = taskEndTime > weekEndTime;
 
-		// 安全检查：如果 barEnd < barStart（如任务 start 在未来且无 due），显示单天标记
-		if (barEndTime < barStartTime) {
-			const fallbackIndex = Math.max(0, Math.min(6, Math.round((barStartTime - weekStartTime) / dayMs)));
+		// 安全检查：如果 barEnd <= barStart（如任务 start 在未来且无 due），显示单天标记
+		if (barEndTime <= barStartTime) {
+			const fallbackIndex = Math.max(0, Math.min(6, Math.floor((barStartTime - weekStartTime) / dayMs)));
 			return { leftPercent: fallbackIndex * colWidth, widthPercent: colWidth, overflowLeft: false, overflowRight: false };
 		}
 
+		const minWidth = hasStartTime || hasDueTime ? minTimedWidth : colWidth;
 		const startIndex = (barStartTime - weekStartTime) / dayMs;
-		const endIndex = (barEndTime - weekStartTime) / dayMs;
+		const span = (barEndTime - barStartTime) / dayMs;
 
-		const leftPercent = Math.min(Math.max(0, startIndex) * colWidth, 100 - colWidth);
-		const span = Math.max(1, endIndex - startIndex + 1); // at least 1 day
-		const widthPercent = Math.max(colWidth, Math.min(span * colWidth, 100 - leftPercent));
+		const leftPercent = Math.min(Math.max(0, startIndex) * colWidth, 100 - minWidth);
+		const widthPercent = Math.max(minWidth, Math.min(span * colWidth, 100 - leftPercent));
 
 		return { leftPercent, widthPercent, overflowLeft, overflowRight };
 	}